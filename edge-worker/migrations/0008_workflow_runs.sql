@@ -0,0 +1,26 @@
+-- ============================================================================
+-- WORKFLOW RUNS: History of user workflow executions
+-- Migration: 0008_workflow_runs.sql
+-- ============================================================================
+
+-- One row per execution of a user_workflows entry (manual, scheduled or event)
+CREATE TABLE IF NOT EXISTS workflow_runs (
+  id TEXT PRIMARY KEY, -- Scheduled/event runs use workflow id + tick/event id, so a repeated trigger is ignored
+  workflow_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  workflow_name TEXT NOT NULL, -- Kept so history still reads after the workflow is deleted
+  trigger_type TEXT NOT NULL CHECK(trigger_type IN ('manual', 'scheduled', 'event')),
+  trigger_detail TEXT, -- Cron expression or event type
+  status TEXT NOT NULL CHECK(status IN ('running', 'succeeded', 'failed')),
+  summary TEXT, -- "Monday briefing ran at 08:00: found 4 events, 3 conflicts"
+  steps TEXT, -- JSON: [{action: 'list_events', status: 'succeeded', summary: '...', data: {...}}]
+  error TEXT,
+  started_at TIMESTAMP NOT NULL,
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX idx_workflow_runs_user_started
+  ON workflow_runs(user_id, started_at DESC);
+
+CREATE INDEX idx_workflow_runs_workflow_started
+  ON workflow_runs(workflow_id, started_at DESC);
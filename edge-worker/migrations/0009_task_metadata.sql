@@ -0,0 +1,8 @@
+-- ============================================================================
+-- TASK METADATA: Source and linked calendar event of a task
+-- Migration: 0009_task_metadata.sql
+-- ============================================================================
+
+-- JSON TaskMetadata: {source?: 'calendar' | 'chat' | 'manual', relatedEventId?: string, tags?: string[]}
+-- relatedEventId is set when a task is extracted from an event or an event is created for it
+ALTER TABLE tasks ADD COLUMN metadata TEXT;
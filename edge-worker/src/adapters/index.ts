@@ -4,6 +4,10 @@
 
 // LLM
 export { WorkersAIAdapter } from './llm/workers-ai.adapter';
+export { OpenAICompatibleAdapter } from './llm/openai-compatible.adapter';
+export { RoutedLLMAdapter, createLLMPort } from './llm/routed-llm.adapter';
+export { ModelRouter } from './llm/model-router';
+export { WorkersAIEmbeddingAdapter } from './llm/workers-ai-embedding.adapter';
 
 // MCP
 export { DuffelFlightAdapter } from './mcp/flights.adapter';
@@ -13,3 +17,4 @@ export { GoogleCalendarAdapter } from './mcp/calendar.adapter';
 export { D1ChatAdapter } from './persistence/d1-chat.adapter';
 export { D1TaskAdapter } from './persistence/d1-task.adapter';
 export { D1EventLogAdapter } from './persistence/d1-event-log.adapter';
+export { VectorizeIndexAdapter } from './persistence/vectorize-index.adapter';
@@ -0,0 +1,189 @@
+/**
+ * Fake LLM - Deterministic, scripted stand-in for Workers AI
+ *
+ * Each model call consumes the next FakeLLMStep from a script, so a conversation
+ * replays the same way every run. A step can stream text in fixed chunks (including
+ * Python-style `<|python_tag|>` calls or bare JSON tool calls, which LLMHandler must
+ * parse out of the text) and/or return structured tool_calls.
+ *
+ * Two entry points share the script:
+ * - FakeWorkersAI implements the env.AI.run binding, emitting the same SSE bytes as Workers AI
+ * - FakeLLMAdapter implements ILLMPort directly
+ */
+
+import { ILLMPort, LLMCompletionRequest, LLMCompletionResponse, LLMStreamChunk, ToolCall } from '../../domain/chat/ports/llm.port';
+
+export interface FakeLLMToolCall {
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export interface FakeLLMStep {
+	chunks?: string[]; // Streamed in this order; joined for non-streaming calls
+	text?: string; // Shorthand for a single chunk
+	toolCalls?: FakeLLMToolCall[]; // Structured tool calls (sent on the last stream event)
+	toolCallPerEvent?: boolean; // Stream each structured tool call on its own event instead, as some models do
+	tokenCount?: number;
+}
+
+export interface FakeLLMScript {
+	steps: FakeLLMStep[];
+}
+
+export interface FakeLLMCall {
+	model: string;
+	input: Record<string, unknown>;
+}
+
+export class FakeLLMScriptExhaustedError extends Error {
+	constructor(callNumber: number) {
+		super(`Fake LLM script has no step for model call #${callNumber}`);
+		this.name = 'FakeLLMScriptExhaustedError';
+	}
+}
+
+/**
+ * Hands out script steps in order and records every call
+ */
+class FakeLLMScriptPlayer {
+	readonly calls: FakeLLMCall[] = [];
+	private nextStep = 0;
+
+	constructor(private readonly steps: FakeLLMStep[]) {}
+
+	next(model: string, input: Record<string, unknown>): FakeLLMStep {
+		this.calls.push({ model, input });
+		const step = this.steps[this.nextStep];
+		if (!step) {
+			throw new FakeLLMScriptExhaustedError(this.calls.length);
+		}
+		this.nextStep += 1;
+		return step;
+	}
+
+	append(steps: FakeLLMStep[]): void {
+		this.steps.push(...steps);
+	}
+
+	get remaining(): number {
+		return this.steps.length - this.nextStep;
+	}
+}
+
+function stepChunks(step: FakeLLMStep): string[] {
+	return step.chunks ?? (step.text !== undefined ? [step.text] : []);
+}
+
+function toToolCalls(step: FakeLLMStep): ToolCall[] {
+	return (step.toolCalls ?? []).map((call, index) => ({
+		id: `fake_call_${index + 1}`,
+		type: 'function',
+		function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+	}));
+}
+
+/**
+ * env.AI binding replacement: returns { response, tool_calls, usage } or an SSE byte stream
+ */
+export class FakeWorkersAI {
+	private readonly player: FakeLLMScriptPlayer;
+
+	constructor(script: FakeLLMScript) {
+		this.player = new FakeLLMScriptPlayer([...script.steps]);
+	}
+
+	get calls(): FakeLLMCall[] {
+		return this.player.calls;
+	}
+
+	get remainingSteps(): number {
+		return this.player.remaining;
+	}
+
+	append(steps: FakeLLMStep[]): void {
+		this.player.append(steps);
+	}
+
+	async run(model: string, input: Record<string, unknown>): Promise<unknown> {
+		const step = this.player.next(model, input);
+		const chunks = stepChunks(step);
+		const usage = step.tokenCount !== undefined ? { total_tokens: step.tokenCount } : undefined;
+		const toolCalls = (step.toolCalls ?? []).map((call) => ({ name: call.name, arguments: call.arguments }));
+
+		if (!input.stream) {
+			return { response: chunks.join(''), ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}), ...(usage ? { usage } : {}) };
+		}
+
+		const encoder = new TextEncoder();
+		const events = chunks.map((chunk) => ({ response: chunk }));
+		if (step.toolCallPerEvent) {
+			events.push(...toolCalls.map((call) => ({ response: '', tool_calls: [call] }) as any));
+			if (usage) events.push({ response: '', usage } as any);
+		} else if (toolCalls.length > 0 || usage) {
+			events.push({ response: '', ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}), ...(usage ? { usage } : {}) } as any);
+		}
+
+		return new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (const event of events) {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+				}
+				controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+				controller.close();
+			},
+		});
+	}
+}
+
+/**
+ * ILLMPort replacement for code that takes the port directly (services, workflows)
+ */
+export class FakeLLMAdapter implements ILLMPort {
+	readonly requests: LLMCompletionRequest[] = [];
+	private readonly player: FakeLLMScriptPlayer;
+
+	constructor(
+		script: FakeLLMScript,
+		private readonly model: string = 'fake-llm',
+	) {
+		this.player = new FakeLLMScriptPlayer([...script.steps]);
+	}
+
+	get remainingSteps(): number {
+		return this.player.remaining;
+	}
+
+	async generateCompletion(request: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+		this.requests.push(request);
+		const step = this.player.next(request.model ?? this.model, { ...request });
+		const toolCalls = toToolCalls(step);
+
+		return {
+			content: stepChunks(step).join(''),
+			tokenCount: step.tokenCount ?? 0,
+			model: request.model ?? this.model,
+			tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+			finish_reason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+		};
+	}
+
+	async *streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<LLMStreamChunk> {
+		this.requests.push(request);
+		const step = this.player.next(request.model ?? this.model, { ...request, stream: true });
+
+		for (const chunk of stepChunks(step)) {
+			if (request.signal?.aborted) break;
+			yield { delta: chunk, done: false };
+		}
+
+		const toolCalls = toToolCalls(step);
+		if (step.toolCallPerEvent) {
+			for (const toolCall of toolCalls) {
+				yield { delta: '', tool_calls: [toolCall], done: false };
+			}
+			yield { delta: '', tokenCount: step.tokenCount, done: true };
+			return;
+		}
+		yield { delta: '', tool_calls: toolCalls.length > 0 ? toolCalls : undefined, tokenCount: step.tokenCount, done: true };
+	}
+}
@@ -0,0 +1,89 @@
+/**
+ * Model Router - Picks a provider and model for each LLM use case
+ *
+ * Intent classification needs a fast, cheap answer; planning and ranking benefit from the 70B.
+ * Routes come from DEFAULT_MODEL_ROUTES, the chat model from WORKERS_AI_MODEL_ID, and
+ * per-use-case overrides from LLM_MODEL_ROUTES, a JSON object such as:
+ *   {"intent_classification": "@cf/meta/llama-3.1-8b-instruct-fast", "daily_planning": "openai:gpt-4o-mini"}
+ * Values without a provider prefix are Workers AI models.
+ */
+
+import { WorkerEnv, getModelId } from '../../env';
+import { LLMUseCase } from '../../domain/chat/ports/llm.port';
+import { Logger } from '../../observability/logger';
+import { DEFAULT_WORKERS_AI_MODEL } from './workers-ai.adapter';
+
+export type LLMProvider = 'workers-ai' | 'openai';
+
+export interface ModelRoute {
+	provider: LLMProvider;
+	model: string;
+}
+
+export type ModelRoutes = Record<LLMUseCase, ModelRoute>;
+
+const LARGE_MODEL = DEFAULT_WORKERS_AI_MODEL;
+const SMALL_MODEL = '@cf/meta/llama-3.1-8b-instruct-fast';
+
+export const DEFAULT_MODEL_ROUTES: ModelRoutes = {
+	chat: { provider: 'workers-ai', model: LARGE_MODEL },
+	intent_classification: { provider: 'workers-ai', model: SMALL_MODEL },
+	flight_ranking: { provider: 'workers-ai', model: LARGE_MODEL },
+	task_extraction: { provider: 'workers-ai', model: LARGE_MODEL },
+	daily_planning: { provider: 'workers-ai', model: LARGE_MODEL },
+	conversation_summary: { provider: 'workers-ai', model: SMALL_MODEL },
+};
+
+const PROVIDER_PREFIXES: LLMProvider[] = ['workers-ai', 'openai'];
+
+/**
+ * Parse "provider:model" (or a bare Workers AI model id) into a route
+ */
+export function parseModelRoute(value: string): ModelRoute {
+	for (const provider of PROVIDER_PREFIXES) {
+		if (value.startsWith(`${provider}:`)) {
+			return { provider, model: value.slice(provider.length + 1) };
+		}
+	}
+	return { provider: 'workers-ai', model: value };
+}
+
+/**
+ * Build routes from environment variables, falling back to defaults.
+ * Invalid LLM_MODEL_ROUTES is logged and ignored rather than failing requests.
+ */
+export function loadModelRoutes(env: WorkerEnv, logger: Logger = new Logger('model-router')): ModelRoutes {
+	const routes: ModelRoutes = {
+		...DEFAULT_MODEL_ROUTES,
+		chat: parseModelRoute(getModelId(env)),
+	};
+
+	if (!env.LLM_MODEL_ROUTES) {
+		return routes;
+	}
+
+	try {
+		const overrides = JSON.parse(env.LLM_MODEL_ROUTES) as Record<string, unknown>;
+		for (const [useCase, value] of Object.entries(overrides)) {
+			if (!(useCase in DEFAULT_MODEL_ROUTES) || typeof value !== 'string' || !value.trim()) {
+				logger.warn('Ignoring invalid model route', { metadata: { useCase, value } });
+				continue;
+			}
+			routes[useCase as LLMUseCase] = parseModelRoute(value.trim());
+		}
+	} catch (error) {
+		logger.warn('LLM_MODEL_ROUTES is not valid JSON, using default routes', {
+			metadata: { error: error instanceof Error ? error.message : String(error) },
+		});
+	}
+
+	return routes;
+}
+
+export class ModelRouter {
+	constructor(private readonly routes: ModelRoutes = DEFAULT_MODEL_ROUTES) {}
+
+	resolve(useCase: LLMUseCase = 'chat'): ModelRoute {
+		return this.routes[useCase] ?? this.routes.chat;
+	}
+}
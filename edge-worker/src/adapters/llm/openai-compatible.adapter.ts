@@ -0,0 +1,196 @@
+/**
+ * OpenAICompatibleAdapter - LLM Adapter for OpenAI-compatible HTTP APIs
+ *
+ * Implements ILLMPort against POST {baseUrl}/chat/completions, the API shape served by
+ * OpenAI, vLLM, Ollama, llama.cpp server and similar. Tests point it at a local stand-in server.
+ */
+
+import { ILLMPort, LLMCompletionRequest, LLMCompletionResponse, LLMStreamChunk, ToolCall } from '../../domain/chat/ports/llm.port';
+import { Logger } from '../../observability/logger';
+import { withRetry } from '../../infrastructure/retry';
+
+export interface OpenAICompatibleConfig {
+	baseUrl: string; // e.g. https://api.openai.com/v1 or http://127.0.0.1:8080/v1
+	apiKey?: string;
+	defaultModel: string;
+	fetch?: typeof fetch; // Injectable for tests
+}
+
+export class OpenAICompatibleError extends Error {
+	constructor(
+		public readonly status: number,
+		body: string,
+	) {
+		super(`OpenAI-compatible API returned ${status}: ${body.substring(0, 200)}`);
+		this.name = 'OpenAICompatibleError';
+	}
+}
+
+export class OpenAICompatibleAdapter implements ILLMPort {
+	private readonly fetchFn: typeof fetch;
+
+	constructor(
+		private readonly config: OpenAICompatibleConfig,
+		private readonly logger: Logger,
+	) {
+		this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	async generateCompletion(request: LLMCompletionRequest, correlationId: string): Promise<LLMCompletionResponse> {
+		const startTime = Date.now();
+		const model = request.model ?? this.config.defaultModel;
+
+		try {
+			const response = await withRetry(
+				() => this.post(this.buildBody(request, model, false), request.signal),
+				{
+					maxAttempts: 3,
+					initialDelayMs: 100,
+					maxDelayMs: 1000,
+					backoffMultiplier: 2,
+					retryableErrors: (error) =>
+						!request.signal?.aborted && (!(error instanceof OpenAICompatibleError) || error.status === 429 || error.status >= 500),
+				},
+				this.logger,
+				{ correlationId, operation: 'OpenAICompatibleAdapter.generateCompletion' },
+			);
+			const data = (await response.json()) as any;
+
+			const choice = data?.choices?.[0];
+			const toolCalls: ToolCall[] = Array.isArray(choice?.message?.tool_calls) ? choice.message.tool_calls : [];
+			const tokenCount = typeof data?.usage?.total_tokens === 'number' ? data.usage.total_tokens : 0;
+
+			this.logger.info('LLM completion generated', {
+				correlationId,
+				metadata: {
+					model,
+					useCase: request.useCase ?? 'chat',
+					tokenCount,
+					latencyMs: Date.now() - startTime,
+					toolCallsCount: toolCalls.length,
+				},
+			});
+
+			return {
+				content: typeof choice?.message?.content === 'string' ? choice.message.content : '',
+				tokenCount,
+				model: data?.model ?? model,
+				tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+				finish_reason: choice?.finish_reason ?? 'stop',
+			};
+		} catch (error) {
+			this.logger.error('LLM completion failed', error as Error, { correlationId, metadata: { model } });
+			throw error;
+		}
+	}
+
+	/**
+	 * Tool calls stream as fragments keyed by index (arguments arrive in pieces),
+	 * so they are assembled and emitted once the stream ends.
+	 */
+	async *streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<LLMStreamChunk> {
+		const model = request.model ?? this.config.defaultModel;
+		const response = await this.post(this.buildBody(request, model, true), request.signal);
+		if (!response.body) {
+			throw new OpenAICompatibleError(response.status, 'empty stream body');
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		const pendingToolCalls = new Map<number, { id?: string; name: string; arguments: string }>();
+		let buffer = '';
+		let tokenCount: number | undefined;
+
+		while (true) {
+			const { value, done } = await reader.read().catch((error) => {
+				// Cancelling makes the pending read reject; anything else is a failed stream
+				if (request.signal?.aborted) return { value: undefined, done: true as const };
+				throw error;
+			});
+			if (done || request.signal?.aborted) break;
+			if (!value) continue;
+			buffer += decoder.decode(value, { stream: true });
+
+			let separatorIndex: number;
+			while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+				const rawEvent = buffer.slice(0, separatorIndex).trim();
+				buffer = buffer.slice(separatorIndex + 2);
+
+				if (!rawEvent.startsWith('data:')) continue;
+				const json = rawEvent.slice(5).trim();
+				if (json === '[DONE]') continue;
+
+				let event: any;
+				try {
+					event = JSON.parse(json);
+				} catch (e) {
+					this.logger.debug('Error parsing OpenAI-compatible stream event', { metadata: { model, error: String(e) } });
+					continue;
+				}
+
+				if (typeof event?.usage?.total_tokens === 'number') {
+					tokenCount = event.usage.total_tokens;
+				}
+
+				const delta = event?.choices?.[0]?.delta;
+				for (const fragment of Array.isArray(delta?.tool_calls) ? delta.tool_calls : []) {
+					const index = typeof fragment.index === 'number' ? fragment.index : pendingToolCalls.size;
+					const pending = pendingToolCalls.get(index) ?? { name: '', arguments: '' };
+					pending.id = fragment.id ?? pending.id;
+					pending.name += fragment.function?.name ?? '';
+					pending.arguments += fragment.function?.arguments ?? '';
+					pendingToolCalls.set(index, pending);
+				}
+
+				if (typeof delta?.content === 'string' && delta.content) {
+					yield { delta: delta.content, done: false };
+				}
+			}
+		}
+
+		if (request.signal?.aborted) {
+			reader.cancel().catch(() => {});
+			yield { delta: '', tokenCount, done: true };
+			return;
+		}
+
+		const toolCalls: ToolCall[] = [...pendingToolCalls.entries()]
+			.sort(([a], [b]) => a - b)
+			.map(([, call]) => ({
+				id: call.id ?? crypto.randomUUID(),
+				type: 'function' as const,
+				function: { name: call.name, arguments: call.arguments || '{}' },
+			}));
+
+		yield { delta: '', tool_calls: toolCalls.length > 0 ? toolCalls : undefined, tokenCount, done: true };
+	}
+
+	private buildBody(request: LLMCompletionRequest, model: string, stream: boolean): Record<string, unknown> {
+		return {
+			model,
+			messages: request.messages,
+			temperature: request.temperature ?? 0.7,
+			max_tokens: request.maxTokens ?? 512,
+			stream,
+			...(stream ? { stream_options: { include_usage: true } } : {}),
+			...(request.tools && request.tools.length > 0 ? { tools: request.tools, tool_choice: request.tool_choice ?? 'auto' } : {}),
+		};
+	}
+
+	private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+		const response = await this.fetchFn(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+			},
+			body: JSON.stringify(body),
+			signal,
+		});
+
+		if (!response.ok) {
+			throw new OpenAICompatibleError(response.status, await response.text().catch(() => ''));
+		}
+		return response;
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * RoutedLLMAdapter - ILLMPort that dispatches each request to a provider adapter
+ *
+ * The ModelRouter maps request.useCase to a provider and model; callers only say what
+ * the completion is for. createLLMPort wires the adapters configured in the environment.
+ */
+
+import { WorkerEnv } from '../../env';
+import { ILLMPort, LLMCompletionRequest, LLMCompletionResponse, LLMStreamChunk } from '../../domain/chat/ports/llm.port';
+import { Logger } from '../../observability/logger';
+import { WorkersAIAdapter } from './workers-ai.adapter';
+import { OpenAICompatibleAdapter } from './openai-compatible.adapter';
+import { LLMProvider, ModelRouter, loadModelRoutes } from './model-router';
+
+export class RoutedLLMAdapter implements ILLMPort {
+	constructor(
+		private readonly providers: Partial<Record<LLMProvider, ILLMPort>>,
+		private readonly router: ModelRouter,
+		private readonly logger: Logger,
+	) {}
+
+	generateCompletion(request: LLMCompletionRequest, correlationId: string): Promise<LLMCompletionResponse> {
+		const { adapter, routed } = this.route(request);
+		return adapter.generateCompletion(routed, correlationId);
+	}
+
+	streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<LLMStreamChunk> {
+		const { adapter, routed } = this.route(request);
+		return adapter.streamCompletion(routed);
+	}
+
+	private route(request: LLMCompletionRequest): { adapter: ILLMPort; routed: LLMCompletionRequest } {
+		const route = this.router.resolve(request.useCase);
+		const adapter = this.providers[route.provider];
+
+		if (!adapter) {
+			throw new Error(`No LLM provider configured for ${route.provider} (use case: ${request.useCase ?? 'chat'})`);
+		}
+
+		this.logger.debug('Routed LLM request', {
+			metadata: { useCase: request.useCase ?? 'chat', provider: route.provider, model: request.model ?? route.model },
+		});
+
+		return { adapter, routed: { ...request, model: request.model ?? route.model } };
+	}
+}
+
+/**
+ * Build the ILLMPort used by the worker, workflows and ChatSessionDO.
+ * The OpenAI-compatible provider is only available when OPENAI_COMPATIBLE_BASE_URL is set.
+ */
+export function createLLMPort(env: WorkerEnv, logger: Logger): ILLMPort {
+	const routes = loadModelRoutes(env, logger);
+	const providers: Partial<Record<LLMProvider, ILLMPort>> = {
+		'workers-ai': new WorkersAIAdapter(env.AI as any, logger, routes.chat.provider === 'workers-ai' ? routes.chat.model : undefined),
+	};
+
+	if (env.OPENAI_COMPATIBLE_BASE_URL) {
+		providers.openai = new OpenAICompatibleAdapter(
+			{
+				baseUrl: env.OPENAI_COMPATIBLE_BASE_URL,
+				apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+				defaultModel: routes.chat.provider === 'openai' ? routes.chat.model : 'gpt-4o-mini',
+			},
+			logger,
+		);
+	}
+
+	return new RoutedLLMAdapter(providers, new ModelRouter(routes), logger);
+}
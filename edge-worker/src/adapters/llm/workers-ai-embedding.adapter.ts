@@ -0,0 +1,51 @@
+/**
+ * WorkersAIEmbeddingAdapter - Text embeddings using Cloudflare Workers AI
+ *
+ * Implements IEmbeddingPort with a BGE model. Texts are sent in batches the model accepts
+ * and trimmed to roughly its 512 token input window.
+ */
+
+import { Ai } from '@cloudflare/workers-types';
+import { IEmbeddingPort } from '../../domain/memory/ports/IEmbeddingPort';
+import { Logger } from '../../observability/logger';
+import { withRetry } from '../../infrastructure/retry';
+
+export const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5'; // 768 dimensions
+export const EMBEDDING_DIMENSIONS = 768;
+
+const MAX_BATCH = 100;
+const MAX_INPUT_CHARS = 2000;
+
+export class WorkersAIEmbeddingAdapter implements IEmbeddingPort {
+	constructor(
+		private readonly ai: Ai,
+		private readonly logger: Logger,
+		private readonly model: string = DEFAULT_EMBEDDING_MODEL,
+	) {}
+
+	async embed(texts: string[], correlationId?: string): Promise<number[][]> {
+		const vectors: number[][] = [];
+
+		for (let start = 0; start < texts.length; start += MAX_BATCH) {
+			const batch = texts.slice(start, start + MAX_BATCH).map((text) => text.slice(0, MAX_INPUT_CHARS));
+			const response = (await withRetry(
+				() => this.ai.run(this.model as any, { text: batch }),
+				{
+					maxAttempts: 3,
+					initialDelayMs: 100,
+					maxDelayMs: 1000,
+					backoffMultiplier: 2,
+				},
+				this.logger,
+				{ correlationId, operation: 'WorkersAIEmbeddingAdapter.embed' },
+			)) as { data?: number[][] };
+
+			if (!Array.isArray(response?.data) || response.data.length !== batch.length) {
+				throw new Error(`Embedding model ${this.model} returned ${response?.data?.length ?? 0} vectors for ${batch.length} texts`);
+			}
+			vectors.push(...response.data);
+		}
+
+		return vectors;
+	}
+}
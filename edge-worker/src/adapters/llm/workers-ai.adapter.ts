@@ -6,97 +6,190 @@
  */
 
 import { Ai } from '@cloudflare/workers-types';
-import { ILLMPort, LLMCompletionRequest, LLMCompletionResponse, ToolCall } from '../../domain/chat/ports/llm.port';
+import { ILLMPort, LLMCompletionRequest, LLMCompletionResponse, LLMStreamChunk, ToolCall } from '../../domain/chat/ports/llm.port';
 import { Logger } from '../../observability/logger';
 import { withRetry } from '../../infrastructure/retry';
 
+export const DEFAULT_WORKERS_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
 export class WorkersAIAdapter implements ILLMPort {
 	constructor(
 		private readonly ai: Ai,
 		private readonly logger: Logger,
+		private readonly defaultModel: string = DEFAULT_WORKERS_AI_MODEL,
 	) {}
 
 	async generateCompletion(request: LLMCompletionRequest, correlationId: string): Promise<LLMCompletionResponse> {
 		const startTime = Date.now();
+		const model = request.model ?? this.defaultModel;
 
 		try {
-			const aiRequest: Record<string, unknown> = {
-				messages: request.messages,
-				temperature: request.temperature ?? 0.7,
-				max_tokens: request.maxTokens ?? 512,
-				stream: false,
-			};
-
-			// Add tools if provided
-			if (request.tools && request.tools.length > 0) {
-				aiRequest.tools = request.tools;
-				aiRequest.tool_choice = request.tool_choice ?? 'auto';
-			}
+			const aiRequest = this.buildRequest(request, false);
 
 			// Call Workers AI with Retry
 			const response = (await withRetry(
-				() => this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', aiRequest),
+				() => abortable(this.ai.run(model as any, aiRequest), request.signal),
 				{
 					maxAttempts: 3,
 					initialDelayMs: 100,
 					maxDelayMs: 1000,
 					backoffMultiplier: 2,
+					retryableErrors: () => !request.signal?.aborted,
 				},
 				this.logger,
 				{ correlationId, operation: 'WorkersAIAdapter.generateCompletion' },
 			)) as any;
 
 			const latency = Date.now() - startTime;
+			const toolCalls = normalizeToolCalls(response?.tool_calls);
+			const tokenCount = extractTokenCount(response) ?? 0;
 
 			this.logger.info('LLM completion generated', {
 				correlationId,
 				metadata: {
-					model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
-					tokenCount: response.token_count || 0,
+					model,
+					useCase: request.useCase ?? 'chat',
+					tokenCount,
 					latencyMs: latency,
-					toolCallsCount: response.tool_calls?.length || 0,
+					toolCallsCount: toolCalls.length,
 				},
 			});
 
 			return {
-				content: response.response || '',
-				tokenCount: response.token_count || 0,
-				model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
-				tool_calls: response.tool_calls,
-				finish_reason: response.finish_reason,
+				content: typeof response?.response === 'string' ? response.response : '',
+				tokenCount,
+				model,
+				tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+				finish_reason: toolCalls.length > 0 ? 'tool_calls' : (response?.finish_reason ?? 'stop'),
 			};
 		} catch (error) {
-			this.logger.error('LLM completion failed', error as Error, { correlationId });
+			this.logger.error('LLM completion failed', error as Error, { correlationId, metadata: { model } });
 			throw error;
 		}
 	}
 
-	async *streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<{
-		delta: string;
-		tool_calls?: ToolCall[];
-		done: boolean;
-	}> {
+	/**
+	 * Workers AI streams SSE bytes (`data: {...}`) rather than objects.
+	 * Some models send the full response so far in each event instead of a delta, so both are normalised to deltas.
+	 */
+	async *streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<LLMStreamChunk> {
+		const model = request.model ?? this.defaultModel;
+		const stream = (await this.ai.run(model as any, this.buildRequest(request, true))) as unknown as ReadableStream<Uint8Array>;
+
+		const reader = stream.getReader();
+		const decoder = new TextDecoder();
+		const onAbort = () => {
+			reader.cancel().catch(() => {});
+		};
+		if (request.signal?.aborted) onAbort();
+		request.signal?.addEventListener('abort', onAbort, { once: true });
+
+		let buffer = '';
+		let lastResponse = '';
+		let tokenCount: number | undefined;
+
+		try {
+			while (true) {
+				const { value, done } = await reader.read().catch((error) => {
+					// Cancelling makes the pending read reject; anything else is a failed stream
+					if (request.signal?.aborted) return { value: undefined, done: true as const };
+					throw error;
+				});
+				if (done || request.signal?.aborted) break;
+				if (!value) continue;
+				buffer += decoder.decode(value, { stream: true });
+
+				let separatorIndex: number;
+				while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+					const rawEvent = buffer.slice(0, separatorIndex).trim();
+					buffer = buffer.slice(separatorIndex + 2);
+
+					if (!rawEvent.startsWith('data: ')) continue;
+					const json = rawEvent.slice(6);
+					if (json === '[DONE]') continue;
+
+					let event: any;
+					try {
+						event = JSON.parse(json);
+					} catch (e) {
+						this.logger.debug('Error parsing AI stream event', { metadata: { model, error: String(e) } });
+						continue;
+					}
+
+					tokenCount = extractTokenCount(event) ?? tokenCount;
+					const toolCalls = normalizeToolCalls(event.tool_calls);
+
+					const full = typeof event.response === 'string' ? event.response : '';
+					const delta = lastResponse && full.startsWith(lastResponse) ? full.slice(lastResponse.length) : full;
+					if (full) lastResponse = full;
+
+					if (delta || toolCalls.length > 0) {
+						yield { delta, tool_calls: toolCalls.length > 0 ? toolCalls : undefined, done: false };
+					}
+				}
+			}
+		} finally {
+			request.signal?.removeEventListener('abort', onAbort);
+		}
+
+		yield { delta: '', tokenCount, done: true };
+	}
+
+	private buildRequest(request: LLMCompletionRequest, stream: boolean): Record<string, unknown> {
 		const aiRequest: Record<string, unknown> = {
-			messages: request.messages,
+			// Assistant tool_calls are for OpenAI-compatible providers; Workers AI reads the tool messages that follow
+			messages: request.messages.map(({ tool_calls: _toolCalls, ...message }) => message),
 			temperature: request.temperature ?? 0.7,
 			max_tokens: request.maxTokens ?? 512,
-			stream: true,
+			stream,
 		};
 
-		// Add tools if provided
+		// Workers AI takes the flat { name, description, parameters } tool shape
 		if (request.tools && request.tools.length > 0) {
-			aiRequest.tools = request.tools;
-			aiRequest.tool_choice = request.tool_choice ?? 'auto';
+			aiRequest.tools = request.tools.map((tool) => tool.function);
 		}
 
-		const stream = (await this.ai.run('@cf/meta/llama-3.3-70b-instruct-fp8-fast', aiRequest)) as any;
-
-		for await (const chunk of stream) {
-			yield {
-				delta: chunk.response || '',
-				tool_calls: chunk.tool_calls,
-				done: chunk.done || false,
-			};
-		}
+		return aiRequest;
 	}
 }
+
+/**
+ * The AI binding takes no AbortSignal, so a cancelled call is abandoned rather than awaited
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(signal.reason);
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Workers AI reports usage on non-streaming results and on the last stream event
+ */
+function extractTokenCount(result: any): number | undefined {
+	const total = result?.usage?.total_tokens ?? result?.token_count;
+	return typeof total === 'number' ? total : undefined;
+}
+
+/**
+ * Workers AI returns { name, arguments: object } (sometimes a single object); convert to OpenAI-style ToolCall
+ */
+function normalizeToolCalls(raw: unknown): ToolCall[] {
+	const calls: any[] = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? [raw] : [];
+
+	return calls
+		.map((call) => (call?.function ? { ...call.function, id: call.id } : call))
+		.filter((call) => call && typeof call.name === 'string')
+		.map((call) => ({
+			id: call.id ?? crypto.randomUUID(),
+			type: 'function' as const,
+			function: {
+				name: call.name,
+				arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+			},
+		}));
+}
@@ -0,0 +1,82 @@
+/**
+ * Calendar provider selection
+ *
+ * CALENDAR_PROVIDER picks the ICalendarPort behind the calendar tools:
+ * - "google": GoogleCalendarAdapter via the google-calendar-mcp server at GOOGLE_CALENDAR_MCP_URL
+ * - "fixture": FixtureCalendarAdapter's canned events (only when set explicitly; writes are not stored)
+ * Unset, it is "google" when GOOGLE_CALENDAR_MCP_URL is configured. With neither, there is no calendar:
+ * every call fails with CalendarNotConfiguredError, which the calendar tools report to the model.
+ */
+
+import { WorkerEnv } from '../../env';
+import { CalendarEventInput, CalendarEventQuery, ICalendarPort } from '../../domain/calendar/ports/calendar.port';
+import { CalendarEvent } from '../../domain/calendar/entities/calendar-event.entity';
+import { Logger } from '../../observability/logger';
+import { GoogleCalendarAdapter } from './calendar.adapter';
+import { FIXTURE_CALENDAR_PROVIDER, FixtureCalendarAdapter } from './fixture-calendar.adapter';
+
+export const CALENDAR_PROVIDERS = ['google', FIXTURE_CALENDAR_PROVIDER] as const;
+export type CalendarProvider = (typeof CALENDAR_PROVIDERS)[number];
+
+export class CalendarNotConfiguredError extends Error {
+	constructor() {
+		super('Calendar not configured: set GOOGLE_CALENDAR_MCP_URL, or CALENDAR_PROVIDER=fixture for demo events');
+		this.name = 'CalendarNotConfiguredError';
+	}
+}
+
+/**
+ * The provider named by config, or null when no calendar is configured
+ */
+export function selectCalendarProvider(env: Pick<WorkerEnv, 'CALENDAR_PROVIDER' | 'GOOGLE_CALENDAR_MCP_URL'>): CalendarProvider | null {
+	const configured = env.CALENDAR_PROVIDER?.trim().toLowerCase();
+	if (!configured) {
+		return env.GOOGLE_CALENDAR_MCP_URL ? 'google' : null;
+	}
+
+	const provider = CALENDAR_PROVIDERS.find((p) => p === configured);
+	if (!provider) {
+		throw new Error(`Unknown CALENDAR_PROVIDER "${env.CALENDAR_PROVIDER}" (expected ${CALENDAR_PROVIDERS.join(' or ')})`);
+	}
+	if (provider === 'google' && !env.GOOGLE_CALENDAR_MCP_URL) {
+		throw new Error('CALENDAR_PROVIDER "google" requires GOOGLE_CALENDAR_MCP_URL');
+	}
+	return provider;
+}
+
+export function createCalendarPort(env: WorkerEnv, logger: Logger): ICalendarPort {
+	const provider = selectCalendarProvider(env);
+	if (!provider) {
+		logger.warn('No calendar configured; calendar calls will fail', {
+			metadata: { hint: 'set GOOGLE_CALENDAR_MCP_URL, or CALENDAR_PROVIDER=fixture for demo events' },
+		});
+		return new UnconfiguredCalendarAdapter();
+	}
+
+	return provider === 'google' ? new GoogleCalendarAdapter(env.GOOGLE_CALENDAR_MCP_URL!, logger) : new FixtureCalendarAdapter();
+}
+
+/**
+ * Stands in when no provider is configured so that nothing reads fake events or reports a write it never made
+ */
+class UnconfiguredCalendarAdapter implements ICalendarPort {
+	async syncEvents(_userId: string, _since?: Date): Promise<CalendarEvent[]> {
+		throw new CalendarNotConfiguredError();
+	}
+
+	async listEvents(_query: CalendarEventQuery, _correlationId?: string): Promise<CalendarEvent[]> {
+		throw new CalendarNotConfiguredError();
+	}
+
+	async createEvent(_userId: string, _event: CalendarEventInput): Promise<CalendarEvent> {
+		throw new CalendarNotConfiguredError();
+	}
+
+	async updateEvent(_userId: string, _eventId: string, _changes: CalendarEventInput): Promise<CalendarEvent> {
+		throw new CalendarNotConfiguredError();
+	}
+
+	async deleteEvent(_userId: string, _eventId: string): Promise<void> {
+		throw new CalendarNotConfiguredError();
+	}
+}
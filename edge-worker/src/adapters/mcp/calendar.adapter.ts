@@ -6,14 +6,15 @@
  * - GoogleCalendarMapper (ACL/translation layer)
  */
 
-import { ICalendarPort } from '../../domain/calendar/ports/calendar.port';
+import { CalendarEventInput, CalendarEventQuery, ICalendarPort } from '../../domain/calendar/ports/calendar.port';
 import { CalendarEvent } from '../../domain/calendar/entities/calendar-event.entity';
 import { Logger } from '../../observability/logger';
 import { GoogleCalendarMcpClient } from './clients/google-calendar-mcp.client';
 import { GoogleCalendarMapper, GoogleCalendarEvent } from './mappers/google-calendar.mapper';
 
 interface ListEventsResponse {
-	events: GoogleCalendarEvent[];
+	items?: GoogleCalendarEvent[]; // Google Calendar API shape
+	events?: GoogleCalendarEvent[];
 }
 
 export class GoogleCalendarAdapter implements ICalendarPort {
@@ -52,7 +53,7 @@ export class GoogleCalendarAdapter implements ICalendarPort {
 				correlationId,
 			);
 
-			const events = response.events || [];
+			const events = response.items || response.events || [];
 			const converted = this.mapper.translateEvents(events, userId);
 
 			this.logger.info('Calendar sync completed', {
@@ -68,7 +69,30 @@ export class GoogleCalendarAdapter implements ICalendarPort {
 		}
 	}
 
-	async createEvent(userId: string, event: Partial<CalendarEvent>): Promise<CalendarEvent> {
+	async listEvents(query: CalendarEventQuery, correlationId: string = this.generateCorrelationId()): Promise<CalendarEvent[]> {
+		const response = await this.client.call<ListEventsResponse>(
+			'list_events',
+			{
+				calendarId: query.calendarId,
+				timeMin: query.timeMin.toISOString(),
+				timeMax: query.timeMax.toISOString(),
+				maxResults: query.maxResults,
+				singleEvents: query.singleEvents,
+				orderBy: query.orderBy,
+			},
+			correlationId,
+		);
+
+		const events = this.mapper.translateEvents(response.items || response.events || [], query.calendarId);
+
+		this.logger.info('Calendar events listed', {
+			metadata: { calendarId: query.calendarId, eventCount: events.length, singleEvents: query.singleEvents, correlationId },
+		});
+
+		return events;
+	}
+
+	async createEvent(userId: string, event: CalendarEventInput): Promise<CalendarEvent> {
 		const correlationId = this.generateCorrelationId();
 
 		try {
@@ -76,33 +100,11 @@ export class GoogleCalendarAdapter implements ICalendarPort {
 				metadata: { userId, title: event.title, correlationId },
 			});
 
-			// Build Google Calendar event format
-			const location = (event.metadata as any)?.location;
-			const participants = (event.metadata as any)?.participants;
-
-			const googleEvent = {
-				summary: event.title,
-				description: event.description,
-				start: {
-					dateTime: event.startTime?.toISOString(),
-					timeZone: 'UTC',
-				},
-				end: {
-					dateTime: event.endTime?.toISOString(),
-					timeZone: 'UTC',
-				},
-				location,
-				attendees: participants?.map((email: string) => ({
-					email,
-					displayName: email,
-				})),
-			};
-
 			const result = await this.client.call<GoogleCalendarEvent>(
 				'create_event',
 				{
 					calendarId: 'primary',
-					body: googleEvent,
+					body: this.toGoogleEvent(event),
 				},
 				correlationId,
 			);
@@ -122,6 +124,70 @@ export class GoogleCalendarAdapter implements ICalendarPort {
 		}
 	}
 
+	async updateEvent(userId: string, eventId: string, changes: CalendarEventInput): Promise<CalendarEvent> {
+		const correlationId = this.generateCorrelationId();
+
+		try {
+			const result = await this.client.call<GoogleCalendarEvent>(
+				'update_event',
+				{
+					calendarId: 'primary',
+					eventId,
+					body: this.toGoogleEvent(changes),
+				},
+				correlationId,
+			);
+
+			this.logger.info('Calendar event updated', {
+				metadata: { userId, eventId, fields: Object.keys(changes), correlationId },
+			});
+
+			return this.mapper.translateEvent(result, userId);
+		} catch (error) {
+			this.logger.error('Event update failed', error as Error, {
+				metadata: { userId, eventId, correlationId },
+			});
+			throw error;
+		}
+	}
+
+	async deleteEvent(userId: string, eventId: string): Promise<void> {
+		const correlationId = this.generateCorrelationId();
+
+		try {
+			await this.client.call('delete_event', { calendarId: 'primary', eventId }, correlationId);
+
+			this.logger.info('Calendar event deleted', {
+				metadata: { userId, eventId, correlationId },
+			});
+		} catch (error) {
+			this.logger.error('Event deletion failed', error as Error, {
+				metadata: { userId, eventId, correlationId },
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Google Calendar event body; fields not set are left out, so an update only patches what changed
+	 */
+	private toGoogleEvent(event: CalendarEventInput): Record<string, unknown> {
+		// The zone the user scheduled in, so Google shows the event and expands recurrences in their local time
+		const time = (at?: Date) => (at ? { dateTime: at.toISOString(), timeZone: event.metadata?.timeZone ?? 'UTC' } : undefined);
+
+		return {
+			summary: event.title,
+			description: event.description,
+			start: time(event.startTime),
+			end: time(event.endTime),
+			location: event.metadata?.location,
+			attendees: event.metadata?.participants?.map((email) => ({
+				email,
+				displayName: email,
+			})),
+		};
+	}
+
 	private generateCorrelationId(): string {
 		return `cal-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 	}
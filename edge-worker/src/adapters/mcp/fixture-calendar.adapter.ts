@@ -0,0 +1,132 @@
+/**
+ * FixtureCalendarAdapter - Canned calendar for demos and local development
+ *
+ * Implements ICalendarPort without any external calendar. Selected with
+ * CALENDAR_PROVIDER = "fixture". It is never picked by default.
+ * Events are laid out relative to the queried range:
+ * - "Team Standup": a daily recurring series starting at timeMin; one series entry, or one
+ *   instance per day with singleEvents
+ * - "Q1 Planning Meeting": a one-off four hours after timeMin
+ *
+ * Writes are not stored: created and updated events are echoed back and deletes succeed.
+ */
+
+import { CalendarEventInput, CalendarEventQuery, ICalendarPort } from '../../domain/calendar/ports/calendar.port';
+import { CalendarEvent, CalendarEventMetadata } from '../../domain/calendar/entities/calendar-event.entity';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_INSTANCES = 366;
+
+export const FIXTURE_CALENDAR_PROVIDER = 'fixture';
+
+export class FixtureCalendarAdapter implements ICalendarPort {
+	constructor(private readonly now: () => Date = () => new Date()) {}
+
+	async syncEvents(_userId: string, since?: Date): Promise<CalendarEvent[]> {
+		const timeMin = since ?? new Date(this.now().getTime() - 30 * DAY_MS);
+		return this.listEvents({
+			calendarId: 'primary',
+			timeMin,
+			timeMax: new Date(this.now().getTime() + 90 * DAY_MS),
+			maxResults: 250,
+			singleEvents: true,
+			orderBy: 'startTime',
+		});
+	}
+
+	async listEvents(query: CalendarEventQuery): Promise<CalendarEvent[]> {
+		const start = query.timeMin.getTime();
+		const stamp = this.now().toISOString();
+		const metadata = (id: string, extra: Partial<CalendarEventMetadata>): CalendarEventMetadata => ({
+			externalId: id,
+			calendarProvider: FIXTURE_CALENDAR_PROVIDER,
+			status: 'confirmed',
+			created: stamp,
+			updated: stamp,
+			...extra,
+		});
+
+		const standup = {
+			location: 'Conference Room A',
+			participants: ['user@company.com', 'colleague@company.com'],
+			attendees: [
+				{ email: 'user@company.com', displayName: 'You', responseStatus: 'accepted' as const },
+				{ email: 'colleague@company.com', displayName: 'Colleague', responseStatus: 'accepted' as const },
+			],
+		};
+		const events: CalendarEvent[] = [];
+
+		if (query.singleEvents) {
+			for (let day = 0; day < MAX_INSTANCES && start + day * DAY_MS < query.timeMax.getTime(); day++) {
+				const instanceStart = new Date(start + day * DAY_MS);
+				const id = `evt_stub_001_${instanceStart.toISOString().replace(/[-:]|\.\d{3}/g, '')}`;
+				events.push(
+					CalendarEvent.reconstitute(
+						id,
+						'Team Standup',
+						instanceStart,
+						new Date(instanceStart.getTime() + HOUR_MS),
+						metadata(id, { ...standup, recurringEventId: 'evt_stub_001' }),
+						'Daily sync with the team',
+					),
+				);
+			}
+		} else {
+			events.push(
+				CalendarEvent.reconstitute(
+					'evt_stub_001',
+					'Team Standup',
+					new Date(start),
+					new Date(start + HOUR_MS),
+					metadata('evt_stub_001', { ...standup, recurrence: ['RRULE:FREQ=DAILY'] }),
+					'Daily sync with the team',
+				),
+			);
+		}
+
+		events.push(
+			CalendarEvent.reconstitute(
+				'evt_stub_002',
+				'Q1 Planning Meeting',
+				new Date(start + 4 * HOUR_MS),
+				new Date(start + 5.5 * HOUR_MS),
+				metadata('evt_stub_002', {
+					location: 'Virtual',
+					participants: ['user@company.com'],
+					attendees: [{ email: 'user@company.com', displayName: 'You', responseStatus: 'tentative' }],
+				}),
+				'Strategic planning for Q1',
+			),
+		);
+
+		// Only what overlaps the range, like the Google API
+		return events.filter((e) => e.startTime < query.timeMax && e.endTime > query.timeMin);
+	}
+
+	async createEvent(_userId: string, event: CalendarEventInput): Promise<CalendarEvent> {
+		const id = `evt_fixture_${crypto.randomUUID()}`;
+		return CalendarEvent.reconstitute(
+			id,
+			event.title ?? '(No title)',
+			event.startTime ?? this.now(),
+			event.endTime ?? new Date((event.startTime ?? this.now()).getTime() + HOUR_MS),
+			{ ...event.metadata, externalId: id, calendarProvider: FIXTURE_CALENDAR_PROVIDER },
+			event.description,
+		);
+	}
+
+	async updateEvent(_userId: string, eventId: string, changes: CalendarEventInput): Promise<CalendarEvent> {
+		const startTime = changes.startTime ?? this.now();
+		return CalendarEvent.reconstitute(
+			eventId,
+			changes.title ?? '(No title)',
+			startTime,
+			changes.endTime ?? new Date(startTime.getTime() + HOUR_MS),
+			{ ...changes.metadata, externalId: eventId, calendarProvider: FIXTURE_CALENDAR_PROVIDER, updated: this.now().toISOString() },
+			changes.description,
+		);
+	}
+
+	async deleteEvent(_userId: string, _eventId: string): Promise<void> {}
+}
@@ -2,14 +2,17 @@
  * GoogleCalendarMapper - Translates Google Calendar API responses to domain entities
  *
  * Implements Anti-Corruption Layer (ACL) for Google Calendar format
+ * - All-day events (start.date/end.date) become UTC midnights flagged allDay; the end date stays exclusive
+ * - Recurring series keep their RRULEs; expanded instances keep their series id
+ * - Cancelled entries (deleted instances of a series) are dropped
  */
 
-import { CalendarEvent } from '../../../domain/calendar/entities/calendar-event.entity';
+import { CalendarEvent, CalendarEventAttendee } from '../../../domain/calendar/entities/calendar-event.entity';
 import { Logger } from '../../../observability/logger';
 
 export interface GoogleCalendarEvent {
 	id: string;
-	summary: string;
+	summary?: string; // Absent on untitled events
 	description?: string;
 	start: {
 		dateTime?: string;
@@ -34,22 +37,42 @@ export interface GoogleCalendarEvent {
 	status: string;
 	transparency?: string;
 	visibility?: string;
+	recurrence?: string[];
+	recurringEventId?: string;
+	created?: string;
+	updated?: string;
 }
 
+const UNTITLED = '(No title)';
+const RESPONSE_STATUSES: CalendarEventAttendee['responseStatus'][] = ['needsAction', 'declined', 'tentative', 'accepted'];
+const EVENT_STATUSES = ['confirmed', 'tentative', 'cancelled'] as const;
+
 export class GoogleCalendarMapper {
 	constructor(private readonly logger: Logger) {}
 
 	translateEvents(events: GoogleCalendarEvent[], userId: string): CalendarEvent[] {
-		return events.filter((e) => this.isValidEvent(e)).map((e) => this.translateEvent(e, userId));
+		const translated: CalendarEvent[] = [];
+		for (const event of events.filter((e) => this.isValidEvent(e))) {
+			try {
+				translated.push(this.translateEvent(event, userId));
+			} catch (error) {
+				// Zero-length events and unparseable dates are skipped rather than failing the list
+				this.logger.debug('Skipping untranslatable event', {
+					metadata: { eventId: event.id, error: error instanceof Error ? error.message : String(error) },
+				});
+			}
+		}
+		return translated;
 	}
 
 	translateEvent(event: GoogleCalendarEvent, userId: string): CalendarEvent {
 		const startDate = this.parseGoogleDate(event.start);
 		const endDate = this.parseGoogleDate(event.end);
+		const status = EVENT_STATUSES.find((s) => s === event.status);
 
 		return CalendarEvent.reconstitute(
 			event.id,
-			event.summary,
+			event.summary || UNTITLED,
 			startDate,
 			endDate,
 			{
@@ -57,14 +80,30 @@ export class GoogleCalendarMapper {
 				calendarProvider: 'google',
 				location: event.location,
 				participants: event.attendees?.map((a) => a.email),
+				attendees: event.attendees?.map((a) => ({
+					email: a.email,
+					displayName: a.displayName,
+					responseStatus: RESPONSE_STATUSES.find((r) => r === a.responseStatus) ?? 'needsAction',
+				})),
+				allDay: !event.start.dateTime && !!event.start.date,
+				timeZone: event.start.timeZone,
+				recurrence: event.recurrence,
+				recurringEventId: event.recurringEventId,
+				status,
+				created: event.created,
+				updated: event.updated,
 			},
 			event.description,
 		);
 	}
 
 	private isValidEvent(event: GoogleCalendarEvent): boolean {
-		if (!event.id || !event.summary) {
-			this.logger.debug('Invalid event: missing id or summary', {
+		if (event.status === 'cancelled') {
+			return false;
+		}
+
+		if (!event.id) {
+			this.logger.debug('Invalid event: missing id', {
 				metadata: { eventId: event.id },
 			});
 			return false;
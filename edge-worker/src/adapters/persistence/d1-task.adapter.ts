@@ -23,14 +23,15 @@ export class D1TaskAdapter implements ITaskRepository {
 					this.db
 						.prepare(
 							`
-        INSERT INTO tasks (id, title, description, status, priority, due_date, user_id, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO tasks (id, title, description, status, priority, due_date, user_id, metadata, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(id) DO UPDATE SET
           title = excluded.title,
           description = excluded.description,
           status = excluded.status,
           priority = excluded.priority,
           due_date = excluded.due_date,
+          metadata = excluded.metadata,
           updated_at = excluded.updated_at
       `,
 						)
@@ -42,6 +43,7 @@ export class D1TaskAdapter implements ITaskRepository {
 							task.getPriority(),
 							task.getDueDate()?.toISOString() || null,
 							task.getUserId(),
+							JSON.stringify(task.getMetadata()),
 							// Accessing private properties via any cast as they don't have getters exposed in the aggregate
 							// Ideally, we should add getters for these in the aggregate
 							(task as any).createdAt.toISOString(),
@@ -181,7 +183,7 @@ export class D1TaskAdapter implements ITaskRepository {
 			row.user_id as string,
 			row.status as TaskStatus,
 			row.priority as TaskPriority,
-			{}, // Metadata not stored in this simple schema yet
+			row.metadata ? JSON.parse(row.metadata as string) : {},
 			new Date(row.created_at as string),
 			new Date(row.updated_at as string),
 			(row.description as string) || undefined,
@@ -0,0 +1,64 @@
+/**
+ * VectorizeIndexAdapter - Semantic recall index on Cloudflare Vectorize
+ *
+ * Implements IVectorIndex; each user's documents live in their own namespace so a query
+ * never crosses principals. The snippet text travels as metadata, so a match needs no
+ * second lookup. The index must be created with the embedding model's dimensions and
+ * cosine metric (see README).
+ */
+
+import type { IVectorIndex, RecallDocument, RecallKind, RecallMatch } from '../../domain/memory/ports/IVectorIndex';
+
+const MAX_TOP_K = 20; // Vectorize limit when returning all metadata
+
+export class VectorizeIndexAdapter implements IVectorIndex {
+	constructor(private readonly index: Vectorize) {}
+
+	async upsert(entries: Array<{ document: RecallDocument; vector: number[] }>): Promise<void> {
+		if (entries.length === 0) return;
+
+		await this.index.upsert(
+			entries.map(({ document, vector }) => ({
+				id: document.id,
+				values: vector,
+				namespace: document.userId,
+				metadata: {
+					conversationId: document.conversationId,
+					kind: document.kind,
+					...(document.role ? { role: document.role } : {}),
+					text: document.text,
+					createdAt: document.createdAt,
+				},
+			})),
+		);
+	}
+
+	async query(userId: string, vector: number[], topK: number): Promise<RecallMatch[]> {
+		const result = await this.index.query(vector, {
+			topK: Math.min(topK, MAX_TOP_K),
+			namespace: userId,
+			returnMetadata: 'all',
+		});
+
+		return result.matches
+			.filter((match) => typeof match.metadata?.text === 'string')
+			.map((match) => {
+				const metadata = match.metadata!;
+				return {
+					id: match.id,
+					userId,
+					conversationId: String(metadata.conversationId ?? ''),
+					kind: (metadata.kind === 'summary' ? 'summary' : 'message') as RecallKind,
+					role: metadata.role === 'user' || metadata.role === 'assistant' ? metadata.role : undefined,
+					text: String(metadata.text),
+					createdAt: String(metadata.createdAt ?? ''),
+					score: match.score,
+				};
+			});
+	}
+
+	async delete(ids: string[]): Promise<void> {
+		if (ids.length === 0) return;
+		await this.index.deleteByIds(ids);
+	}
+}
@@ -0,0 +1,164 @@
+/**
+ * Memory API DTOs
+ *
+ * Request/response types for the /api/memory endpoints
+ */
+
+import { UserPreference, UserProfile } from '../../domain/memory/SemanticMemory';
+import { TravelHistoryEntry } from '../../domain/memory/EpisodicMemory';
+import { AutomationRule, UserWorkflow, WorkflowRun } from '../../domain/memory/ProceduralMemory';
+
+// null clears the field
+export interface UpdateProfileRequest {
+	homeAirport?: string | null;
+	preferredSeat?: UserProfile['preferredSeat'] | null;
+	budgetDomesticUsd?: number | null;
+	budgetInternationalUsd?: number | null;
+}
+
+export interface SetPreferenceRequest {
+	value: string;
+}
+
+export interface UpdateTravelRequest {
+	bookingStatus: TravelHistoryEntry['bookingStatus'];
+}
+
+export interface UpdateRuleRequest {
+	enabled: boolean;
+}
+
+export interface ProfileResponse {
+	homeAirport?: string;
+	preferredSeat?: UserProfile['preferredSeat'];
+	budgetDomesticUsd?: number;
+	budgetInternationalUsd?: number;
+	updatedAt: string;
+}
+
+export interface PreferenceResponse {
+	category: UserPreference['category'];
+	key: string;
+	value: string;
+	confidence: number;
+	source: UserPreference['source'];
+	updatedAt: string;
+}
+
+export interface TravelHistoryResponse {
+	id: string;
+	fromAirport: string;
+	toAirport: string;
+	departureDate?: string;
+	returnDate?: string;
+	airline?: string;
+	costUsd?: number;
+	cabinClass?: string;
+	bookingStatus: TravelHistoryEntry['bookingStatus'];
+}
+
+export interface AutomationRuleResponse {
+	id: string;
+	ruleName: string;
+	ruleType: AutomationRule['ruleType'];
+	context: AutomationRule['context'];
+	condition: AutomationRule['condition'];
+	action: AutomationRule['action'];
+	priority: number;
+	enabled: boolean;
+}
+
+export interface WorkflowRunResponse {
+	id: string;
+	workflowId: string;
+	workflowName: string;
+	triggerType: WorkflowRun['triggerType'];
+	triggerDetail?: string;
+	status: WorkflowRun['status'];
+	summary?: string;
+	steps: WorkflowRun['steps'];
+	error?: string;
+	startedAt: string;
+	finishedAt?: string;
+}
+
+export interface UserWorkflowResponse {
+	id: string;
+	workflowName: string;
+	triggerType: UserWorkflow['triggerType'];
+	triggerConfig?: UserWorkflow['triggerConfig'];
+	actions: UserWorkflow['actions'];
+	enabled: boolean;
+	lastRun?: WorkflowRunResponse;
+}
+
+export const PREFERENCE_CATEGORIES: Array<UserPreference['category']> = ['airline', 'hotel', 'travel', 'task'];
+const SEATS: Array<NonNullable<UserProfile['preferredSeat']>> = ['window', 'aisle', 'middle'];
+const BOOKING_STATUSES: Array<TravelHistoryEntry['bookingStatus']> = ['planned', 'booked', 'completed', 'cancelled'];
+
+export function validateUpdateProfileRequest(data: any): UpdateProfileRequest {
+	if (!data || typeof data !== 'object') {
+		throw new Error('Invalid profile update: JSON object required');
+	}
+
+	const update: UpdateProfileRequest = {};
+
+	if (data.homeAirport === null) {
+		update.homeAirport = null;
+	} else if (data.homeAirport !== undefined) {
+		if (typeof data.homeAirport !== 'string' || !/^[A-Za-z]{3}$/.test(data.homeAirport.trim())) {
+			throw new Error('Invalid profile update: homeAirport must be a 3-letter IATA code');
+		}
+		update.homeAirport = data.homeAirport.trim().toUpperCase();
+	}
+
+	if (data.preferredSeat === null) {
+		update.preferredSeat = null;
+	} else if (data.preferredSeat !== undefined) {
+		if (!SEATS.includes(data.preferredSeat)) {
+			throw new Error(`Invalid profile update: preferredSeat must be one of: ${SEATS.join(', ')}`);
+		}
+		update.preferredSeat = data.preferredSeat;
+	}
+
+	for (const field of ['budgetDomesticUsd', 'budgetInternationalUsd'] as const) {
+		if (data[field] === null) {
+			update[field] = null;
+		} else if (data[field] !== undefined) {
+			if (typeof data[field] !== 'number' || !Number.isFinite(data[field]) || data[field] <= 0) {
+				throw new Error(`Invalid profile update: ${field} must be a positive number`);
+			}
+			update[field] = data[field];
+		}
+	}
+
+	if (Object.keys(update).length === 0) {
+		throw new Error('Invalid profile update: no updatable fields');
+	}
+
+	return update;
+}
+
+export function validateSetPreferenceRequest(data: any): SetPreferenceRequest {
+	if (!data || typeof data.value !== 'string' || !data.value.trim()) {
+		throw new Error('Invalid preference: value required');
+	}
+
+	return { value: data.value.trim() };
+}
+
+export function validateUpdateTravelRequest(data: any): UpdateTravelRequest {
+	if (!data || !BOOKING_STATUSES.includes(data.bookingStatus)) {
+		throw new Error(`Invalid travel update: bookingStatus must be one of: ${BOOKING_STATUSES.join(', ')}`);
+	}
+
+	return { bookingStatus: data.bookingStatus };
+}
+
+export function validateUpdateRuleRequest(data: any): UpdateRuleRequest {
+	if (!data || typeof data.enabled !== 'boolean') {
+		throw new Error('Invalid rule update: enabled must be a boolean');
+	}
+
+	return { enabled: data.enabled };
+}
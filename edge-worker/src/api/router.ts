@@ -5,8 +5,9 @@
  */
 
 import { handleHealthCheck } from './routes/health';
-import { handleChatRequest } from './routes/chat';
+import { handleChatRequest, handleChatCommandRequest } from './routes/chat';
 import { handleTasksRequest } from './routes/tasks';
+import { handleMemoryRequest } from './routes/memory';
 import {
 	handleChatConversationsRequest,
 	handleChatHistoryRequest,
@@ -69,6 +70,48 @@ export async function handleRequest(request: Request, context: RouterContext): P
 					response = new Response('Method Not Allowed', { status: 405 });
 				}
 			}
+			// Cancel an in-flight chat turn by message id
+			else if (url.pathname.match(/^\/api\/chat\/([^/]+)\/cancel$/)) {
+				const messageId = url.pathname.match(/^\/api\/chat\/([^/]+)\/cancel$/)![1];
+				response =
+					request.method === 'POST'
+						? await handleChatCommandRequest(
+								request,
+								principal,
+								CorrelationId.fromString(correlationId.toString()),
+								context.container,
+								`/messages/${messageId}/cancel`,
+							)
+						: new Response('Method Not Allowed', { status: 405 });
+			}
+			// Regenerate the last assistant turn of a conversation
+			else if (url.pathname.match(/^\/api\/conversations\/([^/]+)\/regenerate$/)) {
+				const conversationId = url.pathname.match(/^\/api\/conversations\/([^/]+)\/regenerate$/)![1];
+				response =
+					request.method === 'POST'
+						? await handleChatCommandRequest(
+								request,
+								principal,
+								CorrelationId.fromString(correlationId.toString()),
+								context.container,
+								`/conversations/${conversationId}/regenerate`,
+							)
+						: new Response('Method Not Allowed', { status: 405 });
+			}
+			// Dialogue state snapshot for a conversation (debugging)
+			else if (url.pathname.match(/^\/api\/conversations\/([^/]+)\/state$/)) {
+				const conversationId = url.pathname.match(/^\/api\/conversations\/([^/]+)\/state$/)![1];
+				response =
+					request.method === 'GET'
+						? await handleChatCommandRequest(
+								request,
+								principal,
+								CorrelationId.fromString(correlationId.toString()),
+								context.container,
+								`/conversations/${conversationId}/state`,
+							)
+						: new Response('Method Not Allowed', { status: 405 });
+			}
 			// Conversations endpoints
 			else if (url.pathname === '/api/conversations') {
 				if (request.method === 'GET') {
@@ -159,6 +202,14 @@ export async function handleRequest(request: Request, context: RouterContext): P
 				response = await handleChatHistoryRequest(request, principal, CorrelationId.fromString(correlationId.toString()), context.env.DB);
 			} else if (url.pathname.startsWith('/api/tasks')) {
 				response = await handleTasksRequest(request, principal, CorrelationId.fromString(correlationId.toString()), context.container);
+			} else if (url.pathname.startsWith('/api/memory/')) {
+				response = await handleMemoryRequest(
+					request,
+					principal,
+					CorrelationId.fromString(correlationId.toString()),
+					context.env.DB,
+					context.container.workflowRunner,
+				);
 			} else {
 				response = new Response('Not Found', { status: 404 });
 			}
@@ -179,7 +230,7 @@ export async function handleRequest(request: Request, context: RouterContext): P
 function withCors(response: Response): Response {
 	const headers = new Headers(response.headers);
 	headers.set('Access-Control-Allow-Origin', '*');
-	headers.set('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+	headers.set('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
 	headers.set('Access-Control-Allow-Headers', 'Content-Type, X-Test-Bypass-Auth, Cf-Access-Jwt-Assertion');
 
 	return new Response(response.body, {
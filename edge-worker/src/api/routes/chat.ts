@@ -1,7 +1,9 @@
 /**
  * Chat Routes - POST /api/chat
  *
- * Handles chat message sending with streaming support
+ * Handles chat message sending with streaming support, plus
+ * POST /api/chat/:messageId/cancel, POST /api/conversations/:id/regenerate
+ * and GET /api/conversations/:id/state
  */
 
 import { ChatService } from '../../application/chat.service';
@@ -87,3 +89,38 @@ export async function handleChatRequest(
 		);
 	}
 }
+
+/**
+ * Forward a chat command (cancel, regenerate, state inspection) to the principal's ChatSessionDO
+ * doPath is the DO route, e.g. /messages/:messageId/cancel; the HTTP method is kept
+ */
+export async function handleChatCommandRequest(
+	request: Request,
+	principal: Principal,
+	correlationId: CorrelationId,
+	container: Container,
+	doPath: string,
+): Promise<Response> {
+	const stub = container.chatSessions.get(container.chatSessions.idFromName(principal.id));
+
+	const url = new URL(request.url);
+	url.pathname = doPath;
+
+	const headers = new Headers(request.headers);
+	headers.set('X-Principal-Id', principal.id);
+	headers.set('X-Correlation-ID', correlationId.toString());
+	headers.set('Content-Type', 'application/json');
+
+	container.logger.info('Forwarding chat command to ChatSessionDO', {
+		correlationId: correlationId.toString(),
+		metadata: { principalId: principal.id, doPath },
+	});
+
+	return stub.fetch(
+		new Request(url.toString(), {
+			method: request.method,
+			headers,
+			body: request.method === 'GET' ? undefined : (await request.text()) || '{}',
+		}),
+	);
+}
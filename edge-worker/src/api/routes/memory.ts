@@ -0,0 +1,398 @@
+/**
+ * Memory Routes - What the assistant has learned about the user
+ *
+ * GET    /api/memory/profile                     - home airport, seat and budgets
+ * PATCH  /api/memory/profile                     - update profile fields
+ * GET    /api/memory/preferences?source=inferred - list preferences (optionally by source)
+ * PUT    /api/memory/preferences/:category/:key  - set a preference explicitly
+ * DELETE /api/memory/preferences/:category/:key  - forget one preference
+ * GET    /api/memory/travel?limit=50             - travel history, newest departure first
+ * PATCH  /api/memory/travel/:id                  - correct a booking status
+ * DELETE /api/memory/travel/:id                  - forget a trip
+ * GET    /api/memory/rules                       - automation rules
+ * PATCH  /api/memory/rules/:id                   - enable or disable a rule
+ * DELETE /api/memory/rules/:id                   - delete a rule
+ * GET    /api/memory/workflows                   - user workflows with their latest run
+ * POST   /api/memory/workflows/:id/run           - run a workflow now
+ * GET    /api/memory/workflows/runs?workflowId=  - run history, newest first
+ */
+
+import { D1Database } from '../../env';
+import { jsonError, jsonResponse } from '../error-handler';
+import {
+	AutomationRuleResponse,
+	PREFERENCE_CATEGORIES,
+	PreferenceResponse,
+	ProfileResponse,
+	TravelHistoryResponse,
+	UserWorkflowResponse,
+	WorkflowRunResponse,
+	validateSetPreferenceRequest,
+	validateUpdateProfileRequest,
+	validateUpdateRuleRequest,
+	validateUpdateTravelRequest,
+} from '../dto/memory.dto';
+import { Principal, CorrelationId } from '../../domain/shared';
+import { UserPreference, UserProfile } from '../../domain/memory/SemanticMemory';
+import { WorkflowRun } from '../../domain/memory/ProceduralMemory';
+import { WorkflowRunner } from '../../application/workflow-runner.service';
+import { D1SemanticMemoryRepository } from '../../infrastructure/memory/D1SemanticMemoryRepository';
+import { D1EpisodicMemoryRepository } from '../../infrastructure/memory/D1EpisodicMemoryRepository';
+import { D1ProceduralMemoryRepository } from '../../infrastructure/memory/D1ProceduralMemoryRepository';
+
+const PREFERENCE_SOURCES: Array<UserPreference['source']> = ['explicit', 'inferred'];
+
+interface MemoryRepositories {
+	semantic: D1SemanticMemoryRepository;
+	episodic: D1EpisodicMemoryRepository;
+	procedural: D1ProceduralMemoryRepository;
+}
+
+/**
+ * Parse and validate a JSON body; the validator's message becomes a 400
+ */
+async function readBody<T>(request: Request, validate: (data: any) => T): Promise<T | Response> {
+	const data = await request.json().catch(() => null);
+	try {
+		return validate(data);
+	} catch (error) {
+		return jsonError(400, 'VALIDATION_ERROR', error instanceof Error ? error.message : String(error));
+	}
+}
+
+function toProfileResponse(profile: UserProfile): ProfileResponse {
+	return {
+		homeAirport: profile.homeAirport ?? undefined,
+		preferredSeat: profile.preferredSeat ?? undefined,
+		budgetDomesticUsd: profile.budgetDomesticUsd ?? undefined,
+		budgetInternationalUsd: profile.budgetInternationalUsd ?? undefined,
+		updatedAt: profile.updatedAt.toISOString(),
+	};
+}
+
+function toPreferenceResponse(p: UserPreference): PreferenceResponse {
+	return {
+		category: p.category,
+		key: p.preferenceKey,
+		value: p.preferenceValue,
+		confidence: p.confidence,
+		source: p.source,
+		updatedAt: p.updatedAt.toISOString(),
+	};
+}
+
+function toWorkflowRunResponse(run: WorkflowRun): WorkflowRunResponse {
+	return {
+		id: run.id,
+		workflowId: run.workflowId,
+		workflowName: run.workflowName,
+		triggerType: run.triggerType,
+		triggerDetail: run.triggerDetail,
+		status: run.status,
+		summary: run.summary,
+		steps: run.steps,
+		error: run.error,
+		startedAt: run.startedAt.toISOString(),
+		finishedAt: run.finishedAt?.toISOString(),
+	};
+}
+
+export async function handleProfileGet(principal: Principal, repository: D1SemanticMemoryRepository): Promise<Response> {
+	const memory = await repository.getSemanticMemory(principal.id);
+	return jsonResponse({ profile: toProfileResponse(memory.profile) });
+}
+
+export async function handleProfilePatch(
+	request: Request,
+	principal: Principal,
+	repository: D1SemanticMemoryRepository,
+): Promise<Response> {
+	const update = await readBody(request, validateUpdateProfileRequest);
+	if (update instanceof Response) return update;
+
+	await repository.ensureProfile(principal.id);
+	await repository.updateUserProfile(principal.id, update);
+
+	const memory = await repository.getSemanticMemory(principal.id);
+	return jsonResponse({ profile: toProfileResponse(memory.profile) });
+}
+
+export async function handlePreferencesGet(
+	request: Request,
+	principal: Principal,
+	repository: D1SemanticMemoryRepository,
+): Promise<Response> {
+	const source = new URL(request.url).searchParams.get('source');
+	if (source !== null && !PREFERENCE_SOURCES.includes(source as UserPreference['source'])) {
+		return jsonError(400, 'VALIDATION_ERROR', `source must be one of: ${PREFERENCE_SOURCES.join(', ')}`);
+	}
+
+	const preferences = await repository.listPreferences(principal.id, (source as UserPreference['source']) ?? undefined);
+
+	return jsonResponse({ preferences: preferences.map(toPreferenceResponse) });
+}
+
+/**
+ * Setting a preference makes it explicit; confirming an inferred one this way stops
+ * PreferenceLearner from adjusting it further
+ */
+export async function handlePreferencePut(
+	request: Request,
+	principal: Principal,
+	repository: D1SemanticMemoryRepository,
+	category: string,
+	key: string,
+): Promise<Response> {
+	if (!PREFERENCE_CATEGORIES.includes(category as UserPreference['category'])) {
+		return jsonError(400, 'VALIDATION_ERROR', `category must be one of: ${PREFERENCE_CATEGORIES.join(', ')}`);
+	}
+
+	const body = await readBody(request, validateSetPreferenceRequest);
+	if (body instanceof Response) return body;
+
+	await repository.savePreference(principal.id, {
+		category: category as UserPreference['category'],
+		preferenceKey: key,
+		preferenceValue: body.value,
+		confidence: 1,
+		source: 'explicit',
+	});
+
+	const saved = (await repository.listPreferences(principal.id)).find((p) => p.category === category && p.preferenceKey === key);
+	return jsonResponse({ preference: saved ? toPreferenceResponse(saved) : null });
+}
+
+export async function handlePreferenceDelete(
+	principal: Principal,
+	repository: D1SemanticMemoryRepository,
+	category: string,
+	key: string,
+): Promise<Response> {
+	await repository.deletePreference(principal.id, category, key);
+	return new Response(null, { status: 204 });
+}
+
+export async function handleTravelGet(request: Request, principal: Principal, repository: D1EpisodicMemoryRepository): Promise<Response> {
+	const limitParam = new URL(request.url).searchParams.get('limit');
+	const limit = Math.min(Math.max(parseInt(limitParam || '50', 10) || 50, 1), 200);
+	const memory = await repository.getEpisodicMemory(principal.id, limit);
+
+	const trips: TravelHistoryResponse[] = memory.travelHistory.map((t) => ({
+		id: t.id,
+		fromAirport: t.fromAirport,
+		toAirport: t.toAirport,
+		departureDate: t.departureDate?.toISOString().split('T')[0],
+		returnDate: t.returnDate?.toISOString().split('T')[0],
+		airline: t.airline ?? undefined,
+		costUsd: t.costUsd ?? undefined,
+		cabinClass: t.cabinClass ?? undefined,
+		bookingStatus: t.bookingStatus,
+	}));
+
+	return jsonResponse({ trips });
+}
+
+export async function handleTravelPatch(
+	request: Request,
+	principal: Principal,
+	repository: D1EpisodicMemoryRepository,
+	entryId: string,
+	correlationId: CorrelationId,
+): Promise<Response> {
+	const update = await readBody(request, validateUpdateTravelRequest);
+	if (update instanceof Response) return update;
+
+	const updated = await repository.updateTravelStatus(principal.id, entryId, update.bookingStatus);
+	return updated
+		? jsonResponse({ id: entryId, bookingStatus: update.bookingStatus })
+		: jsonError(404, 'NOT_FOUND', 'Trip not found', correlationId.toString());
+}
+
+export async function handleTravelDelete(
+	principal: Principal,
+	repository: D1EpisodicMemoryRepository,
+	entryId: string,
+	correlationId: CorrelationId,
+): Promise<Response> {
+	const deleted = await repository.deleteTravelHistory(principal.id, entryId);
+	return deleted ? new Response(null, { status: 204 }) : jsonError(404, 'NOT_FOUND', 'Trip not found', correlationId.toString());
+}
+
+export async function handleRulesGet(principal: Principal, repository: D1ProceduralMemoryRepository): Promise<Response> {
+	const memory = await repository.getProceduralMemory(principal.id);
+
+	const rules: AutomationRuleResponse[] = memory.rules.map((r) => ({
+		id: r.id,
+		ruleName: r.ruleName,
+		ruleType: r.ruleType,
+		context: r.context,
+		condition: r.condition,
+		action: r.action,
+		priority: r.priority,
+		enabled: r.enabled,
+	}));
+
+	return jsonResponse({ rules });
+}
+
+export async function handleRulePatch(
+	request: Request,
+	principal: Principal,
+	repository: D1ProceduralMemoryRepository,
+	ruleId: string,
+	correlationId: CorrelationId,
+): Promise<Response> {
+	const update = await readBody(request, validateUpdateRuleRequest);
+	if (update instanceof Response) return update;
+
+	const updated = await repository.updateRuleStatus(principal.id, ruleId, update.enabled);
+	return updated
+		? jsonResponse({ id: ruleId, enabled: update.enabled })
+		: jsonError(404, 'NOT_FOUND', 'Rule not found', correlationId.toString());
+}
+
+export async function handleRuleDelete(
+	principal: Principal,
+	repository: D1ProceduralMemoryRepository,
+	ruleId: string,
+	correlationId: CorrelationId,
+): Promise<Response> {
+	const deleted = await repository.deleteRule(principal.id, ruleId);
+	return deleted ? new Response(null, { status: 204 }) : jsonError(404, 'NOT_FOUND', 'Rule not found', correlationId.toString());
+}
+
+export async function handleWorkflowsGet(principal: Principal, repository: D1ProceduralMemoryRepository): Promise<Response> {
+	const memory = await repository.getProceduralMemory(principal.id);
+	// Per workflow, so a frequent schedule's runs can't crowd a daily or weekly workflow's last run out of a shared page
+	const lastRuns = await Promise.all(
+		memory.workflows.map((w) => repository.listWorkflowRuns(principal.id, { workflowId: w.id, limit: 1 })),
+	);
+
+	const workflows: UserWorkflowResponse[] = memory.workflows.map((w, i) => {
+		const [lastRun] = lastRuns[i];
+		return {
+			id: w.id,
+			workflowName: w.workflowName,
+			triggerType: w.triggerType,
+			triggerConfig: w.triggerConfig,
+			actions: w.actions,
+			enabled: w.enabled,
+			lastRun: lastRun ? toWorkflowRunResponse(lastRun) : undefined,
+		};
+	});
+
+	return jsonResponse({ workflows });
+}
+
+export async function handleWorkflowRunsGet(
+	request: Request,
+	principal: Principal,
+	repository: D1ProceduralMemoryRepository,
+): Promise<Response> {
+	const params = new URL(request.url).searchParams;
+	const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), 100);
+	const runs = await repository.listWorkflowRuns(principal.id, { workflowId: params.get('workflowId') ?? undefined, limit });
+
+	return jsonResponse({ runs: runs.map(toWorkflowRunResponse) });
+}
+
+/**
+ * Runs synchronously so the response carries the outcome; actions are a handful of tool calls
+ */
+export async function handleWorkflowRun(
+	principal: Principal,
+	runner: WorkflowRunner,
+	workflowId: string,
+	correlationId: CorrelationId,
+): Promise<Response> {
+	const run = await runner.runManual(principal.id, workflowId, correlationId.toString());
+	return run
+		? jsonResponse({ run: toWorkflowRunResponse(run) })
+		: jsonError(404, 'NOT_FOUND', 'Workflow not found', correlationId.toString());
+}
+
+// Unified handler for routing
+export async function handleMemoryRequest(
+	request: Request,
+	principal: Principal,
+	correlationId: CorrelationId,
+	db: D1Database,
+	runner: WorkflowRunner,
+): Promise<Response> {
+	const url = new URL(request.url);
+	const repositories: MemoryRepositories = {
+		semantic: new D1SemanticMemoryRepository(db),
+		episodic: new D1EpisodicMemoryRepository(db),
+		procedural: new D1ProceduralMemoryRepository(db),
+	};
+	const methodNotAllowed = () => new Response('Method not allowed', { status: 405 });
+
+	// /api/memory/profile - read or update profile fields
+	if (url.pathname === '/api/memory/profile') {
+		if (request.method === 'GET') return handleProfileGet(principal, repositories.semantic);
+		if (request.method === 'PATCH') return handleProfilePatch(request, principal, repositories.semantic);
+		return methodNotAllowed();
+	}
+
+	// GET /api/memory/preferences - list preferences
+	if (url.pathname === '/api/memory/preferences') {
+		return request.method === 'GET' ? handlePreferencesGet(request, principal, repositories.semantic) : methodNotAllowed();
+	}
+
+	// /api/memory/preferences/:category/:key - set or forget a preference
+	const preferenceMatch = url.pathname.match(/^\/api\/memory\/preferences\/([^/]+)\/([^/]+)$/);
+	if (preferenceMatch) {
+		const category = decodeURIComponent(preferenceMatch[1]);
+		const key = decodeURIComponent(preferenceMatch[2]);
+		if (request.method === 'PUT') return handlePreferencePut(request, principal, repositories.semantic, category, key);
+		if (request.method === 'DELETE') return handlePreferenceDelete(principal, repositories.semantic, category, key);
+		return methodNotAllowed();
+	}
+
+	// GET /api/memory/travel - list travel history
+	if (url.pathname === '/api/memory/travel') {
+		return request.method === 'GET' ? handleTravelGet(request, principal, repositories.episodic) : methodNotAllowed();
+	}
+
+	// /api/memory/travel/:id - correct or forget a trip
+	const travelMatch = url.pathname.match(/^\/api\/memory\/travel\/([^/]+)$/);
+	if (travelMatch) {
+		const entryId = decodeURIComponent(travelMatch[1]);
+		if (request.method === 'PATCH') return handleTravelPatch(request, principal, repositories.episodic, entryId, correlationId);
+		if (request.method === 'DELETE') return handleTravelDelete(principal, repositories.episodic, entryId, correlationId);
+		return methodNotAllowed();
+	}
+
+	// GET /api/memory/rules - list automation rules
+	if (url.pathname === '/api/memory/rules') {
+		return request.method === 'GET' ? handleRulesGet(principal, repositories.procedural) : methodNotAllowed();
+	}
+
+	// /api/memory/rules/:id - enable, disable or delete a rule
+	const ruleMatch = url.pathname.match(/^\/api\/memory\/rules\/([^/]+)$/);
+	if (ruleMatch) {
+		const ruleId = decodeURIComponent(ruleMatch[1]);
+		if (request.method === 'PATCH') return handleRulePatch(request, principal, repositories.procedural, ruleId, correlationId);
+		if (request.method === 'DELETE') return handleRuleDelete(principal, repositories.procedural, ruleId, correlationId);
+		return methodNotAllowed();
+	}
+
+	// GET /api/memory/workflows - list workflows
+	if (url.pathname === '/api/memory/workflows') {
+		return request.method === 'GET' ? handleWorkflowsGet(principal, repositories.procedural) : methodNotAllowed();
+	}
+
+	// GET /api/memory/workflows/runs - run history
+	if (url.pathname === '/api/memory/workflows/runs') {
+		return request.method === 'GET' ? handleWorkflowRunsGet(request, principal, repositories.procedural) : methodNotAllowed();
+	}
+
+	// POST /api/memory/workflows/:id/run - run a workflow now
+	const workflowRunMatch = url.pathname.match(/^\/api\/memory\/workflows\/([^/]+)\/run$/);
+	if (workflowRunMatch) {
+		const workflowId = decodeURIComponent(workflowRunMatch[1]);
+		return request.method === 'POST' ? handleWorkflowRun(principal, runner, workflowId, correlationId) : methodNotAllowed();
+	}
+
+	return jsonError(404, 'NOT_FOUND', 'Not found', correlationId.toString());
+}
@@ -3,5 +3,6 @@
  */
 
 export { ChatService } from './chat.service';
-export { TaskService, CreateTaskCommand } from './task.service';
+export { TaskService, CreateTaskCommand, LinkEventCommand } from './task.service';
 export { TravelService, SearchFlightsCommand } from './travel.service';
+export { WorkflowRunner, WorkflowRunnerDeps, DailyPlanRequest, createWorkflowRunner } from './workflow-runner.service';
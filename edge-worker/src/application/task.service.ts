@@ -16,6 +16,29 @@ export interface CreateTaskCommand {
 	dueDate?: Date;
 }
 
+export interface LinkEventCommand {
+	userId: string;
+	eventId: string;
+	eventTitle: string;
+	taskId?: string; // The task the event was created for, when known
+}
+
+function normalizeTitle(title: string): string {
+	return ` ${title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim()} `;
+}
+
+/**
+ * "Deck prep" matches "Finish deck prep"; a single shared word ("Focus") is not enough
+ */
+function titlesMatch(a: string, b: string): boolean {
+	const [shorter, longer] = [normalizeTitle(a), normalizeTitle(b)].sort((x, y) => x.length - y.length);
+	if (shorter.trim() === '') return false;
+	return shorter === longer || (shorter.trim().includes(' ') && longer.includes(shorter));
+}
+
 export class TaskService {
 	constructor(
 		private readonly taskRepo: ITaskRepository,
@@ -65,4 +88,32 @@ export class TaskService {
 
 		return task;
 	}
+
+	/**
+	 * Record a calendar event on the task it makes time for: the given task, or else the
+	 * user's open tasks without an event whose title matches the event's
+	 */
+	async linkEvent(command: LinkEventCommand): Promise<Task[]> {
+		const tasks = command.taskId
+			? [await this.taskRepo.findById(command.taskId, command.userId)].filter((task): task is Task => task !== null)
+			: (await this.taskRepo.findByUser(command.userId)).filter(
+					(task) =>
+						(task.getStatus() === 'pending' || task.getStatus() === 'in_progress') &&
+						!task.getMetadata().relatedEventId &&
+						titlesMatch(task.getTitle(), command.eventTitle),
+				);
+
+		for (const task of tasks) {
+			task.linkEvent(command.eventId);
+			await this.taskRepo.save(task);
+		}
+
+		if (tasks.length > 0) {
+			this.logger.info('Linked calendar event to tasks', {
+				metadata: { eventId: command.eventId, taskIds: tasks.map((task) => task.id), userId: command.userId },
+			});
+		}
+
+		return tasks;
+	}
 }
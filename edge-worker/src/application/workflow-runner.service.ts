@@ -0,0 +1,484 @@
+/**
+ * WorkflowRunner - Executes the user's stored workflows (user_workflows)
+ *
+ * Interprets a workflow's action list with the assistant's own capabilities:
+ * - search_flights: flight search tool, then the user's flight_search rules
+ * - list_events: calendar tool; overlapping events are counted as conflicts
+ * - create_task: TaskService
+ * - daily_plan: starts DailyPlanningWorkflow
+ *
+ * Runs come from three triggers: manual (API), scheduled (Worker cron, matched against
+ * triggerConfig.schedule in triggerConfig.timezone) and event (domain events whose type
+ * matches triggerConfig.event). Every run is recorded in workflow_runs with a step per
+ * action and a one-line summary. Actions run in order and the run stops at the first
+ * failure. Scheduled and event runs get deterministic ids, so a trigger that fires twice
+ * does not run the workflow twice.
+ *
+ * Action params may use natural dates ("today", "next monday") for date fields and
+ * {{event.field}} placeholders filled from the triggering event.
+ */
+
+import { WorkerEnv } from '../env';
+import { Logger } from '../observability/logger';
+import { ToolExecutor, ToolRegistry } from '../tools';
+import { getToolByName } from '../tools/catalog';
+import { FlightOption as SearchResultFlight, searchResultFacts } from '../tools/flights-handler';
+import { CalendarEvent } from '../tools/calendar-handler';
+import { TaskService } from './task.service';
+import { D1TaskAdapter } from '../adapters/persistence/d1-task.adapter';
+import { D1ProceduralMemoryRepository } from '../infrastructure/memory/D1ProceduralMemoryRepository';
+import { IProceduralMemoryRepository } from '../domain/memory/ports/IProceduralMemoryRepository';
+import { UserWorkflow, WorkflowRun, WorkflowStepResult } from '../domain/memory/ProceduralMemory';
+import { TaskPriority } from '../domain/task/aggregates/task.aggregate';
+import { FlightRuleEngine } from '../domain/travel/services/flight-rule-engine.service';
+import { DomainEvent } from '../domain/shared/events/domain-event.base';
+import { CronSchedule, localTime } from '../domain/shared/services/cron-schedule';
+import { parseDateExpression } from '../domain/shared/services/date-expression.parser';
+
+export interface DailyPlanRequest {
+	userId: string;
+	date: string; // YYYY-MM-DD
+	timezone: string;
+	correlationId: string;
+}
+
+export interface WorkflowRunnerDeps {
+	workflows: IProceduralMemoryRepository;
+	tasks: TaskService;
+	executeTool: (toolName: string, args: Record<string, unknown>, correlationId: string) => Promise<Record<string, unknown>>;
+	startDailyPlan: (request: DailyPlanRequest) => Promise<string>; // Workflow instance id
+	logger: Logger;
+}
+
+interface RunContext {
+	userId: string;
+	now: Date;
+	timeZone: string;
+	correlationId: string;
+	event: Record<string, unknown>; // Fields of the triggering event, empty otherwise
+}
+
+interface RunRequest {
+	id: string;
+	triggerDetail?: string;
+	now: Date;
+	correlationId: string;
+	event?: Record<string, unknown>;
+}
+
+type Action = UserWorkflow['actions'][number];
+
+export const SCHEDULE_WINDOW_MINUTES = 5; // Matches the */5 cron trigger in wrangler.toml
+
+// Workflows may name an event by type or by its domain event class
+const EVENT_TYPES: Record<string, string> = {
+	TravelEventDetectedInCalendar: 'calendar.travel.detected',
+	CalendarEventsSynced: 'calendar.events.synced',
+	CalendarSyncStarted: 'calendar.sync.started',
+};
+
+const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+const MAX_LISTED_EVENTS = 10;
+
+function plural(count: number, word: string): string {
+	return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function isCalendarEvent(value: unknown): value is CalendarEvent {
+	const event = value as Partial<CalendarEvent> | null;
+	return typeof event?.id === 'string' && typeof event.start === 'object' && event.start !== null;
+}
+
+function eventTimes(event: CalendarEvent): [number, number] | null {
+	// All-day entries (holidays, out of office) mark the day rather than block time
+	if (!event.start.dateTime) return null;
+	const start = Date.parse(event.start.dateTime);
+	const end = Date.parse(event.end?.dateTime ?? '');
+	return Number.isNaN(start) || Number.isNaN(end) ? null : [start, end];
+}
+
+/**
+ * Pairs of events that overlap
+ */
+export function countConflicts(events: CalendarEvent[]): number {
+	const spans = events.map(eventTimes).filter((span): span is [number, number] => span !== null);
+	let conflicts = 0;
+	for (let i = 0; i < spans.length; i++) {
+		for (let j = i + 1; j < spans.length; j++) {
+			if (spans[i][0] < spans[j][1] && spans[j][0] < spans[i][1]) conflicts++;
+		}
+	}
+	return conflicts;
+}
+
+/**
+ * Own primitive fields of a domain event, for condition matching and {{event.*}} placeholders
+ */
+function eventFields(event: DomainEvent): Record<string, unknown> {
+	const fields: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(event)) {
+		if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) fields[key] = value;
+	}
+	return fields;
+}
+
+export class WorkflowRunner {
+	private ruleEngine = new FlightRuleEngine();
+
+	constructor(private readonly deps: WorkflowRunnerDeps) {}
+
+	/**
+	 * Run one of the user's workflows now
+	 * @returns null when the user has no such workflow
+	 */
+	async runManual(userId: string, workflowId: string, correlationId: string): Promise<WorkflowRun | null> {
+		const workflow = await this.deps.workflows.getWorkflow(userId, workflowId);
+		if (!workflow) return null;
+
+		return this.run(workflow, { id: crypto.randomUUID(), now: new Date(), correlationId, triggerDetail: 'manual' });
+	}
+
+	/**
+	 * Run every scheduled workflow due in the cron tick's window (the minutes since the previous tick)
+	 */
+	async runScheduled(scheduledTime: Date, windowMinutes = SCHEDULE_WINDOW_MINUTES): Promise<WorkflowRun[]> {
+		const tick = Math.floor(scheduledTime.getTime() / 60_000) * 60_000;
+		const minutes = Array.from({ length: windowMinutes }, (_, i) => new Date(tick - i * 60_000)); // Latest first
+		const workflows = await this.deps.workflows.getEnabledWorkflows('scheduled');
+		const runs: WorkflowRun[] = [];
+
+		for (const workflow of workflows) {
+			const expression = workflow.triggerConfig?.schedule;
+			if (!expression) continue;
+
+			let schedule: CronSchedule;
+			try {
+				schedule = CronSchedule.parse(expression, workflow.triggerConfig?.timezone ?? 'UTC');
+			} catch (error) {
+				this.deps.logger.warn('Skipping workflow with invalid schedule', {
+					metadata: { workflowId: workflow.id, schedule: expression, error: error instanceof Error ? error.message : String(error) },
+				});
+				continue;
+			}
+
+			const due = minutes.find((minute) => schedule.matches(minute));
+			if (!due) continue;
+
+			const run = await this.runGuarded(workflow, {
+				id: `${workflow.id}@${due.toISOString()}`,
+				triggerDetail: expression,
+				now: due,
+				correlationId: crypto.randomUUID(),
+			});
+			if (run) runs.push(run);
+		}
+
+		return runs;
+	}
+
+	/**
+	 * Run the user's event workflows that listen for this domain event
+	 * @param payload Extra fields for conditions and placeholders (e.g. the calendar event's title)
+	 * @param dedupeKey Identifies the occurrence across retries; defaults to the event id
+	 */
+	async handleEvent(event: DomainEvent, payload: Record<string, unknown> = {}, dedupeKey = event.eventId): Promise<WorkflowRun[]> {
+		const userId = event.principalId ?? event.aggregateId;
+		const fields = { ...eventFields(event), ...payload };
+		const workflows = (await this.deps.workflows.getEnabledWorkflows('event', userId)).filter((workflow) =>
+			this.listensFor(workflow, event.eventType, fields),
+		);
+		const runs: WorkflowRun[] = [];
+
+		for (const workflow of workflows) {
+			const run = await this.runGuarded(workflow, {
+				id: `${workflow.id}@${dedupeKey}`,
+				triggerDetail: event.eventType,
+				now: new Date(),
+				correlationId: event.correlationId.toString(),
+				event: fields,
+			});
+			if (run) runs.push(run);
+		}
+
+		return runs;
+	}
+
+	private listensFor(workflow: UserWorkflow, eventType: string, fields: Record<string, unknown>): boolean {
+		const wanted = workflow.triggerConfig?.event;
+		if (!wanted || (EVENT_TYPES[wanted] ?? wanted) !== eventType) return false;
+
+		// Every condition field must equal the event's (strings compared case-insensitively)
+		return Object.entries(workflow.triggerConfig?.condition ?? {}).every(([key, value]) =>
+			typeof value === 'string' && typeof fields[key] === 'string'
+				? value.toLowerCase() === (fields[key] as string).toLowerCase()
+				: value === fields[key],
+		);
+	}
+
+	/**
+	 * run() for batches: a workflow that throws (or whose run row cannot be written) is logged and
+	 * skipped so the workflows after it in the same tick or event still run
+	 */
+	private async runGuarded(workflow: UserWorkflow, request: RunRequest): Promise<WorkflowRun | null> {
+		try {
+			return await this.run(workflow, request);
+		} catch (error) {
+			this.deps.logger.error('Workflow run failed', error instanceof Error ? error : new Error(String(error)), {
+				correlationId: request.correlationId,
+				metadata: { runId: request.id, workflowId: workflow.id, triggerType: workflow.triggerType },
+			});
+			return null;
+		}
+	}
+
+	/**
+	 * Execute and record one run; null when this run id already succeeded or is still running
+	 */
+	private async run(workflow: UserWorkflow, request: RunRequest): Promise<WorkflowRun | null> {
+		const started = await this.deps.workflows.startWorkflowRun({
+			id: request.id,
+			workflowId: workflow.id,
+			userId: workflow.userId,
+			workflowName: workflow.workflowName,
+			triggerType: workflow.triggerType,
+			triggerDetail: request.triggerDetail,
+			startedAt: request.now,
+		});
+		if (!started) {
+			this.deps.logger.info('Workflow run already claimed, skipping', { metadata: { runId: request.id, workflowId: workflow.id } });
+			return null;
+		}
+
+		const steps: WorkflowStepResult[] = [];
+		let error: string | undefined;
+		let summary: string;
+
+		try {
+			const context: RunContext = {
+				userId: workflow.userId,
+				now: request.now,
+				timeZone: workflow.triggerConfig?.timezone ?? 'UTC',
+				correlationId: request.correlationId,
+				event: request.event ?? {},
+			};
+
+			for (const action of workflow.actions) {
+				try {
+					steps.push(await this.runAction(action, context));
+				} catch (e) {
+					error = e instanceof Error ? e.message : String(e);
+					steps.push({ action: action.type, status: 'failed', summary: error });
+					break;
+				}
+			}
+
+			const local = localTime(request.now, context.timeZone);
+			const at = `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+			summary = error
+				? `${workflow.workflowName} ran at ${at} and failed at ${steps[steps.length - 1].action}: ${error}`
+				: `${workflow.workflowName} ran at ${at}: ${steps.map((s) => s.summary).join('; ') || 'no actions'}`;
+		} catch (e) {
+			// Left 'running', the row would block retries until its lease runs out
+			error = e instanceof Error ? e.message : String(e);
+			await this.deps.workflows.finishWorkflowRun(request.id, {
+				status: 'failed',
+				summary: `${workflow.workflowName} failed: ${error}`,
+				steps,
+				error,
+			});
+			throw e;
+		}
+		const status = error ? 'failed' : 'succeeded';
+
+		await this.deps.workflows.finishWorkflowRun(request.id, { status, summary, steps, error });
+		this.deps.logger.info('Workflow run finished', {
+			correlationId: request.correlationId,
+			metadata: { runId: request.id, workflowId: workflow.id, triggerType: workflow.triggerType, status, steps: steps.length },
+		});
+
+		return {
+			id: request.id,
+			workflowId: workflow.id,
+			userId: workflow.userId,
+			workflowName: workflow.workflowName,
+			triggerType: workflow.triggerType,
+			triggerDetail: request.triggerDetail,
+			status,
+			summary,
+			steps,
+			error,
+			startedAt: request.now,
+			finishedAt: new Date(),
+		};
+	}
+
+	private async runAction(action: Action, context: RunContext): Promise<WorkflowStepResult> {
+		const params = this.fillPlaceholders(action.params ?? {}, context.event);
+
+		switch (action.type) {
+			case 'search_flights':
+				return this.searchFlights(params, context);
+			case 'list_events':
+				return this.listEvents(params, context);
+			case 'create_task':
+				return this.createTask(params, context);
+			case 'daily_plan':
+				return this.dailyPlan(params, context);
+			default:
+				throw new Error(`Unsupported action: ${action.type}`);
+		}
+	}
+
+	private async searchFlights(params: Record<string, unknown>, context: RunContext): Promise<WorkflowStepResult> {
+		const result = await this.deps.executeTool(
+			'search_flights',
+			this.resolveToolDates('search_flights', params, context),
+			context.correlationId,
+		);
+		const flights = (Array.isArray(result.data) ? result.data : []) as SearchResultFlight[];
+
+		const { rules } = await this.deps.workflows.getProceduralMemory(context.userId);
+		const outcome = this.ruleEngine.apply(flights, rules, searchResultFacts);
+		const cheapest = [...outcome.options].sort((a, b) => a.price.amount - b.price.amount)[0];
+
+		const removed = outcome.removed.length > 0 ? ` (${outcome.removed.length} removed by your rules)` : '';
+		const price = cheapest ? `, cheapest ${cheapest.price.amount} ${cheapest.price.currency} on ${cheapest.airline_name}` : '';
+		return {
+			action: 'search_flights',
+			status: 'succeeded',
+			summary: `found ${plural(outcome.options.length, 'flight')}${removed}${price}`,
+			data: {
+				count: outcome.options.length,
+				removedByRules: outcome.removed.length,
+				cheapest: cheapest ? { id: cheapest.id, airline: cheapest.airline_name, price: cheapest.price } : undefined,
+			},
+		};
+	}
+
+	private async listEvents(params: Record<string, unknown>, context: RunContext): Promise<WorkflowStepResult> {
+		// Without a range the briefing covers the day it runs; recurring meetings count once per occurrence
+		const args = this.resolveToolDates(
+			'list_events',
+			{ timeMin: 'today', timeMax: 'today', singleEvents: true, orderBy: 'startTime', ...params },
+			context,
+		);
+		const result = await this.deps.executeTool('list_events', args, context.correlationId);
+		const events = Array.isArray(result.data) ? result.data.filter(isCalendarEvent) : [];
+		const conflicts = countConflicts(events);
+
+		return {
+			action: 'list_events',
+			status: 'succeeded',
+			summary: `found ${plural(events.length, 'event')}${conflicts > 0 ? `, ${plural(conflicts, 'conflict')}` : ''}`,
+			data: {
+				count: events.length,
+				conflicts,
+				events: events.slice(0, MAX_LISTED_EVENTS).map((e) => ({ id: e.id, summary: e.summary, start: e.start.dateTime ?? e.start.date })),
+			},
+		};
+	}
+
+	private async createTask(params: Record<string, unknown>, context: RunContext): Promise<WorkflowStepResult> {
+		const title = typeof params.title === 'string' ? params.title.trim() : '';
+		if (!title) {
+			throw new Error('create_task needs a title');
+		}
+		const priority = TASK_PRIORITIES.includes(params.priority as TaskPriority) ? (params.priority as TaskPriority) : undefined;
+		const due = typeof params.dueDate === 'string' ? this.resolveDate(params.dueDate, context) : undefined;
+
+		const task = await this.deps.tasks.createTask({
+			title,
+			userId: context.userId,
+			description: typeof params.description === 'string' ? params.description : undefined,
+			priority,
+			dueDate: due?.start,
+		});
+
+		return { action: 'create_task', status: 'succeeded', summary: `created task "${title}"`, data: { taskId: task.id } };
+	}
+
+	private async dailyPlan(params: Record<string, unknown>, context: RunContext): Promise<WorkflowStepResult> {
+		const date = this.resolveDate(typeof params.date === 'string' ? params.date : 'today', context)?.date;
+		if (!date) {
+			throw new Error(`daily_plan could not read date "${params.date}"`);
+		}
+
+		const instanceId = await this.deps.startDailyPlan({
+			userId: context.userId,
+			date,
+			timezone: context.timeZone,
+			correlationId: context.correlationId,
+		});
+
+		return { action: 'daily_plan', status: 'succeeded', summary: `started the daily plan for ${date}`, data: { instanceId, date } };
+	}
+
+	/**
+	 * Replace {{event.field}} placeholders; a value that is only a placeholder keeps the field's type
+	 */
+	private fillPlaceholders(params: Record<string, unknown>, event: Record<string, unknown>): Record<string, unknown> {
+		const filled: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(params)) {
+			if (typeof value !== 'string') {
+				filled[key] = value;
+				continue;
+			}
+			const whole = value.match(/^\{\{\s*event\.(\w+)\s*\}\}$/);
+			filled[key] = whole ? event[whole[1]] : value.replace(/\{\{\s*event\.(\w+)\s*\}\}/g, (_, field) => String(event[field] ?? ''));
+		}
+		return filled;
+	}
+
+	/**
+	 * Natural dates in a tool's date/date-time params become ISO values in the workflow's time zone.
+	 * Range-end params (timeMax) take the end of the expression's range.
+	 */
+	private resolveToolDates(toolName: string, params: Record<string, unknown>, context: RunContext): Record<string, unknown> {
+		const tool = getToolByName(toolName);
+		const resolved = { ...params };
+
+		for (const [key, value] of Object.entries(params)) {
+			const format = tool?.parameters[key]?.format;
+			if ((format !== 'date' && format !== 'date-time') || typeof value !== 'string' || /^\d{4}-\d{2}-\d{2}/.test(value)) continue;
+
+			const parsed = this.resolveDate(value, context);
+			if (!parsed) continue; // Left for the tool's argument validation to report
+
+			if (format === 'date') resolved[key] = parsed.date;
+			else resolved[key] = (/max|end/i.test(key) ? parsed.end : parsed.start).toISOString();
+		}
+
+		return resolved;
+	}
+
+	private resolveDate(text: string, context: RunContext): { date: string; start: Date; end: Date } | null {
+		if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+			const start = new Date(`${text}T00:00:00Z`);
+			return Number.isNaN(start.getTime()) ? null : { date: text, start, end: new Date(start.getTime() + 86_400_000) };
+		}
+		const expression = parseDateExpression(text, { now: context.now, timeZone: context.timeZone });
+		return expression ? { date: expression.startDate, start: expression.range.start, end: expression.range.end } : null;
+	}
+}
+
+/**
+ * Runner wired to D1, the tool catalog and the DAILY_PLANNING workflow binding
+ */
+export function createWorkflowRunner(env: WorkerEnv, logger: Logger): WorkflowRunner {
+	const registry = new ToolRegistry();
+
+	return new WorkflowRunner({
+		workflows: new D1ProceduralMemoryRepository(env.DB),
+		tasks: new TaskService(new D1TaskAdapter(env.DB, logger), logger),
+		executeTool: async (toolName, args, correlationId) => {
+			const tool = registry.getToolByName(toolName);
+			if (!tool) {
+				throw new Error(`Tool not in catalog: ${toolName}`);
+			}
+			const result = await new ToolExecutor(registry, env, correlationId).execute(tool.id, args, () => {});
+			return (result as Record<string, unknown>) || {};
+		},
+		startDailyPlan: async (request) => (await env.DAILY_PLANNING.create({ params: request })).id,
+		logger,
+	});
+}
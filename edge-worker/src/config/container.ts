@@ -6,9 +6,11 @@
 
 import { Logger } from '../observability/logger';
 import { AnalyticsEngineMetrics } from '../observability/metrics';
-import { WorkersAIAdapter } from '../adapters/llm/workers-ai.adapter';
+import { createLLMPort } from '../adapters/llm/routed-llm.adapter';
+import { ILLMPort } from '../domain/chat/ports/llm.port';
 import { DuffelFlightAdapter } from '../adapters/mcp/flights.adapter';
-import { GoogleCalendarAdapter } from '../adapters/mcp/calendar.adapter';
+import { createCalendarPort } from '../adapters/mcp/calendar-provider';
+import { ICalendarPort } from '../domain/calendar/ports/calendar.port';
 import { D1ChatAdapter } from '../adapters/persistence/d1-chat.adapter';
 import { D1TaskAdapter } from '../adapters/persistence/d1-task.adapter';
 import { D1EventLogAdapter } from '../adapters/persistence/d1-event-log.adapter';
@@ -21,6 +23,7 @@ import { AppConfig } from './settings';
 import { ChatService } from '../application/chat.service';
 import { TaskService } from '../application/task.service';
 import { TravelService } from '../application/travel.service';
+import { WorkflowRunner, createWorkflowRunner } from '../application/workflow-runner.service';
 
 export interface Container {
 	logger: Logger;
@@ -29,9 +32,9 @@ export interface Container {
 	idempotency: IdempotencyService;
 
 	// Adapters
-	llmAdapter: WorkersAIAdapter;
+	llmAdapter: ILLMPort;
 	flightAdapter: DuffelFlightAdapter;
-	calendarAdapter: GoogleCalendarAdapter;
+	calendarAdapter: ICalendarPort;
 	chatRepository: D1ChatAdapter;
 	taskRepository: D1TaskAdapter;
 	eventLog: D1EventLogAdapter;
@@ -43,6 +46,7 @@ export interface Container {
 	chatService: ChatService;
 	taskService: TaskService;
 	travelService: TravelService;
+	workflowRunner: WorkflowRunner;
 }
 
 import { validateBindings } from './bindings.validator';
@@ -57,7 +61,7 @@ export function createContainer(env: WorkerEnv, config: AppConfig): Container {
 	const metrics = new AnalyticsEngineMetrics(env.ANALYTICS_ENGINE);
 
 	// Adapters
-	const llmAdapter = new WorkersAIAdapter(env.AI as any, logger);
+	const llmAdapter = createLLMPort(env, logger); // Routes each use case to a provider/model
 
 	// Flight Adapter Dependencies
 	const duffelClient = new DuffelApiClient(config.duffelApiKey || '', logger);
@@ -66,7 +70,7 @@ export function createContainer(env: WorkerEnv, config: AppConfig): Container {
 
 	const flightAdapter = new DuffelFlightAdapter(duffelClient, duffelMapper, flightValidator, logger, config.duffelApiKey || '');
 
-	const calendarAdapter = new GoogleCalendarAdapter(config.googleCalendarMcpUrl || 'http://localhost:3000', logger);
+	const calendarAdapter = createCalendarPort(env, logger); // CALENDAR_PROVIDER: google or fixture
 
 	const chatRepository = new D1ChatAdapter(env.DB, logger);
 	const taskRepository = new D1TaskAdapter(env.DB, logger);
@@ -76,6 +80,7 @@ export function createContainer(env: WorkerEnv, config: AppConfig): Container {
 	const chatService = new ChatService(chatRepository, llmAdapter, logger);
 	const taskService = new TaskService(taskRepository, logger);
 	const travelService = new TravelService(flightAdapter, logger);
+	const workflowRunner = createWorkflowRunner(env, logger);
 
 	return {
 		logger,
@@ -101,5 +106,6 @@ export function createContainer(env: WorkerEnv, config: AppConfig): Container {
 		chatService,
 		taskService,
 		travelService,
+		workflowRunner,
 	};
 }
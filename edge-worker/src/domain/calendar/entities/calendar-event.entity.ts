@@ -4,11 +4,35 @@
  * Represents synced calendar event from external calendar
  */
 
+export interface CalendarEventAttendee {
+	email: string;
+	displayName?: string;
+	responseStatus: 'needsAction' | 'declined' | 'tentative' | 'accepted';
+}
+
 export interface CalendarEventMetadata {
 	externalId: string;
 	calendarProvider: string;
 	location?: string;
 	participants?: string[];
+	attendees?: CalendarEventAttendee[];
+	allDay?: boolean; // start/end are midnights (UTC) of the dates; end is exclusive, as in Google Calendar
+	timeZone?: string; // Time zone the event was scheduled in
+	recurrence?: string[]; // RRULEs of a recurring series (listed without singleEvents)
+	recurringEventId?: string; // Series id of an expanded instance (listed with singleEvents)
+	status?: 'confirmed' | 'tentative' | 'cancelled';
+	created?: string;
+	updated?: string;
+}
+
+const TRAVEL_KEYWORDS = ['flight', 'hotel', 'trip', 'travel', 'vacation'];
+
+/**
+ * Whether an event's text mentions travel (also used before an event is reconstituted)
+ */
+export function hasTravelKeywords(title: string, description?: string): boolean {
+	const searchText = `${title} ${description || ''}`.toLowerCase();
+	return TRAVEL_KEYWORDS.some((keyword) => searchText.includes(keyword));
 }
 
 export class CalendarEvent {
@@ -52,8 +76,6 @@ export class CalendarEvent {
 	}
 
 	containsTravelKeywords(): boolean {
-		const keywords = ['flight', 'hotel', 'trip', 'travel', 'vacation'];
-		const searchText = `${this.title} ${this.description || ''}`.toLowerCase();
-		return keywords.some((keyword) => searchText.includes(keyword));
+		return hasTravelKeywords(this.title, this.description);
 	}
 }
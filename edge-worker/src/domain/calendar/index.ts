@@ -6,10 +6,10 @@
 export { CalendarSync, SyncStatus } from './aggregates/calendar-sync.aggregate';
 
 // Entities
-export { CalendarEvent, CalendarEventMetadata } from './entities/calendar-event.entity';
+export { CalendarEvent, CalendarEventMetadata, CalendarEventAttendee } from './entities/calendar-event.entity';
 
 // Events
 export { CalendarSyncStarted, CalendarEventsSynced, TravelEventDetectedInCalendar } from './events/calendar.events';
 
 // Ports
-export { ICalendarPort } from './ports/calendar.port';
+export { ICalendarPort, CalendarEventQuery, CalendarEventInput } from './ports/calendar.port';
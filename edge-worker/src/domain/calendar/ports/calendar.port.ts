@@ -4,10 +4,38 @@
  * ACL for external calendar APIs (Google Calendar MCP)
  */
 
-import { CalendarEvent } from '../entities/calendar-event.entity';
+import { CalendarEvent, CalendarEventMetadata } from '../entities/calendar-event.entity';
+
+export interface CalendarEventQuery {
+	calendarId: string;
+	timeMin: Date;
+	timeMax: Date;
+	maxResults: number;
+	singleEvents: boolean; // Expand recurring series into instances
+	orderBy: 'startTime' | 'updated'; // startTime requires singleEvents
+}
+
+/**
+ * Event fields to write; ids and provider metadata are assigned by the calendar
+ */
+export type CalendarEventInput = Partial<Pick<CalendarEvent, 'title' | 'description' | 'startTime' | 'endTime'>> & {
+	metadata?: Partial<CalendarEventMetadata>;
+};
 
 export interface ICalendarPort {
 	syncEvents(userId: string, since?: Date): Promise<CalendarEvent[]>;
 
-	createEvent(userId: string, event: Partial<CalendarEvent>): Promise<CalendarEvent>;
+	/**
+	 * Events of the connected calendar overlapping the range, in query order
+	 */
+	listEvents(query: CalendarEventQuery, correlationId?: string): Promise<CalendarEvent[]>;
+
+	createEvent(userId: string, event: CalendarEventInput): Promise<CalendarEvent>;
+
+	/**
+	 * Apply the given fields to an existing event; fields left out are unchanged
+	 */
+	updateEvent(userId: string, eventId: string, changes: CalendarEventInput): Promise<CalendarEvent>;
+
+	deleteEvent(userId: string, eventId: string): Promise<void>;
 }
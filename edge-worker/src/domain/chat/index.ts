@@ -19,4 +19,4 @@ export { ChatMessageReceived, AssistantMessageGenerated, ConversationStarted, Co
 
 // Ports
 export { IChatRepository } from './ports/chat-repository.port';
-export { ILLMPort, LLMMessage, LLMCompletionRequest, LLMCompletionResponse } from './ports/llm.port';
+export { ILLMPort, LLMMessage, LLMCompletionRequest, LLMCompletionResponse, LLMStreamChunk, LLMUseCase } from './ports/llm.port';
@@ -10,6 +10,7 @@ export interface LLMMessage {
 	content: string;
 	name?: string; // Tool name for tool role
 	tool_call_id?: string; // ID linking tool result to tool call
+	tool_calls?: ToolCall[]; // Assistant message: the calls its tool messages answer
 }
 
 export interface ToolDefinition {
@@ -25,6 +26,7 @@ export interface ToolDefinition {
 					type: string;
 					description?: string;
 					enum?: string[];
+					default?: string | number | boolean;
 				}
 			>;
 			required?: string[];
@@ -41,12 +43,21 @@ export interface ToolCall {
 	};
 }
 
+/**
+ * What a completion is for; the model router picks a provider and model per use case
+ */
+export type LLMUseCase =
+	'chat' | 'intent_classification' | 'flight_ranking' | 'task_extraction' | 'daily_planning' | 'conversation_summary';
+
 export interface LLMCompletionRequest {
 	messages: LLMMessage[];
 	temperature?: number;
 	maxTokens?: number;
 	tools?: ToolDefinition[]; // Available tools for the LLM
 	tool_choice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
+	useCase?: LLMUseCase; // Defaults to 'chat'
+	model?: string; // Set by the router; adapters fall back to their default model
+	signal?: AbortSignal; // Cancels an in-flight completion or stream
 }
 
 export interface LLMCompletionResponse {
@@ -57,12 +68,15 @@ export interface LLMCompletionResponse {
 	finish_reason?: 'stop' | 'tool_calls' | 'length';
 }
 
+export interface LLMStreamChunk {
+	delta: string; // New text since the previous chunk
+	tool_calls?: ToolCall[];
+	tokenCount?: number; // Total usage, when the provider reports it (usually on the last chunk)
+	done: boolean;
+}
+
 export interface ILLMPort {
 	generateCompletion(request: LLMCompletionRequest, correlationId: string): Promise<LLMCompletionResponse>;
 
-	streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<{
-		delta: string;
-		tool_calls?: ToolCall[];
-		done: boolean;
-	}>;
+	streamCompletion(request: LLMCompletionRequest): AsyncIterableIterator<LLMStreamChunk>;
 }
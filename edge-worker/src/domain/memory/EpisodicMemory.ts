@@ -101,7 +101,8 @@ export class EpisodicMemory {
 		if (this.conversations.length > 0) {
 			parts.push('\n[Recent Conversation Topics]');
 			this.conversations.slice(0, 2).forEach((conv) => {
-				parts.push(`- ${conv.summary}`);
+				const when = Number.isNaN(conv.createdAt.getTime()) ? '' : ` (${conv.createdAt.toLocaleDateString()})`;
+				parts.push(`- ${conv.summary}${when}`);
 			});
 		}
 
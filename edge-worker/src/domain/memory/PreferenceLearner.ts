@@ -0,0 +1,267 @@
+/**
+ * Preference Learner: Inferred semantic memory from what users say
+ *
+ * Reads stated or implied preferences out of a chat message ("I always fly United",
+ * "I hate red-eyes", "my home airport is PHL") and turns them into updates for
+ * user_preferences rows with source 'inferred':
+ * - New preference: starts at the evidence's initial confidence (stated > implied)
+ * - Same value again: confidence moves towards 1 (capped below explicit certainty)
+ * - Different value for the same key: confidence drops; the new value replaces the
+ *   old one once the old one is weaker than fresh evidence
+ * - Rejection of the stored value ("I don't fly United anymore"): confidence drops,
+ *   and the preference is forgotten below MIN_CONFIDENCE
+ *
+ * Preferences the user set explicitly are never changed by inference.
+ */
+
+import { AirportResolver } from '../travel/services/airport-resolver.service';
+import type { UserPreference } from './SemanticMemory';
+
+export type EvidenceStrength = 'stated' | 'implied';
+
+export interface PreferenceObservation {
+	category: UserPreference['category'];
+	preferenceKey: string;
+	preferenceValue: string;
+	negated: boolean; // The user rejects this value rather than choosing it
+	strength: EvidenceStrength;
+	evidence: string; // The words the observation was read from
+}
+
+export type LearnedPreference = Omit<UserPreference, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export type PreferenceUpdate =
+	| { action: 'save'; preference: LearnedPreference; evidence: string }
+	| { action: 'delete'; category: UserPreference['category']; preferenceKey: string; evidence: string };
+
+const INITIAL_CONFIDENCE: Record<EvidenceStrength, number> = { stated: 0.6, implied: 0.4 };
+const EVIDENCE_WEIGHT: Record<EvidenceStrength, number> = { stated: 1, implied: 0.5 };
+const REINFORCEMENT_RATE = 0.5; // Share of the remaining doubt removed by one stated repeat
+const CONTRADICTION_RATE = 0.3; // Share of confidence removed by one stated different value
+const REJECTION_RATE = 0.5; // Share of confidence removed by one stated rejection of the value
+const MAX_INFERRED_CONFIDENCE = 0.95;
+const MIN_CONFIDENCE = 0.2; // Rejected preferences below this are deleted
+
+// Display names keyed by the spellings users type
+const AIRLINES: Record<string, string> = {
+	united: 'United',
+	delta: 'Delta',
+	american: 'American',
+	'american airlines': 'American',
+	southwest: 'Southwest',
+	jetblue: 'JetBlue',
+	alaska: 'Alaska',
+	spirit: 'Spirit',
+	frontier: 'Frontier',
+	hawaiian: 'Hawaiian',
+	'air canada': 'Air Canada',
+	'british airways': 'British Airways',
+	lufthansa: 'Lufthansa',
+	'air france': 'Air France',
+	klm: 'KLM',
+	emirates: 'Emirates',
+	ryanair: 'Ryanair',
+	easyjet: 'easyJet',
+};
+
+// Longest first so "american airlines" wins over "american"
+const AIRLINE = `(${Object.keys(AIRLINES)
+	.sort((a, b) => b.length - a.length)
+	.join('|')})`;
+const RED_EYE = 'red[- ]?eyes?(?: flights?)?';
+const NONSTOP = '(?:non-?stops?|direct flights?)';
+const LAYOVERS = '(?:layovers?|connections?|stopovers?)';
+const DISLIKE = "(?:hate|avoid|can'?t stand|dislike|don'?t like|never (?:take|do|book))";
+
+interface PreferencePattern {
+	pattern: RegExp;
+	strength: EvidenceStrength;
+	read: (match: RegExpMatchArray) => Array<Omit<PreferenceObservation, 'strength' | 'evidence'>>;
+}
+
+const airline = (name: string) => AIRLINES[name.toLowerCase()];
+
+const PATTERNS: PreferencePattern[] = [
+	{
+		pattern: new RegExp(`\\bi (?:always|usually|only|mostly) fly (?:with |on )?${AIRLINE}\\b`, 'i'),
+		strength: 'stated',
+		read: ([, name]) => [{ category: 'airline', preferenceKey: 'preferred', preferenceValue: airline(name), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi (?:prefer|love|like) (?:flying )?(?:with |on )?${AIRLINE}\\b`, 'i'),
+		strength: 'stated',
+		read: ([, name]) => [{ category: 'airline', preferenceKey: 'preferred', preferenceValue: airline(name), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\b${AIRLINE} is my (?:favou?rite|preferred|usual|go-to) airline\\b`, 'i'),
+		strength: 'stated',
+		read: ([, name]) => [{ category: 'airline', preferenceKey: 'preferred', preferenceValue: airline(name), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi (?:${DISLIKE}|never fly|won'?t fly|don'?t fly|refuse to fly) (?:with |on )?${AIRLINE}\\b`, 'i'),
+		strength: 'stated',
+		read: ([, name]) => [
+			{ category: 'airline', preferenceKey: 'avoid', preferenceValue: airline(name), negated: false },
+			{ category: 'airline', preferenceKey: 'preferred', preferenceValue: airline(name), negated: true },
+		],
+	},
+	{
+		pattern: new RegExp(`\\b(?:on|with) ${AIRLINE} (?:again|as usual|like last time)\\b`, 'i'),
+		strength: 'implied',
+		read: ([, name]) => [{ category: 'airline', preferenceKey: 'preferred', preferenceValue: airline(name), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi ${DISLIKE} ${RED_EYE}`, 'i'),
+		strength: 'stated',
+		read: () => [{ category: 'travel', preferenceKey: 'red_eye', preferenceValue: 'avoid', negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi (?:like|love|prefer|don'?t mind) ${RED_EYE}`, 'i'),
+		strength: 'stated',
+		read: () => [{ category: 'travel', preferenceKey: 'red_eye', preferenceValue: 'ok', negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bno ${RED_EYE}`, 'i'),
+		strength: 'implied',
+		read: () => [{ category: 'travel', preferenceKey: 'red_eye', preferenceValue: 'avoid', negated: false }],
+	},
+	{
+		pattern: /\bi (?:always |usually )?(?:prefer|like|want|take|get|book) (?:an? |the )?(window|aisle)(?: seats?)?\b/i,
+		strength: 'stated',
+		read: ([, seat]) => [{ category: 'travel', preferenceKey: 'seat', preferenceValue: seat.toLowerCase(), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi ${DISLIKE} (?:the )?(window|aisle|middle) seats?\\b`, 'i'),
+		strength: 'stated',
+		read: ([, seat]) => [{ category: 'travel', preferenceKey: 'seat', preferenceValue: seat.toLowerCase(), negated: true }],
+	},
+	{
+		pattern: /\b(window|aisle) seat (?:again|as usual|like last time)\b/i,
+		strength: 'implied',
+		read: ([, seat]) => [{ category: 'travel', preferenceKey: 'seat', preferenceValue: seat.toLowerCase(), negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi (?:only |always )?(?:prefer|want|like|fly|take|book) ${NONSTOP}|\\bi ${DISLIKE} ${LAYOVERS}`, 'i'),
+		strength: 'stated',
+		read: () => [{ category: 'travel', preferenceKey: 'stops', preferenceValue: 'nonstop', negated: false }],
+	},
+	{
+		pattern: new RegExp(`\\bi don'?t mind (?:a |one )?${LAYOVERS}`, 'i'),
+		strength: 'stated',
+		read: () => [{ category: 'travel', preferenceKey: 'stops', preferenceValue: 'any', negated: false }],
+	},
+];
+
+const HOME_AIRPORT_PATTERNS: Array<{ pattern: RegExp; strength: EvidenceStrength }> = [
+	{ pattern: /\bmy (?:home|usual|local) airport is ([a-z][a-z .]*?)(?=[.,;!?]| and |$)/i, strength: 'stated' },
+	{ pattern: /\bi (?:usually |always )?fly (?:out of|from) ([a-z][a-z .]*?) (?:usually|always|mostly)\b/i, strength: 'implied' },
+	{ pattern: /\bi(?:'m| am) based (?:in|at|out of) ([a-z][a-z .]*?)(?=[.,;!?]| and |$)/i, strength: 'implied' },
+];
+
+const MAX_PLACE_WORDS = 4;
+
+export class PreferenceLearner {
+	constructor(private readonly airports: AirportResolver = new AirportResolver()) {}
+
+	/**
+	 * Every preference the message states or implies
+	 */
+	extract(message: string): PreferenceObservation[] {
+		const observations: PreferenceObservation[] = [];
+
+		for (const { pattern, strength, read } of PATTERNS) {
+			const match = message.match(pattern);
+			if (!match) continue;
+			for (const observation of read(match)) {
+				observations.push({ ...observation, strength, evidence: match[0].trim() });
+			}
+		}
+
+		for (const { pattern, strength } of HOME_AIRPORT_PATTERNS) {
+			const match = message.match(pattern);
+			const code = match ? this.resolveAirport(match[1]) : undefined;
+			if (!match || !code) continue;
+			observations.push({
+				category: 'travel',
+				preferenceKey: 'home_airport',
+				preferenceValue: code,
+				negated: false,
+				strength,
+				evidence: match[0].trim(),
+			});
+			break; // The stated form wins over implied ones in the same message
+		}
+
+		return observations;
+	}
+
+	/**
+	 * Changes to make to the stored preferences (current rows for the user) given new observations
+	 */
+	update(existing: UserPreference[], observations: PreferenceObservation[]): PreferenceUpdate[] {
+		const current = new Map<string, LearnedPreference | null>(existing.map((p) => [`${p.category}:${p.preferenceKey}`, p]));
+		const updates = new Map<string, PreferenceUpdate>(); // Last change per key wins
+
+		for (const observation of observations) {
+			const key = `${observation.category}:${observation.preferenceKey}`;
+			const stored = current.get(key) ?? undefined;
+			if (stored?.source === 'explicit') continue;
+
+			const update = this.apply(stored, observation);
+			if (!update) continue;
+
+			current.set(key, update.action === 'save' ? update.preference : null);
+			updates.set(key, update);
+		}
+
+		return [...updates.values()];
+	}
+
+	private apply(stored: LearnedPreference | undefined, observation: PreferenceObservation): PreferenceUpdate | null {
+		const { category, preferenceKey, preferenceValue, strength, evidence } = observation;
+		const weight = EVIDENCE_WEIGHT[strength];
+		const save = (value: string, confidence: number): PreferenceUpdate => ({
+			action: 'save',
+			preference: { category, preferenceKey, preferenceValue: value, confidence: round(confidence), source: 'inferred' },
+			evidence,
+		});
+
+		if (observation.negated) {
+			if (!stored || stored.preferenceValue !== preferenceValue) return null;
+			const confidence = stored.confidence * (1 - REJECTION_RATE * weight);
+			return confidence < MIN_CONFIDENCE
+				? { action: 'delete', category, preferenceKey, evidence }
+				: save(stored.preferenceValue, confidence);
+		}
+
+		if (!stored) {
+			return save(preferenceValue, INITIAL_CONFIDENCE[strength]);
+		}
+
+		if (stored.preferenceValue === preferenceValue) {
+			const confidence = Math.min(MAX_INFERRED_CONFIDENCE, stored.confidence + (1 - stored.confidence) * REINFORCEMENT_RATE * weight);
+			return save(preferenceValue, confidence);
+		}
+
+		// Contradiction: the old value keeps its place until it is weaker than fresh evidence
+		const weakened = stored.confidence * (1 - CONTRADICTION_RATE * weight);
+		return weakened < INITIAL_CONFIDENCE[strength]
+			? save(preferenceValue, INITIAL_CONFIDENCE[strength])
+			: save(stored.preferenceValue, weakened);
+	}
+
+	private resolveAirport(place: string): string | undefined {
+		const trimmed = place.trim();
+		if (trimmed.split(/\s+/).length > MAX_PLACE_WORDS) return undefined;
+
+		// Misspellings are left to the user to confirm in conversation rather than learned
+		const resolution = this.airports.resolve(trimmed);
+		if (resolution.matchedBy === 'fuzzy') return undefined;
+		if (resolution.status === 'resolved') return resolution.candidates[0].code.toString();
+		return resolution.metroCode; // "New York" is a fine home airport; "Portland" is not
+	}
+}
+
+function round(confidence: number): number {
+	return Math.round(confidence * 1000) / 1000;
+}
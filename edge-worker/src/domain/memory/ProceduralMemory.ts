@@ -14,6 +14,7 @@ export interface UserWorkflow {
 		event?: string;
 		condition?: Record<string, unknown>;
 		schedule?: string; // cron format
+		timezone?: string; // IANA name the schedule is read in; UTC when absent
 	};
 	actions: Array<{
 		type: string;
@@ -24,6 +25,33 @@ export interface UserWorkflow {
 	updatedAt: Date;
 }
 
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface WorkflowStepResult {
+	action: string;
+	status: 'succeeded' | 'failed';
+	summary: string; // "found 4 events, 3 conflicts"
+	data?: Record<string, unknown>;
+}
+
+/**
+ * One execution of a UserWorkflow, kept so the user can see what ran and what it found
+ */
+export interface WorkflowRun {
+	id: string;
+	workflowId: string;
+	userId: string;
+	workflowName: string;
+	triggerType: UserWorkflow['triggerType'];
+	triggerDetail?: string; // Cron expression or event type
+	status: WorkflowRunStatus;
+	summary?: string; // "Monday briefing ran at 08:00: found 4 events, 3 conflicts"
+	steps: WorkflowStepResult[];
+	error?: string;
+	startedAt: Date;
+	finishedAt?: Date;
+}
+
 export interface AutomationRule {
 	id: string;
 	userId: string;
@@ -16,6 +16,13 @@ export interface UserProfile {
 	updatedAt: Date;
 }
 
+/**
+ * Profile fields to change; null clears a stored value
+ */
+export type UserProfileUpdate = {
+	[K in keyof Omit<UserProfile, 'userId' | 'createdAt' | 'updatedAt'>]?: UserProfile[K] | null;
+};
+
 export interface UserPreference {
 	id: string;
 	userId: string;
@@ -50,8 +57,10 @@ export class SemanticMemory {
 	}
 
 	getPreferredAirlines(): string[] {
+		// Inferred airlines need more than a single passing mention
 		return Array.from(this.preferences.values())
 			.filter((p) => p.category === 'airline' && p.preferenceKey === 'preferred')
+			.filter((p) => p.source === 'explicit' || p.confidence >= 0.5)
 			.map((p) => p.preferenceValue);
 	}
 
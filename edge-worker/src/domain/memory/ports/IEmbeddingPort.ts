@@ -0,0 +1,11 @@
+/**
+ * Port (interface) for text embeddings
+ * Turns text into vectors for semantic recall
+ */
+
+export interface IEmbeddingPort {
+	/**
+	 * Embed each text; vectors come back in input order
+	 */
+	embed(texts: string[], correlationId?: string): Promise<number[][]>;
+}
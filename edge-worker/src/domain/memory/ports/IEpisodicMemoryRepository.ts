@@ -17,6 +17,12 @@ export interface IEpisodicMemoryRepository {
 	 */
 	addConversationSummary(summary: Omit<ConversationSummary, 'id' | 'createdAt'>): Promise<void>;
 
+	/**
+	 * Replace any earlier summary of the same conversation
+	 * Used when a conversation continues after it was summarised
+	 */
+	replaceConversationSummary(summary: Omit<ConversationSummary, 'id' | 'createdAt'>): Promise<void>;
+
 	/**
 	 * Add a travel history entry
 	 */
@@ -24,8 +30,15 @@ export interface IEpisodicMemoryRepository {
 
 	/**
 	 * Update travel booking status
+	 * @returns false when the user has no such entry
+	 */
+	updateTravelStatus(userId: string, entryId: string, status: TravelHistoryEntry['bookingStatus']): Promise<boolean>;
+
+	/**
+	 * Delete a travel history entry
+	 * @returns false when the user has no such entry
 	 */
-	updateTravelStatus(entryId: string, status: TravelHistoryEntry['bookingStatus']): Promise<void>;
+	deleteTravelHistory(userId: string, entryId: string): Promise<boolean>;
 
 	/**
 	 * Add a task history entry
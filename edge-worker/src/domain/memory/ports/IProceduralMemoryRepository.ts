@@ -3,7 +3,7 @@
  * Manages workflows and automation rules
  */
 
-import type { ProceduralMemory, UserWorkflow, AutomationRule } from '../ProceduralMemory';
+import type { ProceduralMemory, UserWorkflow, AutomationRule, WorkflowRun } from '../ProceduralMemory';
 
 export interface IProceduralMemoryRepository {
 	/**
@@ -11,6 +11,16 @@ export interface IProceduralMemoryRepository {
 	 */
 	getProceduralMemory(userId: string): Promise<ProceduralMemory>;
 
+	/**
+	 * One of the user's workflows
+	 */
+	getWorkflow(userId: string, workflowId: string): Promise<UserWorkflow | null>;
+
+	/**
+	 * Enabled workflows with a trigger type, for one user or (scheduled runs) every user
+	 */
+	getEnabledWorkflows(triggerType: UserWorkflow['triggerType'], userId?: string): Promise<UserWorkflow[]>;
+
 	/**
 	 * Add a workflow
 	 */
@@ -28,8 +38,9 @@ export interface IProceduralMemoryRepository {
 
 	/**
 	 * Update rule enabled status
+	 * @returns false when the user has no such rule
 	 */
-	updateRuleStatus(ruleId: string, enabled: boolean): Promise<void>;
+	updateRuleStatus(userId: string, ruleId: string, enabled: boolean): Promise<boolean>;
 
 	/**
 	 * Delete a workflow
@@ -38,6 +49,23 @@ export interface IProceduralMemoryRepository {
 
 	/**
 	 * Delete a rule
+	 * @returns false when the user has no such rule
+	 */
+	deleteRule(userId: string, ruleId: string): Promise<boolean>;
+
+	/**
+	 * Record that a run started, re-claiming a failed run or one whose lease ran out
+	 * @returns false when a run with this id succeeded or is still running (the trigger fired twice)
+	 */
+	startWorkflowRun(run: Omit<WorkflowRun, 'status' | 'summary' | 'steps' | 'error' | 'finishedAt'>): Promise<boolean>;
+
+	/**
+	 * Record a run's outcome
+	 */
+	finishWorkflowRun(runId: string, outcome: Pick<WorkflowRun, 'status' | 'summary' | 'steps' | 'error'>): Promise<void>;
+
+	/**
+	 * The user's runs, newest first
 	 */
-	deleteRule(ruleId: string): Promise<void>;
+	listWorkflowRuns(userId: string, options?: { workflowId?: string; limit?: number }): Promise<WorkflowRun[]>;
 }
@@ -3,7 +3,7 @@
  * Defines contract for semantic memory persistence
  */
 
-import type { SemanticMemory, UserProfile, UserPreference } from '../SemanticMemory';
+import type { SemanticMemory, UserProfileUpdate, UserPreference } from '../SemanticMemory';
 
 export interface ISemanticMemoryRepository {
 	/**
@@ -12,9 +12,9 @@ export interface ISemanticMemoryRepository {
 	getSemanticMemory(userId: string): Promise<SemanticMemory>;
 
 	/**
-	 * Update user profile fields
+	 * Update user profile fields; a null field is cleared
 	 */
-	updateUserProfile(userId: string, updates: Partial<UserProfile>): Promise<void>;
+	updateUserProfile(userId: string, updates: UserProfileUpdate): Promise<void>;
 
 	/**
 	 * Add or update a user preference
@@ -22,6 +22,17 @@ export interface ISemanticMemoryRepository {
 	 */
 	addPreference(userId: string, preference: Omit<UserPreference, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<void>;
 
+	/**
+	 * Write a preference exactly as given, including a lower confidence than stored
+	 * Used for inferred preferences, whose confidence moves both ways
+	 */
+	savePreference(userId: string, preference: Omit<UserPreference, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<void>;
+
+	/**
+	 * List a user's preferences, optionally only those from one source
+	 */
+	listPreferences(userId: string, source?: UserPreference['source']): Promise<UserPreference[]>;
+
 	/**
 	 * Delete a specific preference
 	 */
@@ -0,0 +1,37 @@
+/**
+ * Port (interface) for the semantic recall index
+ * Stores embedded chat messages and conversation summaries, one namespace per user
+ */
+
+export type RecallKind = 'message' | 'summary';
+
+export interface RecallDocument {
+	id: string; // "event:<chat_events.id>" or "summary:<conversationId>"; upserting the same id replaces it
+	userId: string;
+	conversationId: string;
+	kind: RecallKind;
+	role?: 'user' | 'assistant'; // Messages only
+	text: string;
+	createdAt: string; // ISO timestamp
+}
+
+export interface RecallMatch extends RecallDocument {
+	score: number; // Cosine similarity, higher is closer
+}
+
+export interface IVectorIndex {
+	/**
+	 * Insert or replace documents with their vectors
+	 */
+	upsert(entries: Array<{ document: RecallDocument; vector: number[] }>): Promise<void>;
+
+	/**
+	 * Closest documents of one user, best first
+	 */
+	query(userId: string, vector: number[], topK: number): Promise<RecallMatch[]>;
+
+	/**
+	 * Remove documents by id
+	 */
+	delete(ids: string[]): Promise<void>;
+}
@@ -7,4 +7,17 @@
 export { CorrelationId } from './value-objects/correlation-id.vo';
 export { Principal } from './value-objects/principal.vo';
 export { DateRange } from './value-objects/date-range.vo';
+export {
+	findDateExpressions,
+	parseDateExpression,
+	localDate,
+	parseLocalDateTime,
+	assertTimeZone,
+	InvalidTimeZoneError,
+	DateExpression,
+	DateExpressionKind,
+	DateParseContext,
+	TimeOfDay,
+} from './services/date-expression.parser';
+export { CronSchedule, InvalidCronExpressionError, LocalTime, localTime } from './services/cron-schedule';
 export { DomainEvent, BaseDomainEvent } from './events/domain-event.base';
@@ -0,0 +1,144 @@
+/**
+ * CronSchedule - Five-field cron expressions evaluated in a user's time zone
+ *
+ * Shared Kernel service
+ * "minute hour day-of-month month day-of-week" with *, lists, ranges and steps
+ * ("0 8 * * 1", "*\/15 9-17 * * MON-FRI"). Day names and month names are accepted.
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a time
+ * matches if either does.
+ */
+
+import { assertTimeZone } from './date-expression.parser';
+
+export class InvalidCronExpressionError extends Error {
+	constructor(expression: string, reason: string) {
+		super(`Invalid cron expression "${expression}": ${reason}`);
+		this.name = 'InvalidCronExpressionError';
+	}
+}
+
+interface CronField {
+	min: number;
+	max: number;
+	names?: string[]; // Index = value
+}
+
+const FIELDS: CronField[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{ min: 1, max: 12, names: ['', 'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+	{ min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }, // 7 is Sunday too
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface LocalTime {
+	minute: number;
+	hour: number;
+	day: number;
+	month: number; // 1-12
+	weekday: number; // 0 = Sunday
+}
+
+/**
+ * Wall-clock fields of an instant in an IANA time zone
+ */
+export function localTime(instant: Date, timeZone: string): LocalTime {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		minute: 'numeric',
+		hour: 'numeric',
+		day: 'numeric',
+		month: 'numeric',
+		weekday: 'short',
+	}).formatToParts(instant);
+	const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+	return {
+		minute: Number(part('minute')),
+		hour: Number(part('hour')),
+		day: Number(part('day')),
+		month: Number(part('month')),
+		weekday: WEEKDAYS.indexOf(part('weekday')),
+	};
+}
+
+export class CronSchedule {
+	private constructor(
+		readonly expression: string,
+		readonly timeZone: string,
+		private readonly fields: Set<number>[],
+		private readonly dayOfMonthRestricted: boolean,
+		private readonly dayOfWeekRestricted: boolean,
+	) {}
+
+	/**
+	 * @throws InvalidCronExpressionError, InvalidTimeZoneError
+	 */
+	static parse(expression: string, timeZone = 'UTC'): CronSchedule {
+		const parts = expression.trim().toLowerCase().split(/\s+/);
+		if (parts.length !== 5) {
+			throw new InvalidCronExpressionError(expression, 'expected 5 fields');
+		}
+
+		const fields = parts.map((part, index) => CronSchedule.parseField(expression, part, FIELDS[index]));
+		// Sunday may be written as 0 or 7
+		if (fields[4].has(7)) fields[4].add(0);
+
+		return new CronSchedule(expression.trim(), assertTimeZone(timeZone), fields, parts[2] !== '*', parts[4] !== '*');
+	}
+
+	/**
+	 * Whether the schedule fires in the minute containing the instant
+	 */
+	matches(instant: Date): boolean {
+		const t = localTime(instant, this.timeZone);
+		const [minutes, hours, days, months, weekdays] = this.fields;
+		if (!minutes.has(t.minute) || !hours.has(t.hour) || !months.has(t.month)) return false;
+
+		const dayMatch = days.has(t.day);
+		const weekdayMatch = weekdays.has(t.weekday);
+		if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) return dayMatch || weekdayMatch;
+		return dayMatch && weekdayMatch;
+	}
+
+	private static parseField(expression: string, part: string, field: CronField): Set<number> {
+		const values = new Set<number>();
+
+		for (const item of part.split(',')) {
+			const [range, stepText] = item.split('/');
+			const step = stepText === undefined ? 1 : Number(stepText);
+			if (!Number.isInteger(step) || step < 1) {
+				throw new InvalidCronExpressionError(expression, `bad step "${item}"`);
+			}
+
+			let start: number;
+			let end: number;
+			if (range === '*') {
+				[start, end] = [field.min, field.max];
+			} else {
+				const [from, to] = range.split('-');
+				start = CronSchedule.parseValue(expression, from, field);
+				end = to === undefined ? (stepText === undefined ? start : field.max) : CronSchedule.parseValue(expression, to, field);
+			}
+			if (start > end) {
+				throw new InvalidCronExpressionError(expression, `range "${item}" runs backwards`);
+			}
+
+			for (let value = start; value <= end; value += step) values.add(value);
+		}
+
+		return values;
+	}
+
+	private static parseValue(expression: string, text: string, field: CronField): number {
+		const named = field.names?.indexOf(text) ?? -1;
+		const value = named > 0 || (named === 0 && field.min === 0) ? named : Number(text);
+		if (!Number.isInteger(value) || value < field.min || value > field.max) {
+			throw new InvalidCronExpressionError(expression, `"${text}" is out of range ${field.min}-${field.max}`);
+		}
+		return value;
+	}
+}
@@ -0,0 +1,414 @@
+/**
+ * Date Expression Parser - Natural-language dates and date ranges
+ *
+ * Domain Service from Shared Kernel
+ * Finds expressions such as "May 15–20", "the 3rd", "this weekend", "in two weeks",
+ * "end of month" or "Thursday evening" in free text and resolves them, relative to
+ * the user's timezone, to DateRange values (start inclusive, end exclusive).
+ *
+ * Calendar arithmetic runs on local calendar dates; only the final range is converted
+ * to instants, so DST changes never shift a day.
+ */
+
+import { DateRange } from '../value-objects/date-range.vo';
+
+/**
+ * day: one calendar day, optionally narrowed to a time of day ("Thursday evening")
+ * span: explicit start and end ("May 15–20", "this weekend") - fills departure and return
+ * period: a vague stretch ("next week", "next month") - its start is the useful anchor
+ */
+export type DateExpressionKind = 'day' | 'span' | 'period';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface DateExpression {
+	text: string; // Matched text as written
+	index: number; // Position in the input
+	kind: DateExpressionKind;
+	range: DateRange;
+	startDate: string; // YYYY-MM-DD, user's timezone
+	endDate: string; // YYYY-MM-DD, last day included
+	timeOfDay?: TimeOfDay;
+}
+
+export interface DateParseContext {
+	now?: Date;
+	timeZone?: string; // IANA name, e.g. America/New_York; invalid or missing means UTC
+}
+
+interface CivilDate {
+	year: number;
+	month: number; // 1-12
+	day: number;
+}
+
+interface Resolved {
+	kind: DateExpressionKind;
+	start: CivilDate;
+	end: CivilDate; // Inclusive
+	timeOfDay?: TimeOfDay;
+	hours?: [number, number]; // Overrides the time-of-day window
+}
+
+interface Candidate {
+	index: number;
+	text: string;
+	resolved: Resolved;
+}
+
+const TIME_OF_DAY_HOURS: Record<TimeOfDay, [number, number]> = {
+	morning: [8, 12],
+	afternoon: [12, 17],
+	evening: [17, 21],
+	night: [21, 24],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const NUMBER_WORDS: Record<string, number> = {
+	a: 1,
+	an: 1,
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+	eleven: 11,
+	twelve: 12,
+};
+
+const MONTH =
+	'(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(?:,?\\s*(\\d{4}))?';
+const THROUGH = '\\s*(?:-|–|—|to|until|till|through|thru)\\s*';
+const WEEKDAY = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+export class InvalidTimeZoneError extends Error {
+	constructor(timeZone: string) {
+		super(`Unknown time zone: ${timeZone}`);
+		this.name = 'InvalidTimeZoneError';
+	}
+}
+
+/**
+ * Validate an IANA time zone name
+ */
+export function assertTimeZone(timeZone: string): string {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return timeZone;
+	} catch {
+		throw new InvalidTimeZoneError(timeZone);
+	}
+}
+
+function resolveTimeZone(timeZone?: string): string {
+	if (!timeZone) return 'UTC';
+	try {
+		return assertTimeZone(timeZone);
+	} catch {
+		return 'UTC';
+	}
+}
+
+// --- Calendar arithmetic on local dates (UTC used purely as a calendar) ---
+
+function toUtcMs(date: CivilDate): number {
+	return Date.UTC(date.year, date.month - 1, date.day);
+}
+
+function fromUtcMs(ms: number): CivilDate {
+	const d = new Date(ms);
+	return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+	return fromUtcMs(toUtcMs(date) + days * 86_400_000);
+}
+
+function addMonths(date: CivilDate, months: number): CivilDate {
+	const index = date.year * 12 + (date.month - 1) + months;
+	const year = Math.floor(index / 12);
+	const month = (index % 12) + 1;
+	return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekday(date: CivilDate): number {
+	return new Date(toUtcMs(date)).getUTCDay();
+}
+
+function compare(a: CivilDate, b: CivilDate): number {
+	return toUtcMs(a) - toUtcMs(b);
+}
+
+function isValid(year: number, month: number, day: number): boolean {
+	return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+export function formatCivilDate(date: CivilDate): string {
+	return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+/**
+ * Today's calendar date in a time zone
+ */
+function today(now: Date, timeZone: string): CivilDate {
+	const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(now);
+	const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+	return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the user's time zone
+ */
+export function localDate(context: DateParseContext = {}): string {
+	return formatCivilDate(today(context.now ?? new Date(), resolveTimeZone(context.timeZone)));
+}
+
+function zoneOffsetMs(instant: number, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+	}).formatToParts(new Date(instant));
+	const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+	const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+	return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time given as UTC milliseconds (UTC used purely as a calendar)
+ */
+function wallClockToInstant(wallClock: number, timeZone: string): Date {
+	const guess = wallClock - zoneOffsetMs(wallClock, timeZone);
+	return new Date(wallClock - zoneOffsetMs(guess, timeZone));
+}
+
+/**
+ * Instant of a local wall-clock time (hour 24 = midnight of the next day)
+ */
+function toInstant(date: CivilDate, hour: number, timeZone: string): Date {
+	return wallClockToInstant(toUtcMs(date) + hour * 3_600_000, timeZone);
+}
+
+/**
+ * Instant of an ISO 8601 date-time; without an offset ("2026-11-19T14:00") it is wall-clock time in the time zone
+ * @returns null when the text is not a date-time
+ */
+export function parseLocalDateTime(text: string, timeZone?: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/.exec(text.trim());
+	if (!match) {
+		const instant = new Date(text);
+		return Number.isNaN(instant.getTime()) ? null : instant;
+	}
+	const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+	return wallClockToInstant(Date.UTC(year, month - 1, day, hour, minute, second), resolveTimeZone(timeZone));
+}
+
+// --- Resolution helpers ---
+
+function monthIndex(name: string): number {
+	return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function countValue(value: string): number {
+	return NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+}
+
+/**
+ * Month/day without a year: this year, or next year once the date has passed
+ */
+function upcomingMonthDay(month: number, day: number, year: string | undefined, base: CivilDate): CivilDate | null {
+	if (year) return isValid(Number(year), month, day) ? { year: Number(year), month, day } : null;
+	if (!isValid(base.year, month, day) && !isValid(base.year + 1, month, day)) return null;
+	const thisYear = { year: base.year, month, day };
+	return isValid(base.year, month, day) && compare(thisYear, base) >= 0 ? thisYear : { year: base.year + 1, month, day };
+}
+
+/**
+ * Next date (today included) whose weekday matches
+ */
+function upcomingWeekday(target: number, base: CivilDate): CivilDate {
+	return addDays(base, (target - weekday(base) + 7) % 7);
+}
+
+function day(date: CivilDate, timeOfDay?: TimeOfDay): Resolved {
+	return { kind: 'day', start: date, end: date, timeOfDay };
+}
+
+type Rule = { pattern: RegExp; resolve: (match: RegExpExecArray, base: CivilDate) => Resolved | null };
+
+function buildRules(): Rule[] {
+	const rule = (source: string, resolve: Rule['resolve']): Rule => ({ pattern: new RegExp(`\\b${source}\\b`, 'gi'), resolve });
+
+	return [
+		// 2026-05-15 to 2026-05-20
+		rule(`(\\d{4})-(\\d{2})-(\\d{2})${THROUGH}(\\d{4})-(\\d{2})-(\\d{2})`, (m) => {
+			const start = { year: +m[1], month: +m[2], day: +m[3] };
+			const end = { year: +m[4], month: +m[5], day: +m[6] };
+			return isValid(start.year, start.month, start.day) && isValid(end.year, end.month, end.day) && compare(start, end) <= 0
+				? { kind: 'span', start, end }
+				: null;
+		}),
+		// 2026-05-15
+		rule('(\\d{4})-(\\d{2})-(\\d{2})', (m) => (isValid(+m[1], +m[2], +m[3]) ? day({ year: +m[1], month: +m[2], day: +m[3] }) : null)),
+		// May 15–20, May 15 to June 2, May 15, 2027 - May 20, 2027
+		rule(`${MONTH}\\s+${DAY}${YEAR}${THROUGH}(?:${MONTH}\\s+)?${DAY}${YEAR}`, (m, base) => {
+			const start = upcomingMonthDay(monthIndex(m[1]), +m[2], m[3], base);
+			if (!start) return null;
+			const endMonth = m[4] ? monthIndex(m[4]) : start.month;
+			let end: CivilDate = { year: m[6] ? +m[6] : start.year, month: endMonth, day: +m[5] };
+			if (!m[6] && compare(end, start) < 0) end = { ...end, year: end.year + 1 };
+			return isValid(end.year, end.month, end.day) && compare(start, end) <= 0 ? { kind: 'span', start, end } : null;
+		}),
+		// 15-20 May, 15th to 20th of May
+		rule(`${DAY}${THROUGH}${DAY}(?:\\s+of)?\\s+${MONTH}${YEAR}`, (m, base) => {
+			const month = monthIndex(m[3]);
+			const start = upcomingMonthDay(month, +m[1], m[4], base);
+			const end = start && isValid(start.year, month, +m[2]) ? { year: start.year, month, day: +m[2] } : null;
+			return start && end && compare(start, end) <= 0 ? { kind: 'span', start, end } : null;
+		}),
+		// May 15, May 15th 2027
+		rule(`${MONTH}\\s+${DAY}${YEAR}`, (m, base) => {
+			const date = upcomingMonthDay(monthIndex(m[1]), +m[2], m[3], base);
+			return date ? day(date) : null;
+		}),
+		// 15 May, the 15th of May
+		rule(`(?:the\\s+)?${DAY}(?:\\s+of)?\\s+${MONTH}${YEAR}`, (m, base) => {
+			const date = upcomingMonthDay(monthIndex(m[2]), +m[1], m[3], base);
+			return date ? day(date) : null;
+		}),
+		// the 3rd: this month, or next month once it has passed
+		rule('the\\s+(\\d{1,2})(?:st|nd|rd|th)', (m, base) => {
+			const target = +m[1];
+			for (let offset = 0; offset < 3; offset++) {
+				const month = addMonths({ ...base, day: 1 }, offset);
+				const date = { ...month, day: target };
+				if (isValid(date.year, date.month, date.day) && compare(date, base) >= 0) return day(date);
+			}
+			return null;
+		}),
+		rule('day\\s+after\\s+tomorrow', (_m, base) => day(addDays(base, 2))),
+		rule('(today|tomorrow)(?:\\s+(morning|afternoon|evening|night))?', (m, base) =>
+			day(addDays(base, m[1].toLowerCase() === 'tomorrow' ? 1 : 0), m[2]?.toLowerCase() as TimeOfDay | undefined),
+		),
+		rule('this\\s+(morning|afternoon|evening)', (m, base) => day(base, m[1].toLowerCase() as TimeOfDay)),
+		rule('tonight', (_m, base) => ({ kind: 'day', start: base, end: base, timeOfDay: 'night', hours: [18, 24] })),
+		// this weekend / next weekend / the weekend
+		rule('(this|next|the)\\s+weekend', (m, base) => {
+			const dow = weekday(base);
+			let saturday = dow === 0 ? addDays(base, -1) : upcomingWeekday(6, base);
+			if (m[1].toLowerCase() === 'next') saturday = addDays(saturday, 7);
+			const start = compare(saturday, base) < 0 ? base : saturday;
+			return { kind: 'span', start, end: addDays(saturday, 1) };
+		}),
+		// in two weeks, in 3 days, in a month
+		rule(`in\\s+${COUNT}\\s+(day|week|month)s?`, (m, base) => {
+			const count = countValue(m[1]);
+			const unit = m[2].toLowerCase();
+			return day(unit === 'month' ? addMonths(base, count) : addDays(base, unit === 'week' ? count * 7 : count));
+		}),
+		// end of (the) month / end of next month / end of (the) week
+		rule('end\\s+of\\s+(?:the\\s+)?(this\\s+|next\\s+)?(month|week)', (m, base) => {
+			const next = m[1]?.trim().toLowerCase() === 'next';
+			if (m[2].toLowerCase() === 'month') {
+				const month = addMonths({ ...base, day: 1 }, next ? 1 : 0);
+				return day({ ...month, day: daysInMonth(month.year, month.month) });
+			}
+			// End of the work week: Friday
+			const friday = upcomingWeekday(5, base);
+			return day(next ? addDays(friday, 7) : friday);
+		}),
+		// this week / next week (Monday-Sunday)
+		rule('(this|next)\\s+week', (m, base) => {
+			const monday = addDays(base, -((weekday(base) + 6) % 7));
+			if (m[1].toLowerCase() === 'this') return { kind: 'period', start: base, end: addDays(monday, 6) };
+			return { kind: 'period', start: addDays(monday, 7), end: addDays(monday, 13) };
+		}),
+		// this month / next month
+		rule('(this|next)\\s+month', (m, base) => {
+			const first = addMonths({ ...base, day: 1 }, m[1].toLowerCase() === 'next' ? 1 : 0);
+			const last = { ...first, day: daysInMonth(first.year, first.month) };
+			return { kind: 'period', start: compare(first, base) < 0 ? base : first, end: last };
+		}),
+		// Thursday, this Thursday, next Thursday, on Thursday evening
+		rule(`(?:(this|next|on)\\s+)?${WEEKDAY}(?:\\s+(morning|afternoon|evening|night))?`, (m, base) => {
+			let date = upcomingWeekday(WEEKDAYS.indexOf(m[2].toLowerCase()), base);
+			if (m[1]?.toLowerCase() === 'next' && compare(date, base) === 0) date = addDays(date, 7);
+			return day(date, m[3]?.toLowerCase() as TimeOfDay | undefined);
+		}),
+	];
+}
+
+const RULES = buildRules();
+
+function toExpression(candidate: Candidate, timeZone: string): DateExpression {
+	const { resolved } = candidate;
+	const [startHour, endHour] = resolved.hours ?? (resolved.timeOfDay ? TIME_OF_DAY_HOURS[resolved.timeOfDay] : [0, 24]);
+	const start = toInstant(resolved.start, startHour, timeZone);
+	const end = toInstant(resolved.end, endHour, timeZone);
+
+	return {
+		text: candidate.text,
+		index: candidate.index,
+		kind: resolved.kind,
+		range: DateRange.create(start, end),
+		startDate: formatCivilDate(resolved.start),
+		endDate: formatCivilDate(resolved.end),
+		timeOfDay: resolved.timeOfDay,
+	};
+}
+
+/**
+ * Every date expression in the text, in reading order.
+ * Overlapping matches keep the earliest, then the longest ("May 15–20" over "May 15").
+ */
+export function findDateExpressions(text: string, context: DateParseContext = {}): DateExpression[] {
+	const timeZone = resolveTimeZone(context.timeZone);
+	const base = today(context.now ?? new Date(), timeZone);
+	const candidates: Candidate[] = [];
+
+	for (const { pattern, resolve } of RULES) {
+		pattern.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(text)) !== null) {
+			const resolved = resolve(match, base);
+			if (resolved) candidates.push({ index: match.index, text: match[0], resolved });
+		}
+	}
+
+	candidates.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+
+	const selected: Candidate[] = [];
+	let coveredUntil = 0;
+	for (const candidate of candidates) {
+		if (candidate.index < coveredUntil) continue;
+		selected.push(candidate);
+		coveredUntil = candidate.index + candidate.text.length;
+	}
+
+	return selected.map((candidate) => toExpression(candidate, timeZone));
+}
+
+/**
+ * First date expression in the text, or null
+ */
+export function parseDateExpression(text: string, context: DateParseContext = {}): DateExpression | null {
+	return findDateExpressions(text, context)[0] ?? null;
+}
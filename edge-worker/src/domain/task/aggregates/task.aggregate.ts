@@ -21,7 +21,7 @@ export class Task {
 	private priority: TaskPriority;
 	private dueDate?: Date;
 	private readonly userId: string;
-	private readonly metadata: TaskMetadata;
+	private metadata: TaskMetadata;
 	private readonly createdAt: Date;
 	private updatedAt: Date;
 
@@ -101,6 +101,14 @@ export class Task {
 		this.updatedAt = new Date();
 	}
 
+	/**
+	 * Record the calendar event scheduled for this task
+	 */
+	linkEvent(eventId: string): void {
+		this.metadata = { ...this.metadata, relatedEventId: eventId };
+		this.updatedAt = new Date();
+	}
+
 	getStatus(): TaskStatus {
 		return this.status;
 	}
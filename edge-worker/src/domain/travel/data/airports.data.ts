@@ -0,0 +1,204 @@
+/**
+ * Airport Dataset - Offline airports and metro areas bundled with the worker
+ *
+ * Reference Data in Travel Bounded Context
+ * Covers the busiest commercial airports; codes outside it still pass through
+ * AirportResolver when written as IATA codes.
+ *
+ * Metro airports are listed busiest first: the first one is the default when a
+ * caller cannot ask the user.
+ */
+
+export interface AirportRecord {
+	code: string; // IATA
+	name: string;
+	city: string;
+	country: string; // ISO 3166-1 alpha-2
+	region?: string; // State or province, to tell same-named cities apart
+	aliases?: string[];
+}
+
+export interface MetroAreaRecord {
+	code?: string; // IATA metropolitan area code, where one exists
+	city: string;
+	country: string;
+	airports: string[];
+	aliases?: string[];
+}
+
+export const AIRPORTS: AirportRecord[] = [
+	// United States
+	{ code: 'JFK', name: 'John F. Kennedy International', city: 'New York', country: 'US', region: 'NY', aliases: ['kennedy'] },
+	{ code: 'LGA', name: 'LaGuardia', city: 'New York', country: 'US', region: 'NY', aliases: ['la guardia'] },
+	{ code: 'EWR', name: 'Newark Liberty International', city: 'Newark', country: 'US', region: 'NJ' },
+	{ code: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', country: 'US', region: 'CA' },
+	{ code: 'BUR', name: 'Hollywood Burbank', city: 'Burbank', country: 'US', region: 'CA' },
+	{ code: 'SNA', name: 'John Wayne', city: 'Santa Ana', country: 'US', region: 'CA', aliases: ['orange county'] },
+	{ code: 'LGB', name: 'Long Beach', city: 'Long Beach', country: 'US', region: 'CA' },
+	{ code: 'SFO', name: 'San Francisco International', city: 'San Francisco', country: 'US', region: 'CA' },
+	{ code: 'OAK', name: 'Oakland International', city: 'Oakland', country: 'US', region: 'CA' },
+	{ code: 'SJC', name: 'San Jose Mineta International', city: 'San Jose', country: 'US', region: 'CA' },
+	{ code: 'SAN', name: 'San Diego International', city: 'San Diego', country: 'US', region: 'CA' },
+	{ code: 'SMF', name: 'Sacramento International', city: 'Sacramento', country: 'US', region: 'CA' },
+	{ code: 'ORD', name: "O'Hare International", city: 'Chicago', country: 'US', region: 'IL', aliases: ['ohare'] },
+	{ code: 'MDW', name: 'Midway International', city: 'Chicago', country: 'US', region: 'IL', aliases: ['midway'] },
+	{ code: 'DCA', name: 'Ronald Reagan Washington National', city: 'Washington', country: 'US', region: 'DC', aliases: ['reagan national'] },
+	{ code: 'IAD', name: 'Washington Dulles International', city: 'Washington', country: 'US', region: 'VA', aliases: ['dulles'] },
+	{ code: 'BWI', name: 'Baltimore/Washington International', city: 'Baltimore', country: 'US', region: 'MD' },
+	{ code: 'BOS', name: 'Logan International', city: 'Boston', country: 'US', region: 'MA', aliases: ['logan'] },
+	{ code: 'PHL', name: 'Philadelphia International', city: 'Philadelphia', country: 'US', region: 'PA', aliases: ['philly'] },
+	{ code: 'PIT', name: 'Pittsburgh International', city: 'Pittsburgh', country: 'US', region: 'PA' },
+	{ code: 'ATL', name: 'Hartsfield-Jackson Atlanta International', city: 'Atlanta', country: 'US', region: 'GA' },
+	{ code: 'MIA', name: 'Miami International', city: 'Miami', country: 'US', region: 'FL' },
+	{ code: 'FLL', name: 'Fort Lauderdale-Hollywood International', city: 'Fort Lauderdale', country: 'US', region: 'FL' },
+	{ code: 'MCO', name: 'Orlando International', city: 'Orlando', country: 'US', region: 'FL' },
+	{ code: 'TPA', name: 'Tampa International', city: 'Tampa', country: 'US', region: 'FL' },
+	{ code: 'DFW', name: 'Dallas/Fort Worth International', city: 'Dallas', country: 'US', region: 'TX', aliases: ['fort worth'] },
+	{ code: 'DAL', name: 'Dallas Love Field', city: 'Dallas', country: 'US', region: 'TX', aliases: ['love field'] },
+	{ code: 'IAH', name: 'George Bush Intercontinental', city: 'Houston', country: 'US', region: 'TX' },
+	{ code: 'HOU', name: 'William P. Hobby', city: 'Houston', country: 'US', region: 'TX', aliases: ['hobby'] },
+	{ code: 'AUS', name: 'Austin-Bergstrom International', city: 'Austin', country: 'US', region: 'TX' },
+	{ code: 'SAT', name: 'San Antonio International', city: 'San Antonio', country: 'US', region: 'TX' },
+	{ code: 'DEN', name: 'Denver International', city: 'Denver', country: 'US', region: 'CO' },
+	{ code: 'PHX', name: 'Phoenix Sky Harbor International', city: 'Phoenix', country: 'US', region: 'AZ' },
+	{ code: 'LAS', name: 'Harry Reid International', city: 'Las Vegas', country: 'US', region: 'NV', aliases: ['vegas'] },
+	{ code: 'SEA', name: 'Seattle-Tacoma International', city: 'Seattle', country: 'US', region: 'WA', aliases: ['seatac', 'tacoma'] },
+	{ code: 'PDX', name: 'Portland International', city: 'Portland', country: 'US', region: 'OR' },
+	{ code: 'PWM', name: 'Portland International Jetport', city: 'Portland', country: 'US', region: 'ME' },
+	{ code: 'SLC', name: 'Salt Lake City International', city: 'Salt Lake City', country: 'US', region: 'UT' },
+	{
+		code: 'MSP',
+		name: 'Minneapolis-Saint Paul International',
+		city: 'Minneapolis',
+		country: 'US',
+		region: 'MN',
+		aliases: ['saint paul', 'st paul'],
+	},
+	{ code: 'DTW', name: 'Detroit Metropolitan Wayne County', city: 'Detroit', country: 'US', region: 'MI' },
+	{ code: 'CLT', name: 'Charlotte Douglas International', city: 'Charlotte', country: 'US', region: 'NC' },
+	{ code: 'RDU', name: 'Raleigh-Durham International', city: 'Raleigh', country: 'US', region: 'NC', aliases: ['durham'] },
+	{ code: 'BNA', name: 'Nashville International', city: 'Nashville', country: 'US', region: 'TN' },
+	{ code: 'MSY', name: 'Louis Armstrong New Orleans International', city: 'New Orleans', country: 'US', region: 'LA', aliases: ['nola'] },
+	{ code: 'STL', name: 'St. Louis Lambert International', city: 'St. Louis', country: 'US', region: 'MO', aliases: ['saint louis'] },
+	{ code: 'MCI', name: 'Kansas City International', city: 'Kansas City', country: 'US', region: 'MO' },
+	{ code: 'CLE', name: 'Cleveland Hopkins International', city: 'Cleveland', country: 'US', region: 'OH' },
+	{ code: 'CMH', name: 'John Glenn Columbus International', city: 'Columbus', country: 'US', region: 'OH' },
+	{ code: 'IND', name: 'Indianapolis International', city: 'Indianapolis', country: 'US', region: 'IN' },
+	{ code: 'SGF', name: 'Springfield-Branson National', city: 'Springfield', country: 'US', region: 'MO' },
+	{ code: 'SPI', name: 'Abraham Lincoln Capital', city: 'Springfield', country: 'US', region: 'IL' },
+	{ code: 'HNL', name: 'Daniel K. Inouye International', city: 'Honolulu', country: 'US', region: 'HI' },
+	{ code: 'ANC', name: 'Ted Stevens Anchorage International', city: 'Anchorage', country: 'US', region: 'AK' },
+
+	// Canada and Latin America
+	{ code: 'YYZ', name: 'Toronto Pearson International', city: 'Toronto', country: 'CA', region: 'ON', aliases: ['pearson'] },
+	{ code: 'YTZ', name: 'Billy Bishop Toronto City', city: 'Toronto', country: 'CA', region: 'ON' },
+	{ code: 'YUL', name: 'Montréal-Trudeau International', city: 'Montreal', country: 'CA', region: 'QC' },
+	{ code: 'YVR', name: 'Vancouver International', city: 'Vancouver', country: 'CA', region: 'BC' },
+	{ code: 'YYC', name: 'Calgary International', city: 'Calgary', country: 'CA', region: 'AB' },
+	{ code: 'YXU', name: 'London International', city: 'London', country: 'CA', region: 'ON' },
+	{ code: 'MEX', name: 'Benito Juárez International', city: 'Mexico City', country: 'MX' },
+	{ code: 'CUN', name: 'Cancún International', city: 'Cancun', country: 'MX' },
+	{ code: 'GRU', name: 'São Paulo/Guarulhos International', city: 'Sao Paulo', country: 'BR', aliases: ['guarulhos'] },
+	{ code: 'GIG', name: 'Rio de Janeiro/Galeão International', city: 'Rio de Janeiro', country: 'BR', aliases: ['rio'] },
+	{ code: 'EZE', name: 'Ministro Pistarini International', city: 'Buenos Aires', country: 'AR', aliases: ['ezeiza'] },
+	{ code: 'BOG', name: 'El Dorado International', city: 'Bogota', country: 'CO' },
+	{ code: 'LIM', name: 'Jorge Chávez International', city: 'Lima', country: 'PE' },
+
+	// Europe
+	{ code: 'LHR', name: 'Heathrow', city: 'London', country: 'GB' },
+	{ code: 'LGW', name: 'Gatwick', city: 'London', country: 'GB' },
+	{ code: 'STN', name: 'Stansted', city: 'London', country: 'GB' },
+	{ code: 'LCY', name: 'London City', city: 'London', country: 'GB' },
+	{ code: 'LTN', name: 'Luton', city: 'London', country: 'GB' },
+	{ code: 'MAN', name: 'Manchester', city: 'Manchester', country: 'GB' },
+	{ code: 'EDI', name: 'Edinburgh', city: 'Edinburgh', country: 'GB' },
+	{ code: 'DUB', name: 'Dublin', city: 'Dublin', country: 'IE' },
+	{ code: 'CDG', name: 'Charles de Gaulle', city: 'Paris', country: 'FR', aliases: ['roissy'] },
+	{ code: 'ORY', name: 'Orly', city: 'Paris', country: 'FR' },
+	{ code: 'NCE', name: "Nice Côte d'Azur", city: 'Nice', country: 'FR' },
+	{ code: 'AMS', name: 'Schiphol', city: 'Amsterdam', country: 'NL' },
+	{ code: 'BRU', name: 'Brussels', city: 'Brussels', country: 'BE' },
+	{ code: 'FRA', name: 'Frankfurt', city: 'Frankfurt', country: 'DE' },
+	{ code: 'MUC', name: 'Munich', city: 'Munich', country: 'DE', aliases: ['munchen'] },
+	{ code: 'BER', name: 'Berlin Brandenburg', city: 'Berlin', country: 'DE' },
+	{ code: 'ZRH', name: 'Zurich', city: 'Zurich', country: 'CH' },
+	{ code: 'GVA', name: 'Geneva', city: 'Geneva', country: 'CH' },
+	{ code: 'VIE', name: 'Vienna International', city: 'Vienna', country: 'AT', aliases: ['wien'] },
+	{ code: 'CPH', name: 'Copenhagen', city: 'Copenhagen', country: 'DK' },
+	{ code: 'ARN', name: 'Stockholm Arlanda', city: 'Stockholm', country: 'SE' },
+	{ code: 'OSL', name: 'Oslo Gardermoen', city: 'Oslo', country: 'NO' },
+	{ code: 'HEL', name: 'Helsinki-Vantaa', city: 'Helsinki', country: 'FI' },
+	{ code: 'MAD', name: 'Adolfo Suárez Madrid-Barajas', city: 'Madrid', country: 'ES', aliases: ['barajas'] },
+	{ code: 'BCN', name: 'Josep Tarradellas Barcelona-El Prat', city: 'Barcelona', country: 'ES' },
+	{ code: 'IBZ', name: 'Ibiza', city: 'Ibiza', country: 'ES' },
+	{ code: 'PMI', name: 'Palma de Mallorca', city: 'Palma', country: 'ES', aliases: ['mallorca', 'majorca'] },
+	{ code: 'LIS', name: 'Humberto Delgado', city: 'Lisbon', country: 'PT', aliases: ['lisboa'] },
+	{ code: 'OPO', name: 'Francisco Sá Carneiro', city: 'Porto', country: 'PT', aliases: ['oporto'] },
+	{ code: 'FCO', name: 'Leonardo da Vinci-Fiumicino', city: 'Rome', country: 'IT', aliases: ['fiumicino', 'roma'] },
+	{ code: 'CIA', name: 'Ciampino', city: 'Rome', country: 'IT' },
+	{ code: 'MXP', name: 'Milan Malpensa', city: 'Milan', country: 'IT', aliases: ['malpensa', 'milano'] },
+	{ code: 'LIN', name: 'Milan Linate', city: 'Milan', country: 'IT', aliases: ['linate'] },
+	{ code: 'VCE', name: 'Venice Marco Polo', city: 'Venice', country: 'IT' },
+	{ code: 'ATH', name: 'Athens International', city: 'Athens', country: 'GR' },
+	{ code: 'IST', name: 'Istanbul', city: 'Istanbul', country: 'TR' },
+	{ code: 'SAW', name: 'Sabiha Gökçen International', city: 'Istanbul', country: 'TR' },
+	{ code: 'WAW', name: 'Warsaw Chopin', city: 'Warsaw', country: 'PL' },
+	{ code: 'PRG', name: 'Václav Havel Prague', city: 'Prague', country: 'CZ' },
+	{ code: 'BUD', name: 'Budapest Ferenc Liszt International', city: 'Budapest', country: 'HU' },
+
+	// Middle East, Africa, Asia and Oceania
+	{ code: 'DXB', name: 'Dubai International', city: 'Dubai', country: 'AE' },
+	{ code: 'AUH', name: 'Zayed International', city: 'Abu Dhabi', country: 'AE' },
+	{ code: 'DOH', name: 'Hamad International', city: 'Doha', country: 'QA' },
+	{ code: 'TLV', name: 'Ben Gurion', city: 'Tel Aviv', country: 'IL' },
+	{ code: 'CAI', name: 'Cairo International', city: 'Cairo', country: 'EG' },
+	{ code: 'JNB', name: 'O. R. Tambo International', city: 'Johannesburg', country: 'ZA' },
+	{ code: 'CPT', name: 'Cape Town International', city: 'Cape Town', country: 'ZA' },
+	{ code: 'NBO', name: 'Jomo Kenyatta International', city: 'Nairobi', country: 'KE' },
+	{ code: 'HND', name: 'Haneda', city: 'Tokyo', country: 'JP' },
+	{ code: 'NRT', name: 'Narita International', city: 'Tokyo', country: 'JP' },
+	{ code: 'KIX', name: 'Kansai International', city: 'Osaka', country: 'JP' },
+	{ code: 'ICN', name: 'Incheon International', city: 'Seoul', country: 'KR' },
+	{ code: 'PEK', name: 'Beijing Capital International', city: 'Beijing', country: 'CN' },
+	{ code: 'PKX', name: 'Beijing Daxing International', city: 'Beijing', country: 'CN' },
+	{ code: 'PVG', name: 'Shanghai Pudong International', city: 'Shanghai', country: 'CN' },
+	{ code: 'HKG', name: 'Hong Kong International', city: 'Hong Kong', country: 'HK' },
+	{ code: 'TPE', name: 'Taiwan Taoyuan International', city: 'Taipei', country: 'TW' },
+	{ code: 'SIN', name: 'Changi', city: 'Singapore', country: 'SG' },
+	{ code: 'BKK', name: 'Suvarnabhumi', city: 'Bangkok', country: 'TH' },
+	{ code: 'KUL', name: 'Kuala Lumpur International', city: 'Kuala Lumpur', country: 'MY' },
+	{ code: 'CGK', name: 'Soekarno-Hatta International', city: 'Jakarta', country: 'ID' },
+	{ code: 'DPS', name: 'Ngurah Rai International', city: 'Denpasar', country: 'ID', aliases: ['bali'] },
+	{ code: 'DEL', name: 'Indira Gandhi International', city: 'Delhi', country: 'IN', aliases: ['new delhi'] },
+	{ code: 'BOM', name: 'Chhatrapati Shivaji Maharaj International', city: 'Mumbai', country: 'IN', aliases: ['bombay'] },
+	{ code: 'BLR', name: 'Kempegowda International', city: 'Bangalore', country: 'IN', aliases: ['bengaluru'] },
+	{ code: 'SYD', name: 'Sydney Kingsford Smith', city: 'Sydney', country: 'AU' },
+	{ code: 'MEL', name: 'Melbourne', city: 'Melbourne', country: 'AU' },
+	{ code: 'BNE', name: 'Brisbane', city: 'Brisbane', country: 'AU' },
+	{ code: 'AKL', name: 'Auckland', city: 'Auckland', country: 'NZ' },
+];
+
+export const METRO_AREAS: MetroAreaRecord[] = [
+	{
+		code: 'NYC',
+		city: 'New York',
+		country: 'US',
+		airports: ['JFK', 'LGA', 'EWR'],
+		aliases: ['new york city', 'nyc', 'manhattan', 'big apple'],
+	},
+	{ city: 'Los Angeles', country: 'US', airports: ['LAX', 'BUR', 'SNA', 'LGB'], aliases: ['la', 'l a'] },
+	{ city: 'San Francisco Bay Area', country: 'US', airports: ['SFO', 'OAK', 'SJC'], aliases: ['bay area', 'sf bay area'] },
+	{ code: 'CHI', city: 'Chicago', country: 'US', airports: ['ORD', 'MDW'] },
+	{ code: 'WAS', city: 'Washington', country: 'US', airports: ['DCA', 'IAD', 'BWI'], aliases: ['washington dc', 'dc', 'd c'] },
+	{ city: 'Dallas', country: 'US', airports: ['DFW', 'DAL'], aliases: ['dallas fort worth'] },
+	{ city: 'Houston', country: 'US', airports: ['IAH', 'HOU'] },
+	{ city: 'South Florida', country: 'US', airports: ['MIA', 'FLL'] },
+	{ code: 'YTO', city: 'Toronto', country: 'CA', airports: ['YYZ', 'YTZ'] },
+	{ code: 'LON', city: 'London', country: 'GB', airports: ['LHR', 'LGW', 'STN', 'LCY', 'LTN'] },
+	{ code: 'PAR', city: 'Paris', country: 'FR', airports: ['CDG', 'ORY'] },
+	{ code: 'ROM', city: 'Rome', country: 'IT', airports: ['FCO', 'CIA'] },
+	{ code: 'MIL', city: 'Milan', country: 'IT', airports: ['MXP', 'LIN'] },
+	{ city: 'Istanbul', country: 'TR', airports: ['IST', 'SAW'] },
+	{ code: 'TYO', city: 'Tokyo', country: 'JP', airports: ['HND', 'NRT'] },
+	{ code: 'BJS', city: 'Beijing', country: 'CN', airports: ['PEK', 'PKX'] },
+];
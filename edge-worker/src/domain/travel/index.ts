@@ -14,6 +14,24 @@ export { FlightOption, FlightSegment } from './entities/flight-option.entity';
 export { TravelEventId } from './value-objects/travel-event-id.vo';
 export { AirportCode } from './value-objects/airport-code.vo';
 
+// Services
+export {
+	AirportResolver,
+	AirportResolution,
+	AirportResolutionStatus,
+	AirportCandidate,
+	AirportMatchKind,
+	describeAirport,
+} from './services/airport-resolver.service';
+export {
+	FlightRuleEngine,
+	FlightFacts,
+	FlightRuleRemoval,
+	FlightRuleOutcome,
+	flightOptionFacts,
+} from './services/flight-rule-engine.service';
+export { AIRPORTS, METRO_AREAS, AirportRecord, MetroAreaRecord } from './data/airports.data';
+
 // Events
 export { TravelIntentDetected, FlightSearchStarted, FlightOptionsReceived, FlightSelected } from './events/travel.events';
 
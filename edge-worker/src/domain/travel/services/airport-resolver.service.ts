@@ -0,0 +1,209 @@
+/**
+ * AirportResolver - Maps what users type to candidate airports
+ *
+ * Domain Service in Travel Bounded Context
+ * Resolves IATA codes, metro codes (NYC -> JFK/LGA/EWR), city and airport names,
+ * aliases ("Big Apple", "Heathrow") and misspellings ("Chicgo") against the bundled
+ * airport dataset.
+ *
+ * A name that matches several airports is returned as ambiguous with every
+ * candidate, so the assistant can ask which one was meant instead of guessing.
+ */
+
+import { AirportCode } from '../value-objects/airport-code.vo';
+import { AIRPORTS, AirportRecord, METRO_AREAS, MetroAreaRecord } from '../data/airports.data';
+
+export type AirportResolutionStatus = 'resolved' | 'ambiguous' | 'unknown';
+
+export type AirportMatchKind = 'code' | 'metro' | 'name' | 'fuzzy';
+
+export interface AirportCandidate {
+	code: AirportCode;
+	name?: string; // Absent for valid codes outside the bundled dataset
+	city?: string;
+	region?: string;
+	country?: string;
+}
+
+export interface AirportResolution {
+	query: string;
+	status: AirportResolutionStatus;
+	candidates: AirportCandidate[]; // Busiest first
+	matchedBy?: AirportMatchKind;
+	metroCode?: string; // Set when all candidates belong to one metro area that has its own code
+}
+
+const MAX_FUZZY_DISTANCE_SHORT = 1; // Names up to 6 characters
+const MAX_FUZZY_DISTANCE_LONG = 2;
+const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Lowercase, strip accents and punctuation, drop a trailing "airport"
+ */
+function normalize(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/['’.]/g, '')
+		.replace(/[^a-z0-9]+/g, ' ')
+		.replace(/\b(airport|intl)\b/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+	const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+	for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+			}
+		}
+	}
+
+	return d[a.length][b.length];
+}
+
+/**
+ * "PDX (Portland International, Portland, OR)" - used in clarifying questions and tool errors
+ */
+export function describeAirport(candidate: AirportCandidate): string {
+	const code = candidate.code.toString();
+	if (!candidate.name) return code;
+	const place = [candidate.city, candidate.region ?? candidate.country].filter(Boolean).join(', ');
+	return `${code} (${candidate.name}, ${place})`;
+}
+
+export class AirportResolver {
+	private readonly airports = new Map<string, AirportRecord>();
+	private readonly metros = new Map<string, MetroAreaRecord>(); // By metro code
+	private readonly metroByAirport = new Map<string, MetroAreaRecord>();
+	private readonly names = new Map<string, string[]>(); // Normalized name -> airport codes, busiest first
+
+	constructor(airports: AirportRecord[] = AIRPORTS, metros: MetroAreaRecord[] = METRO_AREAS) {
+		for (const airport of airports) {
+			this.airports.set(airport.code, airport);
+		}
+
+		// Metros first so their busiest-first order wins when a city key is shared
+		for (const metro of metros) {
+			if (metro.code) this.metros.set(metro.code, metro);
+			for (const code of metro.airports) this.metroByAirport.set(code, metro);
+			for (const key of [metro.city, ...(metro.aliases ?? [])]) this.index(key, metro.airports);
+		}
+
+		for (const airport of airports) {
+			for (const key of [airport.city, airport.name, ...(airport.aliases ?? [])]) this.index(key, [airport.code]);
+		}
+	}
+
+	/**
+	 * Resolve a code, name or alias. "Portland, ME" narrows by region or country.
+	 */
+	resolve(query: string): AirportResolution {
+		const trimmed = query.trim();
+		const [place, qualifier] = trimmed.split(/\s*,\s*/, 2);
+
+		const match = this.match(place);
+		if (!match) {
+			return { query: trimmed, status: 'unknown', candidates: [] };
+		}
+
+		let codes = match.codes;
+		if (qualifier) {
+			const wanted = qualifier.toUpperCase();
+			const narrowed = codes.filter((code) => {
+				const airport = this.airports.get(code);
+				return airport?.region === wanted || airport?.country === wanted;
+			});
+			if (narrowed.length > 0) codes = narrowed;
+		}
+
+		const candidates = codes.map((code) => this.toCandidate(code));
+		const metros = new Set(codes.map((code) => this.metroByAirport.get(code)));
+		const [metro] = metros;
+
+		return {
+			query: trimmed,
+			status: candidates.length === 1 ? 'resolved' : 'ambiguous',
+			candidates,
+			matchedBy: match.kind,
+			metroCode: candidates.length > 1 && metros.size === 1 && metro?.code ? metro.code : undefined,
+		};
+	}
+
+	/**
+	 * Code for callers that cannot ask the user (workflows): the resolved airport,
+	 * the metro code, or the busiest candidate. Null when nothing matches.
+	 */
+	searchCode(query: string): string | null {
+		const resolution = this.resolve(query);
+		if (resolution.status === 'unknown') return null;
+		return resolution.metroCode ?? resolution.candidates[0].code.toString();
+	}
+
+	private match(place: string): { codes: string[]; kind: AirportMatchKind } | null {
+		const normalized = normalize(place);
+		if (!normalized) return null;
+
+		if (/^[a-z]{3}$/.test(normalized)) {
+			const code = normalized.toUpperCase();
+			if (this.airports.has(code)) return { codes: [code], kind: 'code' };
+			const metro = this.metros.get(code);
+			if (metro) return { codes: metro.airports, kind: 'metro' };
+			// Codes outside the dataset are trusted only when written as codes
+			if (/^[A-Z]{3}$/.test(place.trim())) return { codes: [code], kind: 'code' };
+		}
+
+		const exact = this.names.get(normalized);
+		if (exact) return { codes: exact, kind: 'name' };
+
+		return this.fuzzyMatch(normalized);
+	}
+
+	private fuzzyMatch(normalized: string): { codes: string[]; kind: AirportMatchKind } | null {
+		if (normalized.length < MIN_FUZZY_LENGTH) return null;
+
+		const maxDistance = normalized.length <= 6 ? MAX_FUZZY_DISTANCE_SHORT : MAX_FUZZY_DISTANCE_LONG;
+		let best = maxDistance + 1;
+		let codes: string[] = [];
+
+		for (const [key, keyCodes] of this.names) {
+			if (key.length < MIN_FUZZY_LENGTH || Math.abs(key.length - normalized.length) > maxDistance) continue;
+			const distance = editDistance(normalized, key);
+			if (distance < best) {
+				best = distance;
+				codes = [...keyCodes];
+			} else if (distance === best) {
+				codes = [...codes, ...keyCodes.filter((code) => !codes.includes(code))];
+			}
+		}
+
+		return codes.length > 0 ? { codes, kind: 'fuzzy' } : null;
+	}
+
+	private index(key: string, codes: string[]): void {
+		const normalized = normalize(key);
+		const existing = this.names.get(normalized) ?? [];
+		this.names.set(normalized, [...existing, ...codes.filter((code) => !existing.includes(code))]);
+	}
+
+	private toCandidate(code: string): AirportCandidate {
+		const airport = this.airports.get(code);
+		return {
+			code: AirportCode.create(code),
+			name: airport?.name,
+			city: airport?.city,
+			region: airport?.region,
+			country: airport?.country,
+		};
+	}
+}
@@ -0,0 +1,267 @@
+/**
+ * FlightRuleEngine - Applies the user's flight_search automation rules to search results
+ *
+ * Domain Service in Travel Bounded Context
+ * Rules used to reach the model only as names, so "Filter out flights over $500" was a
+ * suggestion. Here each enabled rule's condition is evaluated against the option's price,
+ * airline, stops, departure hour and duration before anything is ranked:
+ * - filter: options matching the condition are removed
+ * - constraint: options NOT matching the condition are removed
+ * - prioritize: options matching the condition get action.params.score added to their boost
+ *   and are moved ahead of lower boosts (ties keep their incoming order)
+ *
+ * 'preference' rules and rules on fields a flight does not have are skipped rather than
+ * guessed at. Rules run highest priority first; a removed option is credited to the first
+ * rule that removed it. The engine works on any option shape through a facts accessor, so
+ * the chat tool results and the workflow's FlightOption entities share the same semantics.
+ */
+
+import { AutomationRule } from '../../memory/ProceduralMemory';
+import { FlightOption } from '../entities/flight-option.entity';
+
+export interface FlightFacts {
+	id: string;
+	label: string; // "DL 123, 412 USD" - how the option is named in explanations
+	price: number;
+	currency: string;
+	airlines: string[]; // IATA codes and names; a rule matches any of them
+	stops: number;
+	departureHour: number; // Local time at the origin, fractional (18:30 -> 18.5)
+	durationMinutes: number;
+}
+
+export interface FlightRuleRemoval {
+	optionId: string;
+	label: string;
+	ruleId: string;
+	ruleName: string;
+	reason: string; // "price 612 is over 500"
+}
+
+export interface FlightRuleOutcome<T> {
+	options: T[]; // Kept options, highest boost first
+	boosts: Record<string, number>; // Option id -> total prioritize score (kept options only)
+	removed: FlightRuleRemoval[];
+	appliedRules: string[]; // Rule ids that were evaluated
+	skippedRules: Array<{ ruleId: string; ruleName: string; reason: string }>;
+}
+
+type FactField = 'price' | 'airline' | 'stops' | 'departureHour' | 'durationMinutes';
+
+// What rule authors and the seed data call each field
+const FIELD_ALIASES: Record<string, FactField> = {
+	price: 'price',
+	total_price: 'price',
+	totalprice: 'price',
+	cost: 'price',
+	airline: 'airline',
+	carrier: 'airline',
+	stops: 'stops',
+	connections: 'stops',
+	departure_hour: 'departureHour',
+	departurehour: 'departureHour',
+	departure_time: 'departureHour',
+	departuretime: 'departureHour',
+	duration: 'durationMinutes',
+	duration_minutes: 'durationMinutes',
+	durationminutes: 'durationMinutes',
+};
+
+const FIELD_LABELS: Record<FactField, string> = {
+	price: 'price',
+	airline: 'airline',
+	stops: 'stops',
+	departureHour: 'departure hour',
+	durationMinutes: 'duration (minutes)',
+};
+
+const OPERATOR_LABELS: Record<AutomationRule['condition']['operator'], string> = {
+	eq: 'is',
+	ne: 'is not',
+	in: 'is one of',
+	not_in: 'is not one of',
+	gt: 'is over',
+	lt: 'is under',
+	contains: 'contains',
+};
+
+const DEFAULT_BOOST = 1;
+
+/**
+ * "18:30" -> 18.5; numbers pass through
+ */
+function toNumber(value: unknown): number | undefined {
+	if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+	if (typeof value !== 'string') return undefined;
+	const time = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+	if (time) return Number(time[1]) + Number(time[2]) / 60;
+	const parsed = Number(value.trim().replace(/^\$/, ''));
+	return value.trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function formatHour(hour: number): string {
+	const minutes = Math.round((hour % 1) * 60);
+	return `${String(Math.floor(hour)).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Facts for a domain FlightOption. Duffel departure times carry no offset, so they parse as
+ * UTC and the UTC hour is the local hour at the origin.
+ */
+export function flightOptionFacts(option: FlightOption): FlightFacts {
+	const first = option.segments[0];
+	const departure = first.departureTime;
+	const airlines = [...new Set(option.segments.map((s) => s.airline))];
+	return {
+		id: option.id,
+		label: `${first.airline} ${first.flightNumber}, ${option.totalPrice} ${option.currency}`,
+		price: option.totalPrice,
+		currency: option.currency,
+		airlines,
+		stops: option.segments.length - 1,
+		departureHour: departure.getUTCHours() + departure.getUTCMinutes() / 60,
+		durationMinutes: Math.round(option.totalDurationMs() / 60000),
+	};
+}
+
+export class FlightRuleEngine {
+	/**
+	 * Enabled flight_search rules, highest priority first (ties by id, so runs are repeatable)
+	 */
+	static flightRules(rules: AutomationRule[]): AutomationRule[] {
+		return rules
+			.filter((r) => r.enabled && r.context === 'flight_search')
+			.sort((a, b) => b.priority - a.priority || a.id.localeCompare(b.id));
+	}
+
+	apply<T>(options: T[], rules: AutomationRule[], factsOf: (option: T) => FlightFacts): FlightRuleOutcome<T> {
+		const facts = new Map<T, FlightFacts>(options.map((option) => [option, factsOf(option)]));
+		const boosts = new Map<T, number>(options.map((option) => [option, 0]));
+		const removed: FlightRuleRemoval[] = [];
+		const appliedRules: string[] = [];
+		const skippedRules: FlightRuleOutcome<T>['skippedRules'] = [];
+		let remaining = [...options];
+
+		for (const rule of FlightRuleEngine.flightRules(rules)) {
+			const field = FIELD_ALIASES[String(rule.condition?.field ?? '').toLowerCase()];
+			if (rule.ruleType === 'preference') {
+				skippedRules.push({ ruleId: rule.id, ruleName: rule.ruleName, reason: 'preference rules are advisory' });
+				continue;
+			}
+			if (!field) {
+				skippedRules.push({ ruleId: rule.id, ruleName: rule.ruleName, reason: `unknown field "${rule.condition?.field}"` });
+				continue;
+			}
+			appliedRules.push(rule.id);
+
+			if (rule.ruleType === 'prioritize') {
+				const score = toNumber(rule.action?.params?.score ?? rule.action?.params?.boost) ?? DEFAULT_BOOST;
+				for (const option of remaining) {
+					if (this.matches(facts.get(option)!, field, rule.condition)) boosts.set(option, boosts.get(option)! + score);
+				}
+				continue;
+			}
+
+			// filter removes what matches, constraint removes what does not
+			const removeOnMatch = rule.ruleType === 'filter';
+			remaining = remaining.filter((option) => {
+				const optionFacts = facts.get(option)!;
+				if (this.matches(optionFacts, field, rule.condition) !== removeOnMatch) return true;
+				removed.push({
+					optionId: optionFacts.id,
+					label: optionFacts.label,
+					ruleId: rule.id,
+					ruleName: rule.ruleName,
+					reason: this.describe(optionFacts, field, rule.condition, !removeOnMatch),
+				});
+				return false;
+			});
+		}
+
+		const ordered = remaining
+			.map((option, index) => ({ option, index, boost: boosts.get(option)! }))
+			.sort((a, b) => b.boost - a.boost || a.index - b.index);
+
+		return {
+			options: ordered.map((entry) => entry.option),
+			boosts: Object.fromEntries(ordered.map((entry) => [facts.get(entry.option)!.id, entry.boost])),
+			removed,
+			appliedRules,
+			skippedRules,
+		};
+	}
+
+	/**
+	 * One line per rule that removed something, for the user-facing response
+	 */
+	explain(removed: FlightRuleRemoval[]): string[] {
+		const byRule = new Map<string, FlightRuleRemoval[]>();
+		for (const removal of removed) {
+			byRule.set(removal.ruleId, [...(byRule.get(removal.ruleId) ?? []), removal]);
+		}
+
+		return [...byRule.values()].map((removals) => {
+			const count = removals.length === 1 ? '1 option' : `${removals.length} options`;
+			const details = removals.map((r) => `${r.label} (${r.reason})`).join('; ');
+			return `Your rule "${removals[0].ruleName}" removed ${count}: ${details}`;
+		});
+	}
+
+	private matches(facts: FlightFacts, field: FactField, condition: AutomationRule['condition']): boolean {
+		if (field === 'airline') {
+			const airlines = facts.airlines.map((a) => a.toLowerCase());
+			const wanted = (Array.isArray(condition.value) ? condition.value : [condition.value]).map((v) => String(v).trim().toLowerCase());
+			const isAirline = (v: string) => airlines.some((a) => a === v || a.startsWith(`${v} `));
+			switch (condition.operator) {
+				case 'eq':
+				case 'in':
+					return wanted.some(isAirline);
+				case 'ne':
+				case 'not_in':
+					return !wanted.some(isAirline);
+				case 'contains':
+					return wanted.some((v) => airlines.some((a) => a.includes(v)));
+				default:
+					return false; // gt/lt have no meaning for airlines
+			}
+		}
+
+		const actual = facts[field];
+		const values = (Array.isArray(condition.value) ? condition.value : [condition.value]).map(toNumber);
+		const expected = values[0];
+		switch (condition.operator) {
+			case 'eq':
+				return expected !== undefined && actual === expected;
+			case 'ne':
+				return expected !== undefined && actual !== expected;
+			case 'gt':
+				return expected !== undefined && actual > expected;
+			case 'lt':
+				return expected !== undefined && actual < expected;
+			case 'in':
+			case 'contains':
+				return values.includes(actual);
+			case 'not_in':
+				return !values.includes(actual);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Why an option was removed: the condition it met (filter) or failed (constraint)
+	 */
+	private describe(facts: FlightFacts, field: FactField, condition: AutomationRule['condition'], failed: boolean): string {
+		const actual =
+			field === 'airline'
+				? facts.airlines.join('/')
+				: field === 'departureHour'
+					? formatHour(facts.departureHour)
+					: field === 'price'
+						? `${facts.price} ${facts.currency}`
+						: String(facts[field]);
+		const expected = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value);
+		const operator = OPERATOR_LABELS[condition.operator] ?? condition.operator;
+		return `${FIELD_LABELS[field]} ${actual} ${failed ? `fails "${operator} ${expected}"` : `${operator} ${expected}`}`;
+	}
+}
@@ -0,0 +1,130 @@
+/**
+ * AgentLoopGuard - Bounds the multi-step tool loop in LLMHandler
+ *
+ * A single chat turn may need several model calls: "check my calendar for Friday,
+ * then find flights that avoid my meetings" needs list_events before search_flights.
+ * The guard keeps that loop finite by tracking:
+ * - Iterations (model calls) per turn
+ * - Token usage per turn (reported usage, or a chars/4 estimate)
+ * - Wall-clock time per turn
+ * - Repeated identical tool calls (loop detection)
+ */
+
+export interface AgentLoopLimits {
+	maxIterations: number; // Model calls per turn, including the final answer
+	maxTokens: number; // Prompt + completion tokens per turn
+	maxDurationMs: number; // Wall-clock budget per turn
+}
+
+export const DEFAULT_AGENT_LOOP_LIMITS: AgentLoopLimits = {
+	maxIterations: 4,
+	maxTokens: 12000,
+	maxDurationMs: 25000, // Stay under the 30s DO timeout in handleChatRequest
+};
+
+export type AgentLoopStopReason = 'max_iterations' | 'token_budget' | 'time_budget' | 'loop_detected';
+
+export interface AgentToolCall {
+	name: string;
+	arguments: Record<string, unknown>;
+}
+
+export class AgentLoopGuard {
+	private iterations = 0;
+	private tokensUsed = 0;
+	private readonly startedAt: number;
+	private readonly seenCalls = new Set<string>();
+	private loopDetected = false;
+
+	constructor(
+		private readonly limits: AgentLoopLimits = DEFAULT_AGENT_LOOP_LIMITS,
+		private readonly now: () => number = Date.now,
+	) {
+		this.startedAt = now();
+	}
+
+	/**
+	 * Record the start of a model call
+	 */
+	startIteration(): number {
+		this.iterations += 1;
+		return this.iterations;
+	}
+
+	/**
+	 * Record tokens consumed by a model call
+	 */
+	recordUsage(tokens: number): void {
+		if (Number.isFinite(tokens) && tokens > 0) {
+			this.tokensUsed += tokens;
+		}
+	}
+
+	/**
+	 * Returns why the next model call must be the final (tool-less) answer, or null
+	 * if the model may still request tools.
+	 */
+	stopReason(): AgentLoopStopReason | null {
+		if (this.loopDetected) return 'loop_detected';
+		// Reserve the last iteration for the final answer
+		if (this.iterations >= this.limits.maxIterations - 1) return 'max_iterations';
+		if (this.tokensUsed >= this.limits.maxTokens) return 'token_budget';
+		if (this.elapsedMs() >= this.limits.maxDurationMs) return 'time_budget';
+		return null;
+	}
+
+	/**
+	 * Check whether an identical call (same name and arguments) already ran this turn.
+	 * Registers the call as seen when it is new.
+	 */
+	isRepeatedCall(call: AgentToolCall): boolean {
+		const signature = AgentLoopGuard.signature(call);
+		if (this.seenCalls.has(signature)) {
+			return true;
+		}
+		this.seenCalls.add(signature);
+		return false;
+	}
+
+	/**
+	 * Stop offering tools: the model keeps asking for calls it already has results for
+	 */
+	markLoopDetected(): void {
+		this.loopDetected = true;
+	}
+
+	elapsedMs(): number {
+		return this.now() - this.startedAt;
+	}
+
+	snapshot(): { iterations: number; tokensUsed: number; elapsedMs: number } {
+		return { iterations: this.iterations, tokensUsed: this.tokensUsed, elapsedMs: this.elapsedMs() };
+	}
+
+	/**
+	 * Stable signature for a tool call: argument key order does not matter
+	 */
+	static signature(call: AgentToolCall): string {
+		return `${call.name}:${stableStringify(call.arguments ?? {})}`;
+	}
+}
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.keys(value as Record<string, unknown>)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Rough token estimate (1 token ≈ 4 characters), used when Workers AI omits usage
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
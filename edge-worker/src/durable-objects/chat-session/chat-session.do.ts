@@ -5,9 +5,16 @@ import { getPrincipalId } from '../../api/middleware/auth';
 import { WebSocketManager } from './websocket.manager';
 import { StorageManager } from './storage.manager';
 import { LLMHandler } from './llm.handler';
-import { IntentDetector, DialogueState, WorkflowType } from './intent-detector';
-import { WSMessage } from './types';
+import { createLLMPort } from '../../adapters/llm/routed-llm.adapter';
+import { createPromptRegistry } from '../../prompts/prompt-registry';
+import { IntentDetector, DialogueState, IntentDetectionResult, TripType, WorkflowType } from './intent-detector';
+import { PendingSlotQuestion, SlotFiller, SlotFillingDecision, SlotProvenance, TravelSlot } from './slot-filler';
+import { DialogueStateStore, DialogueStateSummary } from './dialogue-state.store';
+import { CONVERSATION_IDLE_MS, ConversationSummarizer, MAX_SUMMARY_ATTEMPTS, MIN_TURNS_TO_SUMMARIZE } from './conversation-summarizer';
+import { WSMessage, ChatTurnOptions, PendingToolCall } from './types';
 import { Logger } from '../../observability/logger';
+import { AnalyticsEngineMetrics } from '../../observability/metrics';
+import { assertTimeZone, localDate } from '../../domain/shared';
 import { DuffelFlightAdapter } from '../../adapters/mcp/flights.adapter';
 import { DuffelApiClient } from '../../adapters/mcp/clients/duffel-api.client';
 import { DuffelFlightMapper } from '../../adapters/mcp/mappers/duffel-flight.mapper';
@@ -15,7 +22,14 @@ import { FlightSearchValidator } from '../../adapters/mcp/validators/flight-sear
 import { D1SemanticMemoryRepository } from '../../infrastructure/memory/D1SemanticMemoryRepository';
 import { D1EpisodicMemoryRepository } from '../../infrastructure/memory/D1EpisodicMemoryRepository';
 import { D1ProceduralMemoryRepository } from '../../infrastructure/memory/D1ProceduralMemoryRepository';
+import { PreferenceLearner } from '../../domain/memory/PreferenceLearner';
 import { ContextManager, StructuredContext } from './context-manager';
+import { ConversationRecall, createConversationRecall } from './conversation-recall';
+import { RecentToolUsage } from './tool-router';
+import { TaskService } from '../../application/task.service';
+import { D1TaskAdapter } from '../../adapters/persistence/d1-task.adapter';
+import type { CalendarEvent as ToolCalendarEvent } from '../../tools/calendar-handler';
+import type { TaskExtractionRequest } from '../../workflows/task-extraction.workflow';
 
 /**
  * Full Dialogue State Tracking (DST) implementation
@@ -39,39 +53,64 @@ export interface FullDialogueState extends DialogueState {
 		destination?: string;
 		departureDate?: string;
 		returnDate?: string;
+		tripType?: TripType;
+		passengers?: number;
 		taskDescription?: string;
 		planningDate?: string;
 	};
+	slotSources?: Partial<Record<TravelSlot, SlotProvenance>>; // Where each travel slot value came from
+	pendingSlots?: PendingSlotQuestion; // Follow-up question the assistant is waiting on
+	pendingToolCalls?: PendingToolCall[]; // Write tool calls the user was asked to confirm
+	summarizedAtTurn?: number; // turnCount when the conversation was last summarised into episodic memory
+	summaryAttempts?: { turnCount: number; count: number }; // Failed summaries of the conversation at turnCount
 	context: {
 		previousWorkflows: WorkflowType[];
 		userPreferences: Record<string, unknown>;
 		lastTravelRequest?: { origin: string; destination: string; date: string };
+		recentTools?: RecentToolUsage[]; // Tools the LLM called, by turn (used by ToolRouter)
 	};
 }
 
+const DIALOGUE_STATE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Matches the cleanup alarm
+const SUMMARY_TRANSCRIPT_LIMIT = 40; // Messages sent to the summariser
+
 export class ChatSessionDO extends DurableObject<WorkerEnv> {
 	private wsManager: WebSocketManager;
 	private storage: StorageManager;
 	private llm: LLMHandler;
 	private intentDetector: IntentDetector;
+	private slotFiller: SlotFiller = new SlotFiller();
+	private preferenceLearner: PreferenceLearner = new PreferenceLearner();
+	private summarizer: ConversationSummarizer;
 	private semanticMemory: D1SemanticMemoryRepository;
 	private episodicMemory: D1EpisodicMemoryRepository;
 	private proceduralMemory: D1ProceduralMemoryRepository;
 	private contextManager: ContextManager;
+	private recall?: ConversationRecall; // Vector recall across conversations; off unless configured
+	private tasks: TaskService;
 	private logger: Logger = new Logger('chat-session');
-	private dialogueStateCache: Map<string, FullDialogueState> = new Map(); // in-memory cache
-	private storageKey = 'dst:'; // prefix for DST keys in durable storage
+	private dialogueStates: DialogueStateStore; // SQLite-backed, LRU-cached, capped per principal
+	private inFlight: Map<string, AbortController> = new Map(); // message id -> controller for turns still running
 
 	constructor(state: DurableObjectState, env: WorkerEnv) {
 		super(state, env);
 		this.wsManager = new WebSocketManager(state);
-		this.storage = new StorageManager(env.DB, this.wsManager);
-		this.llm = new LLMHandler(env, this.storage);
-		this.intentDetector = new IntentDetector();
+		this.storage = new StorageManager(env.DB, this.wsManager, (turn) => {
+			if (this.recall && turn.principalId !== 'system') this.ctx.waitUntil(this.recall.indexTurn(turn));
+		});
+		this.dialogueStates = new DialogueStateStore(state.storage);
+		const llmPort = createLLMPort(env, this.logger);
+		const prompts = createPromptRegistry(env, this.logger);
+		const metrics = new AnalyticsEngineMetrics(env.ANALYTICS_ENGINE);
+		this.intentDetector = new IntentDetector({ llm: llmPort, prompts, metrics });
+		this.summarizer = new ConversationSummarizer({ llm: llmPort, prompts, metrics });
 		this.semanticMemory = new D1SemanticMemoryRepository(env.DB);
 		this.episodicMemory = new D1EpisodicMemoryRepository(env.DB);
 		this.proceduralMemory = new D1ProceduralMemoryRepository(env.DB);
-		this.contextManager = new ContextManager(this.semanticMemory, this.episodicMemory, this.proceduralMemory);
+		this.llm = new LLMHandler(env, this.storage, llmPort, prompts, this.proceduralMemory);
+		this.recall = createConversationRecall(env, this.logger, (principalId, ids) => this.storage.existingConversations(principalId, ids));
+		this.contextManager = new ContextManager(this.semanticMemory, this.episodicMemory, this.proceduralMemory, this.recall);
+		this.tasks = new TaskService(new D1TaskAdapter(env.DB, this.logger), this.logger);
 	}
 
 	async fetch(request: Request): Promise<Response> {
@@ -86,6 +125,18 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			return this.handleChat(request);
 		}
 
+		// POST /messages/:messageId/cancel - Stop an in-flight chat turn
+		const cancelMatch = url.pathname.match(/^\/messages\/([^/]+)\/cancel$/);
+		if (request.method === 'POST' && cancelMatch) {
+			return this.handleCancel(cancelMatch[1], correlationId);
+		}
+
+		// POST /conversations/:conversationId/regenerate - Replace the last assistant turn
+		const regenerateMatch = url.pathname.match(/^\/conversations\/([^/]+)\/regenerate$/);
+		if (request.method === 'POST' && regenerateMatch) {
+			return this.handleRegenerate(regenerateMatch[1], request, correlationId);
+		}
+
 		if (request.method === 'POST' && url.pathname === '/log') {
 			return this.handleLog(request);
 		}
@@ -99,6 +150,12 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			return this.handleListConversations(request, correlationId);
 		}
 
+		// GET /conversations/:conversationId/state - Dialogue state snapshot (debugging)
+		const stateMatch = url.pathname.match(/^\/conversations\/([^/]+)\/state$/);
+		if (request.method === 'GET' && stateMatch) {
+			return this.handleGetDialogueState(stateMatch[1], request, correlationId);
+		}
+
 		// GET /conversations/:conversationId/messages - Get messages for a conversation
 		const conversationMatch = url.pathname.match(/^\/conversations\/([^/]+)\/messages$/);
 		if (request.method === 'GET' && conversationMatch) {
@@ -110,7 +167,29 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 	}
 
 	async alarm() {
+		const now = Date.now();
+
+		// Conversations idle since the last alarm become episodic memory
+		for (const conversation of this.dialogueStates.list()) {
+			if (this.needsSummary(conversation) && conversation.lastAccessTime <= now - CONVERSATION_IDLE_MS) {
+				await this.summarizeConversation(conversation.conversationId, conversation.principalId);
+			}
+		}
+
 		await this.storage.cleanup();
+
+		const pruned = this.dialogueStates.pruneAccessedBefore(now - DIALOGUE_STATE_RETENTION_MS);
+		if (pruned > 0) {
+			this.logger.info('Pruned idle dialogue state', { metadata: { pruned } });
+		}
+
+		// Wake up when the next active conversation goes idle, otherwise for the weekly cleanup.
+		// One that is already idle and still needs a summary failed this time; retry it an idle period from now.
+		const nextIdle = this.dialogueStates
+			.list()
+			.filter((conversation) => this.needsSummary(conversation))
+			.map((conversation) => Math.max(conversation.lastAccessTime, now) + CONVERSATION_IDLE_MS);
+		await this.ctx.storage.setAlarm(nextIdle.length > 0 ? Math.min(...nextIdle) : now + DIALOGUE_STATE_RETENTION_MS);
 	}
 
 	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
@@ -140,6 +219,79 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			return createErrorResponse('VALIDATION_ERROR', 'Invalid messages', 400, correlationId);
 		}
 
+		// IANA zone used to resolve relative dates ("tomorrow", "this weekend"); UTC when absent
+		if (body.timezone !== undefined) {
+			try {
+				assertTimeZone(String(body.timezone));
+			} catch (error) {
+				const err = error instanceof Error ? error : new Error(String(error));
+				return createErrorResponse('VALIDATION_ERROR', err.message, 400, correlationId);
+			}
+		}
+
+		return this.runChatTurn(request, body, correlationId);
+	}
+
+	/**
+	 * Abort an in-flight turn: the upstream model stream and pending tool calls stop,
+	 * and LLMHandler persists the partial transcript with status 'cancelled'
+	 */
+	private handleCancel(messageId: string, correlationId: string): Response {
+		const controller = this.inFlight.get(messageId);
+		if (!controller) {
+			return createErrorResponse('NOT_FOUND', `No in-flight message: ${messageId}`, 404, correlationId);
+		}
+
+		controller.abort();
+		this.inFlight.delete(messageId);
+		this.logger.info('Cancelled chat turn', { metadata: { messageId, correlationId } });
+
+		return new Response(JSON.stringify({ message_id: messageId, cancelled: true }), {
+			status: 202,
+			headers: { 'Content-Type': 'application/json', 'X-Correlation-ID': correlationId },
+		});
+	}
+
+	/**
+	 * Answer the principal's last user message again, overwriting the chat turn's answer in chat_events
+	 */
+	private async handleRegenerate(conversationId: string, request: Request, correlationId: string): Promise<Response> {
+		const body = (await request.json().catch(() => ({}))) as any;
+		const principalId = request.headers.get('X-Principal-Id') || getPrincipalId(request) || 'anonymous';
+		const lastTurn = await this.storage.getLastTurn(principalId, conversationId);
+
+		if (!lastTurn) {
+			return createErrorResponse('NOT_FOUND', `No assistant turn to regenerate in conversation ${conversationId}`, 404, correlationId);
+		}
+
+		this.logger.info('Regenerating last assistant turn', {
+			metadata: { conversationId, replaceEventId: lastTurn.assistantEventId, correlationId },
+		});
+
+		return this.runChatTurn(
+			request,
+			{
+				messages: [{ role: 'user', content: lastTurn.userMessage }],
+				conversation_id: conversationId,
+				stream: body?.stream,
+				message_id: body?.message_id,
+				timezone: body?.timezone,
+			},
+			correlationId,
+			{ replaceEventId: lastTurn.assistantEventId },
+		);
+	}
+
+	/**
+	 * Run one chat turn. When regenerating, the user message is already stored and counted,
+	 * so dialogue state and workflows are left alone and the old answer is dropped from history.
+	 */
+	private async runChatTurn(
+		request: Request,
+		body: any,
+		correlationId: string,
+		regenerate?: { replaceEventId: string },
+	): Promise<Response> {
 		const principalIdHeader = request.headers.get('X-Principal-Id');
 
 		const principalId = principalIdHeader || getPrincipalId(request) || 'anonymous';
@@ -175,13 +327,23 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 		// Initialize or retrieve full dialogue state for this conversation
 		const currentDialogueState = await this.getOrInitializeDialogueState(conversationId, principalId);
 
-		// Detect intent from user message with fallback context and dialogue state
-		const intentResult = this.intentDetector.detect(userContent || '', previousMessages, currentDialogueState);
+		// Detect intent from user message with fallback context and dialogue state (LLM stage for ambiguous messages)
+		const intentResult = await this.intentDetector.classify(userContent || '', previousMessages, currentDialogueState, {
+			principalId,
+			correlationId,
+			timeZone: body.timezone,
+		});
 
 		// Build intelligent, intent-aware context
 		let structuredContext: StructuredContext | null = null;
 		try {
-			structuredContext = await this.contextManager.buildContext(currentDialogueState, intentResult.workflow || 'general', principalId);
+			structuredContext = await this.contextManager.buildContext(
+				currentDialogueState,
+				intentResult.workflow || 'general',
+				principalId,
+				userContent || '',
+				intentResult.entities,
+			);
 
 			if (this.contextManager.exceedsTokenBudget(structuredContext)) {
 				this.logger.warn('Context exceeds token budget', {
@@ -200,15 +362,27 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 		}
 
 		// Update dialogue state with current intent and slot filling
-		await this.updateDialogueState(conversationId, principalId, intentResult);
+		let slotDecision: SlotFillingDecision | null = null;
+		let confirmedActions: string[] = [];
+		if (!regenerate) {
+			slotDecision = await this.updateDialogueState(conversationId, principalId, intentResult);
+			confirmedActions = await this.resolvePendingToolCalls(conversationId, principalId, intentResult, correlationId);
+		}
 
 		// Trigger workflow or pre-fetch data based on intent
 		try {
-			if (intentResult.workflow === 'travel' && intentResult.entities.destination) {
+			if (regenerate) {
+				// Workflows already ran for the original answer
+			} else if (intentResult.workflow === 'travel' && slotDecision?.action === 'ask') {
+				// Searching would mean guessing; the assistant asks for the missing slots first
+				this.logger.info('Travel intent needs more detail', {
+					metadata: { missing: slotDecision.missing, clarifications: intentResult.airportClarifications, principalId },
+				});
+			} else if (intentResult.workflow === 'travel' && slotDecision?.action === 'start') {
 				const logMessage = intentResult.usedFallback ? 'Travel intent detected (using fallback entities)' : 'Travel intent detected';
 				this.logger.info(logMessage, {
 					metadata: {
-						entities: intentResult.entities,
+						params: slotDecision.params,
 						principalId,
 						usedFallback: intentResult.usedFallback,
 					},
@@ -219,7 +393,7 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 					params: {
 						userId: principalId,
 						conversationId,
-						...intentResult.entities,
+						...slotDecision.params,
 						correlationId,
 					},
 				});
@@ -255,8 +429,8 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			});
 		}
 
-		// Schedule cleanup
-		await this.ctx.storage.setAlarm(Date.now() + 7 * 24 * 60 * 60 * 1000);
+		// Summarise once the conversation goes idle; the same alarm runs cleanup
+		await this.ctx.storage.setAlarm(Date.now() + CONVERSATION_IDLE_MS);
 
 		// Load conversation history to provide full context to LLM
 		let messagesWithContext = [...body.messages];
@@ -265,6 +439,12 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 				this.storage.getConversationHistory(conversationId, 20),
 				new Promise<any[]>((_, reject) => setTimeout(() => reject(new Error('getConversationHistory timeout')), 3000)),
 			]);
+			if (regenerate) {
+				// Drop the answer being replaced so the model doesn't see it
+				while (history.length > 0 && history[history.length - 1].role === 'assistant') {
+					history.pop();
+				}
+			}
 			if (history.length > 0) {
 				this.logger.debug('Loaded conversation history', {
 					metadata: { messageCount: history.length, principalId, conversationId },
@@ -290,11 +470,23 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 		}
 
 		// Format and inject intelligent context into last user message
-		const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-		const dateContext = `\n\n[CURRENT_DATE: ${today}]`;
+		// Today and the zone where the user is (UTC when no timezone was sent): the date parser resolves
+		// "tomorrow" the same way, and calendar writes read the model's local times in that zone
+		const dateContext = `\n\n[CURRENT_DATE: ${localDate({ timeZone: body.timezone })}]\n[TIMEZONE: ${body.timezone ?? 'UTC'}]`;
 
 		let contextInjection = dateContext;
 
+		// Regenerating repeats the question the original answer asked
+		const slotQuestion =
+			slotDecision?.action === 'ask' ? slotDecision.question : regenerate ? currentDialogueState.pendingSlots?.question : undefined;
+		if (slotQuestion) {
+			contextInjection += `\n\n[ASK_USER]\n${slotQuestion}\nAsk the user this before searching flights; do not call search_flights yet.`;
+		}
+
+		if (confirmedActions.length > 0) {
+			contextInjection += `\n\n[CONFIRMED_ACTIONS]\n${confirmedActions.join('\n')}\nTell the user how this went; do not call these tools again for it.`;
+		}
+
 		if (structuredContext) {
 			const formattedContext = this.contextManager.formatContextForPrompt(structuredContext);
 			contextInjection += formattedContext;
@@ -320,7 +512,33 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			}
 		}
 
-		return this.llm.processChat(
+		// Register the turn so POST /messages/:messageId/cancel can abort it
+		const messageId = typeof body.message_id === 'string' && body.message_id ? body.message_id : crypto.randomUUID();
+		const abortController = new AbortController();
+		this.inFlight.set(messageId, abortController);
+
+		const turn: ChatTurnOptions = {
+			messageId,
+			signal: abortController.signal,
+			routing: {
+				intent: intentResult,
+				activeWorkflow: currentDialogueState.activeWorkflow,
+				recentTools: currentDialogueState.context.recentTools,
+				currentTurn: currentDialogueState.turnCount,
+			},
+			onToolUsed: (toolName) => this.recordToolUsage(conversationId, principalId, toolName),
+			replaceEventId: regenerate?.replaceEventId,
+			dialogueAct: intentResult.dialogueAct?.type,
+			timeZone: body.timezone,
+			onConfirmationNeeded: (call) => this.recordPendingToolCall(conversationId, principalId, call),
+			onFinished: () => {
+				if (this.inFlight.get(messageId) === abortController) {
+					this.inFlight.delete(messageId);
+				}
+			},
+		};
+
+		const response = await this.llm.processChat(
 			messagesWithContext,
 			userContent,
 			conversationId,
@@ -328,7 +546,106 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			correlationId,
 			structuredContext,
 			body.stream !== false,
+			turn,
 		);
+
+		// Learn stated preferences after the turn; the answer never waits on it
+		if (!regenerate && userContent) {
+			this.ctx.waitUntil(this.learnPreferences(userContent, principalId, correlationId));
+		}
+
+		return response;
+	}
+
+	private needsSummary(conversation: Pick<FullDialogueState, 'turnCount' | 'summarizedAtTurn' | 'summaryAttempts'>): boolean {
+		const { turnCount, summarizedAtTurn, summaryAttempts } = conversation;
+		const failedAttempts = summaryAttempts?.turnCount === turnCount ? summaryAttempts.count : 0;
+		return turnCount >= MIN_TURNS_TO_SUMMARIZE && turnCount > (summarizedAtTurn ?? 0) && failedAttempts < MAX_SUMMARY_ATTEMPTS;
+	}
+
+	/**
+	 * Summarise a conversation into episodic memory (conversation_summaries) and mark the
+	 * turn it covers. Failures are logged and counted; the conversation is retried until it
+	 * has failed MAX_SUMMARY_ATTEMPTS times at the same turn count.
+	 */
+	private async summarizeConversation(conversationId: string, principalId: string): Promise<void> {
+		const correlationId = crypto.randomUUID();
+		const summarizedAtTurn = (await this.dialogueStates.get(conversationId))?.turnCount;
+		let summarized = false;
+
+		try {
+			const transcript = await this.storage.getConversationHistory(conversationId, SUMMARY_TRANSCRIPT_LIMIT);
+			const draft = await this.summarizer.summarize({ conversationId, principalId, transcript }, correlationId);
+
+			if (draft) {
+				const { promptVersion, ...summary } = draft;
+				// conversation_summaries references user_profiles
+				await this.semanticMemory.ensureProfile(principalId);
+				await this.episodicMemory.replaceConversationSummary(summary);
+				summarized = true;
+				await this.recall?.indexSummary(summary, correlationId);
+				this.logger.info('Summarised idle conversation', {
+					correlationId,
+					metadata: { conversationId, principalId, promptVersion, sentiment: summary.sentiment, keyEntities: summary.keyEntities },
+				});
+			}
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('Failed to summarise conversation', {
+				correlationId,
+				metadata: { conversationId, principalId, error: err.message },
+			});
+		} finally {
+			// A turn or state reset while summarising means there is more to summarise later
+			const state = await this.dialogueStates.get(conversationId);
+			if (state && summarizedAtTurn !== undefined && state.turnCount === summarizedAtTurn) {
+				if (summarized) {
+					state.summarizedAtTurn = summarizedAtTurn;
+					delete state.summaryAttempts;
+				} else {
+					const failed = state.summaryAttempts?.turnCount === summarizedAtTurn ? state.summaryAttempts.count : 0;
+					state.summaryAttempts = { turnCount: summarizedAtTurn, count: failed + 1 };
+				}
+				this.dialogueStates.put(state);
+			}
+		}
+	}
+
+	/**
+	 * Post-turn extraction: upsert inferred preferences the message states or implies
+	 * ("I always fly United") and weaken ones it contradicts
+	 */
+	private async learnPreferences(message: string, principalId: string, correlationId: string): Promise<void> {
+		const observations = this.preferenceLearner.extract(message);
+		if (observations.length === 0) return;
+
+		try {
+			const existing = await this.semanticMemory.listPreferences(principalId);
+			const updates = this.preferenceLearner.update(existing, observations);
+
+			for (const update of updates) {
+				if (update.action === 'save') {
+					await this.semanticMemory.savePreference(principalId, update.preference);
+				} else {
+					await this.semanticMemory.deletePreference(principalId, update.category, update.preferenceKey);
+				}
+			}
+
+			this.logger.info('Learned preferences from message', {
+				correlationId,
+				metadata: {
+					principalId,
+					updates: updates.map((u) =>
+						u.action === 'save'
+							? { action: u.action, key: `${u.preference.category}:${u.preference.preferenceKey}`, confidence: u.preference.confidence }
+							: { action: u.action, key: `${u.category}:${u.preferenceKey}` },
+					),
+				},
+			});
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('Failed to learn preferences', { correlationId, metadata: { principalId, error: err.message } });
+		}
 	}
 
 	private async handleLog(request: Request): Promise<Response> {
@@ -351,13 +668,13 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 		});
 
 		// Update DST: mark workflow as completed
-		const state = this.dialogueStateCache.get(conversationId);
+		const state = await this.dialogueStates.get(conversationId);
 		if (state && state.activeWorkflow) {
 			state.activeWorkflow.status = 'completed';
 			state.activeWorkflow.result = message;
 			state.activeWorkflow.lastUpdate = Date.now();
 			// Persist to durable storage
-			await this.persistDialogueState(conversationId, state);
+			await this.persistDialogueState(state);
 			this.logger.info('Workflow completed in DST', {
 				metadata: { conversationId, workflowType: state.activeWorkflow.type },
 			});
@@ -461,17 +778,8 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 	private async getOrInitializeDialogueState(conversationId: string, principalId: string): Promise<FullDialogueState> {
 		const STALE_THRESHOLD_MS = 30 * 60 * 1000; // 30 minutes
 
-		// Check cache first
-		let state = this.dialogueStateCache.get(conversationId);
-		if (state) {
-			state.lastAccessTime = Date.now();
-			await this.persistDialogueState(conversationId, state);
-			return state;
-		}
-
-		// Try to load from durable storage
-		const storageKey = `${this.storageKey}${conversationId}`;
-		const stored = await this.ctx.storage.get<FullDialogueState>(storageKey);
+		// Cache first, then SQLite storage
+		const stored = await this.dialogueStates.get(conversationId);
 
 		if (stored) {
 			// Check if conversation is stale (not accessed for 30+ minutes)
@@ -486,6 +794,11 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 						ageMinutes: Math.floor(ageMs / 60000),
 					},
 				});
+				// The alarm normally got here first; summarise what it missed before resetting
+				if (this.needsSummary(stored)) {
+					this.ctx.waitUntil(this.summarizeConversation(conversationId, principalId));
+				}
+
 				// Reset to fresh state for new conversation session
 				const freshState: FullDialogueState = {
 					conversationId,
@@ -500,24 +813,18 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 					},
 					lastSuggestion: undefined,
 				};
-				this.dialogueStateCache.set(conversationId, freshState);
-				await this.persistDialogueState(conversationId, freshState);
+				await this.persistDialogueState(freshState);
 				return freshState;
 			}
 
 			// Conversation is fresh, use it
 			stored.lastAccessTime = Date.now();
-			this.dialogueStateCache.set(conversationId, stored);
-			await this.persistDialogueState(conversationId, stored);
-
-			this.logger.debug('Loaded dialogue state from storage', {
-				metadata: { conversationId, principalId, turnCount: stored.turnCount },
-			});
+			await this.persistDialogueState(stored);
 			return stored;
 		}
 
 		// Create new state
-		state = {
+		const state: FullDialogueState = {
 			conversationId,
 			principalId,
 			lastUpdateTime: Date.now(),
@@ -530,8 +837,7 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			},
 			lastSuggestion: undefined,
 		};
-		this.dialogueStateCache.set(conversationId, state);
-		await this.persistDialogueState(conversationId, state);
+		await this.persistDialogueState(state);
 
 		this.logger.debug('Initialized new dialogue state', {
 			metadata: { conversationId, principalId },
@@ -542,46 +848,65 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 
 	/**
 	 * Persist dialogue state to durable storage
+	 * The same object stays cached, so callers holding it keep seeing later updates
 	 */
-	private async persistDialogueState(conversationId: string, state: FullDialogueState): Promise<void> {
-		const storageKey = `${this.storageKey}${conversationId}`;
-		await this.ctx.storage.put(storageKey, state);
+	private async persistDialogueState(state: FullDialogueState): Promise<void> {
+		this.dialogueStates.put(state);
 	}
 
 	/**
 	 * Update dialogue state after intent detection
 	 * Handles slot filling, workflow transitions, and context enrichment
 	 * Persists changes to durable storage
+	 *
+	 * Returns the slot-filling decision for travel turns (start the search or ask)
 	 */
-	private async updateDialogueState(conversationId: string, principalId: string, intentResult: any): Promise<void> {
+	private async updateDialogueState(
+		conversationId: string,
+		principalId: string,
+		intentResult: IntentDetectionResult,
+	): Promise<SlotFillingDecision | null> {
 		const state = await this.getOrInitializeDialogueState(conversationId, principalId);
+		let decision: SlotFillingDecision | null = null;
 
 		// Increment turn count
 		state.turnCount += 1;
 		state.lastUpdateTime = Date.now();
 
-		// Fill slots based on detected intent and entities
+		// A declined suggestion is not offered again; a cancelled request is dropped with its slots.
+		// A no to pending tool calls declines only those (resolvePendingToolCalls drops them).
+		const declinesToolCalls = intentResult.dialogueAct?.type === 'deny' && Boolean(state.pendingToolCalls?.length);
+		if ((intentResult.dialogueAct?.type === 'deny' && !declinesToolCalls) || intentResult.dialogueAct?.type === 'cancel') {
+			state.lastSuggestion = undefined;
+			state.pendingSlots = undefined;
+			if (intentResult.dialogueAct.type === 'cancel') {
+				state.slots = {};
+				state.slotSources = undefined;
+			}
+			this.logger.info('Dialogue act cleared suggestion', {
+				metadata: { conversationId, act: intentResult.dialogueAct.type, turnCount: state.turnCount },
+			});
+		}
+
+		// Fill slots based on detected intent and entities (a modify names only the slots it changes)
 		if (intentResult.workflow === 'travel') {
-			state.slots.origin = (intentResult.entities.origin as string) || state.slots.origin;
-			state.slots.destination = (intentResult.entities.destination as string) || state.slots.destination;
-			state.slots.departureDate = (intentResult.entities.departureDate as string) || state.slots.departureDate;
-			state.slots.returnDate = (intentResult.entities.returnDate as string) || state.slots.returnDate;
+			decision = this.slotFiller.fillTravel(state, intentResult);
 
 			// Store last travel request
-			if (state.slots.origin && state.slots.destination) {
+			if (decision.action === 'start') {
 				state.context.lastTravelRequest = {
-					origin: state.slots.origin,
-					destination: state.slots.destination,
-					date: state.slots.departureDate || new Date().toISOString().split('T')[0],
+					origin: decision.params.origin,
+					destination: decision.params.destination,
+					date: decision.params.departureDate,
 				};
 			}
 
 			// Update last suggestion for confirmations
 			if (state.slots.destination) {
 				state.lastSuggestion = {
-					origin: state.slots.origin || 'JFK',
+					origin: state.slots.origin,
 					destination: state.slots.destination,
-					date: state.slots.departureDate || new Date().toISOString().split('T')[0],
+					date: state.slots.departureDate,
 					type: 'travel',
 				};
 			}
@@ -602,8 +927,13 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 			state.context.previousWorkflows.push(intentResult.workflow);
 		}
 
-		// Mark workflow as active if one is triggered
-		if (intentResult.workflow) {
+		// Another request replaces an unanswered travel question
+		if (intentResult.workflow && intentResult.workflow !== 'travel') {
+			state.pendingSlots = undefined;
+		}
+
+		// Mark workflow as active if one is triggered (travel only once its slots are complete)
+		if (intentResult.workflow && decision?.action !== 'ask') {
 			state.activeWorkflow = {
 				type: intentResult.workflow,
 				startTime: Date.now(),
@@ -622,15 +952,162 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 		}
 
 		// Persist updated state
-		await this.persistDialogueState(conversationId, state);
+		await this.persistDialogueState(state);
+
+		return decision;
+	}
+
+	/**
+	 * Remember which tools ran on which turn so follow-ups can be routed to them
+	 */
+	private recordToolUsage(conversationId: string, principalId: string, toolName: string): void {
+		const MAX_RECENT_TOOLS = 10;
+
+		this.getOrInitializeDialogueState(conversationId, principalId)
+			.then((state) => {
+				const recentTools = (state.context.recentTools ?? []).filter((use) => use.toolName !== toolName);
+				recentTools.push({ toolName, turn: state.turnCount });
+				state.context.recentTools = recentTools.slice(-MAX_RECENT_TOOLS);
+				return this.persistDialogueState(state);
+			})
+			.catch((error) => {
+				this.logger.warn('Failed to record tool usage', {
+					metadata: { conversationId, toolName, error: error instanceof Error ? error.message : String(error) },
+				});
+			});
+	}
+
+	/**
+	 * Hold a write tool call until the user answers the confirmation question
+	 */
+	private recordPendingToolCall(conversationId: string, principalId: string, call: Omit<PendingToolCall, 'proposedAtTurn'>): void {
+		this.getOrInitializeDialogueState(conversationId, principalId)
+			.then((state) => {
+				const key = JSON.stringify([call.toolName, call.args]);
+				const pending = (state.pendingToolCalls ?? []).filter((p) => JSON.stringify([p.toolName, p.args]) !== key);
+				state.pendingToolCalls = [...pending, { ...call, proposedAtTurn: state.turnCount }];
+				return this.persistDialogueState(state);
+			})
+			.catch((error) => {
+				this.logger.warn('Failed to record pending tool call', {
+					metadata: { conversationId, toolName: call.toolName, error: error instanceof Error ? error.message : String(error) },
+				});
+			});
+	}
+
+	/**
+	 * Run the write tool calls put to the user last turn if this message confirms them; any other
+	 * reply drops them (a changed request gets a fresh call from the model). Returns one line per
+	 * call for the prompt.
+	 */
+	private async resolvePendingToolCalls(
+		conversationId: string,
+		principalId: string,
+		intentResult: IntentDetectionResult,
+		correlationId: string,
+	): Promise<string[]> {
+		const state = await this.getOrInitializeDialogueState(conversationId, principalId);
+		const pending = state.pendingToolCalls ?? [];
+		if (pending.length === 0) return [];
+
+		state.pendingToolCalls = undefined;
+		await this.persistDialogueState(state);
+
+		if (intentResult.dialogueAct?.type !== 'confirm') {
+			this.logger.info('Dropped unconfirmed tool calls', {
+				metadata: { conversationId, act: intentResult.dialogueAct?.type, tools: pending.map((call) => call.toolName), correlationId },
+			});
+			return [];
+		}
+
+		const lines: string[] = [];
+		for (const call of pending) {
+			const result = await this.llm.executeConfirmedToolCall(call, principalId, correlationId);
+			if (result.status !== 'success') {
+				lines.push(`- Failed: ${call.description} (${result.error ?? 'no result'})`);
+				continue;
+			}
+
+			const eventId = (result.data as { id?: string } | undefined)?.id;
+			lines.push(`- Done: ${call.description}${eventId ? ` (event id ${eventId})` : ''}`);
+			if (call.toolName === 'create_event' && eventId) {
+				const linked = await this.linkEventToTasks(call, eventId, principalId, correlationId);
+				if (linked.length > 0) lines.push(`  Linked to task: ${linked.join(', ')}`);
+				await this.startTaskExtraction(result.data as ToolCalendarEvent, principalId, correlationId);
+			}
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Save a created event's id on the task it makes time for; returns the linked task titles
+	 */
+	private async linkEventToTasks(call: PendingToolCall, eventId: string, principalId: string, correlationId: string): Promise<string[]> {
+		try {
+			const tasks = await this.tasks.linkEvent({
+				userId: principalId,
+				eventId,
+				eventTitle: String(call.args.summary ?? ''),
+				taskId: call.args.taskId as string | undefined,
+			});
+			return tasks.map((task) => `"${task.getTitle()}"`);
+		} catch (error) {
+			this.logger.warn('Failed to link event to tasks', {
+				metadata: { eventId, principalId, correlationId, error: error instanceof Error ? error.message : String(error) },
+			});
+			return [];
+		}
+	}
+
+	/**
+	 * Extract prep tasks for an event the user just created; travel events also fire their event workflows
+	 */
+	private async startTaskExtraction(event: ToolCalendarEvent, principalId: string, correlationId: string): Promise<void> {
+		const params: TaskExtractionRequest = {
+			userId: principalId,
+			eventId: event.id,
+			eventTitle: event.summary,
+			eventDescription: event.description,
+			eventStartTime: event.start.dateTime ?? event.start.date ?? '',
+			eventLocation: event.location,
+			eventAttendees: event.attendees?.map((attendee) => attendee.email),
+			correlationId,
+		};
+		try {
+			await this.env.TASK_EXTRACTION.create({ params });
+		} catch (error) {
+			this.logger.warn('Failed to start task extraction for created event', {
+				metadata: { eventId: event.id, principalId, correlationId, error: error instanceof Error ? error.message : String(error) },
+			});
+		}
 	}
 
 	/**
 	 * Get current dialogue state for a conversation
 	 * Returns complete state snapshot for inspection/debugging
 	 */
-	private getDialogueState(conversationId: string): FullDialogueState | null {
-		return this.dialogueStateCache.get(conversationId) ?? null;
+	private async getDialogueState(conversationId: string): Promise<FullDialogueState | null> {
+		return this.dialogueStates.get(conversationId);
+	}
+
+	/**
+	 * GET /conversations/:conversationId/state - Dialogue state snapshot for debugging
+	 */
+	private async handleGetDialogueState(conversationId: string, request: Request, correlationId: string): Promise<Response> {
+		const principalId = request.headers.get('X-Principal-Id') || getPrincipalId(request) || 'anonymous';
+		const cached = this.dialogueStates.peek(conversationId) !== null;
+		const state = await this.getDialogueState(conversationId);
+
+		// Another principal's conversation is reported as missing, not forbidden
+		if (!state || state.principalId !== principalId) {
+			return createErrorResponse('NOT_FOUND', `No dialogue state for conversation ${conversationId}`, 404, correlationId);
+		}
+
+		return new Response(JSON.stringify({ conversationId, cached, state }), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json', 'X-Correlation-ID': correlationId },
+		});
 	}
 
 	/**
@@ -638,17 +1115,15 @@ export class ChatSessionDO extends DurableObject<WorkerEnv> {
 	 * Deletes from both cache and durable storage
 	 */
 	private async clearDialogueState(conversationId: string): Promise<void> {
-		this.dialogueStateCache.delete(conversationId);
-		const storageKey = `${this.storageKey}${conversationId}`;
-		await this.ctx.storage.delete(storageKey);
+		this.dialogueStates.delete(conversationId);
 		this.logger.debug('Cleared dialogue state', { metadata: { conversationId } });
 	}
 
 	/**
-	 * Get all cached dialogue states
+	 * Summaries of every stored dialogue state, most recently accessed first
 	 * Useful for observability and debugging
 	 */
-	private getAllDialogueStates(): Map<string, FullDialogueState> {
-		return new Map(this.dialogueStateCache);
+	private getAllDialogueStates(): DialogueStateSummary[] {
+		return this.dialogueStates.list();
 	}
 }
@@ -1,6 +1,11 @@
 import { Logger } from '../../observability/logger';
 import { FullDialogueState } from './chat-session.do';
+import { IntentEntities } from './intent-detector';
 import { D1SemanticMemoryRepository, D1EpisodicMemoryRepository, D1ProceduralMemoryRepository } from '../../infrastructure/memory';
+import { estimateLlama3Tokens } from '../../adapters/llm/llama3-token-estimator';
+import { ConversationRecall } from './conversation-recall';
+import { RecallMatch } from '../../domain/memory/ports/IVectorIndex';
+import { MemoryItemKind, MemoryRanker, MemorySection, SECTION_HEADINGS, countMemoryKinds, describeMemoryCounts } from './memory-ranker';
 
 /**
  * Structured context for LLM, designed to minimize token bloat
@@ -18,31 +23,42 @@ export interface StructuredContext {
 		episodic?: string;
 		procedural?: string;
 	};
-	tokenEstimate: number;
+	droppedMemories?: Partial<Record<MemoryItemKind, number>>; // Relevant memories left out to fit MEMORY_TOKEN_BUDGET
+	tokenEstimate: number; // Llama 3 token estimate of the formatted context
 	contextSummary?: string;
 }
 
 /**
  * Context Manager - Intelligent context window management
  * Retrieves and structures only relevant context based on intent
- * Filters memory by relevance and token budget
+ * Ranks individual memories against the message and packs them into the token budget
+ * Snippets of earlier conversations come from vector search when recall is configured
  */
 export class ContextManager {
 	private logger: Logger = new Logger('context-manager');
 	private readonly MAX_CONTEXT_TOKENS = 2000; // Target context size (leave room for response)
 	private readonly MEMORY_TOKEN_BUDGET = 800; // Max tokens for memory injection
+	private readonly EPISODE_LIMIT = 10; // Per episodic category; the ranker decides how many make it in
+	private readonly memoryRanker = new MemoryRanker();
 
 	constructor(
 		private semanticMemory: D1SemanticMemoryRepository,
 		private episodicMemory: D1EpisodicMemoryRepository,
 		private proceduralMemory: D1ProceduralMemoryRepository,
+		private recall?: ConversationRecall,
 	) { }
 
 	/**
 	 * Build structured context based on detected intent and dialogue state
 	 * Retrieves only relevant memories to minimize token bloat
 	 */
-	async buildContext(dialogueState: FullDialogueState, detectedIntent: string, principalId: string): Promise<StructuredContext> {
+	async buildContext(
+		dialogueState: FullDialogueState,
+		detectedIntent: string,
+		principalId: string,
+		message = '',
+		entities: IntentEntities = {},
+	): Promise<StructuredContext> {
 		const startTime = Date.now();
 
 		// 1. Extract dialogue state as primary context (slots, workflow, turn count)
@@ -53,11 +69,20 @@ export class ContextManager {
 			lastTravelRequest: dialogueState.context.lastTravelRequest,
 		};
 
-		// 2. Retrieve memories filtered by intent
-		const relevantMemories = await this.retrieveRelevantMemories(principalId, detectedIntent, dialogueState);
+		// 2. Rank memories against the message and slots, keep what fits the memory budget
+		const query = { intent: detectedIntent, message, slots: { ...dialogueStateContext.slots, ...this.entityTerms(entities) } };
+		const { relevantMemories, droppedMemories } = await this.retrieveRelevantMemories(principalId, query, dialogueState.conversationId);
 
-		// 3. Estimate tokens to ensure we stay under budget
-		const estimatedTokens = this.estimateTokens(dialogueStateContext, relevantMemories);
+		const context: StructuredContext = {
+			dialogueState: dialogueStateContext,
+			relevantMemories,
+			droppedMemories,
+			tokenEstimate: 0,
+		};
+
+		// 3. Estimate tokens of what will actually be injected
+		context.tokenEstimate = estimateLlama3Tokens(this.formatContextForPrompt(context));
+		const estimatedTokens = context.tokenEstimate;
 
 		if (estimatedTokens > this.MAX_CONTEXT_TOKENS) {
 			this.logger.warn('Context exceeds token budget', {
@@ -69,12 +94,6 @@ export class ContextManager {
 			});
 		}
 
-		const context: StructuredContext = {
-			dialogueState: dialogueStateContext,
-			relevantMemories,
-			tokenEstimate: estimatedTokens,
-		};
-
 		this.logger.debug('Context built', {
 			metadata: {
 				estimatedTokens,
@@ -82,6 +101,7 @@ export class ContextManager {
 				hasSemanticMemory: !!relevantMemories.semantic,
 				hasEpisodicMemory: !!relevantMemories.episodic,
 				hasProcedureMemory: !!relevantMemories.procedural,
+				droppedMemories,
 				buildTimeMs: Date.now() - startTime,
 			},
 		});
@@ -102,6 +122,8 @@ export class ContextManager {
 			slots.destination = dialogueState.slots.destination;
 			slots.departureDate = dialogueState.slots.departureDate;
 			slots.returnDate = dialogueState.slots.returnDate;
+			slots.tripType = dialogueState.slots.tripType;
+			slots.passengers = dialogueState.slots.passengers?.toString();
 		}
 		// Task intent: include task-specific slots
 		else if (intent === 'task') {
@@ -117,77 +139,58 @@ export class ContextManager {
 	}
 
 	/**
-	 * Retrieve memories filtered by relevance to intent
-	 * Uses vector search where applicable, avoids dumping all memory
+	 * String entities (resolved airports, dates) count as query terms alongside the slots
+	 */
+	private entityTerms(entities: IntentEntities): Record<string, string> {
+		return Object.fromEntries(
+			Object.entries(entities)
+				.filter(([, value]) => typeof value === 'string' && value)
+				.map(([key, value]) => [`entity:${key}`, value as string]),
+		);
+	}
+
+	/**
+	 * Retrieve every memory store and the snippets recalled from other conversations, rank the
+	 * individual items against the query and pack the best into MEMORY_TOKEN_BUDGET; relevant
+	 * items that did not fit are counted by kind
 	 */
 	private async retrieveRelevantMemories(
 		principalId: string,
-		intent: string,
-		dialogueState: FullDialogueState,
-	): Promise<{ semantic?: string; episodic?: string; procedural?: string }> {
-		const memories: { semantic?: string; episodic?: string; procedural?: string } = {};
-
+		query: { intent: string; message: string; slots: Record<string, string | undefined> },
+		conversationId?: string,
+	): Promise<{ relevantMemories: StructuredContext['relevantMemories']; droppedMemories?: StructuredContext['droppedMemories'] }> {
 		try {
-			// Semantic memory: only for travel or planning (user preferences, known destinations)
-			if (intent === 'travel' || intent === 'planning') {
-				const semantic = await this.semanticMemory.getSemanticMemory(principalId);
-				if (semantic) {
-					const context = semantic.toPromptContext();
-					if (context && this.estimateTokens({}, { semantic: context }) < this.MEMORY_TOKEN_BUDGET) {
-						memories.semantic = context;
-					}
-				}
+			const [semantic, episodic, procedural, recalled] = await Promise.all([
+				this.semanticMemory.getSemanticMemory(principalId),
+				this.episodicMemory.getEpisodicMemory(principalId, this.EPISODE_LIMIT),
+				this.proceduralMemory.getProceduralMemory(principalId),
+				this.recall?.recall(principalId, query.message, { excludeConversationId: conversationId }) ?? Promise.resolve<RecallMatch[]>([]),
+			]);
+
+			const ranked = this.memoryRanker.rank(this.memoryRanker.collect(semantic, episodic, procedural, new Date(), recalled), query);
+			const packed = this.memoryRanker.pack(ranked, this.MEMORY_TOKEN_BUDGET);
+
+			const relevantMemories: StructuredContext['relevantMemories'] = {};
+			for (const section of ['semantic', 'episodic', 'procedural'] as MemorySection[]) {
+				const lines = packed.included.filter((item) => item.section === section).map((item) => `- ${item.text}`);
+				if (lines.length > 0) relevantMemories[section] = lines.join('\n');
 			}
 
-			// Episodic memory: for context-aware responses (recent events, recent trips)
-			// Limit to 3 most recent episodes to minimize tokens
-			if (dialogueState.turnCount > 5) {
-				const episodic = await this.episodicMemory.getEpisodicMemory(principalId, 3);
-				if (episodic) {
-					const context = episodic.toPromptContext();
-					if (context && this.estimateTokens({}, { episodic: context }) < this.MEMORY_TOKEN_BUDGET * 0.3) {
-						memories.episodic = context;
-					}
-				}
+			const droppedMemories = packed.dropped.length > 0 ? countMemoryKinds(packed.dropped) : undefined;
+			if (droppedMemories) {
+				this.logger.debug('Memories dropped to fit token budget', {
+					metadata: { principalId, dropped: describeMemoryCounts(droppedMemories), memoryTokens: packed.tokens },
+				});
 			}
 
-			// Procedural memory: for task-specific workflows
-			if (intent === 'task' || intent === 'planning') {
-				const procedural = await this.proceduralMemory.getProceduralMemory(principalId);
-				if (procedural) {
-					const context = procedural.toPromptContext();
-					if (context && this.estimateTokens({}, { procedural: context }) < this.MEMORY_TOKEN_BUDGET * 0.3) {
-						memories.procedural = context;
-					}
-				}
-			}
+			return { relevantMemories, droppedMemories };
 		} catch (error) {
 			const err = error instanceof Error ? error : new Error(String(error));
 			this.logger.warn('Failed to retrieve relevant memories', {
-				metadata: { principalId, intent, error: err.message },
+				metadata: { principalId, intent: query.intent, error: err.message },
 			});
+			return { relevantMemories: {} };
 		}
-
-		return memories;
-	}
-
-	/**
-	 * Rough token estimation (1 token ≈ 4 characters)
-	 * Used to budget context and prevent bloat
-	 */
-	private estimateTokens(dialogueState: any, memories: { semantic?: string; episodic?: string; procedural?: string }): number {
-		let charCount = 0;
-
-		// Dialogue state + slots
-		charCount += JSON.stringify(dialogueState).length;
-
-		// Memories
-		if (memories.semantic) charCount += memories.semantic.length;
-		if (memories.episodic) charCount += memories.episodic.length;
-		if (memories.procedural) charCount += memories.procedural.length;
-
-		// Rough estimate: 1 token ≈ 4 chars in English
-		return Math.ceil(charCount / 4);
 	}
 
 	/**
@@ -219,22 +222,20 @@ export class ContextManager {
 			formatted += `\n[REFERENCE ONLY - Previous Search]\nPreviously searched: ${origin} → ${destination} on ${date}\nDo NOT repeat this search unless user explicitly requests it again.\n`;
 		}
 
-		// 4. Relevant memories (only if they exist)
+		// 4. Relevant memories (only if they exist), most relevant first within each section
 		if (Object.values(context.relevantMemories).some((v) => v)) {
 			formatted += '\n[RELEVANT CONTEXT]\n';
-			if (context.relevantMemories.semantic) {
-				formatted += `\nUser Preferences & Knowledge:\n${context.relevantMemories.semantic}\n`;
-			}
-			if (context.relevantMemories.episodic) {
-				formatted += `\nRecent Events:\n${context.relevantMemories.episodic}\n`;
-			}
-			if (context.relevantMemories.procedural) {
-				formatted += `\nProcedures & Instructions:\n${context.relevantMemories.procedural}\n`;
+			for (const section of ['semantic', 'episodic', 'procedural'] as MemorySection[]) {
+				if (context.relevantMemories[section]) {
+					formatted += `\n${SECTION_HEADINGS[section]}\n${context.relevantMemories[section]}\n`;
+				}
 			}
 		}
 
-		// 5. Token budget warning
-		formatted += `\n[CONTEXT INFO] Tokens: ${context.tokenEstimate}/${this.MAX_CONTEXT_TOKENS}`;
+		// 5. Say what was left out so the model can ask instead of assuming there is nothing
+		if (context.droppedMemories) {
+			formatted += `\n(Not shown to save space: ${describeMemoryCounts(context.droppedMemories)})\n`;
+		}
 
 		return formatted;
 	}
@@ -0,0 +1,161 @@
+/**
+ * ConversationRecall - Semantic recall of what was said in earlier conversations
+ *
+ * Chat messages (as StorageManager logs them) and conversation summaries (as the idle
+ * alarm writes them) are embedded and upserted into a vector index, one namespace per
+ * principal. When a message comes in, the closest snippets from other conversations are
+ * handed to ContextManager, so "what hotel did I say I liked in Lisbon?" finds the message
+ * from last month even though no keyword memory recorded it.
+ *
+ * Recall is best effort: indexing runs after the turn and failures are logged, and a
+ * failed lookup means no snippets rather than a failed chat.
+ */
+
+import { WorkerEnv } from '../../env';
+import { IEmbeddingPort } from '../../domain/memory/ports/IEmbeddingPort';
+import { IVectorIndex, RecallDocument, RecallMatch } from '../../domain/memory/ports/IVectorIndex';
+import { ConversationSummary } from '../../domain/memory/EpisodicMemory';
+import { WorkersAIEmbeddingAdapter } from '../../adapters/llm/workers-ai-embedding.adapter';
+import { VectorizeIndexAdapter } from '../../adapters/persistence/vectorize-index.adapter';
+import { InMemoryVectorIndex } from '../../infrastructure/memory/InMemoryVectorIndex';
+import { Logger } from '../../observability/logger';
+import { LoggedTurn } from './types';
+
+export interface ConversationRecallOptions {
+	embeddings: IEmbeddingPort;
+	index: IVectorIndex;
+	existingConversations?: (principalId: string, conversationIds: string[]) => Promise<Set<string>>; // Drops deleted conversations
+	minScore?: number;
+}
+
+export interface RecallQueryOptions {
+	topK?: number;
+	excludeConversationId?: string; // The current conversation is already in the prompt as history
+	correlationId?: string;
+}
+
+export const RECALL_TOP_K = 5;
+const DEFAULT_MIN_SCORE = 0.6; // BGE cosine; unrelated sentences usually score 0.4-0.55
+const CANDIDATE_FACTOR = 3; // Over-fetch so excluded and deleted conversations still leave topK
+const MIN_INDEXED_CHARS = 20; // "ok thanks" is not worth recalling
+const MAX_INDEXED_CHARS = 1000; // Kept under Vectorize's metadata limit
+
+export class ConversationRecall {
+	private readonly logger = new Logger('conversation-recall');
+
+	constructor(private readonly options: ConversationRecallOptions) {}
+
+	/**
+	 * Embed the completed messages of a logged turn; regenerated answers replace their event
+	 */
+	async indexTurn(turn: LoggedTurn, correlationId?: string): Promise<void> {
+		const documents: RecallDocument[] = turn.events
+			.filter((event) => event.status === 'complete' && event.content.trim().length >= MIN_INDEXED_CHARS)
+			.map((event) => ({
+				id: `event:${event.id}`,
+				userId: turn.principalId,
+				conversationId: turn.conversationId,
+				kind: 'message',
+				role: event.role,
+				text: event.content.trim().slice(0, MAX_INDEXED_CHARS),
+				createdAt: turn.createdAt,
+			}));
+
+		await this.index(documents, correlationId);
+	}
+
+	/**
+	 * Embed a conversation summary; a newer summary of the same conversation replaces it
+	 */
+	async indexSummary(summary: Pick<ConversationSummary, 'userId' | 'conversationId' | 'summary'>, correlationId?: string): Promise<void> {
+		await this.index(
+			[
+				{
+					id: `summary:${summary.conversationId}`,
+					userId: summary.userId,
+					conversationId: summary.conversationId,
+					kind: 'summary',
+					text: summary.summary.trim().slice(0, MAX_INDEXED_CHARS),
+					createdAt: new Date().toISOString(),
+				},
+			],
+			correlationId,
+		);
+	}
+
+	/**
+	 * The principal's past snippets closest to the message, best first
+	 */
+	async recall(principalId: string, message: string, options: RecallQueryOptions = {}): Promise<RecallMatch[]> {
+		const topK = options.topK ?? RECALL_TOP_K;
+		if (!message.trim()) return [];
+
+		try {
+			const [vector] = await this.options.embeddings.embed([message], options.correlationId);
+			const candidates = (await this.options.index.query(principalId, vector, topK * CANDIDATE_FACTOR)).filter(
+				(match) => match.score >= (this.options.minScore ?? DEFAULT_MIN_SCORE) && match.conversationId !== options.excludeConversationId,
+			);
+
+			const conversationIds = [...new Set(candidates.map((match) => match.conversationId))];
+			const existing = this.options.existingConversations
+				? await this.options.existingConversations(principalId, conversationIds)
+				: new Set(conversationIds);
+
+			const seen = new Set<string>();
+			return candidates
+				.filter((match) => existing.has(match.conversationId))
+				.filter((match) => {
+					const key = match.text.toLowerCase();
+					if (seen.has(key)) return false;
+					seen.add(key);
+					return true;
+				})
+				.slice(0, topK);
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('Semantic recall failed', { correlationId: options.correlationId, metadata: { principalId, error: err.message } });
+			return [];
+		}
+	}
+
+	private async index(documents: RecallDocument[], correlationId?: string): Promise<void> {
+		if (documents.length === 0) return;
+
+		try {
+			const vectors = await this.options.embeddings.embed(
+				documents.map((d) => d.text),
+				correlationId,
+			);
+			await this.options.index.upsert(documents.map((document, i) => ({ document, vector: vectors[i] })));
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('Failed to index for semantic recall', {
+				correlationId,
+				metadata: { ids: documents.map((d) => d.id), error: err.message },
+			});
+		}
+	}
+}
+
+/**
+ * Vectorize when RECALL_INDEX is bound; SEMANTIC_RECALL=memory keeps an in-memory index for
+ * local development; otherwise recall is off
+ */
+export function createConversationRecall(
+	env: WorkerEnv,
+	logger: Logger,
+	existingConversations?: ConversationRecallOptions['existingConversations'],
+): ConversationRecall | undefined {
+	const index = env.RECALL_INDEX
+		? new VectorizeIndexAdapter(env.RECALL_INDEX)
+		: env.SEMANTIC_RECALL === 'memory'
+			? new InMemoryVectorIndex()
+			: undefined;
+	if (!index) return undefined;
+
+	return new ConversationRecall({
+		embeddings: new WorkersAIEmbeddingAdapter(env.AI as any, logger, env.EMBEDDING_MODEL_ID),
+		index,
+		existingConversations,
+	});
+}
@@ -0,0 +1,86 @@
+/**
+ * ConversationSummarizer - Turns an idle conversation into episodic memory
+ *
+ * ChatSessionDO's alarm hands over conversations nobody has touched for
+ * CONVERSATION_IDLE_MS. The transcript is summarised with the conversation_summary
+ * prompt and stored in conversation_summaries (one row per conversation, replaced when
+ * the conversation continues and goes idle again), where EpisodicMemory lists it under
+ * "Recent Conversation Topics" in later conversations.
+ */
+
+import { ILLMPort } from '../../domain/chat/ports/llm.port';
+import { ConversationSummary } from '../../domain/memory/EpisodicMemory';
+import { Logger } from '../../observability/logger';
+import { MetricsCollector } from '../../observability/metrics';
+import { PromptRegistry } from '../../prompts/prompt-registry';
+import { generateStructured } from '../../prompts/structured-output';
+import { conversationSummaryOutputSpec } from '../../prompts/summarize-conversation.prompt';
+
+export interface ConversationSummarizerOptions {
+	llm: ILLMPort;
+	prompts: PromptRegistry;
+	metrics?: MetricsCollector;
+}
+
+export interface ConversationToSummarize {
+	conversationId: string;
+	principalId: string;
+	transcript: Array<{ role: string; content: string }>; // Oldest first
+}
+
+export type ConversationSummaryDraft = Omit<ConversationSummary, 'id' | 'createdAt'> & { promptVersion: string };
+
+export const CONVERSATION_IDLE_MS = 30 * 60 * 1000;
+export const MIN_TURNS_TO_SUMMARIZE = 2; // A single exchange rarely has anything worth recalling
+export const MAX_SUMMARY_ATTEMPTS = 3; // Per turn count, so a transcript the model can't summarise isn't retried forever
+
+export class ConversationSummarizer {
+	private readonly logger = new Logger('conversation-summarizer');
+
+	constructor(private readonly options: ConversationSummarizerOptions) {}
+
+	/**
+	 * Summary, key entities and sentiment for one conversation; null when the model never
+	 * produced valid output or the transcript has no user messages
+	 */
+	async summarize(conversation: ConversationToSummarize, correlationId: string): Promise<ConversationSummaryDraft | null> {
+		const transcript = conversation.transcript.filter((m) => (m.role === 'user' || m.role === 'assistant') && m.content.trim());
+		if (!transcript.some((m) => m.role === 'user')) {
+			return null;
+		}
+
+		const prompt = this.options.prompts.select('conversation_summary', conversation.principalId);
+		const result = await generateStructured(
+			this.options.llm,
+			{
+				messages: [
+					{ role: 'system', content: 'You summarize conversations for long-term memory. Reply with JSON only.' },
+					{ role: 'user', content: prompt.render({ transcript, today: new Date().toISOString().split('T')[0] }) },
+				],
+				temperature: 0,
+				maxTokens: 300,
+				useCase: 'conversation_summary',
+			},
+			conversationSummaryOutputSpec,
+			correlationId,
+			this.options.metrics,
+		);
+
+		if (!result.value) {
+			this.logger.warn('Conversation summary failed validation', {
+				correlationId,
+				metadata: { conversationId: conversation.conversationId, errors: result.errors.slice(0, 3) },
+			});
+			return null;
+		}
+
+		return {
+			userId: conversation.principalId,
+			conversationId: conversation.conversationId,
+			summary: result.value.summary,
+			keyEntities: result.value.keyEntities,
+			sentiment: result.value.sentiment,
+			promptVersion: prompt.versionId,
+		};
+	}
+}
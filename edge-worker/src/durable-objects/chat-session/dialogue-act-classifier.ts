@@ -0,0 +1,63 @@
+/**
+ * DialogueActClassifier - What a message does to the conversation so far
+ *
+ * Classifies a user message against the assistant's last suggestion or question:
+ * - confirm: agrees ("yes", "sounds good")
+ * - deny: declines ("no", "no, sure not", "not really")
+ * - modify: changes part of it ("make it Friday instead", "from Newark", "ok but not Delta")
+ * - cancel: drops the request altogether ("never mind", "cancel that")
+ * - inform: anything else (new information or a new request)
+ *
+ * Lexical only: IntentDetector supplies which slots the message states, so "from Newark"
+ * after a JFK suggestion is a modify while "From Boston" answering a question is not.
+ */
+
+export type DialogueActType = 'confirm' | 'deny' | 'modify' | 'cancel' | 'inform';
+
+export interface DialogueAct {
+	type: DialogueActType;
+	slots?: string[]; // Modify: the slots the message changes
+}
+
+export interface DialogueActSignals {
+	mentionedSlots: string[]; // Slots the message gives values for
+	changedSlots: string[]; // Of those, slots the last suggestion held with a different value
+}
+
+// Whole words, so "book" is not "ok"
+const CONFIRM_PATTERN = /\b(yes|yep|yeah|ok|okay|sure|do that|go ahead|perfect|sounds good)\b/;
+const DENY_START_PATTERN = /^\W*(no|nope|nah|not really|negative|don'?t|do not)\b/;
+const NEGATION_PATTERN = /\b(no|not|don'?t|never)\b/;
+const CORRECTION_PATTERN = /\b(instead|actually|rather|change|make it|switch|but)\b/;
+const CANCEL_PATTERN =
+	/^\W*(?:(?:no|ok|okay),?\s+)?(cancel(?: that| it)?|never ?mind|forget (?:it|about it)|scratch that|stop|don'?t bother)\W*$/;
+
+const MAX_SHORT_DENIAL_WORDS = 6; // "I don't think so"; longer messages with "not" are usually requests
+
+export class DialogueActClassifier {
+	classify(message: string, signals: DialogueActSignals = { mentionedSlots: [], changedSlots: [] }): DialogueAct {
+		const lowerMessage = message.toLowerCase().trim();
+		const { mentionedSlots, changedSlots } = signals;
+
+		if (CANCEL_PATTERN.test(lowerMessage)) {
+			return { type: 'cancel' };
+		}
+
+		// "no, from Newark" and "make it Friday instead" correct the suggestion rather than reject it
+		const corrects = CORRECTION_PATTERN.test(lowerMessage) || DENY_START_PATTERN.test(lowerMessage) || changedSlots.length > 0;
+		if (corrects && (mentionedSlots.length > 0 || CORRECTION_PATTERN.test(lowerMessage))) {
+			return { type: 'modify', slots: mentionedSlots };
+		}
+
+		const shortMessage = lowerMessage.split(/\s+/).length <= MAX_SHORT_DENIAL_WORDS;
+		if (DENY_START_PATTERN.test(lowerMessage) || (shortMessage && NEGATION_PATTERN.test(lowerMessage))) {
+			return { type: 'deny' };
+		}
+
+		if (CONFIRM_PATTERN.test(lowerMessage)) {
+			return { type: 'confirm' };
+		}
+
+		return { type: 'inform' };
+	}
+}
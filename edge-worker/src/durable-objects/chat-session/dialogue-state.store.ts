@@ -0,0 +1,194 @@
+/**
+ * DialogueStateStore - Dialogue state for every conversation of one principal
+ *
+ * ChatSessionDO is addressed by principal (idFromName(principal.id)), so one instance
+ * holds the state of all that user's conversations. States live in the DO's SQLite
+ * storage (dialogue_state, indexed by last access) behind a small LRU cache:
+ * - cacheSize: states kept in memory; the least recently used is dropped first
+ * - maxActiveConversations: hard cap on stored states; saving past it deletes the
+ *   least recently accessed conversation's state
+ *
+ * States written by earlier versions under the dst:<conversationId> key are moved into
+ * the table the first time they are read.
+ */
+
+import { FullDialogueState } from './chat-session.do';
+import { Logger } from '../../observability/logger';
+
+export interface DialogueStateStoreOptions {
+	cacheSize?: number;
+	maxActiveConversations?: number;
+}
+
+export interface DialogueStateSummary {
+	conversationId: string;
+	principalId: string;
+	lastAccessTime: number;
+	turnCount: number;
+	summarizedAtTurn?: number;
+	summaryAttempts?: { turnCount: number; count: number };
+}
+
+export const DEFAULT_DIALOGUE_CACHE_SIZE = 20;
+export const DEFAULT_MAX_ACTIVE_CONVERSATIONS = 100;
+
+const LEGACY_KEY_PREFIX = 'dst:';
+
+export class DialogueStateStore {
+	private readonly logger = new Logger('dialogue-state-store');
+	private readonly cache = new Map<string, FullDialogueState>(); // Map order is recency: first entry is least recently used
+	private readonly cacheSize: number;
+	private readonly maxActiveConversations: number;
+	private schemaReady = false;
+
+	constructor(
+		private readonly storage: DurableObjectStorage,
+		options: DialogueStateStoreOptions = {},
+	) {
+		this.cacheSize = options.cacheSize ?? DEFAULT_DIALOGUE_CACHE_SIZE;
+		this.maxActiveConversations = options.maxActiveConversations ?? DEFAULT_MAX_ACTIVE_CONVERSATIONS;
+	}
+
+	private ensureSchema(): void {
+		if (this.schemaReady) return;
+
+		this.storage.sql.exec(
+			'CREATE TABLE IF NOT EXISTS dialogue_state (conversation_id TEXT PRIMARY KEY, principal_id TEXT NOT NULL, state TEXT NOT NULL, last_access_time INTEGER NOT NULL)',
+		);
+		this.storage.sql.exec('CREATE INDEX IF NOT EXISTS idx_dialogue_state_last_access ON dialogue_state (last_access_time)');
+
+		this.schemaReady = true;
+	}
+
+	/**
+	 * Cached state, else the stored row (or a legacy key), else null
+	 */
+	async get(conversationId: string): Promise<FullDialogueState | null> {
+		const cached = this.cache.get(conversationId);
+		if (cached) {
+			this.remember(cached);
+			return cached;
+		}
+
+		this.ensureSchema();
+		const [row] = this.storage.sql
+			.exec<{ state: string }>('SELECT state FROM dialogue_state WHERE conversation_id = ?', conversationId)
+			.toArray();
+		if (row) {
+			const state = JSON.parse(row.state) as FullDialogueState;
+			this.remember(state);
+			return state;
+		}
+
+		const legacy = await this.storage.get<FullDialogueState>(`${LEGACY_KEY_PREFIX}${conversationId}`);
+		if (legacy) {
+			this.put(legacy);
+			await this.storage.delete(`${LEGACY_KEY_PREFIX}${conversationId}`);
+			return legacy;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Cached state only; never touches storage or recency
+	 */
+	peek(conversationId: string): FullDialogueState | null {
+		return this.cache.get(conversationId) ?? null;
+	}
+
+	/**
+	 * Upsert the state and enforce the active-conversation cap
+	 */
+	put(state: FullDialogueState): void {
+		this.ensureSchema();
+		const lastAccessTime = state.lastAccessTime ?? state.lastUpdateTime;
+
+		this.storage.sql.exec(
+			'INSERT INTO dialogue_state (conversation_id, principal_id, state, last_access_time) VALUES (?, ?, ?, ?) ON CONFLICT(conversation_id) DO UPDATE SET principal_id = excluded.principal_id, state = excluded.state, last_access_time = excluded.last_access_time',
+			state.conversationId,
+			state.principalId,
+			JSON.stringify(state),
+			lastAccessTime,
+		);
+		this.remember(state);
+		this.enforceCap(state.conversationId);
+	}
+
+	delete(conversationId: string): void {
+		this.ensureSchema();
+		this.cache.delete(conversationId);
+		this.storage.sql.exec('DELETE FROM dialogue_state WHERE conversation_id = ?', conversationId);
+	}
+
+	/**
+	 * Stored conversations, most recently accessed first
+	 */
+	list(): DialogueStateSummary[] {
+		this.ensureSchema();
+		return this.storage.sql
+			.exec<{ state: string }>('SELECT state FROM dialogue_state ORDER BY last_access_time DESC')
+			.toArray()
+			.map((row) => {
+				const state = JSON.parse(row.state) as FullDialogueState;
+				return {
+					conversationId: state.conversationId,
+					principalId: state.principalId,
+					lastAccessTime: state.lastAccessTime ?? state.lastUpdateTime,
+					turnCount: state.turnCount,
+					summarizedAtTurn: state.summarizedAtTurn,
+					summaryAttempts: state.summaryAttempts,
+				};
+			});
+	}
+
+	/**
+	 * Delete states not accessed since the cutoff (epoch ms). Returns how many were removed.
+	 */
+	pruneAccessedBefore(cutoff: number): number {
+		this.ensureSchema();
+		const stale = this.storage.sql
+			.exec<{ conversation_id: string }>('SELECT conversation_id FROM dialogue_state WHERE last_access_time < ?', cutoff)
+			.toArray();
+		for (const row of stale) {
+			this.delete(row.conversation_id);
+		}
+		return stale.length;
+	}
+
+	/**
+	 * Mark as most recently used and drop the least recently used beyond cacheSize
+	 */
+	private remember(state: FullDialogueState): void {
+		this.cache.delete(state.conversationId);
+		this.cache.set(state.conversationId, state);
+
+		while (this.cache.size > this.cacheSize) {
+			const [oldest] = this.cache.keys();
+			this.cache.delete(oldest);
+		}
+	}
+
+	private enforceCap(keepConversationId: string): void {
+		const [{ count }] = this.storage.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM dialogue_state').toArray();
+		const excess = count - this.maxActiveConversations;
+		if (excess <= 0) return;
+
+		const evicted = this.storage.sql
+			.exec<{ conversation_id: string }>(
+				'SELECT conversation_id FROM dialogue_state WHERE conversation_id != ? ORDER BY last_access_time ASC LIMIT ?',
+				keepConversationId,
+				excess,
+			)
+			.toArray()
+			.map((row) => row.conversation_id);
+
+		for (const conversationId of evicted) {
+			this.delete(conversationId);
+		}
+
+		this.logger.info('Evicted dialogue state over the active conversation cap', {
+			metadata: { evicted, maxActiveConversations: this.maxActiveConversations },
+		});
+	}
+}
@@ -2,19 +2,34 @@
  * IntentDetector - Lightweight intent detection for routing chat to workflows
  *
  * Analyzes user messages to detect travel, task extraction, or planning intents
- * using keyword matching and optional simple LLM classification.
+ * in two stages:
+ * 1. Keyword matching (detect): fast, scores every matching intent
+ * 2. LLM classification (classify): only when the keyword pass is below the confidence
+ *    threshold or several intents match. Uses the intent_classification model route.
  *
  * Returns workflow type to trigger + extracted entities.
  *
  * Design principles:
  * - Lightweight (runs in Durable Object, not workflow)
- * - Fast keyword matching first
- * - Optional LLM call for ambiguous cases
+ * - Fast keyword matching first; messages with no keyword signal never reach the LLM
+ * - LLM failures fall back to the keyword result
  * - Extracts structured entities (dates, locations, etc.)
  */
 
+import { ILLMPort } from '../../domain/chat/ports/llm.port';
+import { Logger } from '../../observability/logger';
+import { MetricsCollector } from '../../observability/metrics';
+import { ClassifiedIntent, intentClassificationOutputSpec } from '../../prompts/classify-intent.prompt';
+import { PromptRegistry } from '../../prompts/prompt-registry';
+import { generateStructured } from '../../prompts/structured-output';
+import { DateParseContext, findDateExpressions, localDate, parseDateExpression } from '../../domain/shared';
+import { AirportResolver, describeAirport } from '../../domain/travel/services/airport-resolver.service';
+import { DialogueAct, DialogueActClassifier } from './dialogue-act-classifier';
+
 export type WorkflowType = 'travel' | 'task' | 'planning' | null;
 
+export type TripType = 'one_way' | 'round_trip';
+
 export interface DialogueState {
 	lastSuggestion?: {
 		origin?: string;
@@ -22,61 +37,295 @@ export interface DialogueState {
 		date?: string;
 		type: 'travel' | 'task' | 'planning';
 	};
+	pendingSlots?: {
+		workflow: 'travel';
+		slots: string[]; // Slots the last assistant question asked about
+	};
+	pendingToolCalls?: Array<{ toolName: string }>; // Writes the assistant asked the user to confirm
+}
+
+/**
+ * Entities by workflow: travel (origin, destination, departureDate, returnDate,
+ * tripType, passengers), planning (date), task (description, deadline). Dates are YYYY-MM-DD.
+ */
+export interface IntentEntities {
+	origin?: string | null;
+	destination?: string | null;
+	departureDate?: string;
+	returnDate?: string | null;
+	tripType?: TripType;
+	passengers?: number;
+	date?: string;
+	description?: string;
+	deadline?: string | null;
 }
 
 export interface IntentDetectionResult {
 	workflow: WorkflowType;
 	confidence: number; // 0-1
-	entities: Record<string, unknown>;
+	entities: IntentEntities;
 	reasoning?: string;
 	usedFallback?: boolean;
+	candidates?: Exclude<WorkflowType, null>[]; // Every intent the keyword pass matched
+	source?: 'keyword' | 'llm';
+	promptVersion?: string; // Set when the LLM stage classified the message
+	airportClarifications?: AirportClarification[]; // Travel slots naming several airports; ask before searching
+	inferredEntities?: Array<keyof IntentEntities>; // Guessed (earlier messages, misspelt airports); confirm before use
+	dialogueAct?: DialogueAct; // What the message does to the last suggestion or question
 }
 
+export interface AirportClarification {
+	slot: 'origin' | 'destination';
+	query: string; // As the user wrote it
+	options: Array<{ code: string; label: string }>; // Busiest first
+}
+
+export interface IntentDetectorOptions {
+	llm?: ILLMPort;
+	prompts?: PromptRegistry;
+	metrics?: MetricsCollector;
+	confidenceThreshold?: number;
+	airports?: AirportResolver;
+}
+
+export interface IntentClassifyContext extends DateParseContext {
+	principalId?: string;
+	correlationId: string;
+}
+
+export const DEFAULT_INTENT_CONFIDENCE_THRESHOLD = 0.75;
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9 };
+const PASSENGER_PATTERN =
+	/\b(\d+|one|two|three|four|five|six|seven|eight|nine)\s+(?:passengers?|people|persons|adults|travell?ers|tickets?|of us)\b/i;
+const SOLO_PATTERN = /\b(just me|only me|by myself|solo|alone)\b/i;
+const ONE_WAY_PATTERN = /\bone[- ]way\b/i;
+const ROUND_TRIP_PATTERN = /\b(round[- ]trip|return(?:ing)?|coming back|fly(?:ing)? back)\b/i;
+const MAX_BARE_ANSWER_WORDS = 4; // "Portland, Maine" answers a question; a sentence does not
+
+// Strong keywords name the intent outright; weak ones also appear in unrelated messages
+// ("book a meeting", "schedule a call", "I need to think")
+const STRONG_TRAVEL_KEYWORDS = ['flight', 'fly', 'trip', 'travel'];
+const WEAK_TRAVEL_KEYWORDS = ['visit', 'going to', 'book', 'somewhere', 'leave'];
+const STRONG_PLANNING_KEYWORDS = ['plan my day', 'agenda', 'what should i do'];
+const WEAK_PLANNING_KEYWORDS = ['schedule'];
+const STRONG_TASK_KEYWORDS = ['remind me', 'add task', 'todo', 'to-do'];
+const WEAK_TASK_KEYWORDS = ['need to', 'prep for'];
+
+const STRONG_CONFIDENCE = 0.85;
+const WEAK_CONFIDENCE = 0.5;
+
 export class IntentDetector {
+	private readonly logger = new Logger('intent-detector');
+	private readonly confidenceThreshold: number;
+	private readonly airports: AirportResolver;
+	private readonly acts = new DialogueActClassifier();
+
+	constructor(private readonly options: IntentDetectorOptions = {}) {
+		this.confidenceThreshold = options.confidenceThreshold ?? DEFAULT_INTENT_CONFIDENCE_THRESHOLD;
+		this.airports = options.airports ?? new AirportResolver();
+	}
+
+	/**
+	 * Two-stage detection: keyword pass, then LLM classification for ambiguous messages
+	 */
+	async classify(
+		message: string,
+		previousMessages: string[] = [],
+		dialogueState?: DialogueState,
+		context: IntentClassifyContext = { correlationId: '' },
+	): Promise<IntentDetectionResult> {
+		const keywordResult = this.detect(message, previousMessages, dialogueState, context);
+		const candidates = keywordResult.candidates ?? [];
+		const ambiguous = candidates.length > 1 || (candidates.length === 1 && keywordResult.confidence < this.confidenceThreshold);
+
+		if (!this.options.llm || !this.options.prompts || !ambiguous) {
+			return keywordResult;
+		}
+
+		try {
+			const prompt = this.options.prompts.select('intent_classification', context.principalId);
+			const result = await generateStructured(
+				this.options.llm,
+				{
+					messages: [
+						{ role: 'system', content: 'You are an intent classifier. Reply with JSON only.' },
+						{
+							role: 'user',
+							content: prompt.render({
+								message,
+								previousMessages,
+								candidates,
+								today: localDate(context),
+							}),
+						},
+					],
+					temperature: 0,
+					maxTokens: 200,
+					useCase: 'intent_classification',
+				},
+				intentClassificationOutputSpec,
+				context.correlationId,
+				this.options.metrics,
+			);
+
+			if (!result.value) {
+				return keywordResult;
+			}
+
+			const workflow = this.toWorkflowType(result.value.intent);
+			this.logger.info('LLM intent classification', {
+				correlationId: context.correlationId,
+				metadata: { keyword: keywordResult.workflow, candidates, llm: workflow, confidence: result.value.confidence },
+			});
+
+			const entities = workflow ? { ...this.keywordEntities(workflow, message, keywordResult, context), ...result.value.entities } : {};
+			const airports = workflow === 'travel' ? this.resolveAirports(entities) : { entities, clarifications: [], fuzzy: [] };
+
+			return {
+				workflow,
+				confidence: result.value.confidence,
+				entities: airports.entities,
+				reasoning: `LLM classification (keyword candidates: ${candidates.join(', ')})`,
+				usedFallback: keywordResult.usedFallback,
+				candidates,
+				source: 'llm',
+				promptVersion: prompt.versionId,
+				...(airports.clarifications.length > 0 ? { airportClarifications: airports.clarifications } : {}),
+				...(airports.fuzzy.length > 0 ? { inferredEntities: airports.fuzzy } : {}),
+				dialogueAct: keywordResult.dialogueAct,
+			};
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('LLM intent classification failed, using keyword result', {
+				correlationId: context.correlationId,
+				metadata: { error: err.message, workflow: keywordResult.workflow },
+			});
+			return keywordResult;
+		}
+	}
+
 	/**
 	 * Detect intent from user message using keyword matching
 	 * Optionally use previous message context for fallback entity extraction
-	 * 
+	 *
 	 * Uses dialogue state to preserve context across turns (e.g., "yes do that")
+	 * Relative dates resolve against dateContext (defaults: now, UTC)
 	 */
-	detect(message: string, previousMessages?: string[], dialogueState?: DialogueState): IntentDetectionResult {
+	detect(
+		message: string,
+		previousMessages?: string[],
+		dialogueState?: DialogueState,
+		dateContext: DateParseContext = {},
+	): IntentDetectionResult {
 		const lowerMessage = message.toLowerCase();
+		const pendingSlots = dialogueState?.pendingSlots;
+		const suggestion = dialogueState?.lastSuggestion;
+
+		// What the message does to the last suggestion or question. Airport changes without a
+		// correction word ("from Newark") count as modify; a fresh "find flights ..." does not.
+		const isNewRequest = this.keywordConfidence(lowerMessage, [...STRONG_TASK_KEYWORDS, ...STRONG_PLANNING_KEYWORDS], []) > 0;
+		const changes = isNewRequest ? null : this.extractSlotChanges(message, dialogueState, dateContext);
+		const mentionedSlots = Object.keys(changes?.entities ?? {});
+		const isFreshTravelRequest = this.keywordConfidence(lowerMessage, STRONG_TRAVEL_KEYWORDS, []) > 0;
+		const changedSlots = isFreshTravelRequest
+			? []
+			: (['origin', 'destination'] as const).filter(
+					(slot) => changes?.entities[slot] && suggestion?.[slot] && changes.entities[slot] !== suggestion[slot],
+				);
+		const dialogueAct = this.acts.classify(message, { mentionedSlots, changedSlots });
+
+		// A yes or no while writes wait on the user answers those writes (ChatSessionDO runs or drops them), not the last suggestion
+		if (dialogueState?.pendingToolCalls?.length && !isNewRequest && (dialogueAct.type === 'confirm' || dialogueAct.type === 'deny')) {
+			return {
+				workflow: null,
+				confidence: 0.9,
+				entities: {},
+				reasoning: dialogueAct.type === 'confirm' ? 'User confirmed the pending tool calls' : 'User declined the pending tool calls',
+				candidates: [],
+				source: 'keyword',
+				dialogueAct,
+			};
+		}
+
+		if ((pendingSlots || suggestion) && !isNewRequest && (dialogueAct.type === 'deny' || dialogueAct.type === 'cancel')) {
+			return {
+				workflow: null,
+				confidence: 0.9,
+				entities: {},
+				reasoning: dialogueAct.type === 'deny' ? 'User declined the previous suggestion' : 'User cancelled the current request',
+				candidates: [],
+				source: 'keyword',
+				dialogueAct,
+			};
+		}
 
-		// Check if this is a confirmation of previous suggestion
-		const confirmationKeywords = ['yes', 'yep', 'ok', 'sure', 'do that', 'go ahead', 'perfect', 'sounds good'];
-		const isConfirmation = confirmationKeywords.some((kw) => lowerMessage.includes(kw));
-		
-		if (isConfirmation && message.length < 50 && dialogueState?.lastSuggestion) {
+		// Answers to an open travel question ("From Boston", "yes, 2 of us") and changes to the last
+		// suggestion ("make it Friday instead") carry on that request with only the slots they name
+		const answersQuestion = Boolean(pendingSlots) && (mentionedSlots.length > 0 || dialogueAct.type === 'confirm');
+		const modifiesSuggestion = dialogueAct.type === 'modify' && mentionedSlots.length > 0;
+		if (changes && (answersQuestion || modifiesSuggestion)) {
+			return {
+				workflow: changes.workflow,
+				confidence: 0.9,
+				entities: changes.entities,
+				reasoning: answersQuestion ? `User answered the pending ${changes.workflow} question` : `User changed ${mentionedSlots.join(', ')}`,
+				usedFallback: false,
+				candidates: [changes.workflow],
+				source: 'keyword',
+				dialogueAct,
+				...(changes.inferred.length > 0 ? { inferredEntities: changes.inferred } : {}),
+				...(changes.clarifications.length > 0 ? { airportClarifications: changes.clarifications } : {}),
+			};
+		}
+
+		if (dialogueAct.type === 'confirm' && message.length < 50 && suggestion) {
 			// Use the stored suggestion from dialogue state (best practice for DST)
-			const suggestion = dialogueState.lastSuggestion;
 			return {
 				workflow: suggestion.type,
 				confidence: 0.95,
 				entities: {
 					origin: suggestion.origin,
 					destination: suggestion.destination,
-					departureDate: suggestion.date || new Date().toISOString().split('T')[0],
+					departureDate: suggestion.date,
 				},
 				reasoning: 'User confirmed previous suggestion via dialogue state',
 				usedFallback: false,
+				candidates: [suggestion.type],
+				source: 'keyword',
+				dialogueAct,
 			};
 		}
 
-		// Travel keywords (base detection)
-		const travelKeywords = ['flight', 'fly', 'trip', 'travel', 'visit', 'going to', 'book', 'somewhere', 'leave'];
-		const hasTravelKeyword = travelKeywords.some((keyword) => lowerMessage.includes(keyword));
-
 		// City-to-city patterns (e.g., "NYC to PHL")
 		const cityToCityPattern = /[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?\s+to\s+[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?/;
 		const hasCityToCity = cityToCityPattern.test(message);
 
-		if (hasTravelKeyword || hasCityToCity) {
-			let entities = this.extractTravelEntities(message);
+		// A capitalised "to X" without travel keywords is only a weak travel signal ("Send the deck to Maria")
+		const travelConfidence = hasCityToCity
+			? 0.9
+			: this.keywordConfidence(lowerMessage, STRONG_TRAVEL_KEYWORDS, WEAK_TRAVEL_KEYWORDS) ||
+				(this.extractDestination(message) ? WEAK_CONFIDENCE : 0);
+		const planningConfidence = this.keywordConfidence(lowerMessage, STRONG_PLANNING_KEYWORDS, WEAK_PLANNING_KEYWORDS, 0.9);
+		const taskConfidence = this.keywordConfidence(lowerMessage, STRONG_TASK_KEYWORDS, WEAK_TASK_KEYWORDS);
+
+		// Highest confidence wins; ties keep the original travel > planning > task priority
+		const scored: Array<{ workflow: Exclude<WorkflowType, null>; confidence: number }> = [
+			{ workflow: 'travel' as const, confidence: travelConfidence },
+			{ workflow: 'planning' as const, confidence: planningConfidence },
+			{ workflow: 'task' as const, confidence: taskConfidence },
+		].filter((s) => s.confidence > 0);
+		const candidates = scored.map((s) => s.workflow);
+		const best = scored.reduce<(typeof scored)[number] | null>((top, s) => (!top || s.confidence > top.confidence ? s : top), null);
+
+		if (best?.workflow === 'travel') {
+			let entities = this.extractTravelEntities(message, dateContext);
 			let usedFallback = false;
+			const inferred: Array<keyof IntentEntities> = [];
 
 			// If no destination found but travel intent is clear, try previous messages
 			if (!entities.destination && previousMessages && previousMessages.length > 0) {
-				const fallbackEntities = this.extractTravelEntitiesFromContext(previousMessages);
+				const fallbackEntities = this.extractTravelEntitiesFromContext(previousMessages, dateContext);
 				if (fallbackEntities.destination) {
 					entities = {
 						...entities,
@@ -84,41 +333,49 @@ export class IntentDetector {
 						origin: fallbackEntities.origin || entities.origin,
 					};
 					usedFallback = true;
+					inferred.push('destination');
+					if (fallbackEntities.origin) inferred.push('origin');
 				}
 			}
 
+			const airports = this.resolveAirports(entities);
+			inferred.push(...airports.fuzzy.filter((slot) => !inferred.includes(slot)));
+
 			return {
 				workflow: 'travel',
-				confidence: hasCityToCity ? 0.9 : 0.8,
-				entities,
+				confidence: best.confidence,
+				entities: airports.entities,
 				reasoning: hasCityToCity ? 'Detected city-to-city travel pattern' : 'Detected travel keywords',
 				usedFallback,
+				candidates,
+				source: 'keyword',
+				...(airports.clarifications.length > 0 ? { airportClarifications: airports.clarifications } : {}),
+				...(inferred.length > 0 ? { inferredEntities: inferred } : {}),
+				dialogueAct,
 			};
 		}
 
-		// Planning keywords
-		const planningKeywords = ['plan my day', 'schedule', 'agenda', 'what should i do'];
-		const hasPlanningKeyword = planningKeywords.some((keyword) => lowerMessage.includes(keyword));
-
-		if (hasPlanningKeyword) {
+		if (best?.workflow === 'planning') {
 			return {
 				workflow: 'planning',
-				confidence: 0.9,
-				entities: { date: this.extractDate(message) || new Date().toISOString().split('T')[0] },
+				confidence: best.confidence,
+				entities: this.extractPlanningEntities(message, dateContext),
 				reasoning: 'Detected planning keywords',
+				candidates,
+				source: 'keyword',
+				dialogueAct,
 			};
 		}
 
-		// Task keywords
-		const taskKeywords = ['remind me', 'add task', 'todo', 'need to', 'prep for'];
-		const hasTaskKeyword = taskKeywords.some((keyword) => lowerMessage.includes(keyword));
-
-		if (hasTaskKeyword) {
+		if (best?.workflow === 'task') {
 			return {
 				workflow: 'task',
-				confidence: 0.7,
-				entities: this.extractTaskEntities(message),
+				confidence: best.confidence,
+				entities: this.extractTaskEntities(message, dateContext),
 				reasoning: 'Detected task keywords',
+				candidates,
+				source: 'keyword',
+				dialogueAct,
 			};
 		}
 
@@ -128,27 +385,142 @@ export class IntentDetector {
 			confidence: 0,
 			entities: {},
 			reasoning: 'No workflow-triggering intent detected',
+			candidates: [],
+			source: 'keyword',
+			dialogueAct,
 		};
 	}
 
+	private keywordConfidence(lowerMessage: string, strong: string[], weak: string[], strongConfidence: number = STRONG_CONFIDENCE): number {
+		if (strong.some((keyword) => lowerMessage.includes(keyword))) return strongConfidence;
+		if (weak.some((keyword) => lowerMessage.includes(keyword))) return WEAK_CONFIDENCE;
+		return 0;
+	}
+
+	private toWorkflowType(intent: ClassifiedIntent): WorkflowType {
+		return intent === 'none' ? null : intent;
+	}
+
+	/**
+	 * Keyword-stage entities for the workflow the LLM picked (LLM entities override them)
+	 */
+	private keywordEntities(
+		workflow: Exclude<WorkflowType, null>,
+		message: string,
+		keywordResult: IntentDetectionResult,
+		dateContext: DateParseContext,
+	): IntentEntities {
+		if (keywordResult.workflow === workflow) return keywordResult.entities;
+		if (workflow === 'travel') return this.extractTravelEntities(message, dateContext);
+		if (workflow === 'planning') return this.extractPlanningEntities(message, dateContext);
+		return this.extractTaskEntities(message, dateContext);
+	}
+
+	/**
+	 * Extract planning entities (date, defaulting to today)
+	 */
+	private extractPlanningEntities(message: string, dateContext: DateParseContext): IntentEntities {
+		return { date: this.extractDate(message, dateContext) || localDate(dateContext) };
+	}
+
 	/**
-	 * Extract travel entities (origin, destination, dates)
+	 * Extract travel entities (origin, destination, dates, trip type, passengers)
 	 * Falls back to previous message context if not found
 	 */
-	private extractTravelEntities(message: string): Record<string, unknown> {
+	private extractTravelEntities(message: string, dateContext: DateParseContext): IntentEntities {
 		return {
-			origin: this.extractOrigin(message) || 'JFK', // Default to JFK for now if not found
+			origin: this.extractOrigin(message),
 			destination: this.extractDestination(message) || this.extractRelativeDestination(message),
-			departureDate: this.extractDate(message) || new Date().toISOString().split('T')[0],
-			returnDate: null,
+			...this.extractTravelDates(message, dateContext),
+			...this.extractTripDetails(message),
 		};
 	}
 
+	/**
+	 * Slot values a follow-up states for the pending travel question or the last travel or
+	 * planning suggestion. Null when there is nothing to follow up on.
+	 */
+	private extractSlotChanges(
+		message: string,
+		dialogueState: DialogueState | undefined,
+		dateContext: DateParseContext,
+	): {
+		workflow: 'travel' | 'planning';
+		entities: IntentEntities;
+		inferred: Array<keyof IntentEntities>;
+		clarifications: AirportClarification[];
+	} | null {
+		if (dialogueState?.pendingSlots?.workflow === 'travel' || dialogueState?.lastSuggestion?.type === 'travel') {
+			return { workflow: 'travel', ...this.extractTravelAnswer(message, dialogueState.pendingSlots?.slots ?? [], dateContext) };
+		}
+
+		if (dialogueState?.lastSuggestion?.type === 'planning') {
+			const date = this.extractDate(message, dateContext);
+			return { workflow: 'planning', entities: date ? { date } : {}, inferred: [], clarifications: [] };
+		}
+
+		return null;
+	}
+
+	/**
+	 * Entities answering a pending travel question. Only what the message states is
+	 * returned; a bare place name fills the one airport slot that was asked about, and
+	 * a lone date fills the return when only the return was asked about.
+	 */
+	private extractTravelAnswer(
+		message: string,
+		pendingSlots: string[],
+		dateContext: DateParseContext,
+	): { entities: IntentEntities; inferred: Array<keyof IntentEntities>; clarifications: AirportClarification[] } {
+		const extracted = this.extractTravelEntities(message, dateContext);
+		const entities: IntentEntities = {};
+		for (const [key, value] of Object.entries(extracted) as Array<[keyof IntentEntities, unknown]>) {
+			if (value !== null && value !== undefined) (entities as Record<string, unknown>)[key] = value;
+		}
+
+		const airportSlots = (['origin', 'destination'] as const).filter((slot) => pendingSlots.includes(slot));
+		const bare = message.replace(/[.!?]+$/, '').trim();
+		if (!entities.origin && !entities.destination && airportSlots.length === 1 && bare.split(/\s+/).length <= MAX_BARE_ANSWER_WORDS) {
+			if (this.acts.classify(bare).type === 'inform' && this.airports.resolve(bare).status !== 'unknown') {
+				entities[airportSlots[0]] = bare;
+			}
+		}
+
+		const onlyReturnAsked = pendingSlots.includes('returnDate') && !pendingSlots.includes('departureDate');
+		if (onlyReturnAsked && entities.departureDate && !entities.returnDate) {
+			entities.returnDate = entities.departureDate;
+			delete entities.departureDate;
+		}
+
+		const airports = this.resolveAirports(entities);
+		return { entities: airports.entities, inferred: airports.fuzzy, clarifications: airports.clarifications };
+	}
+
+	/**
+	 * Trip type ("one-way", "round trip", "coming back") and passenger count ("3 of us", "just me")
+	 */
+	private extractTripDetails(message: string): Pick<IntentEntities, 'tripType' | 'passengers'> {
+		const details: Pick<IntentEntities, 'tripType' | 'passengers'> = {};
+
+		if (ONE_WAY_PATTERN.test(message)) details.tripType = 'one_way';
+		else if (ROUND_TRIP_PATTERN.test(message)) details.tripType = 'round_trip';
+
+		const passengers = message.match(PASSENGER_PATTERN);
+		if (passengers) {
+			const count = NUMBER_WORDS[passengers[1].toLowerCase()] ?? parseInt(passengers[1], 10);
+			if (count > 0) details.passengers = count;
+		} else if (SOLO_PATTERN.test(message)) {
+			details.passengers = 1;
+		}
+
+		return details;
+	}
+
 	/**
 	 * Extract travel entities from conversation history (previous messages)
 	 * Used as fallback when current message lacks destination/origin
 	 */
-	private extractTravelEntitiesFromContext(previousMessages: string[]): Record<string, unknown> {
+	private extractTravelEntitiesFromContext(previousMessages: string[], dateContext: DateParseContext): IntentEntities {
 		// Search backwards through previous messages to find explicit travel intent
 		for (const msg of previousMessages) {
 			const destination = this.extractDestination(msg) || this.extractRelativeDestination(msg);
@@ -156,27 +528,61 @@ export class IntentDetector {
 
 			if (destination) {
 				return {
-					origin: origin || 'JFK',
+					origin,
 					destination,
-					departureDate: this.extractDate(msg) || new Date().toISOString().split('T')[0],
+					...this.extractTravelDates(msg, dateContext),
 				};
 			}
 		}
 
 		return {
 			destination: null,
-			origin: 'JFK',
-			departureDate: new Date().toISOString().split('T')[0],
+			origin: null,
 		};
 	}
 
+	/**
+	 * Replace origin/destination names with IATA codes. Names matching several airports
+	 * (metro areas, "Portland") stay as written and come back as clarifications;
+	 * unknown names are left for the flight tool to reject. Slots resolved from a
+	 * misspelling are listed in fuzzy so the user can confirm them.
+	 */
+	private resolveAirports(entities: IntentEntities): {
+		entities: IntentEntities;
+		clarifications: AirportClarification[];
+		fuzzy: Array<'origin' | 'destination'>;
+	} {
+		const resolved = { ...entities };
+		const clarifications: AirportClarification[] = [];
+		const fuzzy: Array<'origin' | 'destination'> = [];
+
+		for (const slot of ['origin', 'destination'] as const) {
+			const query = entities[slot];
+			if (!query) continue;
+
+			const resolution = this.airports.resolve(query);
+			if (resolution.status === 'resolved') {
+				resolved[slot] = resolution.candidates[0].code.toString();
+				if (resolution.matchedBy === 'fuzzy') fuzzy.push(slot);
+			} else if (resolution.status === 'ambiguous') {
+				clarifications.push({
+					slot,
+					query,
+					options: resolution.candidates.map((candidate) => ({ code: candidate.code.toString(), label: describeAirport(candidate) })),
+				});
+			}
+		}
+
+		return { entities: resolved, clarifications, fuzzy };
+	}
+
 	/**
 	 * Extract task entities (description, deadline)
 	 */
-	private extractTaskEntities(message: string): Record<string, unknown> {
+	private extractTaskEntities(message: string, dateContext: DateParseContext): IntentEntities {
 		return {
 			description: message,
-			deadline: this.extractDate(message),
+			deadline: this.extractDate(message, dateContext),
 		};
 	}
 
@@ -226,10 +632,10 @@ export class IntentDetector {
 	 * Extract origin from message (simple regex)
 	 */
 	private extractOrigin(message: string): string | null {
-		// Match "from [City]" or "from [AIRPORT]"
+		// Match "from [City]" or "from [AIRPORT]" (capitalised when it opens an answer: "From Boston")
 		const patterns = [
-			/from ([A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?)/,
-			/from ([A-Z]{3})/, // Airport code
+			/[Ff]rom ([A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?)/,
+			/[Ff]rom ([A-Z]{3})/, // Airport code
 		];
 
 		for (const pattern of patterns) {
@@ -248,52 +654,23 @@ export class IntentDetector {
 	}
 
 	/**
-	 * Extract date from message (simple patterns)
+	 * Departure and return dates: a span ("May 15–20", "this weekend") fills both,
+	 * otherwise a second later date in the message is the return. No date is left
+	 * unset for the slot filler to ask about.
 	 */
-	private extractDate(message: string): string | null {
-		const lowerMessage = message.toLowerCase();
-
-		// Match YYYY-MM-DD
-		const isoMatch = message.match(/\d{4}-\d{2}-\d{2}/);
-		if (isoMatch) return isoMatch[0];
-
-		// Match "next week" (approximate - 7 days from now)
-		if (lowerMessage.includes('next week')) {
-			const d = new Date();
-			d.setDate(d.getDate() + 7);
-			return d.toISOString().split('T')[0];
-		}
-
-		// Match "leave next week" or similar
-		if (lowerMessage.includes('leave') && lowerMessage.includes('week')) {
-			const d = new Date();
-			d.setDate(d.getDate() + 7);
-			return d.toISOString().split('T')[0];
-		}
-
-		// Match "tomorrow"
-		if (lowerMessage.includes('tomorrow')) {
-			const d = new Date();
-			d.setDate(d.getDate() + 1);
-			return d.toISOString().split('T')[0];
-		}
-
-		// Match relative dates like "next [day]"
-		const nextDayMatch = lowerMessage.match(/next\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i);
-		if (nextDayMatch) {
-			const dayName = nextDayMatch[1];
-			const d = new Date();
-			const dayIndex = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'].indexOf(dayName.toLowerCase());
-			const currentDay = d.getDay();
-			const daysAhead = dayIndex - currentDay;
-			if (daysAhead <= 0) {
-				d.setDate(d.getDate() + daysAhead + 7);
-			} else {
-				d.setDate(d.getDate() + daysAhead);
-			}
-			return d.toISOString().split('T')[0];
+	private extractTravelDates(message: string, dateContext: DateParseContext): Pick<IntentEntities, 'departureDate' | 'returnDate'> {
+		const [first, second] = findDateExpressions(message, dateContext);
+		if (!first) return { returnDate: null };
+		if (first.kind === 'span' && first.endDate !== first.startDate) {
+			return { departureDate: first.startDate, returnDate: first.endDate };
 		}
+		return { departureDate: first.startDate, returnDate: second && second.startDate > first.startDate ? second.startDate : null };
+	}
 
-		return null;
+	/**
+	 * Extract date from message (first date expression, in the user's timezone)
+	 */
+	private extractDate(message: string, dateContext: DateParseContext): string | null {
+		return parseDateExpression(message, dateContext)?.startDate ?? null;
 	}
 }
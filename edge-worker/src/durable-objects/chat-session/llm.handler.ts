@@ -1,15 +1,19 @@
-import { WorkerEnv, getModelId, SseEvent, encodeSseEvent, SYSTEM_PROMPT } from '../../env';
-import { ToolRegistry, ToolExecutor } from '../../tools';
+import { WorkerEnv, SseEvent, encodeSseEvent, SYSTEM_PROMPT } from '../../env';
+import { ILLMPort, LLMMessage, LLMStreamChunk, ToolCall, ToolDefinition } from '../../domain/chat/ports/llm.port';
+import { ToolRegistry, ToolExecutor, ToolArgumentError } from '../../tools';
+import { ToolCatalogEntry, toLLMToolSchema, validateToolArguments } from '../../tools/catalog';
+import { ToolCallParser, ParsedToolCall } from '../../tool-parser';
 import { StorageManager } from './storage.manager';
 import { createErrorResponse } from '../../http';
 import { Logger } from '../../observability/logger';
-import { buildChatSystemPrompt } from '../../prompts/chat-response.prompt';
-
-interface ToolDefinition {
-	name: string;
-	description: string;
-	inputSchema: Record<string, unknown>;
-}
+import { PromptRegistry, SelectedPrompt } from '../../prompts/prompt-registry';
+import { AgentLoopGuard, AgentLoopStopReason, estimateTokens } from './agent-loop';
+import { ToolScheduler, loadToolExecutionLimits } from './tool-scheduler';
+import { ToolRouter, ToolRoutingContext } from './tool-router';
+import { ChatTurnOptions, PendingToolCall } from './types';
+import { IProceduralMemoryRepository } from '../../domain/memory/ports/IProceduralMemoryRepository';
+import { FlightRuleEngine } from '../../domain/travel/services/flight-rule-engine.service';
+import { FlightOption as SearchResultFlight, searchResultFacts } from '../../tools/flights-handler';
 
 interface LLMToolCall {
 	name: string;
@@ -19,86 +23,59 @@ interface LLMToolCall {
 
 export class LLMHandler {
 	private toolRegistry: ToolRegistry;
+	private toolScheduler: ToolScheduler;
+	private toolRouter: ToolRouter;
+	private flightRules: FlightRuleEngine = new FlightRuleEngine();
 	private logger: Logger = new Logger('llm-handler');
 
-	// Tool definitions for the LLM
-	private readonly AVAILABLE_TOOLS: ToolDefinition[] = [
-		{
-			name: 'search_flights',
-			description: 'Search for flight options between two cities on a specific date',
-			inputSchema: {
-				type: 'object',
-				properties: {
-					origin: { type: 'string', description: 'IATA airport code or city name (e.g., PHL, LAX)' },
-					destination: { type: 'string', description: 'IATA airport code or city name' },
-					departureDate: { type: 'string', description: 'Date in YYYY-MM-DD format' },
-					passengers: { type: 'number', description: 'Number of passengers', default: 1 },
-				},
-				required: ['origin', 'destination', 'departureDate'],
-			},
-		},
-		{
-			name: 'list_events',
-			description: 'List calendar events for a date range to check availability and conflicts',
-			inputSchema: {
-				type: 'object',
-				properties: {
-					startDate: { type: 'string', description: 'Start date in YYYY-MM-DD format' },
-					endDate: { type: 'string', description: 'End date in YYYY-MM-DD format' },
-				},
-				required: ['startDate', 'endDate'],
-			},
-		},
-	];
-
 	constructor(
 		private readonly env: WorkerEnv,
 		private readonly storage: StorageManager,
+		private readonly llm: ILLMPort,
+		private readonly prompts: PromptRegistry,
+		private readonly proceduralMemory?: IProceduralMemoryRepository,
 	) {
 		this.toolRegistry = new ToolRegistry();
-	}
-
-	private mapToolNameToId(toolName: string): string | undefined {
-		const mappings: Record<string, string> = {
-			search_flights: 'flights-mcp::search-flights',
-			list_events: 'google-calendar-mcp::list-events',
-		};
-		return mappings[toolName];
+		this.toolScheduler = new ToolScheduler(loadToolExecutionLimits(env));
+		this.toolRouter = new ToolRouter();
 	}
 
 	/**
-	 * Select tools based on keywords in user message
-	 * Industry best practice: Selective tool exposure prevents spurious tool calls
-	 * Only pass tools relevant to the user's query
+	 * Select tools for the turn via ToolRouter (keywords, intent, active workflow, recent tool use)
+	 * Selective tool exposure prevents spurious tool calls
 	 */
-	private selectToolsForMessage(userContent: string | undefined): any[] {
-		if (!userContent) return [];
+	private selectToolsForMessage(
+		userContent: string | undefined,
+		routingContext: ToolRoutingContext | undefined,
+		logMetadata: Record<string, unknown>,
+	): ToolDefinition[] {
+		const routing = this.toolRouter.route(userContent, routingContext);
+		this.toolRouter.logDecisions(routing, {
+			...logMetadata,
+			contentPreview: userContent ? userContent.substring(0, 50) : 'empty',
+		});
 
-		const content = userContent.toLowerCase();
-		const tools: any[] = [];
+		return routing.toolNames.map((toolName) => this.llmToolDefinition(toolName));
+	}
 
-		// Check for flight-related keywords
-		const flightKeywords = /\b(flights?|fly|flying|travel|trips?|airports?|airlines?|book|booking|departs?|arrives?|destinations?)\b/i;
-		if (flightKeywords.test(content)) {
-			tools.push(this.AVAILABLE_TOOLS[0]); // search_flights
+	private llmToolDefinition(toolName: string): ToolDefinition {
+		const tool = this.toolRegistry.getToolByName(toolName);
+		if (!tool) {
+			throw new Error(`Tool not in catalog: ${toolName}`);
 		}
+		return { type: 'function', function: toLLMToolSchema(tool) };
+	}
 
-		// Check for calendar-related keywords
-		const calendarKeywords = /\b(calendar|schedules?|meetings?|events?|appointments?|busy|free|availability|conflicts?)\b/i;
-		if (calendarKeywords.test(content)) {
-			tools.push(this.AVAILABLE_TOOLS[1]); // list_events
-		}
+	private createToolCallParser(): ToolCallParser {
+		return new ToolCallParser({ knownToolNames: this.toolRegistry.listTools().map((tool) => tool.name) });
+	}
 
-		this.logger.info('Selected tools for message', {
-			metadata: {
-				contentPreview: content.substring(0, 50),
-				flightMatch: flightKeywords.test(content),
-				calendarMatch: calendarKeywords.test(content),
-				selectedTools: tools.map(t => t.name),
-			},
-		});
+	private toLLMToolCalls(parsed: ParsedToolCall[]): LLMToolCall[] {
+		return parsed.map((call) => ({ name: call.name, id: crypto.randomUUID(), arguments: call.args }));
+	}
 
-		return tools;
+	private toolLabel(toolName: string): string {
+		return this.toolRegistry.getToolByName(toolName)?.label ?? toolName;
 	}
 
 	async processChat(
@@ -109,6 +86,7 @@ export class LLMHandler {
 		correlationId: string,
 		structuredContext: any | null,
 		shouldStream: boolean,
+		turn: ChatTurnOptions = {},
 	): Promise<Response> {
 		this.logger.info('Processing chat request', {
 			metadata: {
@@ -123,18 +101,20 @@ export class LLMHandler {
 			(m) => m.content && typeof m.content === 'string' && m.content.includes('[STRUCTURED FLIGHT DATA]'),
 		);
 
-		// Select tools based on user message keywords (industry best practice)
-		const selectedTools = this.selectToolsForMessage(userContent);
+		// Route tools using keywords, detected intent, active workflow and recent tool use
+		const selectedTools = this.selectToolsForMessage(userContent, turn.routing, { conversationId, correlationId });
 
-		// Build dynamic system prompt based on context
-		const systemPrompt = buildChatSystemPrompt({
+		// Build dynamic system prompt based on context, using the prompt version selected for this principal
+		const chatPrompt = this.prompts.select('chat_system', principalId);
+		const systemPrompt = chatPrompt.render({
 			hasFlightData,
-			toolsAvailable: selectedTools.length > 0
+			toolsAvailable: selectedTools.length > 0,
 		});
 
 		// Debug: log the system prompt to verify it includes today's date
 		this.logger.debug('Built system prompt', {
 			metadata: {
+				promptVersion: chatPrompt.versionId,
 				promptLength: systemPrompt.length,
 				promptPreview: systemPrompt.substring(0, 300),
 				correlationId,
@@ -142,9 +122,9 @@ export class LLMHandler {
 			},
 		});
 
-		const llamaMessages = [
+		const llamaMessages: LLMMessage[] = [
 			{ role: 'system', content: systemPrompt },
-			...messages.map((m) => ({
+			...messages.map((m): LLMMessage => ({
 				role: m.role === 'assistant' || m.role === 'system' ? m.role : 'user',
 				content: typeof m.content === 'string' ? m.content : String(m.content ?? ''),
 			})),
@@ -172,6 +152,8 @@ export class LLMHandler {
 				correlationId,
 				structuredContext,
 				selectedTools,
+				chatPrompt,
+				turn,
 			);
 		} else {
 			return this.standardResponse(
@@ -182,366 +164,256 @@ export class LLMHandler {
 				correlationId,
 				structuredContext,
 				selectedTools,
+				chatPrompt,
+				turn,
 			);
 		}
 	}
 
 	private async standardResponse(
-		messages: any[],
+		messages: LLMMessage[],
 		userContent: string | undefined,
 		conversationId: string,
 		principalId: string,
 		correlationId: string,
 		structuredContext: any | null,
-		selectedTools: any[],
+		selectedTools: ToolDefinition[],
+		chatPrompt: SelectedPrompt<'chat_system'>,
+		turn: ChatTurnOptions,
 	): Promise<Response> {
+		const messageId = turn.messageId ?? crypto.randomUUID();
+		const headers = { 'Content-Type': 'application/json', 'X-Correlation-ID': correlationId, 'X-Message-ID': messageId };
+		// A cancelled non-streaming turn has shown the user nothing, so nothing of it is stored
+		const cancelledResponse = () =>
+			new Response(JSON.stringify({ message: '', message_id: messageId, cancelled: true }), { status: 200, headers });
+
 		try {
-			// First call: get response with tool definitions available
-			const aiResult = await this.env.AI.run(getModelId(this.env), {
-				messages,
-				max_tokens: 512,
-				temperature: 0.4,
-				...(selectedTools.length > 0 ? { tools: selectedTools } : {}),
-			} as Record<string, unknown>);
-
-			let responseText = (aiResult as { response?: string } | undefined)?.response ?? String(aiResult);
+			const guard = new AgentLoopGuard();
 			let conversationMessages = [...messages];
+			let usedTools = false;
+			let responseText = '';
+
+			// Agent loop: keep calling the model while it asks for tools and the guard allows it
+			while (true) {
+				if (turn.signal?.aborted) {
+					this.logger.info('Chat turn cancelled', { metadata: { messageId, iteration: guard.snapshot().iterations, correlationId } });
+					break;
+				}
 
-			// Check if the response contains tool calls
-			let toolCalls = this.parseToolCalls(aiResult);
+				const stopReason = guard.stopReason();
+				const offerTools = stopReason === null && selectedTools.length > 0;
+				const iteration = guard.startIteration();
+				const callMessages = usedTools ? this.withToolResultsPrompt(conversationMessages, offerTools, chatPrompt) : conversationMessages;
+
+				const completion = await this.llm.generateCompletion(
+					{
+						messages: callMessages,
+						maxTokens: 512,
+						temperature: 0.4,
+						tools: offerTools ? selectedTools : undefined,
+						useCase: 'chat',
+						signal: turn.signal,
+					},
+					correlationId,
+				);
+
+				responseText = completion.content;
+				guard.recordUsage(completion.tokenCount || estimateTokens(JSON.stringify(callMessages) + responseText));
+
+				let toolCalls: LLMToolCall[] = [];
+				if (stopReason === null) {
+					toolCalls = this.parseToolCalls(completion.tool_calls);
+
+					// Fallback: tool calls written into the response text (python_tag, JSON, <tool_call>)
+					if (toolCalls.length === 0) {
+						const parser = this.createToolCallParser();
+						const first = parser.processChunk(responseText);
+						const rest = parser.flush();
+						toolCalls = this.toLLMToolCalls([...first.tools, ...rest.tools]);
+						responseText = first.text + rest.text;
+					}
+				}
 
-			// Fallback: if no structured tool calls but response looks like JSON tool call, parse it
-			if (toolCalls.length === 0) {
-				const textToolCall = this.tryParseToolCallFromText(responseText);
-				if (textToolCall) {
-					toolCalls = [textToolCall];
-					responseText = ''; // Don't surface raw JSON to user
+				if (toolCalls.length === 0) {
+					this.logAgentLoopEnd(guard, stopReason, correlationId);
+					break;
 				}
-			}
 
-			if (toolCalls.length > 0) {
-				// Add assistant response with tool calls
-				conversationMessages.push({
-					role: 'assistant',
-					content: responseText,
-					// Don't include tool_calls array - just use the text representation
+				this.logger.info('Agent loop requested tools', {
+					metadata: { iteration, tools: toolCalls.map((t) => t.name), correlationId },
 				});
 
-				// Execute each tool call and collect results
-				const toolResults = [];
-				for (const toolCall of toolCalls) {
-					const result = await this.executeToolCall(toolCall, principalId, correlationId);
-					toolResults.push({
-						tool_call_id: toolCall.id,
-						role: 'tool',
-						content: JSON.stringify(result),
-					});
-				}
-
-				// Add tool results to conversation
+				conversationMessages.push(this.toolCallMessage(responseText, toolCalls));
+				const toolResults = await this.runToolCalls(toolCalls, guard, principalId, correlationId, () => {}, turn);
 				conversationMessages = conversationMessages.concat(toolResults);
+				usedTools = true;
+			}
 
-				// Second call: get final response based on tool results
-				// Rebuild system prompt with fresh context (same today's date)
-				const updatedSystemPrompt = buildChatSystemPrompt({ hasFlightData: true });
-				const messagesForSecondCall = [
-					{ role: 'system', content: updatedSystemPrompt },
-					...conversationMessages.filter((m: any) => m.role !== 'system'),
-				];
-
-				const finalResult = await this.env.AI.run(getModelId(this.env), {
-					messages: messagesForSecondCall,
-					max_tokens: 512,
-					temperature: 0.4,
-				} as Record<string, unknown>);
-
-				responseText = (finalResult as { response?: string } | undefined)?.response ?? String(finalResult);
+			if (turn.signal?.aborted) {
+				return cancelledResponse();
 			}
 
 			await this.storage.logTurn({
 				principalId,
 				conversationId,
 				correlationId,
-				userMessage: userContent,
+				userMessage: turn.replaceEventId ? undefined : userContent,
 				assistantMessage: responseText,
+				options: {
+					messageId,
+					status: 'complete',
+					replaceEventId: turn.replaceEventId,
+					promptVersion: chatPrompt.versionId,
+					dialogueAct: turn.dialogueAct,
+				},
 			});
 
-			return new Response(JSON.stringify({ message: responseText }), {
-				status: 200,
-				headers: { 'Content-Type': 'application/json', 'X-Correlation-ID': correlationId },
-			});
+			return new Response(JSON.stringify({ message: responseText, message_id: messageId }), { status: 200, headers });
 		} catch (error) {
+			// Cancelling aborts the in-flight model call, which rejects here
+			if (turn.signal?.aborted) {
+				return cancelledResponse();
+			}
+
 			const message = 'Chat request failed: ' + (error instanceof Error ? error.message : String(error));
 			return createErrorResponse('LLM_ERROR', message, 500, correlationId);
+		} finally {
+			turn.onFinished?.(turn.signal?.aborted ? 'cancelled' : 'complete');
 		}
 	}
 
 	private async streamResponse(
-		messages: any[],
+		messages: LLMMessage[],
 		userContent: string | undefined,
 		conversationId: string,
 		principalId: string,
 		correlationId: string,
 		structuredContext: any | null,
-		selectedTools: any[],
+		selectedTools: ToolDefinition[],
+		chatPrompt: SelectedPrompt<'chat_system'>,
+		turn: ChatTurnOptions,
 	): Promise<Response> {
 		try {
 			const encoder = new TextEncoder();
-			const messageId = crypto.randomUUID();
+			const messageId = turn.messageId ?? crypto.randomUUID();
 			const self = this;
 
+			// Aborted by an explicit cancel (turn.signal) or by the client disconnecting (stream cancel)
+			const abortController = new AbortController();
+			const signal = abortController.signal;
+			if (turn.signal?.aborted) {
+				abortController.abort();
+			} else {
+				turn.signal?.addEventListener('abort', () => abortController.abort(), { once: true });
+			}
+
 			const sseStream = new ReadableStream<Uint8Array>({
 				async start(controller) {
+					let closed = false;
 					const send = (event: SseEvent) => {
-						controller.enqueue(encodeSseEvent(encoder, event));
+						if (closed) return;
+						try {
+							controller.enqueue(encodeSseEvent(encoder, event));
+						} catch {
+							closed = true; // Client went away; keep going only as far as persisting the turn
+						}
 					};
 
+					let transcript = '';
+					let streamedText = ''; // Every token sent this turn, including text before tool calls
 					try {
-						// Extract system prompt from messages for reuse in second call
-						const systemPromptMsg = messages.find((m: any) => m.role === 'system');
-
 						// Send thinking indicator immediately
 						self.logger.debug('Sending thinking event');
 						send({ type: 'thinking', message: 'Processing your request...' });
 
-						// First request with selective tool availability
-						self.logger.debug('Starting AI stream request', {
-							metadata: {
-								principalId,
-								conversationId,
-								correlationId,
-								toolCount: selectedTools.length,
-								tools: selectedTools.map(t => t.name),
-							},
-						});
-
-						const aiResult = await self.env.AI.run(getModelId(self.env), {
-							messages,
-							max_tokens: 512,
-							temperature: 0.4,
-							...(selectedTools.length > 0 ? { tools: selectedTools } : {}), // Only pass tools if relevant
-							stream: true,
-						} as Record<string, unknown>);
+						const guard = new AgentLoopGuard();
+						let conversationMessages = [...messages];
+						let usedTools = false;
+
+						// Agent loop: each iteration is one model call; tool calls feed the next iteration.
+						// Every tool in the chain emits tool_start/tool_result so the frontend timeline shows it.
+						while (!signal.aborted) {
+							const stopReason = guard.stopReason();
+							const offerTools = stopReason === null && selectedTools.length > 0;
+							const iteration = guard.startIteration();
+							const callMessages = usedTools
+								? self.withToolResultsPrompt(conversationMessages, offerTools, chatPrompt)
+								: conversationMessages;
+
+							self.logger.debug('Starting AI stream request', {
+								metadata: {
+									principalId,
+									conversationId,
+									correlationId,
+									iteration,
+									toolCount: offerTools ? selectedTools.length : 0,
+									tools: offerTools ? selectedTools.map((t) => t.function.name) : [],
+								},
+							});
 
-						self.logger.debug('AI stream request returned', {
-							metadata: { principalId, conversationId, correlationId, resultType: typeof aiResult },
-						});
+							const chunks = self.llm.streamCompletion({
+								messages: callMessages,
+								maxTokens: 512,
+								temperature: 0.4,
+								tools: offerTools ? selectedTools : undefined, // Only pass tools if relevant
+								useCase: 'chat',
+								signal,
+							});
 
-						const aiStream = aiResult as ReadableStream<Uint8Array>;
-						const decoder = new TextDecoder();
-						const reader = aiStream.getReader();
-						let buffer = '';
-						let transcript = '';
-						let lastResponse = '';
-						let toolCalls: LLMToolCall[] = [];
-
-						// Token buffering to prevent raw JSON/Python output
-						let tokenBuffer = '';
-						const BUFFER_CHECK_LENGTH = 10; // Check for tool calls after this many chars
-
-						self.logger.debug('Starting to read from AI stream');
-
-						// Stream the response
-						while (true) {
-							const { value, done } = await reader.read();
-							if (done) {
-								self.logger.debug('AI stream reading complete');
+							// Once the loop must finish, stream the answer straight through
+							const step = await self.readModelStream(
+								chunks,
+								send,
+								stopReason === null,
+								{ principalId, conversationId, correlationId },
+								signal,
+							);
+							guard.recordUsage(step.usageTokens ?? estimateTokens(JSON.stringify(callMessages) + step.transcript));
+							streamedText += step.streamedText;
+
+							if (step.toolCalls.length === 0 || signal.aborted) {
+								transcript = step.transcript;
+								if (!signal.aborted) self.logAgentLoopEnd(guard, stopReason, correlationId);
 								break;
 							}
-							if (!value) continue;
-							self.logger.debug('Received chunk from AI stream', { metadata: { byteLength: value.byteLength } });
-							buffer += decoder.decode(value, { stream: true });
-
-							let separatorIndex: number;
-							while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
-								const rawEvent = buffer.slice(0, separatorIndex).trim();
-								buffer = buffer.slice(separatorIndex + 2);
-
-								if (rawEvent.startsWith('data: ')) {
-									const json = rawEvent.slice(6);
-									if (json === '[DONE]') continue;
-
-									try {
-										const obj = JSON.parse(json) as any;
-										const full = typeof obj.response === 'string' ? obj.response : '';
-										if (!full) continue;
-
-										let delta = '';
-										if (lastResponse && full.startsWith(lastResponse)) {
-											delta = full.slice(lastResponse.length);
-										} else {
-											delta = full;
-										}
-
-										lastResponse = full;
-
-										if (delta) {
-											transcript += delta;
-											tokenBuffer += delta;
-
-											// Check for tool calls in the response
-											if (obj.tool_calls) {
-												toolCalls = obj.tool_calls;
-												// Don't send buffered tokens if we detected a tool call
-												tokenBuffer = '';
-											} else {
-												// If buffer is long enough and no tool call detected, check and send
-												if (tokenBuffer.length >= BUFFER_CHECK_LENGTH) {
-													const isLikelyToolCall = self.looksLikeToolCallStart(tokenBuffer);
-													if (!isLikelyToolCall) {
-														send({ type: 'token', token: tokenBuffer });
-														tokenBuffer = '';
-													}
-												}
-											}
-										}
-									} catch (e) {
-										self.logger.debug('Error parsing AI stream event', {
-											metadata: { principalId, conversationId, correlationId, error: String(e) },
-										});
-									}
-								}
-							}
-						}
-
-						// After stream completes, check for tool calls using both parsers
-						if (toolCalls.length === 0) {
-							// 1. Try Python-style first (Llama 3.3's natural format)
-							let textToolCall = self.tryParsePythonToolCall(transcript);
 
-							// 2. Fall back to JSON if Python parsing fails
-							if (!textToolCall) {
-								textToolCall = self.tryParseToolCallFromText(transcript);
-							}
-
-							if (textToolCall) {
-								toolCalls = [textToolCall];
-								transcript = ''; // Don't surface raw code/JSON to user
-								tokenBuffer = ''; // Clear buffer
-							} else {
-								// Not a tool call, send any remaining buffered content
-								if (tokenBuffer) {
-									send({ type: 'token', token: tokenBuffer });
-									tokenBuffer = '';
-								}
-							}
-						}
-
-						// Handle tool calls if present
-						if (toolCalls.length > 0) {
-							send({ type: 'thinking', message: 'Executing tools to gather real-time data...' });
-
-							// Build conversation with tool results
-							let conversationMessages = [...messages];
-							conversationMessages.push({
-								role: 'assistant',
-								content: transcript,
-								// Don't include tool_calls array - just use the text representation
-								// Workers AI will understand the context from the tool results we add below
+							send({
+								type: 'thinking',
+								message: usedTools ? 'Gathering more information...' : 'Executing tools to gather real-time data...',
 							});
 
-							// Execute tools and collect results
-							const toolResults = [];
-							for (const toolCall of toolCalls) {
-								send({ type: 'tool_start', toolName: toolCall.name });
-								const result = await self.executeToolCall(toolCall, principalId, correlationId);
-
-								if ((result as Record<string, unknown>).error) {
-									send({
-										type: 'tool_error',
-										toolName: toolCall.name,
-										error: (result as Record<string, unknown>).error as string,
-									});
-								} else {
-									send({
-										type: 'tool_result',
-										result: { toolName: toolCall.name, status: 'success', data: result },
-									});
-								}
-
-								toolResults.push({
-									tool_call_id: toolCall.id,
-									role: 'tool',
-									content: JSON.stringify(result),
-								});
-							}
-
-							send({ type: 'thinking', message: 'Processing tool results...' });
-
+							conversationMessages.push(self.toolCallMessage(step.transcript, step.toolCalls));
+							const toolResults = await self.runToolCalls(step.toolCalls, guard, principalId, correlationId, send, turn, signal);
 							conversationMessages = conversationMessages.concat(toolResults);
+							usedTools = true;
 
-							// Final response based on tool results
-							// Rebuild system prompt with fresh context
-							const updatedSystemPrompt = buildChatSystemPrompt({ hasFlightData: true });
-							const messagesForFinalCall = [
-								{ role: 'system', content: updatedSystemPrompt },
-								...conversationMessages.filter((m: any) => m.role !== 'system'),
-							];
-
-							const finalStream = (await self.env.AI.run(getModelId(self.env), {
-								messages: messagesForFinalCall,
-								max_tokens: 512,
-								temperature: 0.4,
-								stream: true,
-							} as Record<string, unknown>)) as ReadableStream<Uint8Array>;
-
-							const finalReader = finalStream.getReader();
-							let finalBuffer = '';
-							let finalTranscript = '';
-							let finalLastResponse = '';
-
-							while (true) {
-								const { value: finalValue, done: finalDone } = await finalReader.read();
-								if (finalDone) break;
-								if (!finalValue) continue;
-								finalBuffer += decoder.decode(finalValue, { stream: true });
-
-								let separatorIdx: number;
-								while ((separatorIdx = finalBuffer.indexOf('\n\n')) !== -1) {
-									const event = finalBuffer.slice(0, separatorIdx).trim();
-									finalBuffer = finalBuffer.slice(separatorIdx + 2);
-
-									if (event.startsWith('data: ')) {
-										const eventJson = event.slice(6);
-										if (eventJson === '[DONE]') continue;
-
-										try {
-											const eventObj = JSON.parse(eventJson) as any;
-											const fullResp = typeof eventObj.response === 'string' ? eventObj.response : '';
-											if (!fullResp) continue;
-
-											let delta = '';
-											if (finalLastResponse && fullResp.startsWith(finalLastResponse)) {
-												delta = fullResp.slice(finalLastResponse.length);
-											} else {
-												delta = fullResp;
-											}
-
-											finalLastResponse = fullResp;
-
-											if (delta) {
-												finalTranscript += delta;
-												send({ type: 'token', token: delta });
-											}
-										} catch (e) {
-											self.logger.debug('Error parsing final AI stream event', {
-												metadata: { principalId, conversationId, correlationId, error: String(e) },
-											});
-										}
-									}
-								}
+							if (!signal.aborted) {
+								send({ type: 'thinking', message: 'Processing tool results...' });
 							}
+						}
 
-							transcript = finalTranscript;
+						if (signal.aborted) {
+							// The user already saw text streamed in earlier steps; store all of it, not just the last step's
+							transcript = streamedText;
+							self.logger.info('Chat turn cancelled', {
+								metadata: { messageId, principalId, conversationId, correlationId, partialLength: transcript.length },
+							});
 						}
 
-						// Log the turn
+						// Log the turn (partial transcript when cancelled)
 						await self.storage.logTurn({
 							principalId,
 							conversationId,
 							correlationId,
-							userMessage: userContent,
+							userMessage: turn.replaceEventId ? undefined : userContent,
 							assistantMessage: transcript,
+							options: {
+								messageId,
+								status: signal.aborted ? 'cancelled' : 'complete',
+								replaceEventId: turn.replaceEventId,
+								promptVersion: chatPrompt.versionId,
+								dialogueAct: turn.dialogueAct,
+							},
 						});
 					} catch (error) {
 						const err = error instanceof Error ? error : new Error(String(error));
@@ -556,10 +428,18 @@ export class LLMHandler {
 						});
 						send({ type: 'error', error: `Stream failed: ${err.message}` });
 					} finally {
-						send({ type: 'done', message_id: messageId });
-						controller.close();
+						turn.onFinished?.(signal.aborted ? 'cancelled' : 'complete');
+						send({ type: 'done', message_id: messageId, ...(signal.aborted ? { cancelled: true } : {}) });
+						if (!closed) {
+							closed = true;
+							controller.close();
+						}
 					}
 				},
+				cancel() {
+					// Browser disconnected: stop the upstream model stream and pending tool calls
+					abortController.abort();
+				},
 			});
 
 			return new Response(sseStream, {
@@ -569,6 +449,7 @@ export class LLMHandler {
 					'cache-control': 'no-cache',
 					connection: 'keep-alive',
 					'X-Correlation-ID': correlationId,
+					'X-Message-ID': messageId,
 				},
 			});
 		} catch (error) {
@@ -577,104 +458,282 @@ export class LLMHandler {
 		}
 	}
 
-	private parseToolCalls(aiResult: any): LLMToolCall[] {
-		if (!aiResult || typeof aiResult !== 'object') {
-			return [];
+	/**
+	 * Read one streamed completion from the LLM port.
+	 * When detectToolCalls is set, text deltas go through ToolCallParser, which holds back anything
+	 * that may be a tool call and releases plain text as soon as it is known not to be one;
+	 * otherwise every delta is forwarded to the client as it arrives.
+	 * If signal aborts, the adapter stops the upstream stream and only the text already sent is kept.
+	 * streamedText is everything sent to the client, even when transcript is cleared for tool calls.
+	 */
+	private async readModelStream(
+		chunks: AsyncIterableIterator<LLMStreamChunk>,
+		send: (event: SseEvent) => void,
+		detectToolCalls: boolean,
+		logContext: { principalId: string; conversationId: string; correlationId: string },
+		signal?: AbortSignal,
+	): Promise<{ transcript: string; streamedText: string; toolCalls: LLMToolCall[]; usageTokens?: number }> {
+		const parser = this.createToolCallParser();
+		let transcript = '';
+		const structuredToolCalls = new Map<string, LLMToolCall>(); // By id: calls may arrive one per event, or be repeated
+		const textToolCalls: LLMToolCall[] = [];
+		let usageTokens: number | undefined;
+
+		const release = (result: { text: string; tools: ParsedToolCall[] }) => {
+			textToolCalls.push(...this.toLLMToolCalls(result.tools));
+			if (result.text) {
+				transcript += result.text;
+				send({ type: 'token', token: result.text });
+			}
+		};
+
+		for await (const chunk of chunks) {
+			usageTokens = chunk.tokenCount ?? usageTokens;
+			if (signal?.aborted) break;
+
+			// Structured tool calls usually arrive with an empty delta
+			if (detectToolCalls && chunk.tool_calls) {
+				for (const toolCall of this.parseToolCalls(chunk.tool_calls)) {
+					structuredToolCalls.set(toolCall.id, toolCall);
+				}
+			}
+
+			if (!chunk.delta) continue;
+
+			if (!detectToolCalls) {
+				transcript += chunk.delta;
+				send({ type: 'token', token: chunk.delta });
+				continue;
+			}
+
+			release(parser.processChunk(chunk.delta));
 		}
+		this.logger.debug(signal?.aborted ? 'AI stream cancelled' : 'AI stream reading complete', { metadata: logContext });
 
-		// Handle different response formats from Workers AI
-		if (Array.isArray(aiResult.tool_calls)) {
-			return aiResult.tool_calls;
+		if (signal?.aborted) {
+			// Held-back text may be a half-written tool call; keep only what the user already saw
+			return { transcript, streamedText: transcript, toolCalls: [], usageTokens };
 		}
 
-		if (aiResult.tool_calls && typeof aiResult.tool_calls === 'object') {
-			return [aiResult.tool_calls];
+		if (detectToolCalls) {
+			release(parser.flush());
+		}
+
+		const toolCalls = structuredToolCalls.size > 0 ? [...structuredToolCalls.values()] : textToolCalls;
+		if (textToolCalls.length > 0) {
+			this.logger.info('Parsed tool calls from model text', {
+				metadata: { ...logContext, tools: textToolCalls.map((t) => t.name) },
+			});
 		}
 
-		return [];
+		// Don't surface raw code/JSON to the model or user as assistant text
+		return { transcript: toolCalls.length > 0 ? '' : transcript, streamedText: transcript, toolCalls, usageTokens };
 	}
 
 	/**
-	 * Attempt to parse a tool call from plain-text JSON embedded in the response.
-	 * Workers AI sometimes returns tool calls as text instead of structured fields.
+	 * Execute one batch of tool calls requested by the model.
+	 * Independent calls run concurrently (capped by ToolScheduler) with per-tool deadlines;
+	 * results are returned in the order the model issued them so tool_call_ids line up.
+	 * Identical repeats of a call already made this turn are skipped; if every call in the
+	 * batch is a repeat the guard stops offering tools so the loop ends with an answer.
+	 * Aborting signal cancels calls still pending in the scheduler.
 	 */
-	private tryParseToolCallFromText(text: string): LLMToolCall | null {
-		if (!text || typeof text !== 'string') return null;
+	private async runToolCalls(
+		toolCalls: LLMToolCall[],
+		guard: AgentLoopGuard,
+		principalId: string,
+		correlationId: string,
+		send: (event: SseEvent) => void,
+		turn: ChatTurnOptions,
+		signal?: AbortSignal,
+	): Promise<Array<{ tool_call_id: string; role: 'tool'; content: string }>> {
+		const repeated = new Set<LLMToolCall>(toolCalls.filter((toolCall) => guard.isRepeatedCall(toolCall)));
+		const pending = toolCalls.filter((toolCall) => !repeated.has(toolCall));
+
+		for (const toolCall of repeated) {
+			this.logger.warn('Skipping repeated tool call', {
+				metadata: { toolName: toolCall.name, args: toolCall.arguments, principalId, correlationId },
+			});
+		}
 
-		const trimmed = text.trim();
+		const outcomes = await this.toolScheduler.runAll(
+			pending,
+			(toolCall, callSignal) => {
+				turn.onToolUsed?.(toolCall.name);
+				send({ type: 'tool_start', toolName: toolCall.name, toolLabel: this.toolLabel(toolCall.name), toolCallId: toolCall.id });
+				// callSignal also aborts at the call's deadline, so a timed-out tool stops instead of finishing in the background
+				return this.executeToolCall(toolCall, principalId, correlationId, { ...turn, signal: callSignal });
+			},
+			(toolCall, outcome) => {
+				if (outcome.status !== 'fulfilled') {
+					this.logger.warn('Tool call did not complete', {
+						metadata: { toolName: toolCall.name, outcome: outcome.status, error: outcome.error.message, principalId, correlationId },
+					});
+					send({
+						type: 'tool_error',
+						toolName: toolCall.name,
+						toolLabel: this.toolLabel(toolCall.name),
+						toolCallId: toolCall.id,
+						error: outcome.error.message,
+						code: outcome.status,
+					});
+				} else if (outcome.value.error) {
+					send({
+						type: 'tool_error',
+						toolName: toolCall.name,
+						toolLabel: this.toolLabel(toolCall.name),
+						toolCallId: toolCall.id,
+						error: outcome.value.error as string,
+						code: outcome.value.status === 'invalid_arguments' ? 'invalid_arguments' : 'failed',
+					});
+				} else {
+					send({
+						type: 'tool_result',
+						result: {
+							toolName: toolCall.name,
+							toolLabel: this.toolLabel(toolCall.name),
+							toolCallId: toolCall.id,
+							status: 'success',
+							data: outcome.value,
+						},
+					});
+				}
+			},
+			signal ?? turn.signal,
+		);
 
-		// Check if it looks like a JSON object
-		if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+		const resultsById = new Map<string, Record<string, unknown>>();
+		pending.forEach((toolCall, index) => {
+			const outcome = outcomes[index];
+			resultsById.set(
+				toolCall.id,
+				outcome.status === 'fulfilled'
+					? outcome.value
+					: { status: 'error', error: outcome.error.message, toolName: toolCall.name, timedOut: outcome.status === 'timeout' },
+			);
+		});
 
-		try {
-			const parsed = JSON.parse(trimmed);
+		if (repeated.size === toolCalls.length) {
+			guard.markLoopDetected();
+		}
 
-			// Must have "name" field to be a tool call
-			if (!parsed.name || typeof parsed.name !== 'string') return null;
+		return toolCalls.map((toolCall) => ({
+			tool_call_id: toolCall.id,
+			role: 'tool' as const,
+			content: JSON.stringify(
+				repeated.has(toolCall)
+					? {
+							status: 'skipped',
+							error: `${toolCall.name} was already called with these arguments in this turn. Use the earlier result.`,
+						}
+					: resultsById.get(toolCall.id),
+			),
+		}));
+	}
 
-			// Extract tool name and parameters
-			const toolName = parsed.name;
-			let parameters =
-				parsed.parameters ||
-				parsed.arguments ||
-				(() => {
-					// If neither parameters nor arguments, construct from all props except name, type
-					const { name, type, ...rest } = parsed;
-					return Object.keys(rest).length > 0 ? rest : {};
-				})();
+	/**
+	 * The assistant turn that requested tools; its tool messages refer back to these ids
+	 */
+	private toolCallMessage(content: string, toolCalls: LLMToolCall[]): LLMMessage {
+		return {
+			role: 'assistant',
+			content,
+			tool_calls: toolCalls.map((call) => ({
+				id: call.id,
+				type: 'function',
+				function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+			})),
+		};
+	}
 
-			// Normalize parameter names from camelCase to snake_case for tool executor
-			parameters = this.normalizeParameterNames(parameters);
+	/**
+	 * Rebuild the system prompt for calls that follow tool results (fresh context, same today's date)
+	 */
+	private withToolResultsPrompt(
+		conversationMessages: LLMMessage[],
+		toolsAvailable: boolean,
+		chatPrompt: SelectedPrompt<'chat_system'>,
+	): LLMMessage[] {
+		return [
+			{ role: 'system', content: chatPrompt.render({ hasFlightData: true, toolsAvailable }) },
+			...conversationMessages.filter((m) => m.role !== 'system'),
+		];
+	}
 
-			return {
-				name: toolName,
-				id: crypto.randomUUID(),
-				arguments: parameters,
-			};
-		} catch {
-			// Not valid JSON or doesn't match tool call structure
-			return null;
-		}
+	private logAgentLoopEnd(guard: AgentLoopGuard, stopReason: AgentLoopStopReason | null, correlationId: string): void {
+		this.logger.info('Agent loop finished', {
+			metadata: { ...guard.snapshot(), stopReason: stopReason ?? 'final_answer', correlationId },
+		});
 	}
 
 	/**
-	 * Normalize tool parameters from camelCase to snake_case.
-	 * The LLM often returns camelCase but the tool executor expects snake_case.
+	 * Convert port tool calls (JSON-string arguments) to the loop's call shape
 	 */
-	private normalizeParameterNames(params: Record<string, unknown>): Record<string, unknown> {
-		const normalized: Record<string, unknown> = {};
-
-		for (const [key, value] of Object.entries(params)) {
-			// Convert camelCase to snake_case
-			const snakeCase = key.replace(/([A-Z])/g, '_$1').toLowerCase();
-			normalized[snakeCase] = value;
-		}
+	private parseToolCalls(toolCalls: ToolCall[] | undefined): LLMToolCall[] {
+		return (toolCalls ?? [])
+			.filter((call) => call && typeof call.function?.name === 'string')
+			.map((call) => {
+				let args: Record<string, unknown> = {};
+				try {
+					const parsed = JSON.parse(call.function.arguments || '{}');
+					args = parsed && typeof parsed === 'object' ? parsed : {};
+				} catch {
+					args = {};
+				}
+				return { name: call.function.name, id: call.id ?? crypto.randomUUID(), arguments: args };
+			});
+	}
 
-		return normalized;
+	/**
+	 * Run a write tool call the user has confirmed (held by ChatSessionDO since the turn that made it)
+	 */
+	async executeConfirmedToolCall(call: PendingToolCall, principalId: string, correlationId: string): Promise<Record<string, unknown>> {
+		return this.executeToolCall(
+			{ name: call.toolName, id: crypto.randomUUID(), arguments: call.args },
+			principalId,
+			correlationId,
+			{},
+			true,
+		);
 	}
 
 	private async executeToolCall(
 		toolCall: LLMToolCall,
 		principalId: string,
 		correlationId: string,
+		turn: ChatTurnOptions,
+		confirmed: boolean = false,
 	): Promise<Record<string, unknown>> {
-		const toolId = this.mapToolNameToId(toolCall.name);
-		if (!toolId) {
+		const tool = this.toolRegistry.getToolByName(toolCall.name);
+		if (!tool) {
 			this.logger.error('Unknown tool called', new Error(`Tool not found: ${toolCall.name}`), {
 				metadata: { toolName: toolCall.name, principalId, correlationId },
 			});
 			return {
-				error: `Unknown tool: ${toolCall.name}`,
+				error: `Unknown tool: ${toolCall.name}. Available tools: ${this.toolRegistry
+					.listTools()
+					.map((t) => t.name)
+					.join(', ')}`,
 				status: 'error',
 			};
 		}
+		const toolId = tool.id;
+
+		// "2-4pm" means the user's 2-4pm: local times the model writes are read in their zone
+		if (tool.parameters.timeZone && turn.timeZone && toolCall.arguments.timeZone === undefined) {
+			toolCall = { ...toolCall, arguments: { ...toolCall.arguments, timeZone: turn.timeZone } };
+		}
 
 		try {
+			if (tool.confirm && !confirmed) {
+				return this.requestConfirmation(tool, toolCall, principalId, correlationId, turn);
+			}
+
 			// Create a dummy send function (tools don't need to emit events during non-streaming execution)
-			const send = () => { };
+			const send = () => {};
 
 			const executor = new ToolExecutor(this.toolRegistry, this.env, correlationId);
-			const result = await executor.execute(toolId, toolCall.arguments, send);
+			const result = await executor.execute(toolId, toolCall.arguments, send, turn.signal);
 
 			this.logger.info('Tool executed successfully', {
 				metadata: {
@@ -685,8 +744,20 @@ export class LLMHandler {
 				},
 			});
 
-			return (result as Record<string, unknown>) || {};
+			const output = (result as Record<string, unknown>) || {};
+			return toolCall.name === 'search_flights' ? await this.applyFlightRules(output, principalId, correlationId) : output;
 		} catch (error) {
+			// Schema errors go back to the model so it can correct the call on the next iteration
+			if (error instanceof ToolArgumentError) {
+				return {
+					error: error.message,
+					status: 'invalid_arguments',
+					toolName: toolCall.name,
+					errors: error.errors,
+					expectedSchema: toLLMToolSchema(tool).parameters,
+				};
+			}
+
 			const err = error instanceof Error ? error : new Error(String(error));
 			this.logger.error('Tool execution failed', err, {
 				metadata: {
@@ -706,143 +777,81 @@ export class LLMHandler {
 	}
 
 	/**
-	 * Parse Python-style tool calls that Llama 3.3 naturally outputs
-	 * Examples:
-	 *   <|python_tag|>search_flights(origin="PHL", destination="BOS", departure_date="2025-11-29")
-	 *   search_flights(origin="Philadelphia", destination="Boston", departureDate="2025-11-28", passengers=1)
+	 * Write tools don't run in the turn that calls them: the validated call is handed to the
+	 * session to hold and the model is told to ask the user. It runs when they confirm.
 	 */
-	private tryParsePythonToolCall(text: string): LLMToolCall | null {
-		if (!text || typeof text !== 'string') return null;
-
-		const trimmed = text.trim();
-
-		// Remove Python tags if present
-		let cleaned = trimmed
-			.replace(/<\|python_tag\|>/g, '')
-			.replace(/<\|python>/g, '')
-			.replace(/<\/python>/g, '')
-			.replace(/<lpython>/g, '')
-			.trim();
-
-		// Match function call pattern: function_name(arg1=value1, arg2=value2, ...)
-		const functionMatch = cleaned.match(/^([a-z_]+)\s*\((.*)\)\s*$/);
-
-		if (!functionMatch) return null;
-
-		const functionName = functionMatch[1];
-		const argsString = functionMatch[2];
-
-		// Parse arguments
-		const args: Record<string, unknown> = {};
-
-		// Split by commas not inside quotes
-		const argParts: string[] = [];
-		let currentArg = '';
-		let inQuotes = false;
-		let quoteChar = '';
-
-		for (let i = 0; i < argsString.length; i++) {
-			const char = argsString[i];
-
-			if ((char === '"' || char === "'") && (i === 0 || argsString[i - 1] !== '\\')) {
-				if (!inQuotes) {
-					inQuotes = true;
-					quoteChar = char;
-				} else if (char === quoteChar) {
-					inQuotes = false;
-				}
-			}
-
-			if (char === ',' && !inQuotes) {
-				argParts.push(currentArg.trim());
-				currentArg = '';
-			} else {
-				currentArg += char;
-			}
-		}
-
-		if (currentArg.trim()) {
-			argParts.push(currentArg.trim());
+	private requestConfirmation(
+		tool: ToolCatalogEntry,
+		toolCall: LLMToolCall,
+		principalId: string,
+		correlationId: string,
+		turn: ChatTurnOptions,
+	): Record<string, unknown> {
+		const validation = validateToolArguments(tool, toolCall.arguments);
+		if (!validation.valid) {
+			throw new ToolArgumentError(tool.name, validation.errors);
 		}
-
-		// Parse each argument
-		for (const part of argParts) {
-			const match = part.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(.+)$/);
-			if (!match) continue;
-
-			const key = match[1];
-			let value: unknown = match[2].trim();
-
-			// Remove quotes if present
-			if (typeof value === 'string') {
-				if ((value.startsWith('"') && value.endsWith('"')) ||
-					(value.startsWith("'") && value.endsWith("'"))) {
-					value = value.slice(1, -1);
-				}
-				// Try to parse as number
-				else if (/^\d+$/.test(value)) {
-					value = parseInt(value, 10);
-				}
-				// Try to parse as float
-				else if (/^\d+\.\d+$/.test(value)) {
-					value = parseFloat(value);
-				}
-				// Parse booleans
-				else if (value === 'True' || value === 'true') {
-					value = true;
-				}
-				else if (value === 'False' || value === 'false') {
-					value = false;
-				}
-			}
-
-			args[key] = value;
+		if (!turn.onConfirmationNeeded) {
+			return {
+				error: `${tool.name} needs the user's confirmation, which this session can't ask for`,
+				status: 'error',
+				toolName: tool.name,
+			};
 		}
 
-		// Normalize parameter names from camelCase to snake_case
-		const normalizedArgs = this.normalizeParameterNames(args);
+		const description = tool.confirm!.describe(validation.args);
+		turn.onConfirmationNeeded({ toolName: tool.name, args: validation.args, description });
 
-		this.logger.info('Parsed Python-style tool call', {
-			metadata: {
-				functionName,
-				args: normalizedArgs,
-				originalText: text.substring(0, 100),
-			},
+		this.logger.info('Tool call awaiting confirmation', {
+			metadata: { toolName: tool.name, description, principalId, correlationId },
 		});
 
 		return {
-			name: functionName,
-			id: crypto.randomUUID(),
-			arguments: normalizedArgs,
+			status: 'confirmation_required',
+			toolName: tool.name,
+			action: description,
+			note: 'Nothing has changed yet. Tell the user exactly what you will do and ask them to confirm; it runs when they say yes.',
 		};
 	}
 
 	/**
-	 * Check if text looks like the start of a JSON tool call OR Python-style tool call
-	 * Used to decide if we should buffer or send tokens immediately
+	 * Enforce the principal's flight_search rules on a search result. Applied here rather than
+	 * in the tool because tool results are cached by arguments, not per user.
 	 */
-	private looksLikeToolCallStart(text: string): boolean {
-		if (!text) return false;
-
-		const trimmed = text.trim();
+	private async applyFlightRules(
+		output: Record<string, unknown>,
+		principalId: string,
+		correlationId: string,
+	): Promise<Record<string, unknown>> {
+		if (!this.proceduralMemory || !Array.isArray(output.data)) return output;
 
-		// Check for Python tags FIRST (Llama 3.3 uses these)
-		if (trimmed.includes('<|python') || trimmed.includes('<lpython') || trimmed.includes('|python_tag')) {
-			return true;
+		let procedural;
+		try {
+			procedural = await this.proceduralMemory.getProceduralMemory(principalId);
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			this.logger.warn('Could not load automation rules; returning unfiltered flights', {
+				metadata: { error: err.message, principalId, correlationId },
+			});
+			return output;
 		}
 
-		// Check for JSON object start
-		if (trimmed.startsWith('{')) {
-			// Check for common tool call patterns
-			if (trimmed.includes('"name"') || trimmed.includes('"parameters"') || trimmed.includes('"arguments"')) {
-				return true;
-			}
-			// If it starts with { and has quotes, likely JSON
-			if (trimmed.length > 5 && trimmed.includes('"')) {
-				return true;
-			}
-		}
+		const rules = FlightRuleEngine.flightRules(procedural.rules);
+		if (rules.length === 0) return output;
+
+		const outcome = this.flightRules.apply(output.data as SearchResultFlight[], rules, searchResultFacts);
+		this.logger.info('Applied automation rules to flight results', {
+			metadata: { removedCount: outcome.removed.length, keptCount: outcome.options.length, principalId, correlationId },
+		});
 
-		return false;
+		return {
+			...output,
+			data: outcome.options,
+			meta: { ...(output.meta as Record<string, unknown>), count: outcome.options.length },
+			...(outcome.removed.length > 0 && {
+				removed_by_rules: outcome.removed.map((r) => ({ flight: r.label, rule: r.ruleName, reason: r.reason })),
+				rules_note: this.flightRules.explain(outcome.removed).join('\n'),
+			}),
+		};
 	}
 }
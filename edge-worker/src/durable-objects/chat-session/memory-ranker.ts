@@ -0,0 +1,278 @@
+/**
+ * MemoryRanker - Picks which long-term memories go into the prompt
+ *
+ * ContextManager used to inject each memory store as one block or not at all. Here every
+ * profile field, preference, trip, pending task, conversation summary and rule becomes one
+ * item, scored against the current message and dialogue slots, and the highest scoring
+ * items are packed greedily into the memory token budget. Items that were relevant but did
+ * not fit are reported so the prompt can say something was left out. Snippets recalled
+ * from earlier conversations by vector search come in weighted by their similarity.
+ */
+
+import { estimateLlama3Tokens } from '../../adapters/llm/llama3-token-estimator';
+import { SemanticMemory } from '../../domain/memory/SemanticMemory';
+import { EpisodicMemory } from '../../domain/memory/EpisodicMemory';
+import { AutomationRule, ProceduralMemory } from '../../domain/memory/ProceduralMemory';
+import { RecallMatch } from '../../domain/memory/ports/IVectorIndex';
+
+export type MemorySection = 'semantic' | 'episodic' | 'procedural';
+export type MemoryItemKind = 'profile' | 'preference' | 'trip' | 'task' | 'summary' | 'snippet' | 'rule' | 'workflow';
+type MemoryTopic = 'travel' | 'task' | 'calendar' | 'general' | 'recall';
+
+export interface MemoryItem {
+	kind: MemoryItemKind;
+	section: MemorySection;
+	topic: MemoryTopic;
+	text: string;
+	weight: number; // 0-1: confidence for preferences, recency for episodes, similarity for recalled snippets
+}
+
+export interface RankedMemoryItem extends MemoryItem {
+	score: number;
+	tokens: number;
+}
+
+export interface MemoryQuery {
+	intent: string;
+	message: string;
+	slots: Record<string, string | undefined>;
+}
+
+export interface PackedMemories {
+	included: RankedMemoryItem[];
+	dropped: RankedMemoryItem[]; // Relevant, but over budget
+	tokens: number;
+}
+
+// How much each topic matters for the detected intent; recalled snippets were retrieved for this message
+const TOPIC_PRIOR: Record<string, Record<MemoryTopic, number>> = {
+	travel: { travel: 1, task: 0.1, calendar: 0.3, general: 0.4, recall: 1 },
+	task: { travel: 0.1, task: 1, calendar: 0.4, general: 0.4, recall: 1 },
+	planning: { travel: 0.4, task: 0.8, calendar: 1, general: 0.4, recall: 1 },
+	general: { travel: 0.3, task: 0.3, calendar: 0.3, general: 0.5, recall: 1 },
+};
+
+const RULE_TOPICS: Record<AutomationRule['context'], MemoryTopic> = {
+	flight_search: 'travel',
+	task_management: 'task',
+	calendar: 'calendar',
+	general: 'general',
+};
+
+const MATCH_WEIGHT = 0.5; // Per term shared with the message or slots
+const MAX_MATCHES = 3;
+const MIN_RELEVANCE = 0.25; // Below this an item is not worth its tokens even when there is room
+const TRIP_HALF_LIFE_DAYS = 90;
+const SUMMARY_HALF_LIFE_DAYS = 30;
+const SNIPPET_CHARS = 300; // Recalled messages are cut to this in the prompt
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set(
+	(
+		'the and for you your are was with from that this can please what when want need find get have has will would could ' +
+		'about into then there any all preference preferred due trip task rule'
+	).split(' '),
+);
+
+export const SECTION_HEADINGS: Record<MemorySection, string> = {
+	semantic: 'User Preferences & Knowledge:',
+	episodic: 'Recent Events:',
+	procedural: 'Procedures & Instructions:',
+};
+
+const KIND_LABELS: Record<MemoryItemKind, [string, string]> = {
+	profile: ['profile fact', 'profile facts'],
+	preference: ['preference', 'preferences'],
+	trip: ['trip', 'trips'],
+	task: ['task', 'tasks'],
+	summary: ['conversation summary', 'conversation summaries'],
+	snippet: ['past message', 'past messages'],
+	rule: ['rule', 'rules'],
+	workflow: ['workflow', 'workflows'],
+};
+
+function isoDate(date?: Date): string | undefined {
+	return date && !Number.isNaN(date.getTime()) ? date.toISOString().split('T')[0] : undefined;
+}
+
+function clip(text: string, max: number): string {
+	const flat = text.replace(/\s+/g, ' ').trim();
+	return flat.length > max ? `${flat.slice(0, max - 1).trimEnd()}…` : flat;
+}
+
+function decay(date: Date | undefined, now: Date, halfLifeDays: number): number {
+	if (!date || Number.isNaN(date.getTime())) return 0.5;
+	const ageDays = Math.max(0, (now.getTime() - date.getTime()) / DAY_MS);
+	return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Lowercased content words; IATA codes and names survive, filler does not
+ */
+function terms(text: string): Set<string> {
+	return new Set(
+		(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word)),
+	);
+}
+
+export function countMemoryKinds(items: MemoryItem[]): Partial<Record<MemoryItemKind, number>> {
+	const counts: Partial<Record<MemoryItemKind, number>> = {};
+	for (const item of items) counts[item.kind] = (counts[item.kind] ?? 0) + 1;
+	return counts;
+}
+
+/**
+ * "2 trips, 1 conversation summary"
+ */
+export function describeMemoryCounts(counts: Partial<Record<MemoryItemKind, number>>): string {
+	return (Object.entries(counts) as Array<[MemoryItemKind, number]>)
+		.filter(([, count]) => count > 0)
+		.map(([kind, count]) => `${count} ${KIND_LABELS[kind][count === 1 ? 0 : 1]}`)
+		.join(', ');
+}
+
+export class MemoryRanker {
+	/**
+	 * One item per fact worth recalling, plus the snippets vector search recalled for the message
+	 */
+	collect(
+		semantic: SemanticMemory | null,
+		episodic: EpisodicMemory | null,
+		procedural: ProceduralMemory | null,
+		now = new Date(),
+		recalled: RecallMatch[] = [],
+	): MemoryItem[] {
+		const items: MemoryItem[] = [];
+		const fact = (kind: MemoryItemKind, section: MemorySection, topic: MemoryTopic, text: string, weight = 1) =>
+			items.push({ kind, section, topic, text, weight });
+
+		if (semantic) {
+			const { profile } = semantic;
+			if (profile.homeAirport) fact('profile', 'semantic', 'travel', `Home airport: ${profile.homeAirport}`);
+			if (profile.preferredSeat) fact('profile', 'semantic', 'travel', `Seat preference: ${profile.preferredSeat}`);
+			if (profile.budgetDomesticUsd) fact('profile', 'semantic', 'travel', `Domestic flight budget: $${profile.budgetDomesticUsd}`);
+			if (profile.budgetInternationalUsd) {
+				fact('profile', 'semantic', 'travel', `International flight budget: $${profile.budgetInternationalUsd}`);
+			}
+
+			for (const pref of semantic.preferences.values()) {
+				const certainty = pref.source === 'inferred' ? ` (inferred, confidence ${pref.confidence})` : '';
+				fact(
+					'preference',
+					'semantic',
+					pref.category === 'task' ? 'task' : 'travel',
+					`${pref.category} ${pref.preferenceKey.replace(/_/g, ' ')}: ${pref.preferenceValue}${certainty}`,
+					pref.source === 'explicit' ? 1 : pref.confidence,
+				);
+			}
+		}
+
+		if (episodic) {
+			for (const trip of episodic.travelHistory.filter((t) => t.bookingStatus !== 'cancelled')) {
+				const airline = trip.airline ? ` on ${trip.airline}` : '';
+				const upcoming = trip.bookingStatus !== 'completed';
+				fact(
+					'trip',
+					'episodic',
+					'travel',
+					`Trip ${trip.fromAirport} → ${trip.toAirport}${airline}, ${isoDate(trip.departureDate) ?? 'date TBD'} (${trip.bookingStatus})`,
+					upcoming ? 1 : decay(trip.departureDate, now, TRIP_HALF_LIFE_DAYS),
+				);
+			}
+
+			for (const task of episodic.getPendingTasks()) {
+				const due = isoDate(task.dueDate);
+				fact('task', 'episodic', 'task', `Pending task: ${task.taskDescription}${due ? ` (due ${due})` : ''}`);
+			}
+
+			for (const conv of episodic.conversations) {
+				const when = isoDate(conv.createdAt);
+				fact(
+					'summary',
+					'episodic',
+					'general',
+					`Earlier conversation${when ? ` (${when})` : ''}: ${conv.summary}`,
+					decay(conv.createdAt, now, SUMMARY_HALF_LIFE_DAYS),
+				);
+			}
+		}
+
+		// Summaries already listed above are not repeated
+		const summarized = new Set(episodic?.conversations.map((c) => c.conversationId) ?? []);
+		for (const match of recalled) {
+			const when = isoDate(new Date(match.createdAt));
+			const weight = Math.max(0, Math.min(1, match.score));
+			if (match.kind === 'summary') {
+				if (!summarized.has(match.conversationId)) {
+					fact(
+						'summary',
+						'episodic',
+						'recall',
+						`Earlier conversation${when ? ` (${when})` : ''}: ${clip(match.text, SNIPPET_CHARS)}`,
+						weight,
+					);
+				}
+				continue;
+			}
+			const speaker = match.role === 'assistant' ? 'Assistant said' : 'User said';
+			fact(
+				'snippet',
+				'episodic',
+				'recall',
+				`${speaker} in an earlier conversation${when ? ` (${when})` : ''}: "${clip(match.text, SNIPPET_CHARS)}"`,
+				weight,
+			);
+		}
+
+		if (procedural) {
+			for (const rule of procedural.rules.filter((r) => r.enabled)) {
+				fact('rule', 'procedural', RULE_TOPICS[rule.context] ?? 'general', `${rule.context.replace(/_/g, ' ')} rule: ${rule.ruleName}`);
+			}
+			for (const workflow of procedural.workflows.filter((w) => w.enabled)) {
+				fact('workflow', 'procedural', 'general', `Workflow: ${workflow.workflowName} (${workflow.triggerType})`);
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Score items against the message and slots, most relevant first; irrelevant items are dropped
+	 */
+	rank(items: MemoryItem[], query: MemoryQuery): RankedMemoryItem[] {
+		const priors = TOPIC_PRIOR[query.intent] ?? TOPIC_PRIOR.general;
+		const queryTerms = terms([query.message, ...Object.values(query.slots).filter(Boolean)].join(' '));
+
+		return items
+			.map((item) => {
+				const matches = [...terms(item.text)].filter((term) => queryTerms.has(term)).length;
+				const score = priors[item.topic] * item.weight + MATCH_WEIGHT * Math.min(matches, MAX_MATCHES);
+				return { ...item, score: Math.round(score * 1000) / 1000, tokens: estimateLlama3Tokens(`- ${item.text}\n`) };
+			})
+			.filter((item) => item.score >= MIN_RELEVANCE)
+			.sort((a, b) => b.score - a.score || a.tokens - b.tokens);
+	}
+
+	/**
+	 * Greedy packing: take items in rank order while they fit, counting each section heading once
+	 */
+	pack(ranked: RankedMemoryItem[], budget: number): PackedMemories {
+		const included: RankedMemoryItem[] = [];
+		const dropped: RankedMemoryItem[] = [];
+		const sections = new Set<MemorySection>();
+		let tokens = 0;
+
+		for (const item of ranked) {
+			const heading = sections.has(item.section) ? 0 : estimateLlama3Tokens(`\n${SECTION_HEADINGS[item.section]}\n`);
+			if (tokens + heading + item.tokens > budget) {
+				dropped.push(item);
+				continue;
+			}
+			sections.add(item.section);
+			tokens += heading + item.tokens;
+			included.push(item);
+		}
+
+		return { included, dropped, tokens };
+	}
+}
@@ -0,0 +1,208 @@
+/**
+ * SlotFiller - Decides when a travel request has enough detail to search
+ *
+ * Fills FullDialogueState.slots from each travel turn and records where every value
+ * came from:
+ * - explicit: the user said it
+ * - inferred: derived from earlier messages, a fuzzy airport match, or another slot
+ * - default: assumed (one-way, 1 passenger)
+ *
+ * TRAVEL_PLANNING starts only once origin, destination, departure date (and return
+ * date for round trips) are filled and every guessed or defaulted value has been put
+ * to the user. Until then the decision carries one targeted follow-up question.
+ */
+
+import { FullDialogueState } from './chat-session.do';
+import { AirportClarification, IntentDetectionResult, TripType } from './intent-detector';
+
+export type SlotSource = 'explicit' | 'inferred' | 'default';
+
+export type TravelSlot = 'origin' | 'destination' | 'departureDate' | 'returnDate' | 'tripType' | 'passengers';
+
+export interface SlotProvenance {
+	source: SlotSource;
+	confirmed: boolean; // Stated by the user, or shown to them in a question they answered
+	turn: number;
+}
+
+export interface PendingSlotQuestion {
+	workflow: 'travel';
+	slots: TravelSlot[]; // Missing or unconfirmed when asked
+	question: string;
+	askedAtTurn: number;
+	clarifications?: AirportClarification[]; // Airport choices offered in the question
+}
+
+export interface TravelSearchParams {
+	origin: string;
+	destination: string;
+	departureDate: string;
+	returnDate?: string;
+	passengers: number;
+}
+
+export type SlotFillingDecision =
+	{ action: 'start'; params: TravelSearchParams } | { action: 'ask'; question: string; missing: TravelSlot[] };
+
+const TRAVEL_SLOTS: TravelSlot[] = ['origin', 'destination', 'departureDate', 'returnDate', 'tripType', 'passengers'];
+
+const TRAVEL_DEFAULTS: { tripType: TripType; passengers: number } = { tripType: 'one_way', passengers: 1 };
+
+// Completes "Could you tell me ...?"
+const MISSING_PHRASES: Record<TravelSlot, string> = {
+	origin: "where you're flying from",
+	destination: "where you're flying to",
+	departureDate: 'what date you want to leave',
+	returnDate: "when you're coming back",
+	tripType: "whether it's one-way or a round trip",
+	passengers: 'how many people are travelling',
+};
+
+const SLOT_NOUNS: Record<TravelSlot, string> = {
+	origin: 'departure airport',
+	destination: 'destination',
+	departureDate: 'departure date',
+	returnDate: 'return date',
+	tripType: 'trip type',
+	passengers: 'passenger count',
+};
+
+function joinList(items: string[]): string {
+	if (items.length <= 1) return items.join('');
+	return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+export class SlotFiller {
+	/**
+	 * Apply a travel turn to the dialogue state (mutates slots, slotSources and pendingSlots)
+	 */
+	fillTravel(state: FullDialogueState, intent: IntentDetectionResult): SlotFillingDecision {
+		const sources = (state.slotSources ??= {});
+		const pending = state.pendingSlots;
+		const uncertain = new Set(intent.inferredEntities ?? []);
+		const clarifications = intent.airportClarifications ?? [];
+		const clarifiedSlots = new Set<TravelSlot>(clarifications.map((c) => c.slot));
+
+		// A question was answered: whatever it showed the user is now confirmed
+		if (pending) {
+			for (const slot of pending.slots) {
+				const provenance = sources[slot];
+				if (provenance && state.slots[slot] !== undefined) provenance.confirmed = true;
+			}
+		}
+
+		for (const slot of TRAVEL_SLOTS) {
+			const value = intent.entities[slot];
+			if (value === undefined || value === null || value === '' || clarifiedSlots.has(slot)) continue;
+			if (state.slots[slot] === value && sources[slot]?.confirmed) continue;
+
+			this.setSlot(state, slot, value, uncertain.has(slot) ? 'inferred' : 'explicit', !uncertain.has(slot));
+		}
+
+		// Names matching several airports are not values yet
+		for (const slot of clarifiedSlots) {
+			delete state.slots[slot];
+			delete sources[slot];
+		}
+
+		if (state.slots.tripType === undefined && state.slots.returnDate) {
+			this.setSlot(state, 'tripType', 'round_trip', 'inferred', true);
+		}
+		if (state.slots.tripType === 'one_way' && state.slots.returnDate) {
+			delete state.slots.returnDate;
+			delete sources.returnDate;
+		}
+		if (state.slots.tripType === undefined) this.setSlot(state, 'tripType', TRAVEL_DEFAULTS.tripType, 'default', false);
+		if (state.slots.passengers === undefined) this.setSlot(state, 'passengers', TRAVEL_DEFAULTS.passengers, 'default', false);
+
+		const required: TravelSlot[] = [
+			'origin',
+			'destination',
+			'departureDate',
+			...(state.slots.tripType === 'round_trip' ? ['returnDate' as const] : []),
+		];
+		const missing = required.filter((slot) => !state.slots[slot]);
+		const unconfirmed = TRAVEL_SLOTS.filter((slot) => state.slots[slot] !== undefined && sources[slot] && !sources[slot]!.confirmed);
+
+		if (missing.length === 0 && unconfirmed.length === 0) {
+			state.pendingSlots = undefined;
+			return {
+				action: 'start',
+				params: {
+					origin: state.slots.origin!,
+					destination: state.slots.destination!,
+					departureDate: state.slots.departureDate!,
+					...(state.slots.tripType === 'round_trip' ? { returnDate: state.slots.returnDate } : {}),
+					passengers: state.slots.passengers!,
+				},
+			};
+		}
+
+		const question = this.buildQuestion(state, missing, unconfirmed, clarifications);
+		state.pendingSlots = {
+			workflow: 'travel',
+			slots: [...missing, ...unconfirmed],
+			question,
+			askedAtTurn: state.turnCount,
+			...(clarifications.length > 0 ? { clarifications } : {}),
+		};
+
+		return { action: 'ask', question, missing: [...missing, ...unconfirmed] };
+	}
+
+	private setSlot(state: FullDialogueState, slot: TravelSlot, value: unknown, source: SlotSource, confirmed: boolean): void {
+		(state.slots as Record<TravelSlot, unknown>)[slot] = value;
+		state.slotSources![slot] = { source, confirmed, turn: state.turnCount };
+	}
+
+	/**
+	 * One question covering every gap: airport choices, missing slots, then guesses and defaults
+	 */
+	private buildQuestion(
+		state: FullDialogueState,
+		missing: TravelSlot[],
+		unconfirmed: TravelSlot[],
+		clarifications: AirportClarification[],
+	): string {
+		const sentences: string[] = [];
+
+		for (const clarification of clarifications) {
+			sentences.push(`Which airport do you mean by "${clarification.query}": ${joinList(clarification.options.map((o) => o.label))}?`);
+		}
+
+		const asks = missing.filter((slot) => !clarifications.some((c) => c.slot === slot)).map((slot) => MISSING_PHRASES[slot]);
+		if (asks.length > 0) {
+			sentences.push(`Could you tell me ${joinList(asks)}?`);
+		}
+
+		const guesses = unconfirmed.filter((slot) => state.slotSources![slot]?.source === 'inferred');
+		for (const slot of guesses) {
+			sentences.push(`Should I use ${String(state.slots[slot])} as your ${SLOT_NOUNS[slot]}?`);
+		}
+
+		const defaults = unconfirmed.filter((slot) => state.slotSources![slot]?.source === 'default');
+		if (defaults.length > 0 && sentences.length > 0) {
+			sentences.push(`I'll search ${this.describeDefaults(state, defaults)} unless you tell me otherwise.`);
+		} else if (defaults.length > 0) {
+			sentences.push(`Shall I search ${this.describeSearch(state)}?`);
+		}
+
+		return sentences.join(' ');
+	}
+
+	private describeDefaults(state: FullDialogueState, defaults: TravelSlot[]): string {
+		const parts: string[] = [];
+		if (defaults.includes('tripType')) parts.push(state.slots.tripType === 'round_trip' ? 'round-trip' : 'one-way');
+		if (defaults.includes('passengers')) parts.push(`for ${state.slots.passengers} passenger${state.slots.passengers === 1 ? '' : 's'}`);
+		return parts.join(' ');
+	}
+
+	private describeSearch(state: FullDialogueState): string {
+		const { origin, destination, departureDate, returnDate, tripType, passengers } = state.slots;
+		const trip =
+			tripType === 'round_trip'
+				? `round-trip flights from ${origin} to ${destination}, ${departureDate} to ${returnDate}`
+				: `one-way flights from ${origin} to ${destination} on ${departureDate}`;
+		return `${trip} for ${passengers} passenger${passengers === 1 ? '' : 's'}`;
+	}
+}
@@ -1,15 +1,20 @@
 import { D1Database, WorkerEnv } from '../../env';
-import { LogTurnArgs } from './types';
+import { LogTurnArgs, LastTurn, LoggedTurn } from './types';
 import { WebSocketManager } from './websocket.manager';
 import { Logger } from '../../observability/logger';
 
 export class StorageManager {
+	private schemaReady = false;
+
 	constructor(
 		private readonly db: D1Database,
 		private readonly wsManager: WebSocketManager,
+		private readonly onTurnLogged?: (turn: LoggedTurn) => void, // Called after the events are written (semantic recall indexing)
 	) {}
 
 	private async ensureSchema(): Promise<void> {
+		if (this.schemaReady) return;
+
 		await this.db
 			.prepare(
 				'CREATE TABLE IF NOT EXISTS chat_sessions (id TEXT PRIMARY KEY, principal_id TEXT, conversation_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)',
@@ -17,9 +22,20 @@ export class StorageManager {
 			.run();
 		await this.db
 			.prepare(
-				'CREATE TABLE IF NOT EXISTS chat_events (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, conversation_id TEXT, role TEXT NOT NULL, content TEXT NOT NULL, correlation_id TEXT, created_at TEXT NOT NULL)',
+				'CREATE TABLE IF NOT EXISTS chat_events (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, conversation_id TEXT, role TEXT NOT NULL, content TEXT NOT NULL, correlation_id TEXT, created_at TEXT NOT NULL, message_id TEXT, status TEXT, prompt_version TEXT, dialogue_act TEXT)',
 			)
 			.run();
+
+		// Tables created before cancellation support / the prompt registry / dialogue acts lack these columns; ADD COLUMN fails once they exist
+		for (const column of ['message_id TEXT', 'status TEXT', 'prompt_version TEXT', 'dialogue_act TEXT']) {
+			try {
+				await this.db.prepare(`ALTER TABLE chat_events ADD COLUMN ${column}`).run();
+			} catch {
+				// Column already present
+			}
+		}
+
+		this.schemaReady = true;
 	}
 
 	async logTurn(args: LogTurnArgs): Promise<void> {
@@ -38,23 +54,64 @@ export class StorageManager {
 			.bind(sessionId, args.principalId, args.conversationId, now)
 			.run();
 
+		const options = args.options ?? {};
+		const logged: LoggedTurn['events'] = [];
+
 		// Log User Message
 		if (args.userMessage) {
+			const userEventId = crypto.randomUUID();
 			await this.db
 				.prepare(
-					'INSERT INTO chat_events (id, session_id, conversation_id, role, content, correlation_id, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)',
+					'INSERT INTO chat_events (id, session_id, conversation_id, role, content, correlation_id, created_at, dialogue_act) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)',
 				)
-				.bind(crypto.randomUUID(), sessionId, args.conversationId, 'user', args.userMessage, args.correlationId, now)
+				.bind(userEventId, sessionId, args.conversationId, 'user', args.userMessage, args.correlationId, now, options.dialogueAct ?? null)
 				.run();
+			logged.push({ id: userEventId, role: 'user', content: args.userMessage, status: 'complete' });
 		}
 
-		// Log Assistant Message
-		await this.db
-			.prepare(
-				'INSERT INTO chat_events (id, session_id, conversation_id, role, content, correlation_id, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)',
-			)
-			.bind(crypto.randomUUID(), sessionId, args.conversationId, 'assistant', args.assistantMessage, args.correlationId, now)
-			.run();
+		const status = options.status ?? 'complete';
+
+		// Log Assistant Message (regenerate overwrites the previous answer in place so history keeps one reply per turn)
+		if (options.replaceEventId) {
+			await this.db
+				.prepare(
+					"UPDATE chat_events SET content = ?1, correlation_id = ?2, message_id = ?3, status = ?4, prompt_version = ?5 WHERE id = ?6 AND conversation_id = ?7 AND role = 'assistant' AND session_id IN (SELECT id FROM chat_sessions WHERE principal_id = ?8)",
+				)
+				.bind(
+					args.assistantMessage,
+					args.correlationId,
+					options.messageId ?? null,
+					status,
+					options.promptVersion ?? null,
+					options.replaceEventId,
+					args.conversationId,
+					args.principalId,
+				)
+				.run();
+			logged.push({ id: options.replaceEventId, role: 'assistant', content: args.assistantMessage, status });
+		} else {
+			const assistantEventId = crypto.randomUUID();
+			await this.db
+				.prepare(
+					'INSERT INTO chat_events (id, session_id, conversation_id, role, content, correlation_id, created_at, message_id, status, prompt_version) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)',
+				)
+				.bind(
+					assistantEventId,
+					sessionId,
+					args.conversationId,
+					'assistant',
+					args.assistantMessage,
+					args.correlationId,
+					now,
+					options.messageId ?? null,
+					status,
+					options.promptVersion ?? null,
+				)
+				.run();
+			logged.push({ id: assistantEventId, role: 'assistant', content: args.assistantMessage, status });
+		}
+
+		this.onTurnLogged?.({ principalId: args.principalId, conversationId: args.conversationId, createdAt: now, events: logged });
 
 		// Broadcast
 		this.wsManager.broadcast({
@@ -63,9 +120,42 @@ export class StorageManager {
 			content: args.assistantMessage,
 			conversationId: args.conversationId,
 			timestamp: now,
+			messageId: options.messageId,
+			status,
+			replacesEventId: options.replaceEventId,
 		});
 	}
 
+	/**
+	 * Last user message of the principal's conversation and the LLM answer to it
+	 * Used to regenerate the last assistant turn; null when there is no such answer to replace
+	 */
+	async getLastTurn(principalId: string, conversationId: string): Promise<LastTurn | null> {
+		await this.ensureSchema();
+
+		// User and assistant events of one turn share created_at, so rowid breaks the tie
+		const user = await this.db
+			.prepare(
+				"SELECT id, content, created_at FROM chat_events WHERE conversation_id = ?1 AND role = 'user' AND session_id IN (SELECT id FROM chat_sessions WHERE principal_id = ?2) ORDER BY created_at DESC, rowid DESC LIMIT 1",
+			)
+			.bind(conversationId, principalId)
+			.first<{ id: string; content: string; created_at: string }>();
+
+		if (!user) return null;
+
+		// Chat turns always record a message_id; workflow results and /log entries do not
+		const assistant = await this.db
+			.prepare(
+				"SELECT id FROM chat_events WHERE conversation_id = ?1 AND role = 'assistant' AND message_id IS NOT NULL AND created_at >= ?2 ORDER BY created_at DESC, rowid DESC LIMIT 1",
+			)
+			.bind(conversationId, user.created_at)
+			.first<{ id: string }>();
+
+		if (!assistant) return null;
+
+		return { userEventId: user.id, userMessage: user.content, assistantEventId: assistant.id };
+	}
+
 	/**
 	 * Ensure session exists in database before processing messages
 	 * This prevents 404 errors when frontend tries to load messages
@@ -82,6 +172,23 @@ export class StorageManager {
 			.run();
 	}
 
+	/**
+	 * Which of the given conversations still exist for the principal
+	 * Used to drop recalled snippets of deleted conversations
+	 */
+	async existingConversations(principalId: string, conversationIds: string[]): Promise<Set<string>> {
+		if (conversationIds.length === 0) return new Set();
+		await this.ensureSchema();
+
+		const placeholders = conversationIds.map((_, i) => `?${i + 2}`).join(', ');
+		const results = await this.db
+			.prepare(`SELECT id FROM chat_sessions WHERE principal_id = ?1 AND id IN (${placeholders})`)
+			.bind(principalId, ...conversationIds)
+			.all<{ id: string }>();
+
+		return new Set((results.results ?? []).map((r) => r.id));
+	}
+
 	async cleanup(retentionDays: number = 7): Promise<void> {
 		const logger = new Logger('storage-manager');
 		// Placeholder for cleanup logic
@@ -171,15 +278,15 @@ export class StorageManager {
 	 */
 	async getConversationMessages(
 		conversationId: string,
-	): Promise<Array<{ role: string; content: string; createdAt: string }>> {
+	): Promise<Array<{ role: string; content: string; createdAt: string; messageId: string | null; status: string | null }>> {
 		await this.ensureSchema();
 
 		const results = await this.db
 			.prepare(
-				'SELECT role, content, created_at as createdAt FROM chat_events WHERE conversation_id = ?1 ORDER BY created_at ASC',
+				'SELECT role, content, created_at as createdAt, message_id as messageId, status FROM chat_events WHERE conversation_id = ?1 ORDER BY created_at ASC',
 			)
 			.bind(conversationId)
-			.all<{ role: string; content: string; createdAt: string }>();
+			.all<{ role: string; content: string; createdAt: string; messageId: string | null; status: string | null }>();
 
 		return results.results ?? [];
 	}
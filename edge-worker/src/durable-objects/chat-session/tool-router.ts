@@ -0,0 +1,189 @@
+/**
+ * ToolRouter - Decides which catalog tools to expose to the LLM for a turn
+ *
+ * Selective tool exposure prevents spurious tool calls, but keyword matching alone
+ * misses follow-ups ("book the cheaper one") and indirect questions
+ * ("what does Thursday look like?"). The router combines:
+ * - Keywords in the user message
+ * - The IntentDetector result for this turn
+ * - The active workflow in dialogue state
+ * - Tools used in recent turns of the conversation
+ * - Tools the selected ones depend on (update_event needs an id from list_events)
+ *
+ * Every tool gets a decision with the reasons it was included or excluded,
+ * which LLMHandler logs for debugging.
+ */
+
+import { Logger } from '../../observability/logger';
+import { IntentDetectionResult, WorkflowType } from './intent-detector';
+
+export interface RecentToolUsage {
+	toolName: string;
+	turn: number;
+}
+
+export interface ToolRoutingContext {
+	intent?: IntentDetectionResult;
+	activeWorkflow?: {
+		type: WorkflowType;
+		status: 'pending' | 'running' | 'completed' | 'failed';
+	};
+	recentTools?: RecentToolUsage[];
+	currentTurn?: number;
+}
+
+export interface ToolRoutingDecision {
+	toolName: string;
+	included: boolean;
+	reasons: string[];
+}
+
+export interface ToolRoutingResult {
+	toolNames: string[];
+	decisions: ToolRoutingDecision[];
+}
+
+interface ToolRoute {
+	toolName: string;
+	keywords: RegExp;
+	workflows: WorkflowType[]; // Intents/active workflows that need this tool
+	matchesIndirectly?: (message: string) => boolean;
+	requires?: string[]; // Tools whose results this one needs; offered alongside it
+}
+
+// Follow-ups that refer back to a previous tool result
+const FOLLOW_UP_PATTERN =
+	/\b(cheaper|cheapest|earlier|later|faster|shorter|first|second|third|last one|that one|this one|option|instead|same|book it|book that|what about|how about)\b/i;
+
+const DAY_REFERENCE = /\b(today|tomorrow|tonight|monday|tuesday|wednesday|thursday|friday|saturday|sunday|this week|next week|weekend)\b/i;
+const AVAILABILITY_PHRASE = /\b(look like|looking like|free|busy|open|booked|plans?|doing|have on|on my plate)\b/i;
+const EVENT_NOUN = String.raw`\b(meetings?|events?|calls?|1:1s?|one-on-ones?|appointments?|standups?|syncs?|reviews?|blocks?|invites?)\b`;
+
+const ROUTES: ToolRoute[] = [
+	{
+		toolName: 'search_flights',
+		keywords: /\b(flights?|fly|flying|travel|trips?|airports?|airlines?|book|booking|departs?|arrives?|destinations?)\b/i,
+		workflows: ['travel'],
+	},
+	{
+		toolName: 'list_events',
+		keywords: /\b(calendar|schedules?|meetings?|events?|appointments?|busy|free|availability|conflicts?)\b/i,
+		workflows: ['planning'],
+		matchesIndirectly: (message) => DAY_REFERENCE.test(message) && AVAILABILITY_PHRASE.test(message),
+	},
+	{
+		toolName: 'create_event',
+		keywords:
+			/\b(block (off |out )?(some |an? )?(time|hour|\d)|block (my|the) (morning|afternoon|evening)|(add|put) (it |this |that )?(to|on|in) (my )?calendar|schedule (a|an)|set up (a|an)|create (an? )?(event|meeting))\b/i,
+		workflows: [],
+	},
+	{
+		toolName: 'update_event',
+		keywords: new RegExp(String.raw`\b(move|reschedule|push back|postpone|shift|rename)\b.*(${EVENT_NOUN}|${DAY_REFERENCE.source})`, 'i'),
+		workflows: [],
+		requires: ['list_events'],
+	},
+	{
+		toolName: 'delete_event',
+		keywords: new RegExp(String.raw`\b(cancel|delete|remove|clear)\b.*${EVENT_NOUN}`, 'i'),
+		workflows: [],
+		requires: ['list_events'],
+	},
+];
+
+export class ToolRouter {
+	private logger: Logger = new Logger('tool-router');
+
+	private readonly MIN_INTENT_CONFIDENCE = 0.6;
+	private readonly RECENT_TOOL_TURNS = 3; // How far back a tool use counts as "recent"
+
+	route(userContent: string | undefined, context: ToolRoutingContext = {}): ToolRoutingResult {
+		const message = userContent ?? '';
+		const decisions = ROUTES.map((route) => this.decide(route, message, context));
+
+		for (const route of ROUTES) {
+			if (!decisions.find((d) => d.toolName === route.toolName)?.included) continue;
+			for (const required of decisions.filter((d) => route.requires?.includes(d.toolName) && !d.included)) {
+				required.included = true;
+				required.reasons = [`needed by ${route.toolName}`];
+			}
+		}
+
+		return {
+			toolNames: decisions.filter((d) => d.included).map((d) => d.toolName),
+			decisions,
+		};
+	}
+
+	private decide(route: ToolRoute, message: string, context: ToolRoutingContext): ToolRoutingDecision {
+		const reasons: string[] = [];
+		const rejected: string[] = [];
+
+		if (!message.trim()) {
+			return { toolName: route.toolName, included: false, reasons: ['empty message'] };
+		}
+
+		if (route.keywords.test(message)) {
+			reasons.push('keyword match');
+		} else if (route.matchesIndirectly?.(message)) {
+			reasons.push('day reference with availability phrase');
+		} else {
+			rejected.push('no keyword match');
+		}
+
+		const intent = context.intent;
+		if (intent?.workflow && route.workflows.includes(intent.workflow)) {
+			if (intent.confidence >= this.MIN_INTENT_CONFIDENCE) {
+				reasons.push(`intent ${intent.workflow} (${intent.confidence})`);
+			} else {
+				rejected.push(`intent ${intent.workflow} below confidence threshold (${intent.confidence})`);
+			}
+		} else {
+			rejected.push(`intent ${intent?.workflow ?? 'none'}`);
+		}
+
+		const workflow = context.activeWorkflow;
+		if (workflow?.type && route.workflows.includes(workflow.type) && workflow.status !== 'failed') {
+			reasons.push(`active ${workflow.type} workflow (${workflow.status})`);
+		} else {
+			rejected.push(`active workflow ${workflow?.type ?? 'none'}`);
+		}
+
+		const lastUse = this.lastUseTurn(route.toolName, context);
+		if (lastUse !== undefined && FOLLOW_UP_PATTERN.test(message)) {
+			reasons.push(`follow-up to ${route.toolName} used at turn ${lastUse}`);
+		} else if (lastUse !== undefined) {
+			rejected.push(`used at turn ${lastUse} but message is not a follow-up`);
+		} else {
+			rejected.push('not used recently');
+		}
+
+		const included = reasons.length > 0;
+		return { toolName: route.toolName, included, reasons: included ? reasons : rejected };
+	}
+
+	private lastUseTurn(toolName: string, context: ToolRoutingContext): number | undefined {
+		const uses = (context.recentTools ?? []).filter((use) => use.toolName === toolName);
+		if (uses.length === 0) return undefined;
+
+		const lastTurn = Math.max(...uses.map((use) => use.turn));
+		if (context.currentTurn !== undefined && context.currentTurn - lastTurn > this.RECENT_TOOL_TURNS) {
+			return undefined;
+		}
+		return lastTurn;
+	}
+
+	/**
+	 * Log included and excluded tools with their reasons
+	 */
+	logDecisions(result: ToolRoutingResult, metadata: Record<string, unknown>): void {
+		this.logger.info('Routed tools for message', {
+			metadata: {
+				...metadata,
+				selectedTools: result.toolNames,
+				included: result.decisions.filter((d) => d.included).map((d) => ({ tool: d.toolName, reasons: d.reasons })),
+				excluded: result.decisions.filter((d) => !d.included).map((d) => ({ tool: d.toolName, reasons: d.reasons })),
+			},
+		});
+	}
+}
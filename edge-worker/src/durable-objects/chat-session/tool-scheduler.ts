@@ -0,0 +1,148 @@
+/**
+ * Tool Scheduler - Runs independent tool calls concurrently
+ *
+ * The model can request several tools in one step (outbound + return search_flights,
+ * plus list_events). Each call gets its own deadline so a slow MCP server produces a
+ * timeout error for that call instead of stalling the whole SSE stream. The call's signal
+ * is aborted at the deadline, so the tool itself stops rather than finishing unseen.
+ */
+
+import { WorkerEnv } from '../../env';
+
+export interface ToolExecutionLimits {
+	maxConcurrency: number;
+	defaultTimeoutMs: number;
+	toolTimeoutsMs: Record<string, number>; // Per-tool overrides keyed by LLM tool name
+}
+
+export const DEFAULT_TOOL_EXECUTION_LIMITS: ToolExecutionLimits = {
+	maxConcurrency: 3,
+	defaultTimeoutMs: 10000,
+	toolTimeoutsMs: {
+		search_flights: 15000, // Duffel offer requests are the slowest upstream
+		list_events: 5000,
+	},
+};
+
+/**
+ * Read limits from environment variables, falling back to defaults
+ */
+export function loadToolExecutionLimits(env: WorkerEnv): ToolExecutionLimits {
+	const maxConcurrency = parseInt(env.TOOL_MAX_CONCURRENCY || '', 10);
+	const defaultTimeoutMs = parseInt(env.TOOL_TIMEOUT_MS || '', 10);
+
+	return {
+		...DEFAULT_TOOL_EXECUTION_LIMITS,
+		maxConcurrency: maxConcurrency > 0 ? maxConcurrency : DEFAULT_TOOL_EXECUTION_LIMITS.maxConcurrency,
+		defaultTimeoutMs: defaultTimeoutMs > 0 ? defaultTimeoutMs : DEFAULT_TOOL_EXECUTION_LIMITS.defaultTimeoutMs,
+	};
+}
+
+export class ToolTimeoutError extends Error {
+	constructor(
+		public readonly toolName: string,
+		public readonly timeoutMs: number,
+	) {
+		super(`${toolName} timed out after ${timeoutMs}ms`);
+		this.name = 'ToolTimeoutError';
+	}
+}
+
+export class ToolCancelledError extends Error {
+	constructor(public readonly toolName: string) {
+		super(`${toolName} was cancelled`);
+		this.name = 'ToolCancelledError';
+	}
+}
+
+export type ScheduledToolOutcome<T> =
+	| { status: 'fulfilled'; value: T }
+	| { status: 'timeout'; error: ToolTimeoutError }
+	| { status: 'cancelled'; error: ToolCancelledError }
+	| { status: 'failed'; error: Error };
+
+export interface ScheduledToolCall {
+	id: string;
+	name: string;
+}
+
+export class ToolScheduler {
+	constructor(private readonly limits: ToolExecutionLimits = DEFAULT_TOOL_EXECUTION_LIMITS) {}
+
+	timeoutFor(toolName: string): number {
+		return this.limits.toolTimeoutsMs[toolName] ?? this.limits.defaultTimeoutMs;
+	}
+
+	/**
+	 * Run calls with at most maxConcurrency in flight.
+	 * Outcomes are returned in the same order as the input calls, whatever order they finish in.
+	 * When signal aborts, in-flight calls settle as cancelled and queued calls never start.
+	 * run receives a per-call signal that aborts on that call's timeout or on signal.
+	 */
+	async runAll<C extends ScheduledToolCall, T>(
+		calls: C[],
+		run: (call: C, signal: AbortSignal) => Promise<T>,
+		onSettled?: (call: C, outcome: ScheduledToolOutcome<T>) => void,
+		signal?: AbortSignal,
+	): Promise<ScheduledToolOutcome<T>[]> {
+		const outcomes: ScheduledToolOutcome<T>[] = new Array(calls.length);
+		let nextIndex = 0;
+
+		const worker = async () => {
+			while (nextIndex < calls.length) {
+				const index = nextIndex++;
+				const call = calls[index];
+				outcomes[index] = signal?.aborted
+					? { status: 'cancelled', error: new ToolCancelledError(call.name) }
+					: await this.runOne(call, run, signal);
+				onSettled?.(call, outcomes[index]);
+			}
+		};
+
+		const workerCount = Math.min(Math.max(1, this.limits.maxConcurrency), calls.length);
+		await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+		return outcomes;
+	}
+
+	private async runOne<C extends ScheduledToolCall, T>(
+		call: C,
+		run: (call: C, signal: AbortSignal) => Promise<T>,
+		signal?: AbortSignal,
+	): Promise<ScheduledToolOutcome<T>> {
+		const timeoutMs = this.timeoutFor(call.name);
+		const controller = new AbortController();
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let onAbort: (() => void) | undefined;
+
+		const deadline = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => {
+				const error = new ToolTimeoutError(call.name, timeoutMs);
+				controller.abort(error);
+				reject(error);
+			}, timeoutMs);
+			onAbort = () => {
+				const error = new ToolCancelledError(call.name);
+				controller.abort(error);
+				reject(error);
+			};
+			signal?.addEventListener('abort', onAbort);
+		});
+
+		try {
+			const value = await Promise.race([run(call, controller.signal), deadline]);
+			return { status: 'fulfilled', value };
+		} catch (error) {
+			if (error instanceof ToolTimeoutError) {
+				return { status: 'timeout', error };
+			}
+			if (error instanceof ToolCancelledError) {
+				return { status: 'cancelled', error };
+			}
+			return { status: 'failed', error: error instanceof Error ? error : new Error(String(error)) };
+		} finally {
+			clearTimeout(timer);
+			if (onAbort) signal?.removeEventListener('abort', onAbort);
+		}
+	}
+}
@@ -1,3 +1,6 @@
+import { ToolRoutingContext } from './tool-router';
+import { DialogueActType } from './dialogue-act-classifier';
+
 export type WSMessage = { type: 'ping' } | { type: 'chat'; message: string; conversationId?: string };
 
 export interface ChatSessionState {
@@ -10,4 +13,56 @@ export interface LogTurnArgs {
 	correlationId: string;
 	userMessage?: string;
 	assistantMessage: string;
+	options?: LogTurnOptions;
+}
+
+export type ChatEventStatus = 'complete' | 'cancelled';
+
+export interface LogTurnOptions {
+	messageId?: string;
+	status?: ChatEventStatus;
+	replaceEventId?: string; // Regenerate: overwrite this assistant event instead of appending
+	promptVersion?: string; // Registry version of the system prompt that produced the answer, e.g. chat_system@v1
+	dialogueAct?: DialogueActType; // Recorded on the user event
+}
+
+/**
+ * chat_events rows written by one StorageManager.logTurn call
+ */
+export interface LoggedTurn {
+	principalId: string;
+	conversationId: string;
+	createdAt: string;
+	events: Array<{ id: string; role: 'user' | 'assistant'; content: string; status: ChatEventStatus }>;
+}
+
+/**
+ * Write tool call the model made, held until the user confirms it on their next message
+ */
+export interface PendingToolCall {
+	toolName: string;
+	args: Record<string, unknown>; // Validated against the catalog schema
+	description: string; // e.g. Create "Deck prep" on 2026-11-19 14:00–16:00 UTC
+	proposedAtTurn: number;
+}
+
+/**
+ * Per-turn options passed from ChatSessionDO to LLMHandler.processChat
+ */
+export interface ChatTurnOptions {
+	messageId?: string; // Assistant message id; also the key for cancellation
+	signal?: AbortSignal; // Aborted by cancel or client disconnect
+	routing?: ToolRoutingContext;
+	onToolUsed?: (toolName: string) => void;
+	replaceEventId?: string; // Set when regenerating the last assistant turn
+	onFinished?: (status: ChatEventStatus) => void; // Called once the turn is persisted (streaming turns outlive processChat)
+	dialogueAct?: DialogueActType; // Act recognised in the user message, logged with it
+	timeZone?: string; // User's IANA zone; tools taking a timeZone read local times in it unless the model names another
+	onConfirmationNeeded?: (call: Omit<PendingToolCall, 'proposedAtTurn'>) => void; // A write tool was called; runs once confirmed
+}
+
+export interface LastTurn {
+	userEventId: string;
+	userMessage: string;
+	assistantEventId: string;
 }
@@ -54,6 +54,7 @@ export interface WorkerEnv {
 	TASK_EXTRACTION: Workflow;
 	DAILY_PLANNING: Workflow;
 	ANALYTICS_ENGINE?: any;
+	RECALL_INDEX?: Vectorize; // Semantic recall over past conversations (see durable-objects/chat-session/conversation-recall.ts)
 
 	// Environment Variables
 	ENVIRONMENT?: string;
@@ -62,7 +63,16 @@ export interface WorkerEnv {
 	RATE_LIMIT_PER_HOUR?: string;
 	CF_ACCESS_AUD?: string;
 	GOOGLE_CALENDAR_MCP_URL?: string;
+	CALENDAR_PROVIDER?: string; // "google" or "fixture" (see adapters/mcp/calendar-provider.ts); unset uses google when GOOGLE_CALENDAR_MCP_URL is set
 	FLIGHTS_MCP_URL?: string;
+	TOOL_MAX_CONCURRENCY?: string;
+	TOOL_TIMEOUT_MS?: string;
+	LLM_MODEL_ROUTES?: string; // JSON: use case -> "provider:model" (see adapters/llm/model-router.ts)
+	OPENAI_COMPATIBLE_BASE_URL?: string;
+	OPENAI_COMPATIBLE_API_KEY?: string;
+	PROMPT_VERSIONS?: string; // JSON: prompt id -> version selection (see prompts/prompt-registry.ts)
+	SEMANTIC_RECALL?: string; // "memory": in-memory recall index when RECALL_INDEX is not bound (local development)
+	EMBEDDING_MODEL_ID?: string;
 }
 
 // Base system prompt - chat responses use buildChatSystemPrompt() from prompts/chat-response.prompt.ts
@@ -76,10 +86,17 @@ export type SseEvent =
 	| { type: 'token'; token: string }
 	| { type: 'thinking'; message: string } // LLM is thinking/deciding
 	| { type: 'tool_call'; name: string; args: Record<string, unknown> } // Tool call initiated
-	| { type: 'tool_start'; toolName: string } // Tool execution started
+	| { type: 'tool_start'; toolName: string; toolLabel?: string; toolCallId?: string } // Tool execution started
 	| { type: 'tool_result'; result: Record<string, unknown> } // Tool execution complete
-	| { type: 'tool_error'; toolName: string; error: string } // Tool execution failed
-	| { type: 'done'; message_id: string }
+	| {
+			type: 'tool_error';
+			toolName: string;
+			toolLabel?: string;
+			error: string;
+			toolCallId?: string;
+			code?: 'timeout' | 'cancelled' | 'failed' | 'invalid_arguments';
+	  } // Tool execution failed
+	| { type: 'done'; message_id: string; cancelled?: boolean } // cancelled: turn stopped early, partial transcript saved
 	| { type: 'error'; error: string };
 
 export function encodeSseEvent(encoder: TextEncoder, event: SseEvent): Uint8Array {
@@ -72,4 +72,28 @@ export default {
 			);
 		}
 	},
+
+	/**
+	 * Cron trigger: run the user workflows whose schedule falls in this tick
+	 */
+	async scheduled(controller: ScheduledController, env: WorkerEnv, ctx: ExecutionContext): Promise<void> {
+		const logger = new Logger('edge-worker');
+		const container = createContainer(env, loadConfig(env));
+		const scheduledTime = new Date(controller.scheduledTime);
+
+		ctx.waitUntil(
+			container.workflowRunner
+				.runScheduled(scheduledTime)
+				.then((runs) => {
+					logger.info('Scheduled workflows ran', {
+						metadata: { cron: controller.cron, scheduledTime: scheduledTime.toISOString(), runCount: runs.length },
+					});
+				})
+				.catch((error) => {
+					logger.error('Scheduled workflow tick failed', error instanceof Error ? error : new Error(String(error)), {
+						metadata: { cron: controller.cron, scheduledTime: scheduledTime.toISOString() },
+					});
+				}),
+		);
+	},
 };
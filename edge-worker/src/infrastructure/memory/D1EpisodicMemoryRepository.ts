@@ -87,6 +87,29 @@ export class D1EpisodicMemoryRepository implements IEpisodicMemoryRepository {
 			.run();
 	}
 
+	async replaceConversationSummary(summary: Omit<ConversationSummary, 'id' | 'createdAt'>): Promise<void> {
+		await this.db.batch([
+			this.db
+				.prepare('DELETE FROM conversation_summaries WHERE user_id = ? AND conversation_id = ?')
+				.bind(summary.userId, summary.conversationId),
+			this.db
+				.prepare(
+					`
+        INSERT INTO conversation_summaries (id, user_id, conversation_id, summary, key_entities, sentiment)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+				)
+				.bind(
+					crypto.randomUUID(),
+					summary.userId,
+					summary.conversationId,
+					summary.summary,
+					summary.keyEntities ? JSON.stringify(summary.keyEntities) : null,
+					summary.sentiment || 'neutral',
+				),
+		]);
+	}
+
 	async addTravelHistory(entry: Omit<TravelHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
 		const id = crypto.randomUUID();
 		await this.db
@@ -114,8 +137,17 @@ export class D1EpisodicMemoryRepository implements IEpisodicMemoryRepository {
 			.run();
 	}
 
-	async updateTravelStatus(entryId: string, status: TravelHistoryEntry['bookingStatus']): Promise<void> {
-		await this.db.prepare('UPDATE travel_history SET booking_status = ? WHERE id = ?').bind(status, entryId).run();
+	async updateTravelStatus(userId: string, entryId: string, status: TravelHistoryEntry['bookingStatus']): Promise<boolean> {
+		const result = await this.db
+			.prepare('UPDATE travel_history SET booking_status = ? WHERE id = ? AND user_id = ?')
+			.bind(status, entryId, userId)
+			.run();
+		return result.meta.changes > 0;
+	}
+
+	async deleteTravelHistory(userId: string, entryId: string): Promise<boolean> {
+		const result = await this.db.prepare('DELETE FROM travel_history WHERE id = ? AND user_id = ?').bind(entryId, userId).run();
+		return result.meta.changes > 0;
 	}
 
 	async addTaskHistory(entry: Omit<TaskHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
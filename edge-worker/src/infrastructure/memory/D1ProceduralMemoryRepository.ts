@@ -5,7 +5,41 @@
 
 import type { D1Database } from '@cloudflare/workers-types';
 import type { IProceduralMemoryRepository } from '../../domain/memory/ports/IProceduralMemoryRepository';
-import { ProceduralMemory, UserWorkflow, AutomationRule } from '../../domain/memory/ProceduralMemory';
+import { ProceduralMemory, UserWorkflow, AutomationRule, WorkflowRun } from '../../domain/memory/ProceduralMemory';
+
+// Longest a run may stay 'running' before a retry may take it over (a cron invocation gets at most 15 minutes)
+const WORKFLOW_RUN_LEASE_MS = 15 * 60 * 1000;
+
+function toWorkflow(row: any): UserWorkflow {
+	return {
+		id: row.id,
+		userId: row.user_id,
+		workflowName: row.workflow_name,
+		triggerType: row.trigger_type as any,
+		triggerConfig: row.trigger_config ? JSON.parse(row.trigger_config) : undefined,
+		actions: JSON.parse(row.actions),
+		enabled: Boolean(row.enabled),
+		createdAt: new Date(row.created_at),
+		updatedAt: new Date(row.updated_at),
+	};
+}
+
+function toWorkflowRun(row: any): WorkflowRun {
+	return {
+		id: row.id,
+		workflowId: row.workflow_id,
+		userId: row.user_id,
+		workflowName: row.workflow_name,
+		triggerType: row.trigger_type as any,
+		triggerDetail: row.trigger_detail ?? undefined,
+		status: row.status as any,
+		summary: row.summary ?? undefined,
+		steps: row.steps ? JSON.parse(row.steps) : [],
+		error: row.error ?? undefined,
+		startedAt: new Date(row.started_at),
+		finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+	};
+}
 
 export class D1ProceduralMemoryRepository implements IProceduralMemoryRepository {
 	constructor(private readonly db: D1Database) {}
@@ -17,17 +51,7 @@ export class D1ProceduralMemoryRepository implements IProceduralMemoryRepository
 			.bind(userId)
 			.all<any>();
 
-		const workflows: UserWorkflow[] = (workflowsResult.results || []).map((row: any) => ({
-			id: row.id,
-			userId: row.user_id,
-			workflowName: row.workflow_name,
-			triggerType: row.trigger_type as any,
-			triggerConfig: row.trigger_config ? JSON.parse(row.trigger_config) : undefined,
-			actions: JSON.parse(row.actions),
-			enabled: Boolean(row.enabled),
-			createdAt: new Date(row.created_at),
-			updatedAt: new Date(row.updated_at),
-		}));
+		const workflows: UserWorkflow[] = (workflowsResult.results || []).map(toWorkflow);
 
 		// Fetch automation rules
 		const rulesResult = await this.db
@@ -52,6 +76,24 @@ export class D1ProceduralMemoryRepository implements IProceduralMemoryRepository
 		return new ProceduralMemory(workflows, rules);
 	}
 
+	async getWorkflow(userId: string, workflowId: string): Promise<UserWorkflow | null> {
+		const row = await this.db.prepare('SELECT * FROM user_workflows WHERE id = ? AND user_id = ?').bind(workflowId, userId).first<any>();
+		return row ? toWorkflow(row) : null;
+	}
+
+	async getEnabledWorkflows(triggerType: UserWorkflow['triggerType'], userId?: string): Promise<UserWorkflow[]> {
+		const result = userId
+			? await this.db
+					.prepare('SELECT * FROM user_workflows WHERE trigger_type = ? AND user_id = ? AND enabled = TRUE ORDER BY created_at')
+					.bind(triggerType, userId)
+					.all<any>()
+			: await this.db
+					.prepare('SELECT * FROM user_workflows WHERE trigger_type = ? AND enabled = TRUE ORDER BY created_at')
+					.bind(triggerType)
+					.all<any>();
+		return (result.results || []).map(toWorkflow);
+	}
+
 	async addWorkflow(workflow: Omit<UserWorkflow, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> {
 		const id = crypto.randomUUID();
 		await this.db
@@ -107,18 +149,71 @@ export class D1ProceduralMemoryRepository implements IProceduralMemoryRepository
 			.run();
 	}
 
-	async updateRuleStatus(ruleId: string, enabled: boolean): Promise<void> {
-		await this.db
-			.prepare('UPDATE automation_rules SET enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
-			.bind(enabled, ruleId)
+	async updateRuleStatus(userId: string, ruleId: string, enabled: boolean): Promise<boolean> {
+		const result = await this.db
+			.prepare('UPDATE automation_rules SET enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?')
+			.bind(enabled, ruleId, userId)
 			.run();
+		return result.meta.changes > 0;
 	}
 
 	async deleteWorkflow(workflowId: string): Promise<void> {
 		await this.db.prepare('DELETE FROM user_workflows WHERE id = ?').bind(workflowId).run();
 	}
 
-	async deleteRule(ruleId: string): Promise<void> {
-		await this.db.prepare('DELETE FROM automation_rules WHERE id = ?').bind(ruleId).run();
+	async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+		const result = await this.db.prepare('DELETE FROM automation_rules WHERE id = ? AND user_id = ?').bind(ruleId, userId).run();
+		return result.meta.changes > 0;
+	}
+
+	async startWorkflowRun(run: Omit<WorkflowRun, 'status' | 'summary' | 'steps' | 'error' | 'finishedAt'>): Promise<boolean> {
+		// A 'running' row older than the lease belongs to an invocation that died before recording its outcome
+		const leaseExpiredBefore = new Date(run.startedAt.getTime() - WORKFLOW_RUN_LEASE_MS).toISOString();
+		const result = await this.db
+			.prepare(
+				`
+        INSERT INTO workflow_runs (
+          id, workflow_id, user_id, workflow_name, trigger_type, trigger_detail, status, started_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, 'running', ?)
+        ON CONFLICT(id) DO UPDATE SET
+          status = 'running', summary = NULL, steps = NULL, error = NULL, finished_at = NULL, started_at = excluded.started_at
+        WHERE workflow_runs.status = 'failed'
+          OR (workflow_runs.status = 'running' AND workflow_runs.started_at < ?)
+      `,
+			)
+			.bind(
+				run.id,
+				run.workflowId,
+				run.userId,
+				run.workflowName,
+				run.triggerType,
+				run.triggerDetail ?? null,
+				run.startedAt.toISOString(),
+				leaseExpiredBefore,
+			)
+			.run();
+		return result.meta.changes > 0;
+	}
+
+	async finishWorkflowRun(runId: string, outcome: Pick<WorkflowRun, 'status' | 'summary' | 'steps' | 'error'>): Promise<void> {
+		await this.db
+			.prepare('UPDATE workflow_runs SET status = ?, summary = ?, steps = ?, error = ?, finished_at = ? WHERE id = ?')
+			.bind(outcome.status, outcome.summary ?? null, JSON.stringify(outcome.steps), outcome.error ?? null, new Date().toISOString(), runId)
+			.run();
+	}
+
+	async listWorkflowRuns(userId: string, options: { workflowId?: string; limit?: number } = {}): Promise<WorkflowRun[]> {
+		const limit = options.limit ?? 20;
+		const result = options.workflowId
+			? await this.db
+					.prepare('SELECT * FROM workflow_runs WHERE user_id = ? AND workflow_id = ? ORDER BY started_at DESC LIMIT ?')
+					.bind(userId, options.workflowId, limit)
+					.all<any>()
+			: await this.db
+					.prepare('SELECT * FROM workflow_runs WHERE user_id = ? ORDER BY started_at DESC LIMIT ?')
+					.bind(userId, limit)
+					.all<any>();
+		return (result.results || []).map(toWorkflowRun);
 	}
 }
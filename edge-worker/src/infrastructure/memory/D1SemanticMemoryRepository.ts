@@ -5,7 +5,7 @@
 
 import type { D1Database } from '@cloudflare/workers-types';
 import type { ISemanticMemoryRepository } from '../../domain/memory/ports/ISemanticMemoryRepository';
-import { SemanticMemory, UserProfile, UserPreference } from '../../domain/memory/SemanticMemory';
+import { SemanticMemory, UserProfile, UserProfileUpdate, UserPreference } from '../../domain/memory/SemanticMemory';
 
 export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 	constructor(private readonly db: D1Database) {}
@@ -36,17 +36,7 @@ export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 
 		const preferences = new Map(
 			(preferencesResult.results || []).map((p: any) => {
-				const pref: UserPreference = {
-					id: p.id,
-					userId: p.user_id,
-					category: p.category,
-					preferenceKey: p.preference_key,
-					preferenceValue: p.preference_value,
-					confidence: p.confidence,
-					source: p.source || 'explicit',
-					createdAt: new Date(p.created_at),
-					updatedAt: new Date(p.updated_at),
-				};
+				const pref = this.toPreference(p);
 				return [`${p.category}:${p.preference_key}`, pref];
 			}),
 		);
@@ -54,7 +44,7 @@ export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 		return new SemanticMemory(profile, preferences);
 	}
 
-	async updateUserProfile(userId: string, updates: Partial<UserProfile>): Promise<void> {
+	async updateUserProfile(userId: string, updates: UserProfileUpdate): Promise<void> {
 		const allowedFields = ['home_airport', 'preferred_seat', 'budget_domestic_usd', 'budget_international_usd', 'notification_preferences'];
 
 		const fields: string[] = [];
@@ -78,7 +68,7 @@ export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 		}
 		if (updates.notificationPreferences !== undefined) {
 			fields.push('notification_preferences = ?');
-			values.push(JSON.stringify(updates.notificationPreferences));
+			values.push(updates.notificationPreferences === null ? null : JSON.stringify(updates.notificationPreferences));
 		}
 
 		if (fields.length === 0) return;
@@ -119,6 +109,43 @@ export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 			.run();
 	}
 
+	async savePreference(userId: string, pref: Omit<UserPreference, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<void> {
+		// user_preferences references user_profiles
+		await this.ensureProfile(userId);
+
+		await this.db
+			.prepare(
+				`
+        INSERT INTO user_preferences (
+          id, user_id, category, preference_key, preference_value, confidence, source
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user_id, category, preference_key) 
+        DO UPDATE SET 
+          preference_value = excluded.preference_value,
+          confidence = excluded.confidence,
+          source = excluded.source,
+          updated_at = CURRENT_TIMESTAMP
+      `,
+			)
+			.bind(crypto.randomUUID(), userId, pref.category, pref.preferenceKey, pref.preferenceValue, pref.confidence, pref.source)
+			.run();
+	}
+
+	async listPreferences(userId: string, source?: UserPreference['source']): Promise<UserPreference[]> {
+		const result = source
+			? await this.db
+					.prepare('SELECT * FROM user_preferences WHERE user_id = ? AND source = ? ORDER BY category, confidence DESC')
+					.bind(userId, source)
+					.all<any>()
+			: await this.db
+					.prepare('SELECT * FROM user_preferences WHERE user_id = ? ORDER BY category, confidence DESC')
+					.bind(userId)
+					.all<any>();
+
+		return (result.results || []).map((p: any) => this.toPreference(p));
+	}
+
 	async deletePreference(userId: string, category: string, key: string): Promise<void> {
 		await this.db
 			.prepare('DELETE FROM user_preferences WHERE user_id = ? AND category = ? AND preference_key = ?')
@@ -137,4 +164,18 @@ export class D1SemanticMemoryRepository implements ISemanticMemoryRepository {
 			.bind(userId)
 			.run();
 	}
+
+	private toPreference(p: any): UserPreference {
+		return {
+			id: p.id,
+			userId: p.user_id,
+			category: p.category,
+			preferenceKey: p.preference_key,
+			preferenceValue: p.preference_value,
+			confidence: p.confidence,
+			source: p.source || 'explicit',
+			createdAt: new Date(p.created_at),
+			updatedAt: new Date(p.updated_at),
+		};
+	}
 }
@@ -0,0 +1,45 @@
+/**
+ * In-memory adapter for the semantic recall index
+ * Implements IVectorIndex with brute-force cosine similarity; for tests and local development
+ * (state lives as long as the instance)
+ */
+
+import type { IVectorIndex, RecallDocument, RecallMatch } from '../../domain/memory/ports/IVectorIndex';
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export class InMemoryVectorIndex implements IVectorIndex {
+	private readonly entries = new Map<string, { document: RecallDocument; vector: number[] }>();
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	async upsert(entries: Array<{ document: RecallDocument; vector: number[] }>): Promise<void> {
+		for (const entry of entries) {
+			this.entries.set(entry.document.id, { document: { ...entry.document }, vector: [...entry.vector] });
+		}
+	}
+
+	async query(userId: string, vector: number[], topK: number): Promise<RecallMatch[]> {
+		return [...this.entries.values()]
+			.filter((entry) => entry.document.userId === userId)
+			.map((entry) => ({ ...entry.document, score: cosineSimilarity(vector, entry.vector) }))
+			.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+			.slice(0, topK);
+	}
+
+	async delete(ids: string[]): Promise<void> {
+		for (const id of ids) this.entries.delete(id);
+	}
+}
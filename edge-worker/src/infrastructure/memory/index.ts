@@ -1,3 +1,4 @@
 export { D1SemanticMemoryRepository } from './D1SemanticMemoryRepository';
 export { D1EpisodicMemoryRepository } from './D1EpisodicMemoryRepository';
 export { D1ProceduralMemoryRepository } from './D1ProceduralMemoryRepository';
+export { InMemoryVectorIndex } from './InMemoryVectorIndex';
@@ -5,6 +5,6 @@
  */
 
 export { Logger, LogLevel, LogContext } from './logger';
-export { AnalyticsEngineMetrics, MetricsCollector, Metric } from './metrics';
+export { AnalyticsEngineMetrics, MetricsCollector, Metric, StructuredOutputOutcome } from './metrics';
 export { Tracer, TraceSpan } from './tracer';
 export { getSystemHealth, checkD1Health, checkWorkersAI, SystemHealth, HealthCheck, HealthStatus } from './health';
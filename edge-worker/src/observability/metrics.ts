@@ -12,11 +12,15 @@ export interface Metric {
 	correlationId?: string;
 }
 
+/** valid = first response passed its schema, repaired = passed after the repair round-trip */
+export type StructuredOutputOutcome = 'valid' | 'repaired' | 'failed';
+
 export interface MetricsCollector {
 	recordRequest(metric: Metric): void;
 	recordLLMCall(latencyMs: number, tokenCount: number, model: string): void;
 	recordMCPCall(service: string, operation: string, success: boolean, latencyMs: number): void;
 	recordD1Query(operation: string, latencyMs: number): void;
+	recordStructuredOutput(promptId: string, outcome: StructuredOutputOutcome, attempts: number): void;
 }
 
 export class AnalyticsEngineMetrics implements MetricsCollector {
@@ -50,4 +54,11 @@ export class AnalyticsEngineMetrics implements MetricsCollector {
 			doubles: [latencyMs],
 		});
 	}
+
+	recordStructuredOutput(promptId: string, outcome: StructuredOutputOutcome, attempts: number): void {
+		this.analyticsEngine?.writeDataPoint({
+			blobs: ['structured_output', promptId, outcome],
+			doubles: [attempts],
+		});
+	}
 }
@@ -38,7 +38,7 @@ If user asks for "tomorrow", "next week", or relative dates, calculate from ${to
 		toolInstructions = `
 TOOL USAGE INSTRUCTIONS:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-✓ You have access to real-time tools: search_flights, list_events
+✓ You have access to real-time tools: search_flights, list_events, create_event, update_event, delete_event
 ✓ ALWAYS call tools for flight searches, calendar queries, and time-sensitive data
 ✓ DO NOT use training data for flights, prices, or calendar availability
 ✓ Call tools IMMEDIATELY when user asks about:
@@ -48,6 +48,11 @@ TOOL USAGE INSTRUCTIONS:
    - Real-time information
 ✓ For flight searches: use actual travel dates, not training data dates
 ✓ Do NOT apologize about lack of data access - you have tools
+✓ You may call tools one after another: check the calendar first, then search flights that fit
+✓ Never repeat a tool call with the same arguments - reuse the earlier result
+✓ create_event, update_event and delete_event only propose the change: tell the user exactly what will change and ask them to confirm
+   - Never say a calendar change is done until [CONFIRMED_ACTIONS] reports it
+   - Give start and end as the user's local time without an offset (2025-05-15T14:00:00); [TIMEZONE] is their zone
 `;
 	}
 
@@ -76,7 +81,8 @@ If tool results are provided in the message (marked [TOOL RESULT]):
   ],
   "summary": "Brief insight or recommendation"
 }
-3. NO explanatory text before/after JSON - JSON only`;
+3. If the result has "removed_by_rules", say in the summary which flights the user's rules removed and why
+4. NO explanatory text before/after JSON - JSON only`;
 	}
 
 	return basePrompt + toolInstructions + flightDataInstructions;
@@ -115,10 +121,10 @@ Real-time flight options from Duffel API for ${flights[0]?.departureDate || 'req
 		});
 		const arrivalTime = f.arrivalTime
 			? f.arrivalTime.toLocaleTimeString('en-US', {
-				hour: '2-digit',
-				minute: '2-digit',
-				hour12: false,
-			})
+					hour: '2-digit',
+					minute: '2-digit',
+					hour12: false,
+				})
 			: 'N/A';
 
 		injection += `${i + 1}. ${f.airline} Flight ${f.flightNumber}: ${f.totalPrice} ${f.currency}, Departs ${deptTime}, Arrives ${arrivalTime}\n`;
@@ -0,0 +1,114 @@
+/**
+ * Intent Classification Prompt Template
+ *
+ * Second stage of IntentDetector: a small, fast model classifies messages the keyword
+ * pass could not settle (low confidence or several matching intents) and extracts
+ * the entities the triggered workflow needs.
+ */
+
+import { StructuredOutputSpec } from './structured-output';
+
+export type ClassifiedIntent = 'travel' | 'task' | 'planning' | 'none';
+
+export interface IntentClassificationContext {
+	message: string;
+	previousMessages?: string[]; // Most recent first
+	candidates?: ClassifiedIntent[]; // Intents the keyword pass matched
+	today: string; // YYYY-MM-DD
+}
+
+/**
+ * Entities by intent: travel (origin, destination, departureDate, returnDate),
+ * planning (date), task (description, deadline). Dates are YYYY-MM-DD.
+ */
+export interface ClassifiedEntities {
+	origin?: string;
+	destination?: string;
+	departureDate?: string;
+	returnDate?: string;
+	date?: string;
+	description?: string;
+	deadline?: string;
+}
+
+export interface IntentClassification {
+	intent: ClassifiedIntent;
+	confidence: number;
+	entities: ClassifiedEntities;
+}
+
+const ENTITY_KEYS: Array<keyof ClassifiedEntities> = [
+	'origin',
+	'destination',
+	'departureDate',
+	'returnDate',
+	'date',
+	'description',
+	'deadline',
+];
+
+export function buildIntentClassificationPrompt(context: IntentClassificationContext): string {
+	const { message, previousMessages = [], candidates = [], today } = context;
+
+	const history = previousMessages.length > 0 ? previousMessages.map((m, idx) => `${idx + 1}. ${m}`).join('\n') : 'No previous messages';
+	const hint = candidates.length > 0 ? candidates.join(', ') : 'none';
+
+	return `You classify a user's chat message for a chief-of-staff assistant. Today is ${today}.
+
+INTENTS:
+- travel: the user wants to fly, plan a trip, or find flights (not booking meetings or restaurants)
+- task: the user wants a reminder, a to-do, or preparation work tracked
+- planning: the user wants their day or agenda planned or summarized
+- none: anything else (questions, small talk, calendar lookups, thanks, acknowledgements)
+
+ENTITIES (include only what the message or recent messages state; dates as YYYY-MM-DD relative to today):
+- travel: origin, destination (city or IATA code), departureDate, returnDate
+- planning: date
+- task: description (short imperative), deadline
+
+RECENT USER MESSAGES (most recent first):
+${history}
+
+KEYWORD MATCHES: ${hint}
+
+MESSAGE:
+${message}
+
+EXAMPLE:
+Message: "Remind me to book a table for the team dinner"
+Output: {"intent": "task", "confidence": 0.85, "entities": {"description": "Book a table for the team dinner"}}
+
+INSTRUCTIONS:
+- Return ONLY a JSON object with intent, confidence (0-1) and entities
+- NO explanatory text, NO markdown code fences, ONLY the JSON object
+
+OUTPUT (JSON object only):`;
+}
+
+/**
+ * Output contract; null or empty entity values are dropped
+ */
+export const intentClassificationOutputSpec: StructuredOutputSpec<IntentClassification> = {
+	promptId: 'intent_classification',
+	schema: {
+		type: 'object',
+		properties: {
+			intent: { type: 'string', enum: ['travel', 'task', 'planning', 'none'] },
+			confidence: { type: 'number', minimum: 0, maximum: 1 },
+			entities: {
+				type: 'object',
+				properties: Object.fromEntries(ENTITY_KEYS.map((key) => [key, { type: 'string', nullable: true }])),
+			},
+		},
+		required: ['intent', 'confidence'],
+	},
+	transform: (value) => {
+		const raw = value as { intent: ClassifiedIntent; confidence: number; entities?: Record<string, string | null> };
+		const entities: ClassifiedEntities = {};
+		for (const key of ENTITY_KEYS) {
+			const entity = raw.entities?.[key];
+			if (typeof entity === 'string' && entity.trim()) entities[key] = entity.trim();
+		}
+		return { intent: raw.intent, confidence: raw.confidence, entities };
+	},
+};
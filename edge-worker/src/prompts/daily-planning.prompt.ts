@@ -10,6 +10,7 @@
  */
 
 import { Logger } from '../observability/logger';
+import { parseStructured, StructuredOutputSpec } from './structured-output';
 
 export interface DailyPlanningContext {
 	date: string; // ISO date string
@@ -133,41 +134,47 @@ INSTRUCTIONS:
 OUTPUT (JSON object only):`;
 }
 
+/**
+ * Output contract: matches DailyPlan
+ */
+export const dailyPlanOutputSpec: StructuredOutputSpec<DailyPlan> = {
+	promptId: 'daily_planning',
+	schema: {
+		type: 'object',
+		properties: {
+			summary: { type: 'string', minLength: 1 },
+			keyEvents: { type: 'array', items: { type: 'string' } },
+			focusTime: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						startTime: { type: 'string', description: 'HH:MM' },
+						endTime: { type: 'string', description: 'HH:MM' },
+						durationMinutes: { type: 'number', minimum: 0 },
+					},
+					required: ['startTime', 'endTime', 'durationMinutes'],
+				},
+			},
+			recommendations: { type: 'array', items: { type: 'string' } },
+		},
+		required: ['summary', 'keyEvents', 'focusTime', 'recommendations'],
+	},
+};
+
 export function parseDailyPlan(llmResponse: string): DailyPlan | null {
 	const logger = new Logger('daily-planning-prompt');
 	try {
-		// Clean response: remove markdown code fences
-		let cleaned = llmResponse
-			.trim()
-			.replace(/```json\n?/g, '')
-			.replace(/```\n?/g, '')
-			.trim();
-
-		// Extract JSON object
-		const match = cleaned.match(/\{[\s\S]*\}/);
-		if (!match) {
-			logger.warn('Could not parse daily plan from LLM response', {
-				metadata: { responsePreview: llmResponse.substring(0, 200) },
-			});
-			return null;
-		}
+		const parsed = parseStructured(llmResponse, dailyPlanOutputSpec);
 
-		const plan: DailyPlan = JSON.parse(match[0]);
-
-		// Validate structure
-		if (!plan.summary || !plan.keyEvents || !plan.focusTime || !plan.recommendations) {
-			logger.warn('Incomplete daily plan structure', {
-				metadata: {
-					hasSummary: !!plan.summary,
-					hasKeyEvents: !!plan.keyEvents,
-					hasFocusTime: !!plan.focusTime,
-					hasRecommendations: !!plan.recommendations,
-				},
+		if (!parsed.ok) {
+			logger.warn('Invalid daily plan structure', {
+				metadata: { errors: parsed.errors.slice(0, 5), responsePreview: llmResponse.substring(0, 200) },
 			});
 			return null;
 		}
 
-		return plan;
+		return parsed.value;
 	} catch (error) {
 		const err = error instanceof Error ? error : new Error(String(error));
 		logger.error('Error parsing daily plan', err, {
@@ -10,6 +10,7 @@
  */
 
 import { Logger } from '../observability/logger';
+import { extractJson, JsonSchema, StructuredOutputSpec, validateJson } from './structured-output';
 
 export interface TaskExtractionContext {
 	eventTitle: string;
@@ -133,41 +134,42 @@ INSTRUCTIONS:
 OUTPUT (JSON array only):`;
 }
 
+const extractedTaskSchema: JsonSchema = {
+	type: 'object',
+	properties: {
+		title: { type: 'string', minLength: 1 },
+		description: { type: 'string', minLength: 1 },
+		priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+		deadlineRelativeToEvent: { type: 'string', minLength: 1, description: 'e.g. "1 day before", "2 hours before"' },
+	},
+	required: ['title', 'description', 'priority', 'deadlineRelativeToEvent'],
+};
+
+/**
+ * Output contract: up to 5 prep tasks (an empty array for routine events)
+ */
+export const taskExtractionOutputSpec: StructuredOutputSpec<ExtractedTask[]> = {
+	promptId: 'extract_tasks',
+	schema: { type: 'array', items: extractedTaskSchema, maxItems: 5 },
+};
+
+/**
+ * Lenient parse: keeps the tasks that satisfy the schema and drops the rest
+ */
 export function parseExtractedTasks(llmResponse: string): ExtractedTask[] {
 	const logger = new Logger('extract-tasks-prompt');
 	try {
-		// Clean response: remove markdown code fences, extra whitespace
-		let cleaned = llmResponse
-			.trim()
-			.replace(/```json\n?/g, '')
-			.replace(/```\n?/g, '')
-			.trim();
-
-		// Extract JSON array
-		const match = cleaned.match(/\[[\s\S]*\]/);
-		if (!match) {
-			logger.warn('Could not parse tasks from LLM response', {
-				metadata: { responsePreview: llmResponse.substring(0, 200) },
-			});
-			return [];
-		}
-
-		const tasks: ExtractedTask[] = JSON.parse(match[0]);
+		const tasks = extractJson(llmResponse, 'array');
 
-		// Validate structure
 		if (!Array.isArray(tasks)) {
-			logger.warn('LLM response is not an array', {
-				metadata: { responseType: typeof tasks },
+			logger.warn('Could not parse tasks from LLM response', {
+				metadata: { responseType: typeof tasks, responsePreview: llmResponse.substring(0, 200) },
 			});
 			return [];
 		}
 
 		// Filter and validate each task
-		return tasks
-			.filter((task) => {
-				return task.title && task.description && task.priority && task.deadlineRelativeToEvent;
-			})
-			.slice(0, 5); // Max 5 tasks as per guidelines
+		return tasks.filter((task): task is ExtractedTask => validateJson(task, extractedTaskSchema).length === 0).slice(0, 5); // Max 5 tasks as per guidelines
 	} catch (error) {
 		const err = error instanceof Error ? error : new Error(String(error));
 		logger.error('Error parsing extracted tasks', err, {
@@ -0,0 +1,233 @@
+/**
+ * Prompt Registry - Versioned prompt templates with per-principal and percentage selection
+ *
+ * Every template has a version and typed variables (PromptVariables). Callers select a
+ * template for a principal and record its versionId (e.g. "rank_flights@v1") next to the
+ * output it produced, so quality regressions can be traced to a prompt change.
+ *
+ * By default the newest registered version of each prompt is used. PROMPT_VERSIONS overrides
+ * that with a JSON object per prompt id, for example:
+ *   {"daily_planning": {"default": "v1", "rules": [{"version": "v2", "principals": ["alice@example.com"]}, {"version": "v2", "percentage": 10}]}}
+ * Rules are checked in order. Percentage rules split principals into stable buckets (0-99),
+ * stacking on each other, so two 10% rules get disjoint 10% slices.
+ */
+
+import { WorkerEnv } from '../env';
+import { Logger } from '../observability/logger';
+import { buildChatSystemPrompt, ChatContext } from './chat-response.prompt';
+import { buildIntentClassificationPrompt, IntentClassificationContext } from './classify-intent.prompt';
+import { buildDailyPlanningPrompt, DailyPlanningContext } from './daily-planning.prompt';
+import { buildTaskExtractionPrompt, TaskExtractionContext } from './extract-tasks.prompt';
+import { buildFlightRankingPrompt, RankingContext } from './rank-flights.prompt';
+import { buildConversationSummaryPrompt, ConversationSummaryContext } from './summarize-conversation.prompt';
+
+/**
+ * Variables each prompt is rendered with
+ */
+export interface PromptVariables {
+	chat_system: ChatContext;
+	rank_flights: RankingContext;
+	extract_tasks: TaskExtractionContext;
+	daily_planning: DailyPlanningContext;
+	intent_classification: IntentClassificationContext;
+	conversation_summary: ConversationSummaryContext;
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<K extends PromptId = PromptId> {
+	id: K;
+	version: string;
+	description: string;
+	render(variables: PromptVariables[K]): string;
+}
+
+/** One template of any prompt, keeping the id/variables pairing */
+export type AnyPromptTemplate = { [K in PromptId]: PromptTemplate<K> }[PromptId];
+
+export interface SelectedPrompt<K extends PromptId = PromptId> extends PromptTemplate<K> {
+	versionId: string; // "<id>@<version>", recorded with chat turns and workflow results
+}
+
+export interface PromptVersionRule {
+	version: string;
+	principals?: string[];
+	percentage?: number; // 0-100
+}
+
+export interface PromptSelection {
+	default?: string;
+	rules?: PromptVersionRule[];
+}
+
+export type PromptSelections = Partial<Record<PromptId, PromptSelection>>;
+
+export class UnknownPromptVersionError extends Error {
+	constructor(promptId: string, version: string) {
+		super(`Prompt ${promptId} has no version ${version}`);
+		this.name = 'UnknownPromptVersionError';
+	}
+}
+
+export const PROMPT_TEMPLATES: AnyPromptTemplate[] = [
+	{
+		id: 'chat_system',
+		version: 'v1',
+		description: 'Chat system prompt with tool usage and flight JSON instructions',
+		render: buildChatSystemPrompt,
+	},
+	{
+		id: 'rank_flights',
+		version: 'v1',
+		description: 'Rank flight options; returns a JSON array of 1-based indices',
+		render: buildFlightRankingPrompt,
+	},
+	{
+		id: 'extract_tasks',
+		version: 'v1',
+		description: 'Extract up to 5 prep tasks from a calendar event; returns a JSON array',
+		render: buildTaskExtractionPrompt,
+	},
+	{
+		id: 'daily_planning',
+		version: 'v1',
+		description: 'Daily summary, key events, focus time and recommendations; returns a JSON object',
+		render: buildDailyPlanningPrompt,
+	},
+	{
+		id: 'intent_classification',
+		version: 'v1',
+		description: 'Classify an ambiguous chat message into travel/task/planning/none with entities; returns a JSON object',
+		render: buildIntentClassificationPrompt,
+	},
+	{
+		id: 'conversation_summary',
+		version: 'v1',
+		description: 'Summarize an idle conversation with key entities and sentiment for episodic memory; returns a JSON object',
+		render: buildConversationSummaryPrompt,
+	},
+];
+
+/**
+ * Stable 0-99 bucket for a principal (FNV-1a), salted with the prompt id so splits are independent per prompt
+ */
+export function promptBucket(promptId: string, principalId: string): number {
+	let hash = 0x811c9dc5;
+	for (const char of `${promptId}:${principalId}`) {
+		hash ^= char.charCodeAt(0);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) % 100;
+}
+
+export class PromptRegistry {
+	private readonly templates = new Map<PromptId, AnyPromptTemplate[]>();
+
+	constructor(
+		templates: AnyPromptTemplate[] = PROMPT_TEMPLATES,
+		private readonly selections: PromptSelections = {},
+	) {
+		templates.forEach((template) => this.register(template));
+	}
+
+	/**
+	 * Add a template version; the most recently registered version is the default
+	 */
+	register(template: AnyPromptTemplate): void {
+		const versions = (this.templates.get(template.id) ?? []).filter((t) => t.version !== template.version);
+		versions.push(template);
+		this.templates.set(template.id, versions);
+	}
+
+	versions(promptId: PromptId): string[] {
+		return (this.templates.get(promptId) ?? []).map((t) => t.version);
+	}
+
+	get<K extends PromptId>(promptId: K, version: string): SelectedPrompt<K> {
+		const template = (this.templates.get(promptId) ?? []).find((t) => t.version === version);
+		if (!template) {
+			throw new UnknownPromptVersionError(promptId, version);
+		}
+		return { ...(template as unknown as PromptTemplate<K>), versionId: `${promptId}@${version}` };
+	}
+
+	/**
+	 * Pick the version a principal should see: principal rules, then percentage buckets, then the default
+	 */
+	select<K extends PromptId>(promptId: K, principalId?: string): SelectedPrompt<K> {
+		const versions = this.versions(promptId);
+		if (versions.length === 0) {
+			throw new UnknownPromptVersionError(promptId, 'any');
+		}
+
+		const selection: PromptSelection = this.selections[promptId] ?? {};
+		if (principalId) {
+			const bucket = promptBucket(promptId, principalId);
+			let threshold = 0;
+			for (const rule of selection.rules ?? []) {
+				if (rule.principals?.includes(principalId)) {
+					return this.get(promptId, rule.version);
+				}
+				if (rule.percentage !== undefined) {
+					threshold += rule.percentage;
+					if (bucket < threshold) return this.get(promptId, rule.version);
+				}
+			}
+		}
+
+		return this.get(promptId, selection.default ?? versions[versions.length - 1]);
+	}
+}
+
+/**
+ * Parse PROMPT_VERSIONS, dropping rules that point at unregistered versions.
+ * Invalid JSON is logged and ignored rather than failing requests.
+ */
+export function loadPromptSelections(
+	env: WorkerEnv,
+	templates: AnyPromptTemplate[] = PROMPT_TEMPLATES,
+	logger: Logger = new Logger('prompt-registry'),
+): PromptSelections {
+	if (!env.PROMPT_VERSIONS) {
+		return {};
+	}
+
+	const known = (promptId: string, version: unknown) => templates.some((t) => t.id === promptId && t.version === version);
+	const selections: PromptSelections = {};
+
+	try {
+		const config = JSON.parse(env.PROMPT_VERSIONS) as Record<string, PromptSelection>;
+		for (const [promptId, selection] of Object.entries(config)) {
+			if (!templates.some((t) => t.id === promptId) || typeof selection !== 'object' || selection === null) {
+				logger.warn('Ignoring unknown prompt in PROMPT_VERSIONS', { metadata: { promptId } });
+				continue;
+			}
+
+			const rules = (Array.isArray(selection.rules) ? selection.rules : []).filter((rule) => {
+				const valid =
+					known(promptId, rule?.version) &&
+					(Array.isArray(rule.principals) || (typeof rule.percentage === 'number' && rule.percentage >= 0 && rule.percentage <= 100));
+				if (!valid) logger.warn('Ignoring invalid prompt version rule', { metadata: { promptId, rule } });
+				return valid;
+			});
+
+			let defaultVersion: string | undefined;
+			if (selection.default !== undefined) {
+				if (known(promptId, selection.default)) defaultVersion = selection.default;
+				else logger.warn('Ignoring unknown default prompt version', { metadata: { promptId, version: selection.default } });
+			}
+
+			selections[promptId as PromptId] = { default: defaultVersion, rules };
+		}
+	} catch (error) {
+		logger.warn('PROMPT_VERSIONS is not valid JSON, using latest prompt versions', {
+			metadata: { error: error instanceof Error ? error.message : String(error) },
+		});
+	}
+
+	return selections;
+}
+
+export function createPromptRegistry(env: WorkerEnv, logger?: Logger): PromptRegistry {
+	return new PromptRegistry(PROMPT_TEMPLATES, loadPromptSelections(env, PROMPT_TEMPLATES, logger));
+}
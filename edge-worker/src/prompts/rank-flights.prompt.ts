@@ -9,6 +9,7 @@
 
 import { FlightOption } from '../domain/travel/entities/flight-option.entity';
 import { Logger } from '../observability/logger';
+import { parseStructured, StructuredOutputSpec } from './structured-output';
 
 export interface RankingContext {
 	flights: FlightOption[];
@@ -101,6 +102,30 @@ INSTRUCTIONS:
 OUTPUT (JSON array only):`;
 }
 
+/**
+ * Output contract: a permutation of the 1-based flight indices
+ */
+export function flightRankingOutputSpec(flightCount: number): StructuredOutputSpec<number[]> {
+	return {
+		promptId: 'rank_flights',
+		schema: {
+			type: 'array',
+			items: { type: 'integer', minimum: 1, maximum: flightCount },
+			minItems: flightCount,
+			maxItems: flightCount,
+			uniqueItems: true,
+			description: 'Flight indices (1-based), best first',
+		},
+	};
+}
+
+/**
+ * Reorder flights by a validated 1-based ranking
+ */
+export function applyFlightRanking(ranking: number[], flights: FlightOption[]): FlightOption[] {
+	return ranking.map((idx) => flights[idx - 1]).filter((f) => f !== undefined);
+}
+
 export function parseFlightRanking(llmResponse: string | any[], flights: FlightOption[]): FlightOption[] {
 	const logger = new Logger('rank-flights-prompt');
 	try {
@@ -112,52 +137,26 @@ export function parseFlightRanking(llmResponse: string | any[], flights: FlightO
 			},
 		});
 
-		let ranking: number[] = [];
-
-		// Handle array input (if LLM returns structured output directly)
-		if (Array.isArray(llmResponse)) {
-			ranking = llmResponse;
-		} else if (typeof llmResponse === 'string') {
-			// Clean response: remove markdown code fences, extra whitespace
-			let cleaned = llmResponse
-				.trim()
-				.replace(/```json\n?/g, '')
-				.replace(/```\n?/g, '')
-				.trim();
-
-			// Extract JSON array (handles both raw arrays and text+array)
-			const match = cleaned.match(/\[[\d,\s]+\]/);
-			if (!match) {
-				logger.warn('Could not parse ranking from LLM response', {
-					metadata: {
-						responsePreview: llmResponse.substring(0, 200),
-						flightCount: flights.length,
-					},
-				});
-				return flights;
-			}
-			ranking = JSON.parse(match[0]);
-		} else {
+		if (typeof llmResponse !== 'string' && !Array.isArray(llmResponse)) {
 			logger.warn('Unexpected LLM response type', {
 				metadata: { responseType: typeof llmResponse, flightCount: flights.length },
 			});
 			return flights;
 		}
 
-		// Validate ranking
-		if (!Array.isArray(ranking) || ranking.length !== flights.length) {
-			logger.warn('Invalid ranking length', {
+		const parsed = parseStructured(llmResponse, flightRankingOutputSpec(flights.length));
+		if (!parsed.ok) {
+			logger.warn('Invalid flight ranking', {
 				metadata: {
-					expected: flights.length,
-					received: ranking.length,
-					ranking: ranking.slice(0, 5),
+					errors: parsed.errors.slice(0, 5),
+					responsePreview: typeof llmResponse === 'string' ? llmResponse.substring(0, 200) : 'non-string',
+					flightCount: flights.length,
 				},
 			});
 			return flights;
 		}
 
-		// Convert 1-based indices to 0-based and reorder flights
-		return ranking.map((idx) => flights[idx - 1]).filter((f) => f !== undefined);
+		return applyFlightRanking(parsed.value, flights);
 	} catch (error) {
 		const err = error instanceof Error ? error : new Error(String(error));
 		logger.error('Error parsing flight ranking', err, {
@@ -0,0 +1,236 @@
+/**
+ * Structured Output - Schema validation and repair for JSON-only prompts
+ *
+ * Every prompt that asks the model for JSON declares a schema (a small JSON Schema
+ * subset: object/array/string/number/integer/boolean, enum, required, min/max, nullable strings).
+ * generateStructured() validates the completion against it and, when validation fails,
+ * makes one repair round-trip that sends the model its own output together with the
+ * validation errors. Outcomes are recorded per prompt so parse failure rates are visible.
+ */
+
+import { ILLMPort, LLMCompletionRequest } from '../domain/chat/ports/llm.port';
+import { Logger } from '../observability/logger';
+import { MetricsCollector, StructuredOutputOutcome } from '../observability/metrics';
+
+export type JsonSchema =
+	| { type: 'string'; enum?: readonly string[]; minLength?: number; nullable?: boolean; description?: string }
+	| { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+	| { type: 'boolean'; description?: string }
+	| { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number; uniqueItems?: boolean; description?: string }
+	| { type: 'object'; properties: Record<string, JsonSchema>; required?: readonly string[]; description?: string };
+
+/**
+ * Declared output contract of one prompt
+ */
+export interface StructuredOutputSpec<T> {
+	promptId: string;
+	schema: JsonSchema;
+	/** Optional mapping from the validated JSON to the caller's type */
+	transform?: (value: unknown) => T;
+}
+
+export type StructuredParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface StructuredOutputResult<T> {
+	value: T | null; // null when the repair attempt also failed
+	outcome: StructuredOutputOutcome;
+	attempts: number;
+	errors: string[]; // Validation errors of the last attempt
+	rawContent: string; // Last model output, for callers that salvage partial results
+}
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+function describeType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+/**
+ * Validate a parsed JSON value against a schema, returning one message per violation
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+	switch (schema.type) {
+		case 'string': {
+			if (value === null && schema.nullable) return [];
+			if (typeof value !== 'string') return [`${path}: expected string, got ${describeType(value)}`];
+			if (schema.enum && !schema.enum.includes(value)) return [`${path}: must be one of ${schema.enum.join(', ')}`];
+			if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+				return [`${path}: must be at least ${schema.minLength} character(s)`];
+			}
+			return [];
+		}
+		case 'number':
+		case 'integer': {
+			if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+			if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: expected integer, got ${value}`];
+			if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`];
+			if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be <= ${schema.maximum}`];
+			return [];
+		}
+		case 'boolean':
+			return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describeType(value)}`];
+		case 'array': {
+			if (!Array.isArray(value)) return [`${path}: expected array, got ${describeType(value)}`];
+			const errors: string[] = [];
+			if (schema.minItems !== undefined && value.length < schema.minItems) {
+				errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+			}
+			if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+				errors.push(`${path}: expected at most ${schema.maxItems} item(s), got ${value.length}`);
+			}
+			if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+				errors.push(`${path}: items must be unique`);
+			}
+			value.forEach((item, index) => errors.push(...validateJson(item, schema.items, `${path}[${index}]`)));
+			return errors;
+		}
+		case 'object': {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				return [`${path}: expected object, got ${describeType(value)}`];
+			}
+			const record = value as Record<string, unknown>;
+			const errors: string[] = [];
+			for (const key of schema.required ?? []) {
+				if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+			}
+			for (const [key, propertySchema] of Object.entries(schema.properties)) {
+				if (record[key] !== undefined) errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+			}
+			return errors;
+		}
+	}
+}
+
+/**
+ * Find the end index (inclusive) of the bracketed JSON value starting at `start`, skipping string contents
+ */
+function findClosingBracket(text: string, start: number): number {
+	const stack: string[] = [];
+	let inString = false;
+
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (char === '\\') i++;
+			else if (char === '"') inString = false;
+			continue;
+		}
+		if (char === '"') inString = true;
+		else if (char === '{') stack.push('}');
+		else if (char === '[') stack.push(']');
+		else if (char === '}' || char === ']') {
+			if (stack.pop() !== char) return -1;
+			if (stack.length === 0) return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Pull the first JSON object or array out of a model response.
+ * Handles markdown code fences and explanatory text around the JSON.
+ */
+export function extractJson(llmResponse: string, expected?: 'object' | 'array'): unknown {
+	const cleaned = llmResponse
+		.trim()
+		.replace(/```json\n?/g, '')
+		.replace(/```\n?/g, '')
+		.trim();
+
+	try {
+		return JSON.parse(cleaned);
+	} catch {
+		// Fall through to scanning for an embedded value
+	}
+
+	const openers = expected === 'object' ? ['{'] : expected === 'array' ? ['['] : ['{', '['];
+	for (let i = 0; i < cleaned.length; i++) {
+		if (!openers.includes(cleaned[i])) continue;
+		const end = findClosingBracket(cleaned, i);
+		if (end === -1) continue;
+		try {
+			return JSON.parse(cleaned.slice(i, end + 1));
+		} catch {
+			// Keep scanning
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Extract and validate a model response without calling the model again
+ */
+export function parseStructured<T>(llmResponse: string | unknown, spec: StructuredOutputSpec<T>): StructuredParseResult<T> {
+	const expected = spec.schema.type === 'object' || spec.schema.type === 'array' ? spec.schema.type : undefined;
+	const value = typeof llmResponse === 'string' ? extractJson(llmResponse, expected) : llmResponse;
+
+	if (value === undefined) {
+		return { ok: false, errors: ['$: response does not contain valid JSON'] };
+	}
+
+	const errors = validateJson(value, spec.schema);
+	if (errors.length > 0) {
+		return { ok: false, errors };
+	}
+
+	return { ok: true, value: spec.transform ? spec.transform(value) : (value as T) };
+}
+
+export function buildRepairPrompt(schema: JsonSchema, errors: string[]): string {
+	return `Your previous response did not match the required JSON format.
+
+VALIDATION ERRORS:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+REQUIRED JSON SCHEMA:
+${JSON.stringify(schema, null, 2)}
+
+Return ONLY the corrected JSON. NO explanatory text, NO markdown code fences.`;
+}
+
+/**
+ * Run a JSON-only prompt, validate the output and attempt one repair round-trip on failure
+ */
+export async function generateStructured<T>(
+	llm: ILLMPort,
+	request: LLMCompletionRequest,
+	spec: StructuredOutputSpec<T>,
+	correlationId: string,
+	metrics?: MetricsCollector,
+): Promise<StructuredOutputResult<T>> {
+	const logger = new Logger('structured-output');
+	const messages = [...request.messages];
+	let attempts = 0;
+	let rawContent = '';
+	let errors: string[] = [];
+
+	while (attempts <= MAX_REPAIR_ATTEMPTS) {
+		attempts++;
+		const response = await llm.generateCompletion({ ...request, messages }, correlationId);
+		rawContent = response.content;
+
+		const parsed = parseStructured(rawContent, spec);
+		if (parsed.ok) {
+			const outcome: StructuredOutputOutcome = attempts === 1 ? 'valid' : 'repaired';
+			metrics?.recordStructuredOutput(spec.promptId, outcome, attempts);
+			if (outcome === 'repaired') {
+				logger.info('Structured output repaired', { correlationId, metadata: { promptId: spec.promptId, attempts } });
+			}
+			return { value: parsed.value, outcome, attempts, errors: [], rawContent };
+		}
+
+		errors = parsed.errors;
+		logger.warn('Structured output failed validation', {
+			correlationId,
+			metadata: { promptId: spec.promptId, attempt: attempts, errors: errors.slice(0, 5), responsePreview: rawContent.substring(0, 200) },
+		});
+
+		messages.push({ role: 'assistant', content: rawContent }, { role: 'user', content: buildRepairPrompt(spec.schema, errors) });
+	}
+
+	metrics?.recordStructuredOutput(spec.promptId, 'failed', attempts);
+	return { value: null, outcome: 'failed', attempts, errors, rawContent };
+}
@@ -0,0 +1,89 @@
+/**
+ * Conversation Summary Prompt Template
+ *
+ * Condenses an idle conversation into one episodic memory: a short summary written so a
+ * later conversation can recall it ("last week you were planning a Paris trip"), the
+ * entities worth remembering and the user's overall sentiment.
+ */
+
+import { StructuredOutputSpec } from './structured-output';
+
+export interface ConversationSummaryContext {
+	transcript: Array<{ role: string; content: string }>; // Oldest first
+	today: string; // YYYY-MM-DD
+}
+
+export interface ConversationSummaryOutput {
+	summary: string;
+	keyEntities: {
+		airports: string[];
+		dates: string[];
+		people: string[];
+		tasks: string[];
+	};
+	sentiment: 'positive' | 'neutral' | 'negative';
+}
+
+const ENTITY_KINDS = ['airports', 'dates', 'people', 'tasks'] as const;
+const MAX_ENTITIES_PER_KIND = 5;
+const MAX_MESSAGE_CHARS = 500; // Long assistant answers (flight lists) add little to a summary
+
+export function buildConversationSummaryPrompt(context: ConversationSummaryContext): string {
+	const { transcript, today } = context;
+
+	const clip = (content: string) => (content.length > MAX_MESSAGE_CHARS ? `${content.slice(0, MAX_MESSAGE_CHARS)}…` : content);
+	const lines = transcript.map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${clip(m.content)}`).join('\n');
+
+	return `You summarize a conversation between a user and their chief-of-staff assistant so it can be remembered later. Today is ${today}.
+
+CONVERSATION:
+${lines}
+
+EXAMPLE:
+User: Find flights from JFK to Paris around May 15, back on the 20th
+Assistant: Here are three nonstop options from JFK to CDG on 2027-05-15...
+User: Remind me to renew my passport before then
+Output: {"summary": "Planned a JFK to Paris (CDG) trip for May 15-20, 2027 and set a reminder to renew the passport first.", "keyEntities": {"airports": ["JFK", "CDG"], "dates": ["2027-05-15", "2027-05-20"], "people": [], "tasks": ["Renew passport"]}, "sentiment": "positive"}
+
+INSTRUCTIONS:
+- summary: one or two sentences in past tense about what the user wanted and what was decided; no greetings or filler
+- keyEntities: airports as IATA codes, dates as YYYY-MM-DD, people by name, tasks as short imperatives; empty arrays when none
+- sentiment: the user's overall mood (positive, neutral or negative)
+- Return ONLY a JSON object with summary, keyEntities and sentiment
+- NO explanatory text, NO markdown code fences, ONLY the JSON object
+
+OUTPUT (JSON object only):`;
+}
+
+/**
+ * Output contract; entity lists are trimmed, de-duplicated and capped
+ */
+export const conversationSummaryOutputSpec: StructuredOutputSpec<ConversationSummaryOutput> = {
+	promptId: 'conversation_summary',
+	schema: {
+		type: 'object',
+		properties: {
+			summary: { type: 'string', minLength: 1 },
+			keyEntities: {
+				type: 'object',
+				properties: Object.fromEntries(ENTITY_KINDS.map((kind) => [kind, { type: 'array', items: { type: 'string' } }])),
+			},
+			sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+		},
+		required: ['summary', 'sentiment'],
+	},
+	transform: (value) => {
+		const raw = value as {
+			summary: string;
+			keyEntities?: Partial<Record<(typeof ENTITY_KINDS)[number], string[]>>;
+			sentiment: ConversationSummaryOutput['sentiment'];
+		};
+		const keyEntities = Object.fromEntries(
+			ENTITY_KINDS.map((kind) => {
+				const items = (raw.keyEntities?.[kind] ?? []).map((item) => item.trim()).filter(Boolean);
+				return [kind, [...new Set(kind === 'airports' ? items.map((code) => code.toUpperCase()) : items)].slice(0, MAX_ENTITIES_PER_KIND)];
+			}),
+		) as ConversationSummaryOutput['keyEntities'];
+		return { summary: raw.summary.trim(), keyEntities, sentiment: raw.sentiment };
+	},
+};
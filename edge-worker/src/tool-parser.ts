@@ -1,158 +1,455 @@
 /**
  * Tool Call Parser
- * Extracts tool_call markers from LLM response stream
- * Format: <tool_call name="tool_name" args={...}></tool_call>
+ * Incrementally extracts tool calls from a streaming LLM response.
+ *
+ * Recognised formats:
+ * - Marker:      <tool_call name="tool_name" args={...}></tool_call>
+ * - Llama tag:   <|python_tag|>{"name": "tool_name", "parameters": {...}}
+ *                <|python_tag|>tool_name(arg="value", other=2)
+ * - Bare JSON:   {"name": "tool_name", "parameters": {...}}   (whole response)
+ * - Bare call:   tool_name(arg="value")                         (whole response)
+ *
+ * Arguments may contain nested objects and arrays. Text that cannot be part of a
+ * tool call is released as soon as that is known, so plain answers stream without delay.
  */
 
 import { Logger } from './observability/logger';
 
 const logger = new Logger('tool-parser');
 
+export type ToolCallFormat = 'marker' | 'python_tag' | 'json' | 'python';
+
 export interface ParsedToolCall {
 	name: string;
 	args: Record<string, unknown>;
+	format?: ToolCallFormat;
+}
+
+export interface ToolCallParserOptions {
+	knownToolNames?: string[]; // Restricts bare function-call detection to these names
 }
 
+const MARKER_START = '<tool_call';
+const MARKER_END = '</tool_call>';
+// Llama 3.x emits <|python_tag|>; streamed output sometimes arrives mangled
+const PYTHON_TAGS = ['<|python_tag|>', '<|python>', '<lpython>'];
+const STOP_TOKENS = ['<|eom_id|>', '<|eot_id|>', '</python>'];
+const START_MARKERS = [MARKER_START, ...PYTHON_TAGS];
+
+type ScanResult = { status: 'complete'; end: number } | { status: 'incomplete' } | { status: 'invalid' };
+
 /**
- * State machine for parsing tool_call markers from streaming text
+ * State machine for parsing tool calls from streaming text
  */
 export class ToolCallParser {
 	private buffer = '';
-	private inToolCall = false;
-	private toolCallStart = 0;
+	private atMessageStart = true; // Nothing but whitespace released so far
+	private pendingWhitespace = '';
+
+	constructor(private readonly options: ToolCallParserOptions = {}) {}
 
 	/**
-	 * Process a chunk of text, extracting complete tool_call markers
-	 * Returns: { text: remaining text without tool calls, tools: extracted tool calls }
+	 * Process a chunk of text, extracting complete tool calls
+	 * Returns: { text: text safe to show the user, tools: extracted tool calls }
 	 */
 	processChunk(chunk: string): { text: string; tools: ParsedToolCall[]; hasIncompleteToolCall: boolean } {
-		this.buffer += chunk;
+		return this.parse(chunk, false);
+	}
 
+	/**
+	 * Flush remaining buffered content (for end of stream)
+	 */
+	flush(): { text: string; tools: ParsedToolCall[] } {
+		const result = this.parse('', true);
+		return { text: result.text, tools: result.tools };
+	}
+
+	/**
+	 * Reset parser state
+	 */
+	reset(): void {
+		this.buffer = '';
+		this.atMessageStart = true;
+		this.pendingWhitespace = '';
+	}
+
+	private parse(chunk: string, final: boolean): { text: string; tools: ParsedToolCall[]; hasIncompleteToolCall: boolean } {
+		this.buffer += chunk;
 		const tools: ParsedToolCall[] = [];
-		const toolCallRegex = /<tool_call\s+name="([^"]+)"\s+args=({[^}]*})<\/tool_call>/g;
-
-		let lastIndex = 0;
-		let textOutput = '';
-		let match;
-
-		// Extract all complete tool_call markers
-		while ((match = toolCallRegex.exec(this.buffer)) !== null) {
-			// Add text before this tool call
-			textOutput += this.buffer.slice(lastIndex, match.index);
-			lastIndex = toolCallRegex.lastIndex;
-
-			// Parse tool call
-			const toolName = match[1];
-			const argsJson = match[2];
-
-			try {
-				const args = JSON.parse(argsJson);
-				tools.push({ name: toolName, args });
-			} catch (e) {
-				const error = e instanceof Error ? e : new Error(String(e));
-				logger.warn('Failed to parse tool call arguments', {
-					metadata: {
-						toolName,
-						argsJson,
-						error: error.message,
-					},
-				});
-				// Skip malformed tool call
+		let text = '';
+
+		while (this.buffer.length > 0) {
+			if (this.atMessageStart) {
+				const step = this.parseMessageStart(final);
+				if (step === 'wait') break;
+				if (step === 'text') {
+					this.atMessageStart = false;
+					this.buffer = this.pendingWhitespace + this.buffer;
+					this.pendingWhitespace = '';
+					continue;
+				}
+				tools.push(...step.tools);
+				this.buffer = this.buffer.slice(step.consumed);
+				continue;
 			}
+
+			const startIndex = this.findMarkerStart();
+			if (startIndex === -1) {
+				// Hold back a tail that could be the beginning of a marker
+				const holdFrom = final ? this.buffer.length : this.partialMarkerIndex();
+				text += this.buffer.slice(0, holdFrom);
+				this.buffer = this.buffer.slice(holdFrom);
+				break;
+			}
+
+			text += this.buffer.slice(0, startIndex);
+			this.buffer = this.buffer.slice(startIndex);
+
+			const step = this.buffer.startsWith(MARKER_START) ? this.parseMarker(final) : this.parsePythonTag(final);
+			if (step === 'wait') break;
+			if (step === 'text') {
+				// Looked like a marker but is not one: release the first character and keep scanning
+				text += this.buffer[0];
+				this.buffer = this.buffer.slice(1);
+				continue;
+			}
+			tools.push(...step.tools);
+			this.buffer = this.buffer.slice(step.consumed);
 		}
 
-		// Add remaining text after last tool call
-		textOutput += this.buffer.slice(lastIndex);
+		if (final) {
+			text += this.buffer;
+			this.buffer = '';
+		}
 
-		// Check if we have an incomplete tool call at the end
-		const incompleteMark = '<tool_call';
-		const incompleteIndex = this.buffer.lastIndexOf(incompleteMark);
-		let hasIncomplete = false;
+		return { text: this.stripStopTokens(text), tools, hasIncompleteToolCall: this.buffer.length > 0 };
+	}
 
-		if (incompleteIndex > -1 && incompleteIndex >= lastIndex) {
-			// We have an incomplete tool_call marker
-			// Keep it in buffer for next chunk
-			textOutput = textOutput.slice(0, textOutput.length - (this.buffer.length - incompleteIndex));
-			this.buffer = this.buffer.slice(incompleteIndex);
-			hasIncomplete = true;
-		} else {
-			// All tool calls were complete, clear buffer
+	/**
+	 * At the start of a message the whole response may be a bare JSON or function call
+	 */
+	private parseMessageStart(final: boolean): ParseStep {
+		const leading = this.buffer.match(/^\s*/)?.[0] ?? '';
+		if (leading.length === this.buffer.length) {
+			this.pendingWhitespace += leading;
 			this.buffer = '';
+			return 'wait';
+		}
+		if (leading) {
+			this.pendingWhitespace += leading;
+			this.buffer = this.buffer.slice(leading.length);
+		}
+
+		if (START_MARKERS.some((marker) => this.buffer.startsWith(marker))) return 'text';
+		if (!final && START_MARKERS.some((marker) => marker.startsWith(this.buffer))) return 'wait';
+
+		if (this.buffer.startsWith('{')) {
+			const scan = scanBalanced(this.buffer, 0, '{', '}');
+			if (scan.status === 'incomplete') return final ? 'text' : 'wait';
+			if (scan.status === 'invalid') return 'text';
+			const tool = parseJsonToolCall(this.buffer.slice(0, scan.end), 'json');
+			return tool && this.isOnlyTrailingNoise(scan.end, final)
+				? { tools: [tool], consumed: scan.end }
+				: this.waitOrText(tool, scan.end, final);
+		}
+
+		const identifier = this.buffer.match(/^([a-z_][a-z0-9_]*)(\s*)(\(?)/);
+		if (identifier && identifier[0].length === this.buffer.length && !identifier[3]) {
+			return final ? 'text' : 'wait';
+		}
+		if (identifier && identifier[3] && this.isToolName(identifier[1])) {
+			const open = identifier[0].length - 1;
+			const scan = scanBalanced(this.buffer, open, '(', ')');
+			if (scan.status === 'incomplete') return final ? 'text' : 'wait';
+			if (scan.status === 'invalid') return 'text';
+			const tool = parsePythonToolCall(this.buffer.slice(0, scan.end), 'python');
+			return tool && this.isOnlyTrailingNoise(scan.end, final)
+				? { tools: [tool], consumed: scan.end }
+				: this.waitOrText(tool, scan.end, final);
 		}
 
-		return { text: textOutput, tools, hasIncompleteToolCall: hasIncomplete };
+		return 'text';
 	}
 
 	/**
-	 * Flush remaining buffered content (for end of stream)
+	 * A bare call only counts if nothing but whitespace/stop tokens follows it
 	 */
-	flush(): { text: string; tools: ParsedToolCall[] } {
-		const result = this.processChunk('');
-		return { text: result.text, tools: result.tools };
+	private isOnlyTrailingNoise(end: number, final: boolean): boolean {
+		const rest = this.stripStopTokens(this.buffer.slice(end)).trim();
+		return rest.length === 0 && final;
+	}
+
+	private waitOrText(tool: ParsedToolCall | null, end: number, final: boolean): ParseStep {
+		if (!tool) return 'text';
+		const rest = this.stripStopTokens(this.buffer.slice(end)).trim();
+		// Complete call so far; wait for the end of the stream unless real text follows
+		if (rest.length === 0 && !final) return 'wait';
+		if (rest.startsWith(';') || rest.startsWith('<|')) return final ? { tools: [tool], consumed: this.buffer.length } : 'wait';
+		return 'text';
+	}
+
+	private parseMarker(final: boolean): ParseStep {
+		const header = this.buffer.match(/^<tool_call\s+name="([^"]+)"\s+args=/);
+		if (!header) {
+			// Wait while the header may still be arriving
+			const couldStillMatch = !/[{>]/.test(this.buffer) && this.buffer.length < 120;
+			return couldStillMatch && !final ? 'wait' : 'text';
+		}
+
+		const argsStart = header[0].length;
+		if (this.buffer.length === argsStart) return final ? 'text' : 'wait';
+
+		const scan = scanBalanced(this.buffer, argsStart, '{', '}');
+		if (scan.status === 'incomplete') return final ? 'text' : 'wait';
+		if (scan.status === 'invalid') return 'text';
+
+		const closing = this.buffer.slice(scan.end).match(/^\s*(><\/tool_call>|\/>|<\/tool_call>)/);
+		if (!closing) {
+			const rest = this.buffer.slice(scan.end).trim();
+			const closings = ['></tool_call>', '/>', MARKER_END];
+			return !final && closings.some((c) => c.startsWith(rest)) ? 'wait' : 'text';
+		}
+
+		const consumed = scan.end + closing[0].length;
+		const argsJson = this.buffer.slice(argsStart, scan.end);
+		try {
+			const args = JSON.parse(argsJson);
+			return { tools: [{ name: header[1], args, format: 'marker' }], consumed };
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e));
+			logger.warn('Failed to parse tool call arguments', {
+				metadata: {
+					toolName: header[1],
+					argsJson,
+					error: error.message,
+				},
+			});
+			// Skip malformed tool call
+			return { tools: [], consumed };
+		}
 	}
 
 	/**
-	 * Reset parser state
+	 * Everything after a python tag is tool-call code: JSON objects or function calls separated by ';'
 	 */
-	reset(): void {
-		this.buffer = '';
-		this.inToolCall = false;
+	private parsePythonTag(final: boolean): ParseStep {
+		const tag = PYTHON_TAGS.find((t) => this.buffer.startsWith(t));
+		if (!tag) {
+			return !final && PYTHON_TAGS.some((t) => t.startsWith(this.buffer)) ? 'wait' : 'text';
+		}
+
+		const tools: ParsedToolCall[] = [];
+		let index = tag.length;
+
+		while (true) {
+			while (index < this.buffer.length && /[\s;]/.test(this.buffer[index])) index++;
+			const stopToken = STOP_TOKENS.find((t) => this.buffer.startsWith(t, index));
+			if (stopToken) {
+				index += stopToken.length;
+				continue;
+			}
+			if (index >= this.buffer.length) {
+				return final ? { tools, consumed: index } : 'wait';
+			}
+
+			const rest = this.buffer.slice(index);
+			let scan: ScanResult;
+			let tool: ParsedToolCall | null = null;
+
+			if (rest.startsWith('{')) {
+				scan = scanBalanced(this.buffer, index, '{', '}');
+				if (scan.status === 'complete') tool = parseJsonToolCall(this.buffer.slice(index, scan.end), 'python_tag');
+			} else {
+				const call = rest.match(/^[a-zA-Z_][a-zA-Z0-9_.]*\s*\(/);
+				if (!call) {
+					if (!final && /^[a-zA-Z_][a-zA-Z0-9_.]*\s*$/.test(rest)) return 'wait';
+					// Not code: the rest is text
+					return { tools, consumed: index };
+				}
+				scan = scanBalanced(this.buffer, index + call[0].length - 1, '(', ')');
+				if (scan.status === 'complete') tool = parsePythonToolCall(this.buffer.slice(index, scan.end), 'python_tag');
+			}
+
+			if (scan.status === 'incomplete') return final ? { tools, consumed: this.buffer.length } : 'wait';
+			if (scan.status === 'invalid' || !tool) return { tools, consumed: index };
+
+			tools.push(tool);
+			index = scan.end;
+		}
+	}
+
+	private findMarkerStart(): number {
+		const indexes = START_MARKERS.map((marker) => this.buffer.indexOf(marker)).filter((i) => i !== -1);
+		return indexes.length > 0 ? Math.min(...indexes) : -1;
+	}
+
+	/**
+	 * Index where a trailing partial marker or stop token (e.g. "<tool_" or "<|pyth") begins, or buffer length
+	 */
+	private partialMarkerIndex(): number {
+		const lastOpen = this.buffer.lastIndexOf('<');
+		if (lastOpen === -1) return this.buffer.length;
+		const tail = this.buffer.slice(lastOpen);
+		return [...START_MARKERS, ...STOP_TOKENS].some((marker) => marker.startsWith(tail)) ? lastOpen : this.buffer.length;
+	}
+
+	private isToolName(name: string): boolean {
+		if (this.options.knownToolNames) {
+			return this.options.knownToolNames.includes(name);
+		}
+		return name.includes('_');
+	}
+
+	private stripStopTokens(text: string): string {
+		return STOP_TOKENS.reduce((result, token) => result.split(token).join(''), text);
+	}
+}
+
+type ParseStep = 'wait' | 'text' | { tools: ParsedToolCall[]; consumed: number };
+
+/**
+ * Find the end of a balanced {...} / (...) / [...] block starting at `start`, skipping strings
+ */
+function scanBalanced(text: string, start: number, open: string, close: string): ScanResult {
+	if (text[start] !== open) return { status: 'invalid' };
+
+	const stack: string[] = [];
+	const pairs: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+	let quote: string | null = null;
+
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = null;
+			}
+			continue;
+		}
+
+		if (char === '"' || char === "'") {
+			quote = char;
+		} else if (pairs[char]) {
+			stack.push(pairs[char]);
+		} else if (char === '}' || char === ']' || char === ')') {
+			if (stack.pop() !== char) return { status: 'invalid' };
+			if (stack.length === 0) {
+				return close === char ? { status: 'complete', end: i + 1 } : { status: 'invalid' };
+			}
+		}
+	}
+
+	return { status: 'incomplete' };
+}
+
+/**
+ * {"name": "...", "parameters": {...}} / {"name": "...", "arguments": {...}} / {"type": "function", "name": ..., ...rest}
+ */
+function parseJsonToolCall(json: string, format: ToolCallFormat): ParsedToolCall | null {
+	try {
+		const parsed = JSON.parse(json);
+		if (!parsed || typeof parsed !== 'object' || typeof parsed.name !== 'string') return null;
+
+		let args = parsed.parameters ?? parsed.arguments;
+		if (typeof args === 'string') {
+			args = JSON.parse(args);
+		}
+		if (!args) {
+			// If neither parameters nor arguments, construct from all props except name, type
+			const { name, type, ...rest } = parsed;
+			args = rest;
+		}
+		if (typeof args !== 'object' || Array.isArray(args)) return null;
+
+		return { name: parsed.name, args, format };
+	} catch {
+		// Not valid JSON or doesn't match tool call structure
+		return null;
 	}
 }
 
 /**
- * Test parser with examples
+ * tool_name(arg1="value", arg2=2, flag=True, filters={"stops": 0})
  */
-export function testParser(): void {
-	const parser = new ToolCallParser();
-
-	// Test 1: Single tool call
-	const chunk1 =
-		'Let me search for flights. <tool_call name="search_flights" args={"origin":"SFO","destination":"CDG","departure_date":"2025-05-10"}></tool_call> I found some options.';
-	const result1 = parser.processChunk(chunk1);
-	logger.info('ToolCallParser Test 1', {
-		metadata: { result: result1 },
-	});
-	// Expected: text: 'Let me search for flights.  I found some options.', tools: [{name: 'search_flights', args: {...}}]
-
-	parser.reset();
-
-	// Test 2: Multiple tool calls
-	const chunk2 =
-		'<tool_call name="list_events" args={"timeMin":"2025-05-10T00:00:00Z","timeMax":"2025-05-15T23:59:59Z"}></tool_call> Your calendar shows... <tool_call name="search_flights" args={"origin":"SFO","destination":"JFK","departure_date":"2025-05-10"}></tool_call> Here are flights.';
-	const result2 = parser.processChunk(chunk2);
-	logger.info('ToolCallParser Test 2', {
-		metadata: { result: result2 },
-	});
-	// Expected: 2 tools extracted
-
-	parser.reset();
-
-	// Test 3: Incomplete tool call at chunk boundary
-	const chunk3a = 'Let me search. <tool_call name="search_flights" args={"origin":"';
-	const result3a = parser.processChunk(chunk3a);
-	logger.info('ToolCallParser Test 3a', {
-		metadata: { result: result3a },
-	});
-	// Expected: hasIncompleteToolCall: true
-
-	const chunk3b = 'SFO","destination":"CDG","departure_date":"2025-05-10"}></tool_call> Done.';
-	const result3b = parser.processChunk(chunk3b);
-	logger.info('ToolCallParser Test 3b', {
-		metadata: { result: result3b },
-	});
-	// Expected: 1 tool extracted
-
-	parser.reset();
-
-	// Test 4: No tool calls
-	const chunk4 = 'Just regular text, no tools here.';
-	const result4 = parser.processChunk(chunk4);
-	logger.info('ToolCallParser Test 4', {
-		metadata: { result: result4 },
-	});
-	// Expected: text: 'Just regular text, no tools here.', tools: []
+function parsePythonToolCall(code: string, format: ToolCallFormat): ParsedToolCall | null {
+	const match = code.match(/^([a-zA-Z_][a-zA-Z0-9_.]*)\s*\(([\s\S]*)\)$/);
+	if (!match) return null;
+
+	// Llama sometimes namespaces calls, e.g. brave_search.call(...)
+	const name = match[1].split('.')[0];
+	const args: Record<string, unknown> = {};
+
+	for (const part of splitTopLevel(match[2])) {
+		const arg = part.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*([\s\S]+)$/);
+		if (!arg) continue;
+		args[arg[1]] = parsePythonValue(arg[2].trim());
+	}
+
+	return { name, args, format };
 }
 
-// Uncomment to run tests
-// testParser();
+/**
+ * Split on commas that are not inside quotes or brackets
+ */
+function splitTopLevel(argsString: string): string[] {
+	const parts: string[] = [];
+	let current = '';
+	let depth = 0;
+	let quote: string | null = null;
+
+	for (let i = 0; i < argsString.length; i++) {
+		const char = argsString[i];
+
+		if (quote) {
+			if (char === '\\') {
+				current += char + (argsString[i + 1] ?? '');
+				i++;
+				continue;
+			}
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if ('{[('.includes(char)) {
+			depth++;
+		} else if ('}])'.includes(char)) {
+			depth--;
+		} else if (char === ',' && depth === 0) {
+			parts.push(current.trim());
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+
+	if (current.trim()) {
+		parts.push(current.trim());
+	}
+	return parts;
+}
+
+function parsePythonValue(value: string): unknown {
+	if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+		return value.slice(1, -1);
+	}
+	if (/^-?\d+$/.test(value)) return parseInt(value, 10);
+	if (/^-?\d+\.\d+$/.test(value)) return parseFloat(value);
+	if (value === 'True' || value === 'true') return true;
+	if (value === 'False' || value === 'false') return false;
+	if (value === 'None' || value === 'null') return null;
+	if (value.startsWith('{') || value.startsWith('[')) {
+		try {
+			return JSON.parse(
+				value
+					.replace(/'/g, '"')
+					.replace(/\bTrue\b/g, 'true')
+					.replace(/\bFalse\b/g, 'false')
+					.replace(/\bNone\b/g, 'null'),
+			);
+		} catch {
+			return value;
+		}
+	}
+	return value;
+}
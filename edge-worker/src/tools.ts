@@ -1,35 +1,21 @@
 /**
- * Tool definitions and execution layer
+ * Tool registry and execution layer
  *
- * Maps .agent/tools specifications to executable tool invocations.
+ * Registers the tools described in tools/catalog.ts (which mirrors .agent/tools)
+ * and executes them with schema validation and KV caching.
  * Handles tool_call/tool_result event emissions for streaming chat.
  *
  * Supported tools:
  * - flights-mcp: Search flights via Duffel API
- * - google-calendar-mcp: Query calendar events
+ * - google-calendar-mcp: Query, create, update and delete calendar events (writes wait for confirmation)
  */
 
 import { WorkerEnv, SseEvent } from './env';
 import { Logger } from './observability/logger';
-import { searchFlights } from './tools/flights-handler';
-import { listEvents } from './tools/calendar-handler';
+import { TOOL_CATALOG, ToolCatalogEntry, ToolHandler, buildToolCacheKey, cacheGenerationKey, validateToolArguments } from './tools/catalog';
 
 const logger = new Logger('tools');
 
-/**
- * Tool definition with metadata and invocation spec
- */
-export interface ToolDefinition {
-	id: string;
-	name: string;
-	description: string;
-	parameters: {
-		type: 'object';
-		properties: Record<string, { type: string; description: string }>;
-		required: string[];
-	};
-}
-
 /**
  * Tool call event emitted to client before invoking tool
  */
@@ -47,91 +33,49 @@ export interface ToolResultEvent {
 	result: Record<string, unknown>;
 }
 
+/**
+ * Arguments did not match the tool's catalog schema.
+ * Messages are written for the model so it can correct its next call.
+ */
+export class ToolArgumentError extends Error {
+	constructor(
+		public readonly toolName: string,
+		public readonly errors: string[],
+	) {
+		super(`Invalid arguments for ${toolName}: ${errors.join('; ')}`);
+		this.name = 'ToolArgumentError';
+	}
+}
+
 /**
  * Registry of available tools with definitions and handlers
  */
 export class ToolRegistry {
-	private tools: Map<string, ToolDefinition> = new Map();
-	private handlers: Map<string, (args: Record<string, unknown>, env: WorkerEnv) => Promise<unknown>> = new Map();
+	private tools: Map<string, ToolCatalogEntry> = new Map();
 
-	constructor() {
-		this.registerToolsFromAgent();
+	constructor(catalog: ToolCatalogEntry[] = TOOL_CATALOG) {
+		for (const tool of catalog) {
+			this.register(tool);
+		}
 	}
 
-	private registerToolsFromAgent(): void {
-		// Flights MCP
-		this.register(
-			'flights-mcp::search-flights',
-			{
-				id: 'flights-mcp::search-flights',
-				name: 'search_flights',
-				description: 'Search for available flights between origin and destination',
-				parameters: {
-					type: 'object',
-					properties: {
-						origin: { type: 'string', description: 'IATA code (e.g., SFO)' },
-						destination: { type: 'string', description: 'IATA code (e.g., CDG)' },
-						departure_date: { type: 'string', description: 'YYYY-MM-DD format' },
-						return_date: { type: 'string', description: 'YYYY-MM-DD format (optional)' },
-						adults: { type: 'number', description: 'Number of adults (default: 1)' },
-						cabin_class: {
-							type: 'string',
-							description: 'economy | premium_economy | business | first',
-						},
-						max_connections: {
-							type: 'number',
-							description: 'Maximum number of stops (default: 2)',
-						},
-					},
-					required: ['origin', 'destination', 'departure_date'],
-				},
-			},
-			searchFlights,
-		);
-
-		// Google Calendar MCP
-		this.register(
-			'google-calendar-mcp::list-events',
-			{
-				id: 'google-calendar-mcp::list-events',
-				name: 'list_events',
-				description: 'Fetch calendar events within a date range',
-				parameters: {
-					type: 'object',
-					properties: {
-						calendarId: { type: 'string', description: 'Calendar ID (default: primary)' },
-						timeMin: { type: 'string', description: 'ISO 8601 start time' },
-						timeMax: { type: 'string', description: 'ISO 8601 end time' },
-						maxResults: {
-							type: 'number',
-							description: 'Max events to return (default: 25, max: 2500)',
-						},
-						singleEvents: {
-							type: 'boolean',
-							description: 'Expand recurring events (default: false)',
-						},
-					},
-					required: ['timeMin', 'timeMax'],
-				},
-			},
-			listEvents,
-		);
+	register(tool: ToolCatalogEntry): void {
+		this.tools.set(tool.id, tool);
 	}
 
-	register(id: string, definition: ToolDefinition, handler: (args: Record<string, unknown>, env: WorkerEnv) => Promise<unknown>): void {
-		this.tools.set(id, definition);
-		this.handlers.set(id, handler);
+	getTool(id: string): ToolCatalogEntry | undefined {
+		return this.tools.get(id);
 	}
 
-	getTool(id: string): ToolDefinition | undefined {
-		return this.tools.get(id);
+	getToolByName(name: string): ToolCatalogEntry | undefined {
+		return this.listTools().find((tool) => tool.name === name);
 	}
 
-	getHandler(id: string): ((args: Record<string, unknown>, env: WorkerEnv) => Promise<unknown>) | undefined {
-		return this.handlers.get(id);
+	getHandler(id: string): ToolHandler | undefined {
+		return this.tools.get(id)?.handler;
 	}
 
-	listTools(): ToolDefinition[] {
+	listTools(): ToolCatalogEntry[] {
 		return Array.from(this.tools.values());
 	}
 }
@@ -150,7 +94,7 @@ export class ToolExecutor {
 		this.correlationId = correlationId;
 	}
 
-	async execute(toolId: string, args: Record<string, unknown>, send: (event: SseEvent) => void): Promise<unknown> {
+	async execute(toolId: string, args: Record<string, unknown>, send: (event: SseEvent) => void, signal?: AbortSignal): Promise<unknown> {
 		const tool = this.registry.getTool(toolId);
 		if (!tool) {
 			throw new Error(`Tool not found: ${toolId}`);
@@ -161,12 +105,22 @@ export class ToolExecutor {
 			throw new Error(`Handler not registered for tool: ${toolId}`);
 		}
 
+		const validation = validateToolArguments(tool, args);
+		if (!validation.valid) {
+			logger.warn('Tool arguments failed schema validation', {
+				correlationId: this.correlationId,
+				metadata: { toolId, toolName: tool.name, errors: validation.errors },
+			});
+			throw new ToolArgumentError(tool.name, validation.errors);
+		}
+		args = validation.args;
+
 		const operationId = crypto.randomUUID();
 		const toolInvocationId = crypto.randomUUID();
 
 		try {
 			// Check cache before invoking (for cacheable tools)
-			const cacheKey = this.buildCacheKey(toolId, args);
+			const cacheKey = tool.cache ? buildToolCacheKey(tool, args, await this.cacheGeneration(tool.cache.prefix)) : null;
 			let result: unknown;
 			let fromCache = false;
 
@@ -226,9 +180,32 @@ export class ToolExecutor {
 
 			// Execute tool
 			const startTime = performance.now();
-			result = await handler(args, this.env);
+			result = await handler(args, this.env, signal);
 			const latency = Math.round(performance.now() - startTime);
 
+			if (cacheKey && tool.cache) {
+				try {
+					await this.env.IDEMPOTENCY_KV.put(cacheKey, JSON.stringify(result), { expirationTtl: tool.cache.ttlSeconds });
+				} catch (e) {
+					logger.warn('Failed to cache tool result', {
+						correlationId: this.correlationId,
+						metadata: { toolId, error: e instanceof Error ? e.message : String(e) },
+					});
+				}
+			}
+
+			// A write moves its prefixes to a new generation, so reads stop hitting results cached before it
+			for (const prefix of tool.invalidates ?? []) {
+				try {
+					await this.env.IDEMPOTENCY_KV.put(cacheGenerationKey(prefix), String(Date.now()));
+				} catch (e) {
+					logger.warn('Failed to invalidate cached tool results', {
+						correlationId: this.correlationId,
+						metadata: { toolId, prefix, error: e instanceof Error ? e.message : String(e) },
+					});
+				}
+			}
+
 			// Emit tool_result event
 			const toolResultEvent: ToolResultEvent = {
 				type: 'tool_result',
@@ -267,26 +244,13 @@ export class ToolExecutor {
 		}
 	}
 
-	private buildCacheKey(toolId: string, args: Record<string, unknown>): string | null {
-		// Only cache flight and calendar searches
-		if (toolId === 'flights-mcp::search-flights') {
-			const origin = args.origin as string;
-			const destination = args.destination as string;
-			const departureDate = args.departure_date as string;
-			const cabinClass = (args.cabin_class as string) || 'economy';
-			return `flights:${origin}:${destination}:${departureDate}:${cabinClass}`;
-		}
-
-		if (toolId === 'google-calendar-mcp::list-events') {
-			const calendarId = args.calendarId as string | undefined;
-			const timeMin = args.timeMin as string;
-			const timeMax = args.timeMax as string;
-			const maxResults = (args.maxResults as number) || 25;
-			return `calendar:${calendarId || 'primary'}:${timeMin}:${timeMax}:${maxResults}`;
+	private async cacheGeneration(prefix: string): Promise<string | undefined> {
+		try {
+			return (await this.env.IDEMPOTENCY_KV.get(cacheGenerationKey(prefix))) ?? undefined;
+		} catch {
+			return undefined;
 		}
-
-		return null;
 	}
 }
 
-// Tool handlers are imported from tools/flights-handler.ts and tools/calendar-handler.ts
+// Tool definitions and handlers are declared in tools/catalog.ts
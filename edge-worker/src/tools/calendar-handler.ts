@@ -1,14 +1,23 @@
 /**
  * Google Calendar MCP Handler
- * Wraps Google Calendar API for event queries
- * See: .agent/tools/google-calendar-mcp/list-events.md
+ * Lists, creates, updates and deletes events through ICalendarPort (GoogleCalendarAdapter, or
+ * the fixture provider; see adapters/mcp/calendar-provider.ts) and returns them in the Google
+ * Calendar event shape. Writes only run once the user has confirmed them (catalog `confirm`).
+ * See: .agent/tools/google-calendar-mcp/list-events.md, create-event.md, update-event.md, delete-event.md
  */
 
 import { WorkerEnv } from '../env';
 import { Logger } from '../observability/logger';
+import { CalendarEventInput, ICalendarPort } from '../domain/calendar/ports/calendar.port';
+import { CalendarEvent as CalendarEventEntity } from '../domain/calendar/entities/calendar-event.entity';
+import { createCalendarPort } from '../adapters/mcp/calendar-provider';
+import { parseLocalDateTime } from '../domain/shared';
 
 const logger = new Logger('calendar-handler');
 
+// The MCP server is connected to a single account; the id only labels adapter logs
+const CALENDAR_USER = 'primary';
+
 export interface ListEventsRequest {
 	calendarId?: string; // Default: 'primary'
 	timeMin: string; // ISO 8601
@@ -29,10 +38,14 @@ export interface CalendarEvent {
 	summary: string;
 	description?: string;
 	location?: string;
-	start: { dateTime?: string; date?: string };
-	end: { dateTime?: string; date?: string };
-	created: string;
-	updated: string;
+	start: { dateTime?: string; date?: string; timeZone?: string }; // date (YYYY-MM-DD) for all-day events
+	end: { dateTime?: string; date?: string; timeZone?: string }; // All-day end date is exclusive
+	allDay?: boolean;
+	recurrence?: string[]; // RRULEs of a series (singleEvents: false)
+	recurringEventId?: string; // Series of an instance (singleEvents: true)
+	status?: 'confirmed' | 'tentative' | 'cancelled';
+	created?: string;
+	updated?: string;
 	attendees?: CalendarEventAttendee[];
 }
 
@@ -57,83 +70,84 @@ function validateRequest(req: ListEventsRequest): void {
 	} catch (e) {
 		throw new Error(`Invalid time range: ${e instanceof Error ? e.message : String(e)}`);
 	}
+
+	// Same rule as the Google Calendar API: a series has no single start time to sort by
+	if (req.orderBy === 'startTime' && !req.singleEvents) {
+		throw new Error('orderBy "startTime" requires singleEvents: true');
+	}
+}
+
+/**
+ * Events in the requested order, capped at maxResults (providers are not trusted to do either)
+ */
+function orderEvents(events: CalendarEventEntity[], req: ListEventsRequest): CalendarEventEntity[] {
+	const key = (e: CalendarEventEntity) =>
+		req.orderBy === 'startTime' ? e.startTime.getTime() : Date.parse(e.metadata.updated ?? '') || Number.MAX_SAFE_INTEGER;
+	return events
+		.map((event, index) => ({ event, index }))
+		.sort((a, b) => key(a.event) - key(b.event) || a.index - b.index)
+		.slice(0, req.maxResults)
+		.map((entry) => entry.event);
 }
 
 /**
- * Builds cache key for calendar queries
+ * Domain event -> Google Calendar event shape the model and workflows read
  */
-function buildCacheKey(req: ListEventsRequest): string {
-	return `calendar:${req.calendarId || 'primary'}:${req.timeMin}:${req.timeMax}`;
+export function toToolEvent(event: CalendarEventEntity): CalendarEvent {
+	const { metadata } = event;
+	const time = (at: Date) =>
+		metadata.allDay
+			? { date: at.toISOString().split('T')[0] }
+			: { dateTime: at.toISOString(), ...(metadata.timeZone ? { timeZone: metadata.timeZone } : {}) };
+
+	return {
+		id: event.id,
+		summary: event.title,
+		description: event.description,
+		location: metadata.location,
+		start: time(event.startTime),
+		end: time(event.endTime),
+		...(metadata.allDay ? { allDay: true } : {}),
+		...(metadata.recurrence ? { recurrence: metadata.recurrence } : {}),
+		...(metadata.recurringEventId ? { recurringEventId: metadata.recurringEventId } : {}),
+		status: metadata.status,
+		created: metadata.created,
+		updated: metadata.updated,
+		attendees: metadata.attendees ?? metadata.participants?.map((email) => ({ email, responseStatus: 'needsAction' as const })),
+	};
 }
 
 /**
  * Handles calendar event list requests
- *
- * Integration Note: This method currently returns stubbed data for demonstration purposes.
- * In a production environment, this would be replaced by a direct call to the Google Calendar API
- * or an MCP client wrapper.
  */
-export async function listEvents(args: Record<string, unknown>, env: WorkerEnv): Promise<Record<string, unknown>> {
+export async function listEvents(
+	args: Record<string, unknown>,
+	env: WorkerEnv,
+	calendar: ICalendarPort = createCalendarPort(env, logger),
+): Promise<Record<string, unknown>> {
 	const req: ListEventsRequest = {
 		calendarId: (args.calendarId as string) || 'primary',
 		timeMin: args.timeMin as string,
 		timeMax: args.timeMax as string,
 		maxResults: (args.maxResults as number) || 25,
-		singleEvents: (args.singleEvents as boolean) || false,
-		orderBy: (args.orderBy as any) || 'updated',
+		singleEvents: args.singleEvents === true,
+		orderBy: args.orderBy === 'startTime' ? 'startTime' : 'updated',
 	};
 
 	// 1. Validate input
 	validateRequest(req);
 
-	// Cache is checked in ToolExecutor before this handler is called
-	// 2. Call Google Calendar API (STUB: replace with real implementation)
-	// For now, return mock data
-	const events: CalendarEvent[] = [
-		{
-			id: 'evt_stub_001',
-			summary: 'Team Standup',
-			description: 'Daily sync with the team',
-			location: 'Conference Room A',
-			start: { dateTime: req.timeMin },
-			end: { dateTime: new Date(new Date(req.timeMin).getTime() + 60 * 60 * 1000).toISOString() },
-			created: new Date().toISOString(),
-			updated: new Date().toISOString(),
-			attendees: [
-				{
-					email: 'user@company.com',
-					displayName: 'You',
-					responseStatus: 'accepted',
-				},
-				{
-					email: 'colleague@company.com',
-					displayName: 'Colleague',
-					responseStatus: 'accepted',
-				},
-			],
-		},
-		{
-			id: 'evt_stub_002',
-			summary: 'Q1 Planning Meeting',
-			description: 'Strategic planning for Q1',
-			location: 'Virtual',
-			start: {
-				dateTime: new Date(new Date(req.timeMin).getTime() + 4 * 60 * 60 * 1000).toISOString(),
-			},
-			end: {
-				dateTime: new Date(new Date(req.timeMin).getTime() + 5.5 * 60 * 60 * 1000).toISOString(),
-			},
-			created: new Date().toISOString(),
-			updated: new Date().toISOString(),
-			attendees: [
-				{
-					email: 'user@company.com',
-					displayName: 'You',
-					responseStatus: 'tentative',
-				},
-			],
-		},
-	];
+	// Cache is checked (and written) by ToolExecutor using the tool catalog key
+	// 2. Query the calendar provider
+	const listed = await calendar.listEvents({
+		calendarId: req.calendarId!,
+		timeMin: new Date(req.timeMin),
+		timeMax: new Date(req.timeMax),
+		maxResults: req.maxResults!,
+		singleEvents: req.singleEvents!,
+		orderBy: req.orderBy!,
+	});
+	const events = orderEvents(listed, req).map(toToolEvent);
 
 	const response = {
 		status: 'success',
@@ -142,33 +156,172 @@ export async function listEvents(args: Record<string, unknown>, env: WorkerEnv):
 			calendarId: req.calendarId,
 			timeMin: req.timeMin,
 			timeMax: req.timeMax,
+			singleEvents: req.singleEvents,
+			orderBy: req.orderBy,
 			count: events.length,
+			truncated: listed.length > events.length,
 		},
 	};
 
-	// 4. Cache results for 5 minutes
-	try {
-		const cacheKey = buildCacheKey(req);
-		await env.IDEMPOTENCY_KV.put(cacheKey, JSON.stringify(response), {
-			expirationTtl: 5 * 60,
-		});
-	} catch (e) {
-		logger.warn('Failed to cache calendar events', {
-			metadata: {
-				error: e instanceof Error ? e.message : String(e),
-				calendarId: req.calendarId,
-			},
-		});
-	}
-
 	logger.info('Calendar events list completed', {
 		metadata: {
 			calendarId: req.calendarId,
 			eventCount: events.length,
 			timeMin: req.timeMin,
 			timeMax: req.timeMax,
+			singleEvents: req.singleEvents,
+			orderBy: req.orderBy,
 		},
 	});
 
 	return response;
 }
+
+/**
+ * Write tool arguments -> event fields; attendees are a comma-separated list of emails.
+ * Times without an offset are wall-clock times in args.timeZone (the user's zone, UTC when absent).
+ */
+function toEventInput(args: Record<string, unknown>): CalendarEventInput {
+	const participants =
+		typeof args.attendees === 'string'
+			? args.attendees
+					.split(',')
+					.map((email) => email.trim())
+					.filter(Boolean)
+			: undefined;
+	const timeZone = typeof args.timeZone === 'string' ? args.timeZone : undefined;
+	const at = (value: unknown) => (typeof value === 'string' ? (parseLocalDateTime(value, timeZone) ?? undefined) : undefined);
+
+	return {
+		title: args.summary as string | undefined,
+		description: args.description as string | undefined,
+		startTime: at(args.start),
+		endTime: at(args.end),
+		metadata: {
+			...(args.location ? { location: args.location as string } : {}),
+			...(participants?.length ? { participants } : {}),
+			...(timeZone ? { timeZone } : {}),
+		},
+	};
+}
+
+function validateTimes(event: CalendarEventInput): void {
+	// Without the current event the handler can't keep its duration, so a move names both ends
+	if (!event.startTime !== !event.endTime) {
+		throw new Error('start and end must be given together');
+	}
+	if (event.startTime && event.endTime && event.startTime >= event.endTime) {
+		throw new Error('start must be before end');
+	}
+}
+
+/**
+ * [YYYY-MM-DD, HH:MM] of an instant in the time zone
+ */
+function localParts(at: Date, timeZone: string): [string, string] {
+	const parts = new Intl.DateTimeFormat('en-CA', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+	}).formatToParts(at);
+	const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+	return [`${part('year')}-${part('month')}-${part('day')}`, `${part('hour')}:${part('minute')}`];
+}
+
+/**
+ * A range in the user's zone: "2026-11-19 14:00–16:00 America/New_York"
+ */
+function formatRange(start: Date, end: Date, timeZone: string = 'UTC'): string {
+	const [startDay, startTime] = localParts(start, timeZone);
+	const [endDay, endTime] = localParts(end, timeZone);
+	return startDay === endDay
+		? `${startDay} ${startTime}–${endTime} ${timeZone}`
+		: `${startDay} ${startTime} ${timeZone} – ${endDay} ${endTime} ${timeZone}`;
+}
+
+/**
+ * Creates an event
+ * See: .agent/tools/google-calendar-mcp/create-event.md
+ */
+export async function createEvent(
+	args: Record<string, unknown>,
+	env: WorkerEnv,
+	calendar: ICalendarPort = createCalendarPort(env, logger),
+): Promise<Record<string, unknown>> {
+	const input = toEventInput(args);
+	validateTimes(input);
+
+	const event = await calendar.createEvent(CALENDAR_USER, input);
+
+	logger.info('Calendar event created', { metadata: { eventId: event.id } });
+
+	return { status: 'success', data: toToolEvent(event) };
+}
+
+/**
+ * Moves, renames or otherwise changes an event; fields not given are unchanged
+ */
+export async function updateEvent(
+	args: Record<string, unknown>,
+	env: WorkerEnv,
+	calendar: ICalendarPort = createCalendarPort(env, logger),
+): Promise<Record<string, unknown>> {
+	const input = toEventInput(args);
+	validateTimes(input);
+
+	// metadata.timeZone only says how to read start and end, so on its own it changes nothing
+	const { title, description, startTime, metadata } = input;
+	const changed = [title, description, startTime, metadata?.location, metadata?.participants].some((v) => v !== undefined);
+	if (!changed) {
+		throw new Error('Nothing to change: give at least one of summary, start and end, description, location or attendees');
+	}
+
+	const event = await calendar.updateEvent(CALENDAR_USER, args.eventId as string, input);
+
+	logger.info('Calendar event updated', { metadata: { eventId: event.id } });
+
+	return { status: 'success', data: toToolEvent(event) };
+}
+
+export async function deleteEvent(
+	args: Record<string, unknown>,
+	env: WorkerEnv,
+	calendar: ICalendarPort = createCalendarPort(env, logger),
+): Promise<Record<string, unknown>> {
+	const eventId = args.eventId as string;
+	await calendar.deleteEvent(CALENDAR_USER, eventId);
+
+	logger.info('Calendar event deleted', { metadata: { eventId } });
+
+	return { status: 'success', data: { id: eventId, deleted: true } };
+}
+
+/**
+ * What a create_event call will do, as put to the user before it runs
+ */
+export function describeCreateEvent(args: Record<string, unknown>): string {
+	const { title, startTime, endTime, metadata } = toEventInput(args);
+	const where = metadata?.location ? ` at ${metadata.location}` : '';
+	const when = startTime && endTime ? ` on ${formatRange(startTime, endTime, metadata?.timeZone)}` : '';
+	return `Create "${title}"${when}${where}`;
+}
+
+export function describeUpdateEvent(args: Record<string, unknown>): string {
+	const { title, description, startTime, endTime, metadata } = toEventInput(args);
+	const changes = [
+		startTime && endTime ? `move it to ${formatRange(startTime, endTime, metadata?.timeZone)}` : null,
+		title ? `rename it to "${title}"` : null,
+		metadata?.location ? `set the location to ${metadata.location}` : null,
+		metadata?.participants ? `invite ${metadata.participants.join(', ')}` : null,
+		description ? 'change the description' : null,
+	].filter(Boolean);
+	return `Update event ${args.eventId}: ${changes.join(', ')}`;
+}
+
+export function describeDeleteEvent(args: Record<string, unknown>): string {
+	return `Delete event ${args.eventId}`;
+}
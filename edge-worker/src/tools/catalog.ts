@@ -0,0 +1,396 @@
+/**
+ * Tool Catalog
+ *
+ * Single source of truth for every tool the assistant can call.
+ * Each entry mirrors its .agent/tools spec and drives:
+ * - The JSON schema offered to the LLM (toLLMToolSchema)
+ * - Argument validation before handlers run (validateToolArguments)
+ * - The KV cache key used by ToolExecutor (buildToolCacheKey), and which cached results a write makes stale
+ * - The UI label sent with tool SSE events
+ * - Whether a call needs the user's confirmation before it runs (writes)
+ *
+ * Parameter names are canonical (they match the handler and the .agent spec).
+ * Models often emit camelCase or paraphrased names, so aliases map those back.
+ */
+
+import { WorkerEnv } from '../env';
+import { ToolDefinition } from '../domain/chat/ports/llm.port';
+import { searchFlights } from './flights-handler';
+import {
+	createEvent,
+	deleteEvent,
+	describeCreateEvent,
+	describeDeleteEvent,
+	describeUpdateEvent,
+	listEvents,
+	updateEvent,
+} from './calendar-handler';
+import { AirportResolver, describeAirport } from '../domain/travel/services/airport-resolver.service';
+import { assertTimeZone } from '../domain/shared';
+
+export type ToolParameterType = 'string' | 'number' | 'boolean';
+
+export interface ToolParameterSpec {
+	type: ToolParameterType;
+	description: string;
+	// date = YYYY-MM-DD, date-time = ISO 8601 (date accepted), iata = airport/metro code or city name, time-zone = IANA name
+	format?: 'date' | 'date-time' | 'iata' | 'time-zone';
+	enum?: string[];
+	default?: string | number | boolean;
+	minimum?: number;
+	maximum?: number;
+}
+
+// signal aborts when the chat turn that called the tool is cancelled
+export type ToolHandler = (args: Record<string, unknown>, env: WorkerEnv, signal?: AbortSignal) => Promise<unknown>;
+
+export interface ToolCatalogEntry {
+	id: string; // Internal id: <mcp>::<operation>
+	name: string; // LLM-facing function name
+	label: string; // Shown in the chat tool timeline
+	description: string;
+	spec: string; // .agent/tools specification
+	parameters: Record<string, ToolParameterSpec>;
+	required: string[];
+	aliases?: Record<string, string>; // Alternative argument name -> canonical name
+	cache?: {
+		prefix: string;
+		keyFields: string[];
+		ttlSeconds: number;
+	};
+	invalidates?: string[]; // Cache prefixes a successful call makes stale, e.g. calendar after an event is created
+	confirm?: {
+		describe: (args: Record<string, unknown>) => string; // The change as put to the user, e.g. Create "Deck prep" on ...
+	};
+	handler: ToolHandler;
+}
+
+export const TOOL_CATALOG: ToolCatalogEntry[] = [
+	{
+		id: 'flights-mcp::search-flights',
+		name: 'search_flights',
+		label: 'Flight Search',
+		description: 'Search for available flights between two airports on a specific date',
+		spec: '.agent/tools/flights-mcp/search-flights.md',
+		parameters: {
+			origin: { type: 'string', format: 'iata', description: 'Origin IATA airport or metro code (e.g., SFO, NYC)' },
+			destination: { type: 'string', format: 'iata', description: 'Destination IATA airport or metro code (e.g., CDG, LON)' },
+			departure_date: { type: 'string', format: 'date', description: 'Departure date in YYYY-MM-DD format' },
+			return_date: { type: 'string', format: 'date', description: 'Return date in YYYY-MM-DD format (round trips only)' },
+			adults: { type: 'number', description: 'Number of adult passengers', default: 1, minimum: 1, maximum: 9 },
+			cabin_class: {
+				type: 'string',
+				description: 'Cabin class',
+				enum: ['economy', 'premium_economy', 'business', 'first'],
+				default: 'economy',
+			},
+			max_connections: { type: 'number', description: 'Maximum number of stops', default: 2, minimum: 0, maximum: 3 },
+		},
+		required: ['origin', 'destination', 'departure_date'],
+		aliases: {
+			from: 'origin',
+			to: 'destination',
+			date: 'departure_date',
+			departure: 'departure_date',
+			return: 'return_date',
+			passengers: 'adults',
+			cabin: 'cabin_class',
+			stops: 'max_connections',
+		},
+		cache: {
+			prefix: 'flights',
+			keyFields: ['origin', 'destination', 'departure_date', 'return_date', 'adults', 'cabin_class'],
+			ttlSeconds: 30 * 60,
+		},
+		handler: searchFlights,
+	},
+	{
+		id: 'google-calendar-mcp::list-events',
+		name: 'list_events',
+		label: 'Calendar Query',
+		description: 'List calendar events in a time range to check availability and conflicts',
+		spec: '.agent/tools/google-calendar-mcp/list-events.md',
+		parameters: {
+			timeMin: { type: 'string', format: 'date-time', description: 'Range start, ISO 8601 (e.g., 2025-05-15 or 2025-05-15T09:00:00Z)' },
+			timeMax: { type: 'string', format: 'date-time', description: 'Range end, ISO 8601, after timeMin' },
+			calendarId: { type: 'string', description: 'Calendar ID', default: 'primary' },
+			maxResults: { type: 'number', description: 'Maximum events to return', default: 25, minimum: 1, maximum: 2500 },
+			singleEvents: {
+				type: 'boolean',
+				description: 'Expand recurring events into one entry per occurrence; otherwise a series is listed once with its recurrence',
+				default: false,
+			},
+			orderBy: {
+				type: 'string',
+				description: 'Sort order; startTime requires singleEvents true',
+				enum: ['startTime', 'updated'],
+				default: 'updated',
+			},
+		},
+		required: ['timeMin', 'timeMax'],
+		aliases: {
+			startDate: 'timeMin',
+			start_date: 'timeMin',
+			start: 'timeMin',
+			endDate: 'timeMax',
+			end_date: 'timeMax',
+			end: 'timeMax',
+		},
+		cache: {
+			prefix: 'calendar',
+			keyFields: ['calendarId', 'timeMin', 'timeMax', 'maxResults', 'singleEvents', 'orderBy'],
+			ttlSeconds: 5 * 60,
+		},
+		// The calendar handlers' third parameter is the ICalendarPort (injected in tests), not the signal
+		handler: (args, env) => listEvents(args, env),
+	},
+	{
+		id: 'google-calendar-mcp::create-event',
+		name: 'create_event',
+		label: 'Create Event',
+		description: 'Create a calendar event or block time. The user is asked to confirm before it is created.',
+		spec: '.agent/tools/google-calendar-mcp/create-event.md',
+		parameters: {
+			summary: { type: 'string', description: 'Event title (e.g., Deck prep)' },
+			start: { type: 'string', format: 'date-time', description: 'Start, local date-time without offset (e.g., 2025-05-15T14:00:00)' },
+			end: { type: 'string', format: 'date-time', description: 'End, local date-time without offset, after start' },
+			timeZone: { type: 'string', format: 'time-zone', description: "IANA time zone start and end are in; defaults to the user's" },
+			description: { type: 'string', description: 'Event description' },
+			location: { type: 'string', description: 'Room, address or meeting link' },
+			attendees: { type: 'string', description: 'Comma-separated attendee emails' },
+			taskId: { type: 'string', description: 'ID of the task this event makes time for, if any' },
+		},
+		required: ['summary', 'start', 'end'],
+		aliases: {
+			title: 'summary',
+			name: 'summary',
+			startTime: 'start',
+			start_time: 'start',
+			endTime: 'end',
+			end_time: 'end',
+			timezone: 'timeZone',
+		},
+		invalidates: ['calendar'],
+		confirm: { describe: describeCreateEvent },
+		handler: (args, env) => createEvent(args, env),
+	},
+	{
+		id: 'google-calendar-mcp::update-event',
+		name: 'update_event',
+		label: 'Update Event',
+		description:
+			'Move, rename or change an existing calendar event (get its id from list_events). The user is asked to confirm before it changes.',
+		spec: '.agent/tools/google-calendar-mcp/update-event.md',
+		parameters: {
+			eventId: { type: 'string', description: 'ID of the event, from list_events' },
+			summary: { type: 'string', description: 'New title' },
+			start: { type: 'string', format: 'date-time', description: 'New start, local date-time without offset; give end too' },
+			end: { type: 'string', format: 'date-time', description: 'New end, local date-time without offset; give start too' },
+			timeZone: { type: 'string', format: 'time-zone', description: "IANA time zone start and end are in; defaults to the user's" },
+			description: { type: 'string', description: 'New description' },
+			location: { type: 'string', description: 'New location' },
+			attendees: { type: 'string', description: 'Comma-separated attendee emails (replaces the list)' },
+		},
+		required: ['eventId'],
+		aliases: {
+			id: 'eventId',
+			title: 'summary',
+			startTime: 'start',
+			start_time: 'start',
+			endTime: 'end',
+			end_time: 'end',
+			timezone: 'timeZone',
+		},
+		invalidates: ['calendar'],
+		confirm: { describe: describeUpdateEvent },
+		handler: (args, env) => updateEvent(args, env),
+	},
+	{
+		id: 'google-calendar-mcp::delete-event',
+		name: 'delete_event',
+		label: 'Delete Event',
+		description: 'Delete a calendar event (get its id from list_events). The user is asked to confirm before it is deleted.',
+		spec: '.agent/tools/google-calendar-mcp/delete-event.md',
+		parameters: {
+			eventId: { type: 'string', description: 'ID of the event, from list_events' },
+		},
+		required: ['eventId'],
+		aliases: { id: 'eventId' },
+		invalidates: ['calendar'],
+		confirm: { describe: describeDeleteEvent },
+		handler: (args, env) => deleteEvent(args, env),
+	},
+];
+
+const airports = new AirportResolver();
+
+export function getToolById(id: string): ToolCatalogEntry | undefined {
+	return TOOL_CATALOG.find((tool) => tool.id === id);
+}
+
+export function getToolByName(name: string): ToolCatalogEntry | undefined {
+	return TOOL_CATALOG.find((tool) => tool.name === name);
+}
+
+/**
+ * JSON schema in the shape Workers AI function calling expects (the `function` part of an OpenAI tool)
+ */
+export function toLLMToolSchema(tool: ToolCatalogEntry): ToolDefinition['function'] {
+	const properties: ToolDefinition['function']['parameters']['properties'] = {};
+	for (const [key, param] of Object.entries(tool.parameters)) {
+		properties[key] = {
+			type: param.type,
+			description: param.description,
+			...(param.enum ? { enum: param.enum } : {}),
+			...(param.default !== undefined ? { default: param.default } : {}),
+		};
+	}
+
+	return {
+		name: tool.name,
+		description: tool.description,
+		parameters: { type: 'object', properties, required: tool.required },
+	};
+}
+
+export type ToolArgumentValidation = { valid: true; args: Record<string, unknown> } | { valid: false; errors: string[] };
+
+/**
+ * Normalize and validate model-supplied arguments against the catalog schema.
+ * Returns canonical argument names with defaults applied, or a list of errors
+ * phrased so the model can fix its next call.
+ */
+export function validateToolArguments(tool: ToolCatalogEntry, rawArgs: Record<string, unknown>): ToolArgumentValidation {
+	const errors: string[] = [];
+	const args: Record<string, unknown> = {};
+
+	for (const [rawKey, rawValue] of Object.entries(rawArgs ?? {})) {
+		const key = resolveParameterName(tool, rawKey);
+		if (!key) continue; // Unknown arguments are dropped rather than sent to handlers
+		if (rawValue === null || rawValue === undefined || rawValue === '') continue;
+
+		const param = tool.parameters[key];
+		const { value, error } = coerceValue(key, param, rawValue);
+		if (error) {
+			errors.push(error);
+		} else {
+			args[key] = value;
+		}
+	}
+
+	for (const key of tool.required) {
+		if (args[key] === undefined && !errors.some((e) => e.startsWith(`${key}:`))) {
+			errors.push(`${key}: required (${tool.parameters[key].description})`);
+		}
+	}
+
+	if (errors.length > 0) {
+		return { valid: false, errors };
+	}
+
+	for (const [key, param] of Object.entries(tool.parameters)) {
+		if (args[key] === undefined && param.default !== undefined) {
+			args[key] = param.default;
+		}
+	}
+
+	return { valid: true, args };
+}
+
+/**
+ * Cache key for a validated argument set, or null if the tool is not cacheable
+ * The prefix's current generation (see cacheGenerationKey) is part of the key, so a write orphans older results
+ */
+export function buildToolCacheKey(tool: ToolCatalogEntry, args: Record<string, unknown>, generation?: string): string | null {
+	if (!tool.cache) return null;
+	const parts = tool.cache.keyFields.map((field) => (args[field] === undefined ? '' : String(args[field])));
+	return `${tool.cache.prefix}${generation ? `@${generation}` : ''}:${parts.join(':')}`;
+}
+
+/**
+ * KV key holding the generation of a cache prefix; tools listing the prefix in invalidates bump it
+ */
+export function cacheGenerationKey(prefix: string): string {
+	return `cache-generation:${prefix}`;
+}
+
+function resolveParameterName(tool: ToolCatalogEntry, rawKey: string): string | undefined {
+	if (tool.parameters[rawKey]) return rawKey;
+	if (tool.aliases?.[rawKey]) return tool.aliases[rawKey];
+
+	// camelCase <-> snake_case variants of a canonical name
+	const snake = rawKey.replace(/([A-Z])/g, '_$1').toLowerCase();
+	const camel = rawKey.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+	if (tool.parameters[snake]) return snake;
+	if (tool.parameters[camel]) return camel;
+	return tool.aliases?.[snake] ?? tool.aliases?.[camel];
+}
+
+function coerceValue(key: string, param: ToolParameterSpec, raw: unknown): { value?: unknown; error?: string } {
+	if (param.type === 'number') {
+		const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			return { error: `${key}: expected a number, got ${JSON.stringify(raw)}` };
+		}
+		if (param.minimum !== undefined && value < param.minimum) {
+			return { error: `${key}: must be at least ${param.minimum}` };
+		}
+		if (param.maximum !== undefined && value > param.maximum) {
+			return { error: `${key}: must be at most ${param.maximum}` };
+		}
+		return { value };
+	}
+
+	if (param.type === 'boolean') {
+		if (typeof raw === 'boolean') return { value: raw };
+		if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+		return { error: `${key}: expected true or false, got ${JSON.stringify(raw)}` };
+	}
+
+	if (typeof raw !== 'string') {
+		return { error: `${key}: expected a string, got ${JSON.stringify(raw)}` };
+	}
+
+	let value = raw.trim();
+
+	if (param.format === 'iata') {
+		const resolution = airports.resolve(value);
+		if (resolution.status === 'unknown') {
+			return { error: `${key}: expected a 3-letter IATA airport code, got "${raw}"` };
+		}
+		// Metro codes are searchable as written; names matching several airports are not
+		if (resolution.status === 'ambiguous' && resolution.matchedBy !== 'metro') {
+			const options = resolution.candidates.map(describeAirport).join(', ');
+			return { error: `${key}: "${raw}" matches several airports (${options}); ask the user which one they mean` };
+		}
+		value = resolution.metroCode ?? resolution.candidates[0].code.toString();
+	}
+
+	if (param.format === 'date' && !isValidDate(value)) {
+		return { error: `${key}: expected a date in YYYY-MM-DD format, got "${raw}"` };
+	}
+
+	if (param.format === 'date-time' && Number.isNaN(new Date(value).getTime())) {
+		return { error: `${key}: expected an ISO 8601 date or date-time, got "${raw}"` };
+	}
+
+	if (param.format === 'time-zone') {
+		try {
+			assertTimeZone(value);
+		} catch {
+			return { error: `${key}: expected an IANA time zone such as Europe/Lisbon, got "${raw}"` };
+		}
+	}
+
+	if (param.enum && !param.enum.includes(value)) {
+		return { error: `${key}: must be one of ${param.enum.join(', ')}, got "${raw}"` };
+	}
+
+	return { value };
+}
+
+function isValidDate(value: string): boolean {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+	const date = new Date(`${value}T00:00:00Z`);
+	return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
@@ -8,6 +8,7 @@
 
 import { WorkerEnv } from '../env';
 import { Logger } from '../observability/logger';
+import { FlightFacts } from '../domain/travel/services/flight-rule-engine.service';
 
 const DUFFEL_API_BASE = 'https://api.duffel.com';
 const DUFFEL_API_VERSION = 'v2';
@@ -40,6 +41,23 @@ export interface FlightOption {
 	expires_at: string;
 }
 
+/**
+ * Rule engine facts for a search result; departure.time is already local to the origin
+ */
+export function searchResultFacts(flight: FlightOption): FlightFacts {
+	const [hours, minutes] = flight.departure.time.split(':').map(Number);
+	return {
+		id: flight.id,
+		label: `${flight.airline} ${flight.flight_number}, ${flight.price.amount} ${flight.price.currency}`,
+		price: flight.price.amount,
+		currency: flight.price.currency,
+		airlines: [flight.airline, flight.airline_name],
+		stops: flight.stops,
+		departureHour: (hours || 0) + (minutes || 0) / 60,
+		durationMinutes: flight.duration_minutes,
+	};
+}
+
 /**
  * Validates flight search request
  */
@@ -68,13 +86,6 @@ function validateRequest(req: FlightSearchRequest): void {
 	}
 }
 
-/**
- * Builds cache key for flight search results
- */
-function buildCacheKey(req: FlightSearchRequest): string {
-	return `flights:${req.origin}:${req.destination}:${req.departure_date}:${req.cabin_class || 'economy'}`;
-}
-
 /**
  * Duffel API response types
  */
@@ -228,7 +239,7 @@ function mapDuffelOfferToFlightOption(offer: DuffelOffer, sliceIndex: number = 0
  * Handles flight search requests
  * Makes real calls to Duffel Offers API
  */
-export async function searchFlights(args: Record<string, unknown>, env: WorkerEnv): Promise<Record<string, unknown>> {
+export async function searchFlights(args: Record<string, unknown>, env: WorkerEnv, signal?: AbortSignal): Promise<Record<string, unknown>> {
 	const req: FlightSearchRequest = {
 		origin: args.origin as string,
 		destination: args.destination as string,
@@ -242,7 +253,7 @@ export async function searchFlights(args: Record<string, unknown>, env: WorkerEn
 	// 1. Validate input
 	validateRequest(req);
 
-	// Cache is checked in ToolExecutor before this handler is called
+	// Cache is checked (and written) by ToolExecutor using the tool catalog key
 	// 2. Call Duffel API
 	const apiKey = env.DUFFEL_API_KEY;
 	if (!apiKey) {
@@ -300,6 +311,7 @@ export async function searchFlights(args: Record<string, unknown>, env: WorkerEn
 				'Accept-Encoding': 'gzip',
 			},
 			body: JSON.stringify(duffelRequest),
+			signal,
 		});
 
 		const latency = performance.now() - startTime;
@@ -356,20 +368,6 @@ export async function searchFlights(args: Record<string, unknown>, env: WorkerEn
 			},
 		};
 
-		// 4. Cache results for 30 minutes
-		try {
-			const cacheKey = buildCacheKey(req);
-			await env.IDEMPOTENCY_KV.put(cacheKey, JSON.stringify(response), {
-				expirationTtl: 30 * 60,
-			});
-		} catch (e) {
-			logger.warn('Failed to cache flight results', {
-				metadata: {
-					error: e instanceof Error ? e.message : String(e),
-				},
-			});
-		}
-
 		logger.info('Flight search completed', {
 			metadata: {
 				origin: req.origin,
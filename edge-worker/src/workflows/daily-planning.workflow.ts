@@ -19,18 +19,14 @@
 
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from 'cloudflare:workers';
 import { WorkerEnv } from '../env';
-import { WorkersAIAdapter } from '../adapters/llm/workers-ai.adapter';
+import { createLLMPort } from '../adapters/llm/routed-llm.adapter';
 import { D1TaskAdapter } from '../adapters/persistence/d1-task.adapter';
 import { Logger } from '../observability/logger';
+import { AnalyticsEngineMetrics } from '../observability/metrics';
+import { createPromptRegistry } from '../prompts/prompt-registry';
+import { generateStructured } from '../prompts/structured-output';
 import { Task } from '../domain/task/aggregates/task.aggregate';
-import {
-	buildDailyPlanningPrompt,
-	parseDailyPlan,
-	DailyPlanningContext,
-	EventSummary,
-	TaskSummary,
-	DailyPlan,
-} from '../prompts/daily-planning.prompt';
+import { dailyPlanOutputSpec, DailyPlanningContext, EventSummary, TaskSummary, DailyPlan } from '../prompts/daily-planning.prompt';
 
 export interface DailyPlanningRequest {
 	userId: string;
@@ -45,7 +41,9 @@ export class DailyPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, DailyPl
 
 		// Initialize adapters
 		const logger = new Logger('daily-planning-workflow');
-		const llmAdapter = new WorkersAIAdapter(this.env.AI as any, logger);
+		const llmAdapter = createLLMPort(this.env, logger);
+		const metrics = new AnalyticsEngineMetrics(this.env.ANALYTICS_ENGINE);
+		const planningPrompt = createPromptRegistry(this.env, logger).select('daily_planning', userId);
 		const taskRepository = new D1TaskAdapter(this.env.DB, logger);
 		// Note: GoogleCalendarAdapter initialization pending implementation
 		// For now, calendar integration is a placeholder
@@ -146,9 +144,10 @@ export class DailyPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, DailyPl
 				userTimezone: timezone,
 			};
 
-			const prompt = buildDailyPlanningPrompt(context);
+			const prompt = planningPrompt.render(context);
 
-			const llmResponse = await llmAdapter.generateCompletion(
+			const result = await generateStructured(
+				llmAdapter,
 				{
 					messages: [
 						{ role: 'system', content: 'You are a productivity assistant specializing in daily planning and time management.' },
@@ -156,16 +155,20 @@ export class DailyPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, DailyPl
 					],
 					temperature: 0.5, // Moderate creativity for recommendations
 					maxTokens: 600,
+					useCase: 'daily_planning',
 				},
+				dailyPlanOutputSpec,
 				correlationId,
+				metrics,
 			);
-
-			// Parse LLM response into structured plan
-			const plan = parseDailyPlan(llmResponse.content);
+			const plan = result.value;
 
 			if (!plan) {
-				// Fallback plan if LLM parsing fails
-				logger.warn('LLM plan parsing failed, returning fallback plan', { correlationId });
+				// Fallback plan if the response still fails validation after the repair attempt
+				logger.warn('LLM plan failed validation after repair, returning fallback plan', {
+					correlationId,
+					metadata: { attempts: result.attempts, errors: result.errors.slice(0, 5) },
+				});
 				return {
 					summary: `You have ${calendarEvents.length} events and ${pendingTasks.length} pending tasks today.`,
 					keyEvents: calendarEvents.slice(0, 3).map((e) => e.title),
@@ -185,6 +188,7 @@ export class DailyPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, DailyPl
 			plan: dailyPlan,
 			eventCount: calendarEvents.length,
 			taskCount: pendingTasks.length,
+			promptVersion: planningPrompt.versionId,
 			correlationId,
 		};
 	}
@@ -5,10 +5,11 @@
  * with deduplication and persistence.
  *
  * Workflow Steps:
- * 1. LLM Analysis - Extract tasks from event title/description
- * 2. Deduplication - Check against existing tasks
- * 3. Persistence - Save unique tasks to D1
- * 4. Return Results - Extracted task list
+ * 1. Event Workflows - Travel events fire the user's TravelEventDetectedInCalendar workflows
+ * 2. LLM Analysis - Extract tasks from event title/description
+ * 3. Deduplication - Check against existing tasks
+ * 4. Persistence - Save unique tasks to D1
+ * 5. Return Results - Extracted task list
  *
  * Adheres to Cloudflare Workflows best practices:
  * - Granular steps (one operation per step)
@@ -19,11 +20,18 @@
 
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from 'cloudflare:workers';
 import { WorkerEnv } from '../env';
-import { WorkersAIAdapter } from '../adapters/llm/workers-ai.adapter';
+import { createLLMPort } from '../adapters/llm/routed-llm.adapter';
 import { D1TaskAdapter } from '../adapters/persistence/d1-task.adapter';
 import { Logger } from '../observability/logger';
-import { buildTaskExtractionPrompt, parseExtractedTasks, TaskExtractionContext } from '../prompts/extract-tasks.prompt';
+import { AnalyticsEngineMetrics } from '../observability/metrics';
+import { parseExtractedTasks, TaskExtractionContext, taskExtractionOutputSpec } from '../prompts/extract-tasks.prompt';
+import { createPromptRegistry } from '../prompts/prompt-registry';
+import { generateStructured } from '../prompts/structured-output';
 import { Task, TaskPriority } from '../domain/task/aggregates/task.aggregate';
+import { hasTravelKeywords } from '../domain/calendar/entities/calendar-event.entity';
+import { TravelEventDetectedInCalendar } from '../domain/calendar/events/calendar.events';
+import { CorrelationId } from '../domain/shared/value-objects/correlation-id.vo';
+import { createWorkflowRunner } from '../application/workflow-runner.service';
 
 export interface TaskExtractionRequest {
 	userId: string;
@@ -42,10 +50,29 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 
 		// Initialize adapters
 		const logger = new Logger('task-extraction-workflow');
-		const llmAdapter = new WorkersAIAdapter(this.env.AI as any, logger);
+		const llmAdapter = createLLMPort(this.env, logger);
+		const metrics = new AnalyticsEngineMetrics(this.env.ANALYTICS_ENGINE);
+		const extractionPrompt = createPromptRegistry(this.env, logger).select('extract_tasks', userId);
 		const taskRepository = new D1TaskAdapter(this.env.DB, logger);
 
-		// Step 1: LLM analyzes event and generates prep tasks
+		// Step 1: A travel event fires the user's event workflows
+		// Idempotent - runs are keyed by workflow and calendar event, so a retried step does not run them twice
+		await step.do('fire-travel-event-workflows', async () => {
+			// Runs are deduped per calendar event, so a request without one cannot fire them
+			if (!eventId || !hasTravelKeywords(eventTitle, eventDescription)) return { runCount: 0 };
+
+			const event = new TravelEventDetectedInCalendar(CorrelationId.fromString(correlationId), userId, eventId, userId);
+			const runs = await createWorkflowRunner(this.env, logger).handleEvent(
+				event,
+				{ eventTitle, eventStartTime, eventLocation: eventLocation ?? null },
+				`${event.eventType}:${eventId}`,
+			);
+
+			logger.info('Travel event workflows ran', { metadata: { eventId, runCount: runs.length, correlationId } });
+			return { runCount: runs.length };
+		});
+
+		// Step 2: LLM analyzes event and generates prep tasks
 		// Granular step - single LLM call
 		const extractedTasks = await step.do('analyze-event-with-llm', async () => {
 			logger.info('Extracting tasks from calendar event', {
@@ -60,9 +87,10 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 				eventAttendees,
 			};
 
-			const prompt = buildTaskExtractionPrompt(context);
+			const prompt = extractionPrompt.render(context);
 
-			const llmResponse = await llmAdapter.generateCompletion(
+			const result = await generateStructured(
+				llmAdapter,
 				{
 					messages: [
 						{ role: 'system', content: 'You are a productivity assistant specializing in extracting actionable tasks.' },
@@ -70,12 +98,15 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 					],
 					temperature: 0.4, // Slightly higher for creative task generation
 					maxTokens: 500,
+					useCase: 'task_extraction',
 				},
+				taskExtractionOutputSpec,
 				correlationId,
+				metrics,
 			);
 
-			// Parse LLM response into structured tasks
-			const tasks = parseExtractedTasks(llmResponse.content);
+			// Keep whichever tasks are individually valid if the repaired response still fails validation
+			const tasks = result.value ?? parseExtractedTasks(result.rawContent);
 
 			logger.info('Task extraction complete', {
 				metadata: { tasksExtracted: tasks.length, correlationId },
@@ -94,11 +125,12 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 				tasksExtracted: 0,
 				tasksCreated: 0,
 				tasks: [],
+				promptVersion: extractionPrompt.versionId,
 				correlationId,
 			};
 		}
 
-		// Step 2: Deduplicate against existing tasks
+		// Step 3: Deduplicate against existing tasks
 		// Idempotent check - query before creating
 		const uniqueTasks = await step.do('deduplicate-tasks', async () => {
 			logger.info('Checking for duplicate tasks', {
@@ -123,7 +155,7 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 			return unique;
 		});
 
-		// Step 3: Persist unique tasks to D1
+		// Step 4: Persist unique tasks to D1
 		// Idempotent - create Task aggregates and save
 		const savedTasks = await step.do('persist-tasks', async () => {
 			logger.info('Persisting tasks to database', {
@@ -171,6 +203,7 @@ export class TaskExtractionWorkflow extends WorkflowEntrypoint<WorkerEnv, TaskEx
 				priority: t.getPriority(),
 				dueDate: t.getDueDate()?.toISOString(),
 			})),
+			promptVersion: extractionPrompt.versionId,
 			correlationId,
 		};
 	}
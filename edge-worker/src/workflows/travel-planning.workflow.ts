@@ -5,10 +5,11 @@
  * with automatic retries and state persistence.
  *
  * Workflow Steps:
- * 1. Calendar Check - Query events in travel date range
- * 2. Flight Search - Call Duffel via flights adapter
- * 3. LLM Ranking - Rank flights with calendar context + user preferences
- * 4. Return Results - Top 5 ranked options
+ * 1. Flight Search - Call Duffel via flights adapter
+ * 2. Automation Rules - Drop options the user's flight_search rules exclude, boost preferred ones
+ * 3. Calendar Check - Query events in travel date range
+ * 4. LLM Ranking - Rank flights with calendar context + user preferences (rule boosts still win)
+ * 5. Return Results - Top 5 ranked options, with what the rules removed
  *
  * Adheres to Cloudflare Workflows best practices:
  * - Granular steps (one API call per step)
@@ -22,13 +23,19 @@ import { WorkerEnv } from '../env';
 import { FlightSearchRequest } from '../domain/travel/ports/flight.port';
 import { FlightOption } from '../domain/travel/entities/flight-option.entity';
 import { AirportCode } from '../domain/travel/value-objects/airport-code.vo';
+import { AirportResolver } from '../domain/travel/services/airport-resolver.service';
+import { FlightRuleEngine, FlightRuleRemoval, flightOptionFacts } from '../domain/travel/services/flight-rule-engine.service';
+import { D1ProceduralMemoryRepository } from '../infrastructure/memory/D1ProceduralMemoryRepository';
 import { DuffelFlightAdapter } from '../adapters/mcp/flights.adapter';
 import { DuffelApiClient } from '../adapters/mcp/clients/duffel-api.client';
 import { DuffelFlightMapper } from '../adapters/mcp/mappers/duffel-flight.mapper';
 import { FlightSearchValidator } from '../adapters/mcp/validators/flight-search.validator';
-import { WorkersAIAdapter } from '../adapters/llm/workers-ai.adapter';
+import { createLLMPort } from '../adapters/llm/routed-llm.adapter';
 import { Logger } from '../observability/logger';
-import { buildFlightRankingPrompt, parseFlightRanking } from '../prompts/rank-flights.prompt';
+import { AnalyticsEngineMetrics } from '../observability/metrics';
+import { applyFlightRanking, flightRankingOutputSpec } from '../prompts/rank-flights.prompt';
+import { createPromptRegistry } from '../prompts/prompt-registry';
+import { generateStructured } from '../prompts/structured-output';
 
 export interface TravelIntent {
 	userId: string;
@@ -51,23 +58,13 @@ export class TravelPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, Travel
 		const duffelMapper = new DuffelFlightMapper(logger);
 		const flightValidator = new FlightSearchValidator();
 		const flightAdapter = new DuffelFlightAdapter(duffelClient, duffelMapper, flightValidator, logger, this.env.DUFFEL_API_KEY || '');
-		const llmAdapter = new WorkersAIAdapter(this.env.AI as any, logger);
+		const llmAdapter = createLLMPort(this.env, logger);
+		const metrics = new AnalyticsEngineMetrics(this.env.ANALYTICS_ENGINE);
+		const rankingPrompt = createPromptRegistry(this.env, logger).select('rank_flights', userId);
 
-		// Map common city names to IATA airport codes
-		const normalizeAirportCode = (code: string): string => {
-			const cityMap: Record<string, string> = {
-				NYC: 'JFK',
-				LA: 'LAX',
-				SF: 'SFO',
-				CHI: 'ORD',
-				London: 'LHR',
-				Paris: 'CDG',
-				Tokyo: 'NRT',
-				Ibiza: 'IBZ',
-			};
-			const upper = code.toUpperCase();
-			return cityMap[upper] || cityMap[code] || code.toUpperCase();
-		};
+		// Names the chat could not settle fall back to the metro code or busiest airport
+		const airports = new AirportResolver();
+		const normalizeAirportCode = (code: string): string => airports.searchCode(code) ?? code.toUpperCase();
 
 		const normalizedOrigin = normalizeAirportCode(origin);
 		const normalizedDestination = normalizeAirportCode(destination);
@@ -137,7 +134,48 @@ export class TravelPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, Travel
 			};
 		}
 
-		// Step 2: Check calendar for conflicts on arrival day
+		// Step 2: Apply the user's flight_search automation rules before anything is ranked
+		// Deterministic given the rules, so a replay after a retry removes the same options
+		const ruleEngine = new FlightRuleEngine();
+		const ruleOutcome = await step.do('apply-automation-rules', async () => {
+			const procedural = await new D1ProceduralMemoryRepository(this.env.DB).getProceduralMemory(userId);
+			const outcome = ruleEngine.apply(flightOptions, procedural.rules, flightOptionFacts);
+
+			logger.info('Applied automation rules', {
+				metadata: {
+					appliedRules: outcome.appliedRules.length,
+					skippedRules: outcome.skippedRules.length,
+					removedCount: outcome.removed.length,
+					keptCount: outcome.options.length,
+					correlationId,
+				},
+			});
+
+			return {
+				keptIds: outcome.options.map((f) => f.id),
+				boosts: outcome.boosts,
+				removed: outcome.removed,
+			};
+		});
+
+		const flightsById = new Map(flightOptions.map((f) => [f.id, f]));
+		const eligibleFlights = ruleOutcome.keptIds.map((id) => flightsById.get(id)!).filter(Boolean);
+		const ruleExplanation = ruleEngine.explain(ruleOutcome.removed as FlightRuleRemoval[]);
+
+		if (eligibleFlights.length === 0) {
+			const message = `I found ${flightOptions.length} flights from ${origin} to ${destination}, but your automation rules excluded all of them.\n\n${ruleExplanation.join('\n')}`;
+			await this.notifyChat(conversationId, message, correlationId, logger);
+			return {
+				success: true,
+				flightCount: 0,
+				topFlights: [],
+				removedByRules: ruleOutcome.removed,
+				message,
+				correlationId,
+			};
+		}
+
+		// Step 3: Check calendar for conflicts on arrival day
 		// Granular step - single query to calendar
 		const calendarEvents = await step.do('check-calendar-conflicts', async () => {
 			// Note: Calendar query integration pending Google Calendar Adapter implementation
@@ -148,22 +186,23 @@ export class TravelPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, Travel
 			return [];
 		});
 
-		// Step 3: Rank flights with LLM using calendar context + preferences
+		// Step 4: Rank flights with LLM using calendar context + preferences
 		// Granular step - single LLM call
 		const rankedFlightsData = await step.do('rank-flights-with-llm', async () => {
 			logger.info('Ranking flights with LLM', {
-				metadata: { flightCount: flightOptions.length, correlationId },
+				metadata: { flightCount: eligibleFlights.length, correlationId },
 			});
 
-			const prompt = buildFlightRankingPrompt({
-				flights: flightOptions,
+			const prompt = rankingPrompt.render({
+				flights: eligibleFlights,
 				calendarEvents,
 				userPreferences: {
 					priorities: ['price', 'convenience'],
 				},
 			});
 
-			const llmResponse = await llmAdapter.generateCompletion(
+			const result = await generateStructured(
+				llmAdapter,
 				{
 					messages: [
 						{ role: 'system', content: 'You are a travel planning assistant.' },
@@ -171,12 +210,20 @@ export class TravelPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, Travel
 					],
 					temperature: 0.3, // Low temperature for consistent ranking
 					maxTokens: 100,
+					useCase: 'flight_ranking',
 				},
+				flightRankingOutputSpec(eligibleFlights.length),
 				correlationId,
+				metrics,
 			);
 
-			// Parse LLM ranking and reorder flights
-			const ranked = parseFlightRanking(llmResponse.content, flightOptions);
+			// Reorder flights by the validated ranking; keep rule order if it never validated.
+			// Prioritize rules are deterministic, so boosted flights stay ahead of the model's picks.
+			const llmRanked = result.value ? applyFlightRanking(result.value, eligibleFlights) : eligibleFlights;
+			const ranked = llmRanked
+				.map((f, index) => ({ f, index, boost: ruleOutcome.boosts[f.id] ?? 0 }))
+				.sort((a, b) => b.boost - a.boost || a.index - b.index)
+				.map((entry) => entry.f);
 
 			logger.info('Flight ranking complete', {
 				metadata: { rankedCount: ranked.length, correlationId },
@@ -217,48 +264,53 @@ export class TravelPlanningWorkflow extends WorkflowEntrypoint<WorkerEnv, Travel
 			),
 		);
 
-		// Return final ranked results to caller (top 5)
 		// Return final ranked results to caller (top 5)
 		const result = {
 			success: true,
 			flightCount: rankedFlights.length,
 			topFlights: rankedFlights.slice(0, 5),
+			removedByRules: ruleOutcome.removed,
+			promptVersion: rankingPrompt.versionId,
 			correlationId,
 		};
 
 		// Notify Chat DO with results
-		if (conversationId) {
-			try {
-				const doId = this.env.CHAT_SESSIONS.idFromName(conversationId);
-				const stub = this.env.CHAT_SESSIONS.get(doId);
+		const topFlight = rankedFlights[0];
+		const firstSegment = topFlight.segments[0];
+		const removedNote = ruleExplanation.length > 0 ? `\n\n${ruleExplanation.join('\n')}` : '';
+		const message = `I've found ${rankedFlights.length} flights from ${origin} to ${destination}. \n\nTop Recommendation:\nAirline: ${
+			firstSegment.airline
+		}\nPrice: ${topFlight.totalPrice} ${topFlight.currency}\nDeparture: ${new Date(
+			firstSegment.departureTime,
+		).toLocaleString()}${removedNote}\n\nWould you like to book this?`;
+		await this.notifyChat(conversationId, message, correlationId, logger);
+
+		return result;
+	}
 
-				const topFlight = rankedFlights[0];
-				const firstSegment = topFlight.segments[0];
-				const message =
-					rankedFlights.length > 0
-						? `I've found ${rankedFlights.length} flights from ${origin} to ${destination}. \n\nTop Recommendation:\nAirline: ${
-								firstSegment.airline
-							}\nPrice: ${topFlight.totalPrice} ${topFlight.currency}\nDeparture: ${new Date(
-								firstSegment.departureTime,
-							).toLocaleString()}\n\nWould you like to book this?`
-						: `I couldn't find any flights from ${origin} to ${destination} on ${departureDate}.`;
+	/**
+	 * Post the outcome into the conversation that started the workflow
+	 */
+	private async notifyChat(conversationId: string, message: string, correlationId: string, logger: Logger): Promise<void> {
+		if (!conversationId) return;
 
-				await stub.fetch('http://do/workflow-result', {
-					method: 'POST',
-					body: JSON.stringify({
-						message,
-						conversationId,
-						correlationId,
-					}),
-				});
-			} catch (error) {
-				const err = error instanceof Error ? error : new Error(String(error));
-				logger.error('Failed to notify Chat DO of workflow result', err, {
-					metadata: { conversationId, correlationId },
-				});
-			}
-		}
+		try {
+			const doId = this.env.CHAT_SESSIONS.idFromName(conversationId);
+			const stub = this.env.CHAT_SESSIONS.get(doId);
 
-		return result;
+			await stub.fetch('http://do/workflow-result', {
+				method: 'POST',
+				body: JSON.stringify({
+					message,
+					conversationId,
+					correlationId,
+				}),
+			});
+		} catch (error) {
+			const err = error instanceof Error ? error : new Error(String(error));
+			logger.error('Failed to notify Chat DO of workflow result', err, {
+				metadata: { conversationId, correlationId },
+			});
+		}
 	}
 }
@@ -0,0 +1,19 @@
+/**
+ * Node stand-in for the `cloudflare:workers` runtime module (aliased in vitest.unit.config.ts)
+ *
+ * Only what ChatSessionDO needs: the DurableObject base class exposing ctx and env.
+ */
+
+export class DurableObject<Env = unknown> {
+    constructor(
+        protected readonly ctx: DurableObjectState,
+        protected readonly env: Env,
+    ) {}
+}
+
+export class WorkflowEntrypoint<Env = unknown, _Params = unknown> {
+    constructor(
+        protected readonly ctx: unknown,
+        protected readonly env: Env,
+    ) {}
+}
@@ -0,0 +1,375 @@
+/**
+ * Conversation Harness
+ *
+ * Drives ChatSessionDO.handleChat (POST /chat) through scripted multi-turn conversations:
+ * - env.AI is a FakeWorkersAI replaying each turn's LLM steps
+ * - env.DB is a real D1 database served by Miniflare (with the memory migrations applied),
+ *   so chat_events and memory rows can be asserted
+ * - Tool handlers are replaced with fixture results and every invocation is recorded
+ * - Workflow bindings record the workflows the turn would start
+ *
+ * Fixtures live in tests/fixtures/conversations/*.json (see ConversationFixture).
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { vi, MockInstance } from 'vitest';
+import { Miniflare } from 'miniflare';
+import { ChatSessionDO } from '../../src/durable-objects/chat-session/chat-session.do';
+import { FakeLLMStep, FakeWorkersAI } from '../../src/adapters/llm/fake-llm.adapter';
+import { TOOL_CATALOG } from '../../src/tools/catalog';
+import { SseEvent, WorkerEnv } from '../../src/env';
+
+export interface ExpectedChatEvent {
+    role: 'user' | 'assistant';
+    content?: string;
+    contains?: string;
+    status?: 'complete' | 'cancelled';
+    promptVersion?: string; // e.g. chat_system@v1
+    dialogueAct?: string; // User events: confirm, deny, modify, cancel or inform
+}
+
+export interface ConversationTurnFixture {
+    user: string;
+    stream?: boolean; // Default true
+    llm: FakeLLMStep[]; // One step per model call in this turn
+    expect?: {
+        events?: string[]; // SSE event types, consecutive tokens collapsed into one 'token'
+        toolCalls?: Array<{ name: string; args?: Record<string, unknown> }>;
+        assistant?: string; // Exact streamed (or JSON) answer
+        assistantContains?: string;
+        workflows?: string[]; // Workflow bindings started, e.g. TRAVEL_PLANNING
+        workflowParams?: Array<Record<string, unknown>>; // Matched against each started workflow's params
+        promptContains?: string; // In the user message the turn's first model call received
+    };
+}
+
+export interface ConversationFixture {
+    name: string;
+    principalId?: string;
+    timezone?: string; // Sent as the request's timezone on every turn (UTC when absent)
+    tools?: Record<string, unknown>; // Tool name -> result returned by the fake handler
+    turns: ConversationTurnFixture[];
+    chatEvents?: ExpectedChatEvent[]; // Persisted chat_events after the last turn, in order
+}
+
+export interface StoredChatEvent {
+    role: string;
+    content: string;
+    status: string | null;
+    promptVersion: string | null;
+    dialogueAct: string | null;
+}
+
+export interface ToolInvocation {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface TurnResult {
+    status: number;
+    events: SseEvent[];
+    eventTypes: string[];
+    assistant: string;
+    toolInvocations: ToolInvocation[];
+    workflows: string[];
+    workflowParams: Array<Record<string, unknown>>;
+    prompt: string; // Last user message of the turn's first model call (with injected context)
+    messageId: string | null;
+}
+
+export function loadConversationFixtures(dir: string = path.resolve(__dirname, '../fixtures/conversations')): ConversationFixture[] {
+    return fs
+        .readdirSync(dir)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as ConversationFixture);
+}
+
+const MEMORY_MIGRATIONS = ['0005_semantic_memory.sql', '0006_episodic_memory.sql', '0007_procedural_memory.sql', '0008_workflow_runs.sql'];
+
+/**
+ * One Miniflare instance provides the D1 database for every harness in a test file
+ */
+export async function createTestD1(): Promise<{ db: WorkerEnv['DB']; dispose: () => Promise<void> }> {
+    const mf = new Miniflare({
+        modules: true,
+        script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+        d1Databases: ['DB'],
+    });
+    const db = (await mf.getD1Database('DB')) as unknown as WorkerEnv['DB'];
+
+    // Chat tables are created by StorageManager; memory tables only exist through migrations
+    for (const file of MEMORY_MIGRATIONS) {
+        const sql = fs.readFileSync(path.resolve(__dirname, '../../migrations', file), 'utf8').replace(/--.*$/gm, '');
+        for (const statement of sql.split(';').map((s) => s.trim()).filter(Boolean)) {
+            await db.prepare(statement).run();
+        }
+    }
+
+    return { db, dispose: () => mf.dispose() };
+}
+
+/**
+ * In-memory stand-in for the DO's SqlStorage, covering the dialogue_state statements
+ * DialogueStateStore issues (Node has no embedded SQLite here)
+ */
+export function createDialogueStateSql(): SqlStorage {
+    const rows = new Map<string, { conversation_id: string; principal_id: string; state: string; last_access_time: number }>();
+    const byAccess = () => [...rows.values()].sort((a, b) => a.last_access_time - b.last_access_time);
+    const cursor = (results: Array<Record<string, unknown>>) => ({ toArray: () => results });
+
+    const exec = (query: string, ...bindings: unknown[]) => {
+        if (/^CREATE /.test(query)) return cursor([]);
+        if (/^INSERT INTO dialogue_state/.test(query)) {
+            const [conversation_id, principal_id, state, last_access_time] = bindings as [string, string, string, number];
+            rows.set(conversation_id, { conversation_id, principal_id, state, last_access_time });
+            return cursor([]);
+        }
+        if (/^DELETE FROM dialogue_state WHERE conversation_id = \?$/.test(query)) {
+            rows.delete(bindings[0] as string);
+            return cursor([]);
+        }
+        if (/^SELECT state FROM dialogue_state WHERE conversation_id = \?$/.test(query)) {
+            const row = rows.get(bindings[0] as string);
+            return cursor(row ? [{ state: row.state }] : []);
+        }
+        if (/^SELECT state FROM dialogue_state ORDER BY last_access_time DESC$/.test(query)) {
+            return cursor(byAccess().reverse().map((row) => ({ state: row.state })));
+        }
+        if (/^SELECT COUNT\(\*\) AS count FROM dialogue_state$/.test(query)) {
+            return cursor([{ count: rows.size }]);
+        }
+        if (/^SELECT conversation_id FROM dialogue_state WHERE last_access_time < \?$/.test(query)) {
+            return cursor(byAccess().filter((row) => row.last_access_time < (bindings[0] as number)));
+        }
+        if (/^SELECT conversation_id FROM dialogue_state WHERE conversation_id != \? ORDER BY last_access_time ASC LIMIT \?$/.test(query)) {
+            const [keep, limit] = bindings as [string, number];
+            return cursor(byAccess().filter((row) => row.conversation_id !== keep).slice(0, limit));
+        }
+        throw new Error(`Unsupported SQL in harness: ${query}`);
+    };
+
+    return { exec } as unknown as SqlStorage;
+}
+
+export function createDurableObjectState(): DurableObjectState {
+    const storage = new Map<string, unknown>();
+    return {
+        storage: {
+            sql: createDialogueStateSql(),
+            get: async (key: string) => structuredClone(storage.get(key)),
+            put: async (key: string, value: unknown) => {
+                storage.set(key, structuredClone(value));
+            },
+            delete: async (key: string) => storage.delete(key),
+            setAlarm: async () => {},
+            getAlarm: async () => null,
+        },
+        waitUntil: () => {},
+        getWebSockets: () => [],
+        acceptWebSocket: () => {},
+    } as unknown as DurableObjectState;
+}
+
+function createKV(): WorkerEnv['IDEMPOTENCY_KV'] {
+    const values = new Map<string, string>();
+    return {
+        get: async (key: string) => values.get(key) ?? null,
+        put: async (key: string, value: string) => {
+            values.set(key, value);
+        },
+    };
+}
+
+function parseSse(body: string): SseEvent[] {
+    return body
+        .split('\n\n')
+        .map((raw) => raw.trim())
+        .filter((raw) => raw.startsWith('data: '))
+        .map((raw) => JSON.parse(raw.slice(6)) as SseEvent);
+}
+
+export class ConversationHarness {
+    readonly ai: FakeWorkersAI;
+    readonly conversationId = crypto.randomUUID();
+    private readonly session: ChatSessionDO;
+    private readonly toolInvocations: ToolInvocation[] = [];
+    private readonly workflows: Array<{ binding: string; params: Record<string, unknown> }> = [];
+    private readonly spies: MockInstance[] = [];
+
+    constructor(
+        private readonly db: WorkerEnv['DB'],
+        private readonly fixture: Pick<ConversationFixture, 'principalId' | 'timezone' | 'tools'> = {},
+        envOverrides: Partial<WorkerEnv> = {},
+    ) {
+        this.ai = new FakeWorkersAI({ steps: [] });
+
+        const workflow = (binding: string) => ({
+            create: async (options: { params: Record<string, unknown> }) => {
+                this.workflows.push({ binding, params: options.params });
+                return { id: crypto.randomUUID(), status: async () => ({ status: 'queued' }) };
+            },
+            get: async (id: string) => ({ id, status: async () => ({ status: 'queued' }) }),
+        });
+
+        const env = {
+            AI: this.ai,
+            DB: db,
+            IDEMPOTENCY_KV: createKV(),
+            RATE_LIMIT_KV: createKV(),
+            TRAVEL_PLANNING: workflow('TRAVEL_PLANNING'),
+            TASK_EXTRACTION: workflow('TASK_EXTRACTION'),
+            DAILY_PLANNING: workflow('DAILY_PLANNING'),
+            ...envOverrides,
+        } as unknown as WorkerEnv;
+
+        for (const tool of TOOL_CATALOG) {
+            this.spies.push(
+                vi.spyOn(tool, 'handler').mockImplementation(async (args) => {
+                    this.toolInvocations.push({ name: tool.name, args });
+                    if (!this.fixture.tools || !(tool.name in this.fixture.tools)) {
+                        throw new Error(`No fixture result for tool ${tool.name}`);
+                    }
+                    return structuredClone(this.fixture.tools[tool.name]);
+                }),
+            );
+        }
+
+        this.session = new ChatSessionDO(createDurableObjectState(), env);
+    }
+
+    /**
+     * Send one user message, replaying the given LLM steps, and collect everything the turn produced
+     */
+    async sendTurn(user: string, llm: FakeLLMStep[], options: { stream?: boolean; messageId?: string } = {}): Promise<TurnResult> {
+        return this.runTurn(`Turn "${user}"`, llm, options, '/chat', {
+            conversation_id: this.conversationId,
+            messages: [{ role: 'user', content: user }],
+            message_id: options.messageId,
+        });
+    }
+
+    /**
+     * POST /messages/:messageId/cancel for a turn still in flight
+     */
+    async cancel(messageId: string): Promise<Response> {
+        return this.session.fetch(new Request(`https://chat-session/messages/${messageId}/cancel`, { method: 'POST' }));
+    }
+
+    /**
+     * POST /conversations/:id/regenerate as the given principal (defaults to the fixture's), replaying the given LLM steps
+     */
+    async regenerate(llm: FakeLLMStep[], options: { stream?: boolean; principalId?: string } = {}): Promise<TurnResult> {
+        return this.runTurn('Regenerate', llm, options, `/conversations/${this.conversationId}/regenerate`, {});
+    }
+
+    /**
+     * POST /workflow-result, as a finished workflow reports back to the conversation
+     */
+    async workflowResult(message: string): Promise<void> {
+        await this.session.fetch(
+            new Request('https://chat-session/workflow-result', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ message, conversationId: this.conversationId, correlationId: crypto.randomUUID() }),
+            }),
+        );
+    }
+
+    private async runTurn(
+        label: string,
+        llm: FakeLLMStep[],
+        options: { stream?: boolean; principalId?: string },
+        pathname: string,
+        payload: Record<string, unknown>,
+    ): Promise<TurnResult> {
+        const toolStart = this.toolInvocations.length;
+        const workflowStart = this.workflows.length;
+        const callStart = this.ai.calls.length;
+        this.ai.append(llm);
+
+        const response = await this.session.fetch(
+            new Request(`https://chat-session${pathname}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Principal-Id': options.principalId ?? this.fixture.principalId ?? 'harness-user',
+                },
+                body: JSON.stringify({ ...payload, stream: options.stream !== false, timezone: this.fixture.timezone }),
+            }),
+        );
+
+        const body = await response.text();
+        const stream = response.ok && options.stream !== false;
+        const events = stream ? parseSse(body) : [];
+        const assistant = stream
+            ? events.map((e) => (e.type === 'token' ? e.token : '')).join('')
+            : ((JSON.parse(body) as { message?: string }).message ?? '');
+
+        if (this.ai.remainingSteps > 0) {
+            throw new Error(`${label} left ${this.ai.remainingSteps} scripted LLM step(s) unused`);
+        }
+
+        const messages = (this.ai.calls[callStart]?.input.messages ?? []) as Array<{ role: string; content: string }>;
+        const started = this.workflows.slice(workflowStart);
+
+        return {
+            status: response.status,
+            events,
+            eventTypes: events.map((e) => e.type).filter((type, i, all) => !(type === 'token' && all[i - 1] === 'token')),
+            assistant,
+            toolInvocations: this.toolInvocations.slice(toolStart),
+            workflows: started.map((workflow) => workflow.binding),
+            workflowParams: started.map((workflow) => workflow.params),
+            prompt: messages.filter((message) => message.role === 'user').pop()?.content ?? '',
+            messageId: response.headers.get('X-Message-ID'),
+        };
+    }
+
+    /**
+     * GET /conversations/:id/state as the given principal (defaults to the fixture's)
+     */
+    async dialogueState(principalId: string = this.fixture.principalId ?? 'harness-user'): Promise<Response> {
+        return this.session.fetch(
+            new Request(`https://chat-session/conversations/${this.conversationId}/state`, {
+                method: 'GET',
+                headers: { 'X-Principal-Id': principalId },
+            }),
+        );
+    }
+
+    /**
+     * Fire the DO alarm, replaying the given LLM steps (one per conversation it summarises)
+     */
+    async alarm(llm: FakeLLMStep[] = []): Promise<void> {
+        this.ai.append(llm);
+        await this.session.alarm();
+
+        if (this.ai.remainingSteps > 0) {
+            throw new Error(`Alarm left ${this.ai.remainingSteps} scripted LLM step(s) unused`);
+        }
+    }
+
+    async conversationSummaries(): Promise<Array<{ summary: string; keyEntities: string | null; sentiment: string }>> {
+        const rows = await this.db
+            .prepare('SELECT summary, key_entities AS keyEntities, sentiment FROM conversation_summaries WHERE conversation_id = ?1')
+            .bind(this.conversationId)
+            .all<{ summary: string; keyEntities: string | null; sentiment: string }>();
+        return rows.results ?? [];
+    }
+
+    async chatEvents(): Promise<StoredChatEvent[]> {
+        const rows = await this.db
+            .prepare(
+                'SELECT role, content, status, prompt_version AS promptVersion, dialogue_act AS dialogueAct FROM chat_events WHERE conversation_id = ?1 ORDER BY created_at ASC, rowid ASC',
+            )
+            .bind(this.conversationId)
+            .all<StoredChatEvent>();
+        return rows.results ?? [];
+    }
+
+    dispose(): void {
+        this.spies.forEach((spy) => spy.mockRestore());
+    }
+}
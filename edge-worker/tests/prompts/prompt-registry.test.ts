@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    PromptRegistry,
+    PROMPT_TEMPLATES,
+    UnknownPromptVersionError,
+    loadPromptSelections,
+    promptBucket
+} from '../../src/prompts/prompt-registry';
+import { WorkerEnv } from '../../src/env';
+
+const planningV2 = {
+    id: 'daily_planning' as const,
+    version: 'v2',
+    description: 'Shorter plan',
+    render: (context: { date: string }) => `Plan ${context.date}`
+};
+
+const planningContext = { date: '2024-12-10', calendarEvents: [], pendingTasks: [], userTimezone: 'UTC' };
+
+function principalInBucket(predicate: (bucket: number) => boolean): string {
+    for (let i = 0; ; i++) {
+        const principalId = `user-${i}@example.com`;
+        if (predicate(promptBucket('daily_planning', principalId))) return principalId;
+    }
+}
+
+describe('Prompt Registry', () => {
+    it('should register a v1 template for every prompt', () => {
+        const registry = new PromptRegistry();
+
+        for (const id of ['chat_system', 'rank_flights', 'extract_tasks', 'daily_planning', 'intent_classification', 'conversation_summary'] as const) {
+            expect(registry.versions(id)).toEqual(['v1']);
+        }
+        expect(PROMPT_TEMPLATES).toHaveLength(6);
+    });
+
+    it('should render the selected template and expose its version id', () => {
+        const prompt = new PromptRegistry().select('daily_planning', 'alice@example.com');
+
+        expect(prompt.versionId).toBe('daily_planning@v1');
+        expect(prompt.render(planningContext)).toContain('DATE: 2024-12-10');
+    });
+
+    it('should default to the most recently registered version', () => {
+        const registry = new PromptRegistry();
+        registry.register(planningV2);
+
+        expect(registry.select('daily_planning', 'alice@example.com').versionId).toBe('daily_planning@v2');
+    });
+
+    it('should pin listed principals to a version', () => {
+        const registry = new PromptRegistry([...PROMPT_TEMPLATES, planningV2], {
+            daily_planning: { default: 'v1', rules: [{ version: 'v2', principals: ['alice@example.com'] }] }
+        });
+
+        expect(registry.select('daily_planning', 'alice@example.com').version).toBe('v2');
+        expect(registry.select('daily_planning', 'bob@example.com').version).toBe('v1');
+        expect(registry.select('daily_planning').version).toBe('v1');
+    });
+
+    it('should split principals by stable percentage buckets', () => {
+        const registry = new PromptRegistry([...PROMPT_TEMPLATES, planningV2], {
+            daily_planning: { default: 'v1', rules: [{ version: 'v2', percentage: 30 }] }
+        });
+        const inSplit = principalInBucket((bucket) => bucket < 30);
+        const outOfSplit = principalInBucket((bucket) => bucket >= 30);
+
+        expect(registry.select('daily_planning', inSplit).version).toBe('v2');
+        expect(registry.select('daily_planning', inSplit).version).toBe('v2');
+        expect(registry.select('daily_planning', outOfSplit).version).toBe('v1');
+    });
+
+    it('should throw for an unknown version', () => {
+        expect(() => new PromptRegistry().get('rank_flights', 'v9')).toThrow(UnknownPromptVersionError);
+    });
+
+    describe('loadPromptSelections', () => {
+        it('should drop rules and defaults that name unregistered versions', () => {
+            const env = {
+                PROMPT_VERSIONS: JSON.stringify({
+                    daily_planning: { default: 'v3', rules: [{ version: 'v2', percentage: 10 }, { version: 'v1', principals: ['a'] }] },
+                    unknown_prompt: { default: 'v1' }
+                })
+            } as WorkerEnv;
+
+            const selections = loadPromptSelections(env, [...PROMPT_TEMPLATES, planningV2]);
+
+            expect(selections).toEqual({
+                daily_planning: { default: undefined, rules: [{ version: 'v2', percentage: 10 }, { version: 'v1', principals: ['a'] }] }
+            });
+        });
+
+        it('should ignore invalid JSON', () => {
+            expect(loadPromptSelections({ PROMPT_VERSIONS: '{not json' } as WorkerEnv)).toEqual({});
+        });
+    });
+});
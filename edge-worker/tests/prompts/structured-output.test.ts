@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { extractJson, generateStructured, validateJson, JsonSchema } from '../../src/prompts/structured-output';
+import { dailyPlanOutputSpec } from '../../src/prompts/daily-planning.prompt';
+import { flightRankingOutputSpec } from '../../src/prompts/rank-flights.prompt';
+import { FakeLLMAdapter } from '../../src/adapters/llm/fake-llm.adapter';
+import { MetricsCollector, StructuredOutputOutcome } from '../../src/observability/metrics';
+
+function recordingMetrics(): MetricsCollector & { structured: Array<[string, StructuredOutputOutcome, number]> } {
+    const structured: Array<[string, StructuredOutputOutcome, number]> = [];
+    return {
+        structured,
+        recordRequest: () => {},
+        recordLLMCall: () => {},
+        recordMCPCall: () => {},
+        recordD1Query: () => {},
+        recordStructuredOutput: (promptId, outcome, attempts) => {
+            structured.push([promptId, outcome, attempts]);
+        },
+    };
+}
+
+const validPlan = {
+    summary: 'Two meetings and a deadline.',
+    keyEvents: ['Client Call'],
+    focusTime: [{ startTime: '08:00', endTime: '10:00', durationMinutes: 120 }],
+    recommendations: ['Prepare for the client call'],
+};
+
+const request = {
+    messages: [
+        { role: 'system' as const, content: 'You are a productivity assistant.' },
+        { role: 'user' as const, content: 'Plan my day' },
+    ],
+    useCase: 'daily_planning' as const,
+};
+
+describe('Structured Output', () => {
+    describe('validateJson', () => {
+        const schema: JsonSchema = {
+            type: 'object',
+            properties: {
+                priority: { type: 'string', enum: ['high', 'low'] },
+                items: { type: 'array', items: { type: 'integer', minimum: 1 }, maxItems: 2 },
+            },
+            required: ['priority', 'items'],
+        };
+
+        it('should accept a matching value', () => {
+            expect(validateJson({ priority: 'high', items: [1, 2] }, schema)).toEqual([]);
+        });
+
+        it('should report every violation with its path', () => {
+            const errors = validateJson({ priority: 'urgent', items: [0, 1.5, 3] }, schema);
+
+            expect(errors).toContain('$.priority: must be one of high, low');
+            expect(errors).toContain('$.items: expected at most 2 item(s), got 3');
+            expect(errors).toContain('$.items[0]: must be >= 1');
+            expect(errors).toContain('$.items[1]: expected integer, got 1.5');
+        });
+
+        it('should report missing required fields', () => {
+            expect(validateJson({ items: [] }, schema)).toEqual(['$.priority: is required']);
+        });
+    });
+
+    describe('extractJson', () => {
+        it('should extract JSON surrounded by text and fences', () => {
+            expect(extractJson('Sure!\n```json\n{"a": [1, "}"]}\n```\nDone')).toEqual({ a: [1, '}'] });
+        });
+
+        it('should only return the expected kind of value', () => {
+            expect(extractJson('Options [a] and {"b": 1}', 'object')).toEqual({ b: 1 });
+            expect(extractJson('Ranking: [2, 1] from {broken', 'array')).toEqual([2, 1]);
+        });
+
+        it('should return undefined when there is no JSON', () => {
+            expect(extractJson('No JSON here')).toBeUndefined();
+        });
+    });
+
+    describe('generateStructured', () => {
+        it('should return a valid first response without repair', async () => {
+            const llm = new FakeLLMAdapter({ steps: [{ text: JSON.stringify(validPlan) }] });
+            const metrics = recordingMetrics();
+
+            const result = await generateStructured(llm, request, dailyPlanOutputSpec, 'corr-1', metrics);
+
+            expect(result.outcome).toBe('valid');
+            expect(result.value).toEqual(validPlan);
+            expect(llm.requests).toHaveLength(1);
+            expect(metrics.structured).toEqual([['daily_planning', 'valid', 1]]);
+        });
+
+        it('should send validation errors back and accept the repaired response', async () => {
+            const broken = { ...validPlan, focusTime: [{ startTime: '08:00', endTime: '10:00', durationMinutes: '120' }] };
+            const llm = new FakeLLMAdapter({ steps: [{ text: JSON.stringify(broken) }, { text: JSON.stringify(validPlan) }] });
+            const metrics = recordingMetrics();
+
+            const result = await generateStructured(llm, request, dailyPlanOutputSpec, 'corr-2', metrics);
+
+            expect(result.outcome).toBe('repaired');
+            expect(result.attempts).toBe(2);
+            expect(result.value).toEqual(validPlan);
+
+            const repairMessages = llm.requests[1].messages;
+            expect(repairMessages).toHaveLength(4);
+            expect(repairMessages[2]).toEqual({ role: 'assistant', content: JSON.stringify(broken) });
+            expect(repairMessages[3].role).toBe('user');
+            expect(repairMessages[3].content).toContain('$.focusTime[0].durationMinutes: expected number, got string');
+            expect(llm.requests[1].useCase).toBe('daily_planning');
+            expect(metrics.structured).toEqual([['daily_planning', 'repaired', 2]]);
+        });
+
+        it('should give up after one repair attempt', async () => {
+            const llm = new FakeLLMAdapter({ steps: [{ text: 'Here is your ranking: first, then second' }, { text: '[1, 1]' }] });
+            const metrics = recordingMetrics();
+
+            const result = await generateStructured(llm, request, flightRankingOutputSpec(2), 'corr-3', metrics);
+
+            expect(result.outcome).toBe('failed');
+            expect(result.value).toBeNull();
+            expect(result.errors).toEqual(['$: items must be unique']);
+            expect(result.rawContent).toBe('[1, 1]');
+            expect(llm.remainingSteps).toBe(0);
+            expect(metrics.structured).toEqual([['rank_flights', 'failed', 2]]);
+        });
+    });
+});
@@ -90,11 +90,82 @@ describe('ToolCallParser', () => {
 	});
 
 	test('flushes remaining buffer on stream end', () => {
-		parser.processChunk('Regular text');
+		const chunk = parser.processChunk('Regular text <tool_');
+		expect(chunk.text).toBe('Regular text ');
+
+		const result = parser.flush();
+
+		expect(result.text).toBe('<tool_');
+		expect(result.tools).toHaveLength(0);
+	});
+
+	test('releases plain text as soon as it cannot be a tool call', () => {
+		expect(parser.processChunk('Sure').text).toBe('Sure');
+		expect(parser.processChunk(', here are your options.').text).toBe(', here are your options.');
+	});
+
+	test('releases text that starts like a marker but is not one', () => {
+		const result = parser.processChunk('Use <b>bold</b> text.');
+
+		expect(result.text).toBe('Use <b>bold</b> text.');
+		expect(result.hasIncompleteToolCall).toBe(false);
+	});
+
+	test('extracts Llama python_tag JSON calls split across chunks', () => {
+		const chunks = ['<|python', '_tag|>{"name": "search_flights", ', '"parameters": {"origin": "JFK", "filters": {"stops": 0}}}', '<|eom_id|>'];
+		const tools = chunks.flatMap((chunk) => parser.processChunk(chunk).tools);
+		const result = parser.flush();
+
+		tools.push(...result.tools);
+		expect(tools).toHaveLength(1);
+		expect(tools[0]).toEqual({
+			name: 'search_flights',
+			args: { origin: 'JFK', filters: { stops: 0 } },
+			format: 'python_tag',
+		});
+		expect(result.text).toBe('');
+	});
+
+	test('extracts Llama python_tag function calls', () => {
+		parser.processChunk('<|python_tag|>list_events(timeMin="2025-05-10", maxResults=10, singleEvents=True)');
+		const result = parser.flush();
+
+		expect(result.tools).toEqual([
+			{ name: 'list_events', args: { timeMin: '2025-05-10', maxResults: 10, singleEvents: true }, format: 'python_tag' },
+		]);
+	});
+
+	test('extracts a bare JSON tool call that is the whole response', () => {
+		const first = parser.processChunk('{"name": "search_flights", "parameters": {"origin": "SFO"');
+		expect(first.text).toBe('');
+		expect(first.hasIncompleteToolCall).toBe(true);
+
+		parser.processChunk(', "destination": "CDG"}}');
 		const result = parser.flush();
 
-		expect(result.text).toBe('Regular text');
+		expect(result.tools).toEqual([{ name: 'search_flights', args: { origin: 'SFO', destination: 'CDG' }, format: 'json' }]);
+		expect(result.text).toBe('');
+	});
+
+	test('treats JSON followed by prose as text', () => {
+		const chunk = parser.processChunk('{"name": "example"} is how a tool call looks.');
+		const result = parser.flush();
+
+		expect(chunk.tools).toHaveLength(0);
 		expect(result.tools).toHaveLength(0);
+		expect(chunk.text + result.text).toBe('{"name": "example"} is how a tool call looks.');
+	});
+
+	test('extracts a bare function call only for known tool names', () => {
+		const known = new ToolCallParser({ knownToolNames: ['search_flights'] });
+		known.processChunk('search_flights(origin="JFK", destination="LAX")');
+
+		expect(known.flush().tools).toEqual([{ name: 'search_flights', args: { origin: 'JFK', destination: 'LAX' }, format: 'python' }]);
+
+		const unknown = new ToolCallParser({ knownToolNames: ['search_flights'] });
+		const chunk = unknown.processChunk('print_report(x=1)');
+
+		expect(chunk).toEqual({ text: 'print_report(x=1)', tools: [], hasIncompleteToolCall: false });
 	});
 
 	test('handles malformed JSON in tool args gracefully', () => {
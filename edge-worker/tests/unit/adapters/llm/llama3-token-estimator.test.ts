@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { estimateLlama3Tokens } from '../../../../src/adapters/llm/llama3-token-estimator';
+
+// Counts from the Llama 3 tokenizer (no BOS/EOS)
+const MEASURED: Array<[string, number]> = [
+    ['\n\n[User Profile]\nHome airport: PHL\nSeat preference: window\nDomestic flight budget: $400\nPreferred airlines: United, Delta\n', 31],
+    ['- JFK → CDG on 5/15/2027 (booked)', 17],
+    ['Planned a JFK to Paris (CDG) trip for May 15-20, 2027 and set a reminder to renew the passport first.', 31],
+    ['Internationalization, accommodations and reimbursement requests are due by Friday.', 12],
+    ['{"origin":"SFO","destination":"JFK","departureDate":"2026-05-01"}', 21],
+];
+
+describe('estimateLlama3Tokens', () => {
+    it('stays within 25% of the real tokenizer where chars/4 does not', () => {
+        for (const [text, tokens] of MEASURED) {
+            expect(Math.abs(estimateLlama3Tokens(text) - tokens) / tokens).toBeLessThanOrEqual(0.25);
+        }
+
+        // chars/4 undercounts symbol-heavy text by almost half
+        expect(Math.ceil(MEASURED[1][0].length / 4)).toBe(9);
+    });
+
+    it('counts whitespace, digit groups and empty text', () => {
+        expect(estimateLlama3Tokens('')).toBe(0);
+        expect(estimateLlama3Tokens('2027')).toBe(2); // "202" + "7"
+        expect(estimateLlama3Tokens('hello world')).toBe(2);
+    });
+});
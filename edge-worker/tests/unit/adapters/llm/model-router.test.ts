@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MODEL_ROUTES, ModelRouter, loadModelRoutes, parseModelRoute } from '../../../../src/adapters/llm/model-router';
+import { RoutedLLMAdapter } from '../../../../src/adapters/llm/routed-llm.adapter';
+import { ILLMPort, LLMCompletionRequest } from '../../../../src/domain/chat/ports/llm.port';
+import { Logger } from '../../../../src/observability/logger';
+import { WorkerEnv } from '../../../../src/env';
+
+const env = (vars: Partial<WorkerEnv>) => vars as WorkerEnv;
+
+describe('parseModelRoute', () => {
+    it('treats bare model ids as Workers AI models', () => {
+        expect(parseModelRoute('@cf/meta/llama-3.1-8b-instruct-fast')).toEqual({
+            provider: 'workers-ai',
+            model: '@cf/meta/llama-3.1-8b-instruct-fast',
+        });
+    });
+
+    it('keeps colons in the model name after the provider prefix', () => {
+        expect(parseModelRoute('openai:llama3:8b')).toEqual({ provider: 'openai', model: 'llama3:8b' });
+    });
+});
+
+describe('loadModelRoutes', () => {
+    it('uses a small model for intent classification and WORKERS_AI_MODEL_ID for chat', () => {
+        const routes = loadModelRoutes(env({ WORKERS_AI_MODEL_ID: '@cf/custom/chat' }));
+
+        expect(routes.chat).toEqual({ provider: 'workers-ai', model: '@cf/custom/chat' });
+        expect(routes.intent_classification).toEqual(DEFAULT_MODEL_ROUTES.intent_classification);
+        expect(routes.daily_planning).toEqual(DEFAULT_MODEL_ROUTES.daily_planning);
+    });
+
+    it('applies LLM_MODEL_ROUTES overrides and ignores unknown use cases', () => {
+        const routes = loadModelRoutes(
+            env({ LLM_MODEL_ROUTES: JSON.stringify({ daily_planning: 'openai:gpt-4o-mini', unknown_case: 'x' }) }),
+        );
+
+        expect(routes.daily_planning).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+        expect(routes).not.toHaveProperty('unknown_case');
+    });
+
+    it('falls back to defaults when LLM_MODEL_ROUTES is not JSON', () => {
+        const routes = loadModelRoutes(env({ LLM_MODEL_ROUTES: 'not json' }));
+
+        expect(routes.flight_ranking).toEqual(DEFAULT_MODEL_ROUTES.flight_ranking);
+    });
+});
+
+describe('RoutedLLMAdapter', () => {
+    const recordingPort = (calls: LLMCompletionRequest[]): ILLMPort => ({
+        async generateCompletion(request) {
+            calls.push(request);
+            return { content: 'ok', tokenCount: 0, model: request.model ?? '' };
+        },
+        async *streamCompletion(request) {
+            calls.push(request);
+            yield { delta: '', done: true };
+        },
+    });
+
+    it('dispatches each use case to its provider and model', async () => {
+        const workersCalls: LLMCompletionRequest[] = [];
+        const openaiCalls: LLMCompletionRequest[] = [];
+        const router = new ModelRouter({ ...DEFAULT_MODEL_ROUTES, daily_planning: { provider: 'openai', model: 'gpt-4o-mini' } });
+        const adapter = new RoutedLLMAdapter(
+            { 'workers-ai': recordingPort(workersCalls), openai: recordingPort(openaiCalls) },
+            router,
+            new Logger('test'),
+        );
+
+        await adapter.generateCompletion({ messages: [], useCase: 'intent_classification' }, 'c1');
+        await adapter.generateCompletion({ messages: [], useCase: 'daily_planning' }, 'c2');
+
+        expect(workersCalls[0].model).toBe(DEFAULT_MODEL_ROUTES.intent_classification.model);
+        expect(openaiCalls[0].model).toBe('gpt-4o-mini');
+    });
+
+    it('throws when the routed provider is not configured', () => {
+        const router = new ModelRouter({ ...DEFAULT_MODEL_ROUTES, chat: { provider: 'openai', model: 'gpt-4o-mini' } });
+        const adapter = new RoutedLLMAdapter({}, router, new Logger('test'));
+
+        expect(() => adapter.streamCompletion({ messages: [] })).toThrow('No LLM provider configured for openai');
+    });
+});
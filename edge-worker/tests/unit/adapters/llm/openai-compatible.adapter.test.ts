@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { OpenAICompatibleAdapter, OpenAICompatibleError } from '../../../../src/adapters/llm/openai-compatible.adapter';
+import { Logger } from '../../../../src/observability/logger';
+
+// Local stand-in for an OpenAI-compatible server
+let server: http.Server;
+let baseUrl: string;
+const requests: any[] = [];
+
+const sse = (events: unknown[]) => events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            const body = JSON.parse(raw);
+            requests.push({ path: req.url, auth: req.headers.authorization, body });
+
+            // Never answers; the client has to give up
+            if (body.model === 'slow') return;
+
+            // Connection drops part-way through the stream
+            if (body.model === 'dropped') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(sse([{ choices: [{ delta: { content: 'Checking ' } }] }]).replace('data: [DONE]\n\n', ''), () => res.destroy());
+                return;
+            }
+
+            if (body.model === 'broken') {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: { message: 'bad model' } }));
+                return;
+            }
+
+            if (!body.stream) {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(
+                    JSON.stringify({
+                        model: body.model,
+                        choices: [{ message: { role: 'assistant', content: 'Hello there' }, finish_reason: 'stop' }],
+                        usage: { total_tokens: 42 },
+                    }),
+                );
+                return;
+            }
+
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.end(
+                sse([
+                    { choices: [{ delta: { content: 'Checking ' } }] },
+                    {
+                        choices: [
+                            {
+                                delta: {
+                                    tool_calls: [{ index: 0, id: 'call_1', function: { name: 'search_flights', arguments: '{"origin":' } }],
+                                },
+                            },
+                        ],
+                    },
+                    { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"SFO"}' } }] } }] },
+                    { choices: [], usage: { total_tokens: 17 } },
+                ]),
+            );
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+const createAdapter = () => new OpenAICompatibleAdapter({ baseUrl, apiKey: 'test-key', defaultModel: 'stand-in' }, new Logger('test'));
+
+describe('OpenAICompatibleAdapter', () => {
+    it('posts a chat completion and maps the response', async () => {
+        const response = await createAdapter().generateCompletion({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 64 }, 'c1');
+
+        expect(response).toMatchObject({ content: 'Hello there', tokenCount: 42, model: 'stand-in', finish_reason: 'stop' });
+        const last = requests[requests.length - 1];
+        expect(last.path).toBe('/v1/chat/completions');
+        expect(last.auth).toBe('Bearer test-key');
+        expect(last.body).toMatchObject({ model: 'stand-in', max_tokens: 64, stream: false });
+    });
+
+    it('streams text deltas and assembles tool call fragments', async () => {
+        const chunks = [];
+        for await (const chunk of createAdapter().streamCompletion({ messages: [{ role: 'user', content: 'fly' }], model: 'routed' })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks[0]).toEqual({ delta: 'Checking ', done: false });
+        const last = chunks[chunks.length - 1];
+        expect(last.done).toBe(true);
+        expect(last.tokenCount).toBe(17);
+        expect(last.tool_calls).toEqual([{ id: 'call_1', type: 'function', function: { name: 'search_flights', arguments: '{"origin":"SFO"}' } }]);
+        expect(requests[requests.length - 1].body.model).toBe('routed');
+    });
+
+    it('does not retry client errors', async () => {
+        const before = requests.length;
+
+        await expect(createAdapter().generateCompletion({ messages: [], model: 'broken' }, 'c2')).rejects.toBeInstanceOf(OpenAICompatibleError);
+        expect(requests.length - before).toBe(1);
+    });
+
+    it('fails a stream whose connection drops instead of ending it early', async () => {
+        const deltas: string[] = [];
+        const read = async () => {
+            for await (const chunk of createAdapter().streamCompletion({ messages: [], model: 'dropped' })) deltas.push(chunk.delta);
+        };
+
+        await expect(read()).rejects.toThrow();
+        expect(deltas).toEqual(['Checking ']);
+    });
+
+    it('aborts an in-flight completion without retrying', async () => {
+        const before = requests.length;
+        const controller = new AbortController();
+
+        const completion = createAdapter().generateCompletion({ messages: [], model: 'slow', signal: controller.signal }, 'c3');
+        await vi.waitFor(() => expect(requests.length - before).toBe(1));
+        controller.abort();
+
+        await expect(completion).rejects.toThrow();
+        expect(requests.length - before).toBe(1);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { GoogleCalendarEvent, GoogleCalendarMapper } from '@/adapters/mcp/mappers/google-calendar.mapper';
+import { Logger } from '@/observability/logger';
+
+const mapper = new GoogleCalendarMapper(new Logger('google-calendar-mapper-test'));
+
+function googleEvent(overrides: Partial<GoogleCalendarEvent>): GoogleCalendarEvent {
+    return {
+        id: 'evt-1',
+        summary: 'Design review',
+        start: { dateTime: '2026-10-20T14:00:00-04:00', timeZone: 'America/New_York' },
+        end: { dateTime: '2026-10-20T15:00:00-04:00', timeZone: 'America/New_York' },
+        status: 'confirmed',
+        ...overrides,
+    };
+}
+
+describe('GoogleCalendarMapper', () => {
+    it('maps all-day events to flagged UTC midnights with the exclusive end date', () => {
+        const [event] = mapper.translateEvents([googleEvent({ summary: 'Offsite', start: { date: '2026-10-20' }, end: { date: '2026-10-22' } })], 'user-1');
+
+        expect(event.startTime.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+        expect(event.endTime.toISOString()).toBe('2026-10-22T00:00:00.000Z');
+        expect(event.metadata.allDay).toBe(true);
+    });
+
+    it('keeps series rules and instance series ids, with attendee responses and time zone', () => {
+        const [series, instance] = mapper.translateEvents(
+            [
+                googleEvent({ id: 'standup', recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO,WE'] }),
+                googleEvent({
+                    id: 'standup_20261021T180000Z',
+                    recurringEventId: 'standup',
+                    attendees: [{ email: 'a@example.com', responseStatus: 'accepted' }, { email: 'b@example.com', responseStatus: 'maybe' }],
+                }),
+            ],
+            'user-1',
+        );
+
+        expect(series.metadata).toMatchObject({ recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO,WE'], allDay: false, timeZone: 'America/New_York' });
+        expect(series.startTime.toISOString()).toBe('2026-10-20T18:00:00.000Z');
+        expect(instance.metadata.recurringEventId).toBe('standup');
+        expect(instance.metadata.attendees?.map((a) => a.responseStatus)).toEqual(['accepted', 'needsAction']);
+    });
+
+    it('drops cancelled and zero-length entries and titles untitled events', () => {
+        const events = mapper.translateEvents(
+            [
+                googleEvent({ id: 'deleted-instance', status: 'cancelled' }),
+                googleEvent({ id: 'reminder', end: { dateTime: '2026-10-20T14:00:00-04:00' } }),
+                googleEvent({ id: 'busy', summary: undefined }),
+            ],
+            'user-1',
+        );
+
+        expect(events.map((e) => [e.id, e.title])).toEqual([['busy', '(No title)']]);
+    });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { handleMemoryRequest } from '../../../../src/api/routes/memory';
+import { Principal, CorrelationId } from '../../../../src/domain/shared';
+import { D1EpisodicMemoryRepository } from '../../../../src/infrastructure/memory/D1EpisodicMemoryRepository';
+import { D1ProceduralMemoryRepository } from '../../../../src/infrastructure/memory/D1ProceduralMemoryRepository';
+import { D1SemanticMemoryRepository } from '../../../../src/infrastructure/memory/D1SemanticMemoryRepository';
+import { WorkflowRunner } from '../../../../src/application/workflow-runner.service';
+import { TaskService } from '../../../../src/application/task.service';
+import { Logger } from '../../../../src/observability/logger';
+import { createTestD1 } from '../../../harness/conversation-harness';
+import type { WorkerEnv } from '../../../../src/env';
+
+describe('memory routes', () => {
+    let db: WorkerEnv['DB'];
+    let dispose: () => Promise<void>;
+    const principal = Principal.create('user-1');
+    const logger = new Logger('memory-routes-test');
+    let runner: WorkflowRunner;
+
+    const call = (method: string, path: string, body?: unknown, as: Principal = principal) =>
+        handleMemoryRequest(
+            new Request(`http://localhost${path}`, {
+                method,
+                headers: body ? { 'Content-Type': 'application/json' } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            }),
+            as,
+            CorrelationId.generate(),
+            db,
+            runner,
+        );
+
+    beforeAll(async () => {
+        ({ db, dispose } = await createTestD1());
+        runner = new WorkflowRunner({
+            workflows: new D1ProceduralMemoryRepository(db),
+            tasks: new TaskService({ save: async () => {} } as any, logger),
+            executeTool: async (_name, args) => ({
+                status: 'success',
+                data: [
+                    { id: 'e1', summary: 'Standup', start: { dateTime: args.timeMin }, end: { dateTime: '2099-01-01T00:00:00Z' } },
+                    { id: 'e2', summary: '1:1', start: { dateTime: args.timeMin }, end: { dateTime: '2099-01-01T00:00:00Z' } },
+                ],
+            }),
+            startDailyPlan: async () => 'plan-1',
+            logger,
+        });
+    });
+
+    afterAll(async () => {
+        await dispose();
+    });
+
+    it('reads and updates profile fields', async () => {
+        const updated = await call('PATCH', '/api/memory/profile', { homeAirport: 'phl', preferredSeat: 'aisle', budgetDomesticUsd: 400 });
+        expect(updated.status).toBe(200);
+
+        const { profile } = (await (await call('GET', '/api/memory/profile')).json()) as any;
+        expect(profile).toMatchObject({ homeAirport: 'PHL', preferredSeat: 'aisle', budgetDomesticUsd: 400 });
+
+        const invalid = await call('PATCH', '/api/memory/profile', { preferredSeat: 'cockpit' });
+        expect(invalid.status).toBe(400);
+        expect(((await invalid.json()) as any).error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('clears profile fields sent as null', async () => {
+        await call('PATCH', '/api/memory/profile', { homeAirport: 'SFO', preferredSeat: 'window', budgetDomesticUsd: 300 });
+
+        const cleared = await call('PATCH', '/api/memory/profile', { homeAirport: null, preferredSeat: null });
+        expect(cleared.status).toBe(200);
+
+        const { profile } = (await (await call('GET', '/api/memory/profile')).json()) as any;
+        expect(profile.homeAirport).toBeUndefined();
+        expect(profile.preferredSeat).toBeUndefined();
+        expect(profile.budgetDomesticUsd).toBe(300);
+    });
+
+    it('confirms an inferred preference as explicit and forgets another', async () => {
+        const semantic = new D1SemanticMemoryRepository(db);
+        await semantic.savePreference(principal.id, { category: 'airline', preferenceKey: 'preferred', preferenceValue: 'United', confidence: 0.6, source: 'inferred' });
+        await semantic.savePreference(principal.id, { category: 'travel', preferenceKey: 'red_eye', preferenceValue: 'avoid', confidence: 0.6, source: 'inferred' });
+
+        const put = await call('PUT', '/api/memory/preferences/airline/preferred', { value: 'United' });
+        expect(((await put.json()) as any).preference).toMatchObject({ value: 'United', confidence: 1, source: 'explicit' });
+
+        expect((await call('DELETE', '/api/memory/preferences/travel/red_eye')).status).toBe(204);
+
+        const { preferences } = (await (await call('GET', '/api/memory/preferences?source=inferred')).json()) as any;
+        expect(preferences).toEqual([]);
+        expect((await call('PUT', '/api/memory/preferences/food/lunch', { value: 'salad' })).status).toBe(400);
+    });
+
+    it('only lets users change their own travel history and rules', async () => {
+        const other = Principal.create('user-2');
+        await new D1SemanticMemoryRepository(db).ensureProfile(other.id);
+        await new D1EpisodicMemoryRepository(db).addTravelHistory({
+            userId: other.id,
+            fromAirport: 'SFO',
+            toAirport: 'JFK',
+            departureDate: new Date('2026-05-01'),
+            bookingStatus: 'booked',
+        });
+        await new D1ProceduralMemoryRepository(db).addAutomationRule({
+            userId: other.id,
+            ruleName: 'Prefer Delta',
+            ruleType: 'prioritize',
+            context: 'flight_search',
+            condition: { field: 'airline', operator: 'eq', value: 'Delta' },
+            action: { type: 'boost', params: { score: 10 } },
+            priority: 10,
+            enabled: true,
+        });
+
+        const { trips } = (await (await call('GET', '/api/memory/travel', undefined, other)).json()) as any;
+        const { rules } = (await (await call('GET', '/api/memory/rules', undefined, other)).json()) as any;
+        expect(trips).toMatchObject([{ fromAirport: 'SFO', toAirport: 'JFK', departureDate: '2026-05-01', bookingStatus: 'booked' }]);
+        expect(rules).toMatchObject([{ ruleName: 'Prefer Delta', enabled: true }]);
+        for (const limit of ['abc', '0', '100000']) {
+            const res = await call('GET', `/api/memory/travel?limit=${limit}`, undefined, other);
+            expect(res.status).toBe(200);
+            expect(((await res.json()) as any).trips).toHaveLength(1);
+        }
+
+        expect((await call('PATCH', `/api/memory/travel/${trips[0].id}`, { bookingStatus: 'cancelled' })).status).toBe(404);
+        expect((await call('DELETE', `/api/memory/rules/${rules[0].id}`)).status).toBe(404);
+
+        expect((await call('PATCH', `/api/memory/travel/${trips[0].id}`, { bookingStatus: 'cancelled' }, other)).status).toBe(200);
+        expect((await call('PATCH', `/api/memory/rules/${rules[0].id}`, { enabled: false }, other)).status).toBe(200);
+        const after = (await (await call('GET', '/api/memory/rules', undefined, other)).json()) as any;
+        expect(after.rules[0].enabled).toBe(false);
+
+        expect((await call('DELETE', `/api/memory/travel/${trips[0].id}`, undefined, other)).status).toBe(204);
+        expect(((await (await call('GET', '/api/memory/travel', undefined, other)).json()) as any).trips).toEqual([]);
+    });
+
+    it('runs a workflow on demand and records the run', async () => {
+        await new D1SemanticMemoryRepository(db).ensureProfile(principal.id);
+        const procedural = new D1ProceduralMemoryRepository(db);
+        await procedural.addWorkflow({
+            userId: principal.id,
+            workflowName: 'Morning briefing',
+            triggerType: 'manual',
+            actions: [{ type: 'list_events', params: {} }],
+            enabled: true,
+        });
+        const { workflows } = (await (await call('GET', '/api/memory/workflows')).json()) as any;
+        expect(workflows).toMatchObject([{ workflowName: 'Morning briefing', triggerType: 'manual' }]);
+        expect(workflows[0].lastRun).toBeUndefined();
+
+        const ran = await call('POST', `/api/memory/workflows/${workflows[0].id}/run`);
+        expect(ran.status).toBe(200);
+        const { run } = (await ran.json()) as any;
+        expect(run).toMatchObject({ status: 'succeeded', steps: [{ action: 'list_events', status: 'succeeded' }] });
+        expect(run.summary).toMatch(/^Morning briefing ran at \d{2}:\d{2}: found 2 events, 1 conflict$/);
+
+        const { runs } = (await (await call('GET', `/api/memory/workflows/runs?workflowId=${workflows[0].id}`)).json()) as any;
+        expect(runs).toMatchObject([{ id: run.id, status: 'succeeded', summary: run.summary }]);
+        const unbounded = (await (await call('GET', `/api/memory/workflows/runs?limit=nope`)).json()) as any;
+        expect(unbounded.runs).toHaveLength(1);
+        expect((await call('POST', `/api/memory/workflows/${workflows[0].id}/run`, undefined, Principal.create('user-2'))).status).toBe(404);
+    });
+
+    it("shows each workflow's last run even when another workflow has run many more times since", async () => {
+        const busy = Principal.create('user-3');
+        await new D1SemanticMemoryRepository(db).ensureProfile(busy.id);
+        const procedural = new D1ProceduralMemoryRepository(db);
+        for (const workflowName of ['Weekly review', 'Inbox sweep']) {
+            await procedural.addWorkflow({ userId: busy.id, workflowName, triggerType: 'manual', actions: [], enabled: true });
+        }
+        const { workflows } = await procedural.getProceduralMemory(busy.id);
+        const weekly = workflows.find((w) => w.workflowName === 'Weekly review')!;
+        const sweep = workflows.find((w) => w.workflowName === 'Inbox sweep')!;
+
+        const start = Date.parse('2026-10-12T08:00:00Z');
+        const recordRun = (id: string, workflow: typeof weekly, minutesLater: number) =>
+            procedural.startWorkflowRun({
+                id,
+                workflowId: workflow.id,
+                userId: busy.id,
+                workflowName: workflow.workflowName,
+                triggerType: 'manual',
+                startedAt: new Date(start + minutesLater * 60_000),
+            });
+        await recordRun('weekly-run', weekly, 0);
+        for (let i = 1; i <= 120; i++) {
+            await recordRun(`sweep-run-${i}`, sweep, i * 5);
+        }
+
+        const listed = (await (await call('GET', '/api/memory/workflows', undefined, busy)).json()) as any;
+        const byName = Object.fromEntries(listed.workflows.map((w: any) => [w.workflowName, w]));
+        expect(byName['Weekly review'].lastRun).toMatchObject({ id: 'weekly-run' });
+        expect(byName['Inbox sweep'].lastRun).toMatchObject({ id: 'sweep-run-120' });
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { TaskService } from '@/application/task.service';
+import { Task } from '@/domain/task/aggregates/task.aggregate';
+import { Logger } from '@/observability/logger';
+
+function createService(tasks: Task[]) {
+    const saved: Task[] = [];
+    const service = new TaskService(
+        {
+            save: async (task: Task) => void saved.push(task),
+            findById: async (id: string, userId: string) => tasks.find((t) => t.id === id && t.getUserId() === userId) ?? null,
+            findByUser: async (userId: string) => tasks.filter((t) => t.getUserId() === userId),
+            findOverdue: async () => [],
+        },
+        new Logger('task-service-test'),
+    );
+    return { service, saved };
+}
+
+describe('TaskService.linkEvent', () => {
+    it('links a created event to open tasks with a matching title', async () => {
+        const deck = Task.create('Finish deck prep', 'user-1');
+        const done = Task.create('Deck prep', 'user-1');
+        done.complete();
+        const linked = Task.create('Deck prep for board', 'user-1', 'medium', { relatedEventId: 'evt_old' });
+        const focus = Task.create('Focus', 'user-1');
+        const { service, saved } = createService([deck, done, linked, focus, Task.create('Deck prep', 'user-2')]);
+
+        const tasks = await service.linkEvent({ userId: 'user-1', eventId: 'evt_deck', eventTitle: 'Deck prep' });
+        await service.linkEvent({ userId: 'user-1', eventId: 'evt_focus', eventTitle: 'Focus time' });
+
+        expect(tasks).toEqual([deck]);
+        expect(saved).toEqual([deck]);
+        expect(deck.getMetadata().relatedEventId).toBe('evt_deck');
+        expect(focus.getMetadata().relatedEventId).toBeUndefined();
+    });
+
+    it('links the named task whatever its title', async () => {
+        const task = Task.create('Quarterly numbers', 'user-1', 'high', { source: 'chat' });
+        const { service } = createService([task]);
+
+        await service.linkEvent({ userId: 'user-1', eventId: 'evt_1', eventTitle: 'Deck prep', taskId: task.id });
+        expect(await service.linkEvent({ userId: 'user-2', eventId: 'evt_2', eventTitle: 'Deck prep', taskId: task.id })).toEqual([]);
+
+        expect(task.getMetadata()).toEqual({ source: 'chat', relatedEventId: 'evt_1' });
+    });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WorkflowRunner } from '@/application/workflow-runner.service';
+import { TaskService } from '@/application/task.service';
+import { ProceduralMemory, UserWorkflow, WorkflowRun } from '@/domain/memory/ProceduralMemory';
+import { TravelEventDetectedInCalendar } from '@/domain/calendar/events/calendar.events';
+import { CorrelationId } from '@/domain/shared/value-objects/correlation-id.vo';
+import { Task } from '@/domain/task/aggregates/task.aggregate';
+import { Logger } from '@/observability/logger';
+
+function workflow(overrides: Partial<UserWorkflow>): UserWorkflow {
+    return {
+        id: 'wf-1',
+        userId: 'user-1',
+        workflowName: 'Monday briefing',
+        triggerType: 'scheduled',
+        actions: [],
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...overrides,
+    };
+}
+
+/**
+ * In-memory stand-in for the procedural memory repository's workflow and run methods
+ */
+function createRepository(workflows: UserWorkflow[]) {
+    const runs = new Map<string, WorkflowRun>();
+    return {
+        runs,
+        getProceduralMemory: async () => new ProceduralMemory(workflows, []),
+        getWorkflow: async (userId: string, id: string) => workflows.find((w) => w.userId === userId && w.id === id) ?? null,
+        getEnabledWorkflows: async (triggerType: string, userId?: string) =>
+            workflows.filter((w) => w.enabled && w.triggerType === triggerType && (!userId || w.userId === userId)),
+        startWorkflowRun: async (run: WorkflowRun) => {
+            if (runs.has(run.id) && runs.get(run.id)!.status !== 'failed') return false;
+            runs.set(run.id, { ...run, status: 'running', steps: [] });
+            return true;
+        },
+        finishWorkflowRun: async (id: string, outcome: Partial<WorkflowRun>) => {
+            runs.set(id, { ...runs.get(id)!, ...outcome });
+        },
+    };
+}
+
+describe('WorkflowRunner', () => {
+    const logger = new Logger('workflow-runner-test');
+    let toolCalls: Array<{ name: string; args: Record<string, unknown> }>;
+    let savedTasks: Task[];
+
+    function createRunner(workflows: UserWorkflow[]) {
+        const repository = createRepository(workflows);
+        const runner = new WorkflowRunner({
+            workflows: repository as any,
+            tasks: new TaskService({ save: async (task: Task) => void savedTasks.push(task) } as any, logger),
+            executeTool: async (name, args) => {
+                toolCalls.push({ name, args });
+                const at = (hour: number) => `2026-10-19T${String(hour).padStart(2, '0')}:00:00Z`;
+                return {
+                    status: 'success',
+                    data: [
+                        { id: 'a', summary: 'Standup', start: { dateTime: at(13) }, end: { dateTime: at(15) } },
+                        { id: 'b', summary: 'Review', start: { dateTime: at(14) }, end: { dateTime: at(16) } },
+                        { id: 'c', summary: 'Sync', start: { dateTime: at(14) }, end: { dateTime: at(15) } },
+                        { id: 'd', summary: 'Gym', start: { dateTime: at(20) }, end: { dateTime: at(21) } },
+                    ],
+                };
+            },
+            startDailyPlan: async () => 'plan-1',
+            logger,
+        });
+        return { runner, repository };
+    }
+
+    beforeEach(() => {
+        toolCalls = [];
+        savedTasks = [];
+    });
+
+    it('should run scheduled workflows due in the tick window once, reading dates in the workflow time zone', async () => {
+        const { runner, repository } = createRunner([
+            workflow({
+                triggerConfig: { schedule: '0 8 * * 1', timezone: 'America/New_York' },
+                actions: [{ type: 'list_events', params: { timeMin: 'today', timeMax: 'today' } }],
+            }),
+            workflow({ id: 'wf-2', triggerConfig: { schedule: '0 9 * * 1' } }),
+        ]);
+
+        // 12:03Z is 08:03 in New York; the */5 tick covers 07:59-08:03
+        const runs = await runner.runScheduled(new Date('2026-10-19T12:03:00Z'));
+
+        expect(runs).toHaveLength(1);
+        expect(runs[0]).toMatchObject({
+            id: 'wf-1@2026-10-19T12:00:00.000Z',
+            status: 'succeeded',
+            summary: 'Monday briefing ran at 08:00: found 4 events, 3 conflicts',
+        });
+        expect(toolCalls[0].args).toEqual({
+            timeMin: '2026-10-19T04:00:00.000Z',
+            timeMax: '2026-10-20T04:00:00.000Z',
+            singleEvents: true,
+            orderBy: 'startTime',
+        });
+
+        expect(await runner.runScheduled(new Date('2026-10-19T12:03:00Z'))).toEqual([]);
+        expect(repository.runs.size).toBe(1);
+    });
+
+    it('should fire event workflows listening for the domain event and fill placeholders from it', async () => {
+        const { runner } = createRunner([
+            workflow({
+                triggerType: 'event',
+                workflowName: 'Trip prep',
+                triggerConfig: { event: 'TravelEventDetectedInCalendar' },
+                actions: [{ type: 'create_task', params: { title: 'Pack for {{event.eventTitle}}', dueDate: '2026-10-20', priority: 'high' } }],
+            }),
+            workflow({ id: 'wf-2', triggerType: 'event', triggerConfig: { event: 'calendar.events.synced' } }),
+        ]);
+        const event = new TravelEventDetectedInCalendar(CorrelationId.generate(), 'user-1', 'cal-1', 'user-1');
+
+        const runs = await runner.handleEvent(event, { eventTitle: 'Flight to Paris' }, 'cal-1');
+
+        expect(runs.map((r) => r.workflowId)).toEqual(['wf-1']);
+        expect(runs[0].summary).toMatch(/: created task "Pack for Flight to Paris"$/);
+        expect(savedTasks[0].getTitle()).toBe('Pack for Flight to Paris');
+        expect(savedTasks[0].getPriority()).toBe('high');
+        expect(await runner.handleEvent(event, { eventTitle: 'Flight to Paris' }, 'cal-1')).toEqual([]);
+    });
+
+    it('should stop at the first failing action and record the failure', async () => {
+        const { runner, repository } = createRunner([
+            workflow({
+                triggerType: 'manual',
+                actions: [
+                    { type: 'check_airline', params: {} },
+                    { type: 'list_events', params: {} },
+                ],
+            }),
+        ]);
+
+        const run = await runner.runManual('user-1', 'wf-1', 'corr-1');
+
+        expect(run).toMatchObject({ status: 'failed', error: 'Unsupported action: check_airline' });
+        expect(run!.steps).toHaveLength(1);
+        expect(run!.summary).toMatch(/failed at check_airline: Unsupported action: check_airline$/);
+        expect(repository.runs.get(run!.id)).toMatchObject({ status: 'failed' });
+        expect(toolCalls).toEqual([]);
+        expect(await runner.runManual('user-2', 'wf-1', 'corr-2')).toBeNull();
+    });
+
+    it('should record a run that throws as failed so a repeated trigger retries it', async () => {
+        const trip = workflow({
+            triggerType: 'event',
+            triggerConfig: { event: 'TravelEventDetectedInCalendar', timezone: 'Mars/Olympus_Mons' },
+        });
+        const { runner, repository } = createRunner([trip]);
+        const event = new TravelEventDetectedInCalendar(CorrelationId.generate(), 'user-1', 'cal-1', 'user-1');
+
+        expect(await runner.handleEvent(event, {}, 'cal-1')).toEqual([]);
+        expect([...repository.runs.values()]).toMatchObject([{ status: 'failed', error: expect.stringContaining('Mars/Olympus_Mons') }]);
+
+        trip.triggerConfig = { event: 'TravelEventDetectedInCalendar', timezone: 'UTC' };
+        expect(await runner.handleEvent(event, {}, 'cal-1')).toMatchObject([{ status: 'succeeded' }]);
+        expect(await runner.handleEvent(event, {}, 'cal-1')).toEqual([]);
+    });
+
+    it('should keep running the scheduled workflows after one that throws', async () => {
+        const { runner, repository } = createRunner([
+            workflow({ triggerConfig: { schedule: '0 8 * * 1' } }),
+            workflow({ id: 'wf-2', workflowName: 'Standup prep', triggerConfig: { schedule: '0 8 * * 1' } }),
+        ]);
+        const startWorkflowRun = repository.startWorkflowRun;
+        repository.startWorkflowRun = async (run: WorkflowRun) => {
+            if (run.workflowId === 'wf-1') throw new Error('D1_ERROR: database is locked');
+            return startWorkflowRun(run);
+        };
+
+        const runs = await runner.runScheduled(new Date('2026-10-19T08:00:00Z'));
+
+        expect(runs).toMatchObject([{ workflowId: 'wf-2', status: 'succeeded' }]);
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { PreferenceLearner } from '../../../../src/domain/memory/PreferenceLearner';
+import { UserPreference } from '../../../../src/domain/memory/SemanticMemory';
+
+function stored(overrides: Partial<UserPreference>): UserPreference {
+    return {
+        id: 'pref-1',
+        userId: 'user-1',
+        category: 'airline',
+        preferenceKey: 'preferred',
+        preferenceValue: 'United',
+        confidence: 0.6,
+        source: 'inferred',
+        createdAt: new Date(0),
+        updatedAt: new Date(0),
+        ...overrides,
+    };
+}
+
+describe('PreferenceLearner', () => {
+    const learner = new PreferenceLearner();
+
+    it('extracts stated and implied preferences', () => {
+        const read = (message: string) =>
+            learner.extract(message).map((o) => [`${o.category}:${o.preferenceKey}`, o.preferenceValue, o.negated, o.strength]);
+
+        expect(read('I always fly United')).toEqual([['airline:preferred', 'United', false, 'stated']]);
+        expect(read('I hate red-eyes')).toEqual([['travel:red_eye', 'avoid', false, 'stated']]);
+        expect(read('my home airport is PHL')).toEqual([['travel:home_airport', 'PHL', false, 'stated']]);
+        expect(read('My home airport is Philadelphia.')).toEqual([['travel:home_airport', 'PHL', false, 'stated']]);
+        expect(read('Book me on Delta again, window seat as usual')).toEqual([
+            ['airline:preferred', 'Delta', false, 'implied'],
+            ['travel:seat', 'window', false, 'implied'],
+        ]);
+        expect(read("I don't fly Spirit anymore")).toEqual([
+            ['airline:avoid', 'Spirit', false, 'stated'],
+            ['airline:preferred', 'Spirit', true, 'stated'],
+        ]);
+
+        expect(read('Find flights from SFO to JFK on United')).toEqual([]);
+        expect(read("I don't always fly United")).toEqual([]);
+        expect(read('my home airport is Portland')).toEqual([]); // Ambiguous airports are not learned
+    });
+
+    it('starts new preferences as inferred with evidence-weighted confidence', () => {
+        const [stated] = learner.update([], learner.extract('I always fly United'));
+        expect(stated).toMatchObject({
+            action: 'save',
+            preference: { category: 'airline', preferenceKey: 'preferred', preferenceValue: 'United', confidence: 0.6, source: 'inferred' },
+            evidence: 'I always fly United',
+        });
+
+        const [implied] = learner.update([], learner.extract('on United again please'));
+        expect(implied).toMatchObject({ action: 'save', preference: { confidence: 0.4 } });
+    });
+
+    it('raises confidence on repeated evidence and lowers it on contradictions', () => {
+        const [repeated] = learner.update([stored({ confidence: 0.6 })], learner.extract('I usually fly United'));
+        expect(repeated).toMatchObject({ action: 'save', preference: { preferenceValue: 'United', confidence: 0.8 } });
+
+        // A strong preference survives one contradiction, weakened
+        const [kept] = learner.update([stored({ confidence: 0.9 })], learner.extract('I prefer Delta'));
+        expect(kept).toMatchObject({ action: 'save', preference: { preferenceValue: 'United', confidence: 0.63 } });
+
+        // A weak one is replaced by the new value
+        const [replaced] = learner.update([stored({ confidence: 0.6 })], learner.extract('I prefer Delta'));
+        expect(replaced).toMatchObject({ action: 'save', preference: { preferenceValue: 'Delta', confidence: 0.6 } });
+    });
+
+    it('forgets rejected preferences once confidence is low', () => {
+        const updates = learner.update([stored({ confidence: 0.6 })], learner.extract('I never fly United'));
+        expect(updates.find((u) => u.action === 'save' && u.preference.preferenceKey === 'preferred')).toMatchObject({
+            preference: { confidence: 0.3 },
+        });
+
+        const forgotten = learner.update([stored({ confidence: 0.3 })], learner.extract('I never fly United'));
+        expect(forgotten).toContainEqual(expect.objectContaining({ action: 'delete', category: 'airline', preferenceKey: 'preferred' }));
+    });
+
+    it('never changes preferences the user set explicitly', () => {
+        const updates = learner.update([stored({ source: 'explicit', confidence: 1 })], learner.extract('I prefer Delta'));
+        expect(updates).toEqual([]);
+    });
+});
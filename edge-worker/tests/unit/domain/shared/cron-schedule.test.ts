@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { CronSchedule, InvalidCronExpressionError } from '@/domain/shared/services/cron-schedule';
+import { InvalidTimeZoneError } from '@/domain/shared/services/date-expression.parser';
+
+describe('CronSchedule', () => {
+    it('should match minute, hour and weekday in UTC by default', () => {
+        const mondayEight = CronSchedule.parse('0 8 * * 1');
+        expect(mondayEight.matches(new Date('2026-10-19T08:00:30Z'))).toBe(true); // Monday
+        expect(mondayEight.matches(new Date('2026-10-19T08:01:00Z'))).toBe(false);
+        expect(mondayEight.matches(new Date('2026-10-20T08:00:00Z'))).toBe(false);
+    });
+
+    it('should read the schedule in the given time zone', () => {
+        const schedule = CronSchedule.parse('0 8 * * MON', 'America/New_York');
+        expect(schedule.matches(new Date('2026-10-19T12:00:00Z'))).toBe(true); // 08:00 EDT
+        expect(schedule.matches(new Date('2026-10-19T08:00:00Z'))).toBe(false);
+    });
+
+    it('should support lists, ranges, steps and Sunday as 7', () => {
+        const schedule = CronSchedule.parse('*/15 9-17 * * mon-fri');
+        expect(schedule.matches(new Date('2026-10-21T09:45:00Z'))).toBe(true);
+        expect(schedule.matches(new Date('2026-10-21T09:50:00Z'))).toBe(false);
+        expect(schedule.matches(new Date('2026-10-24T10:00:00Z'))).toBe(false); // Saturday
+        expect(CronSchedule.parse('0 0 * * 7').matches(new Date('2026-10-25T00:00:00Z'))).toBe(true);
+        expect(CronSchedule.parse('30 6 1,15 * *').matches(new Date('2026-11-15T06:30:00Z'))).toBe(true);
+    });
+
+    it('should match either day field when both are restricted', () => {
+        const schedule = CronSchedule.parse('0 9 1 * 5');
+        expect(schedule.matches(new Date('2026-10-01T09:00:00Z'))).toBe(true); // 1st, a Thursday
+        expect(schedule.matches(new Date('2026-10-23T09:00:00Z'))).toBe(true); // A Friday
+        expect(schedule.matches(new Date('2026-10-22T09:00:00Z'))).toBe(false);
+    });
+
+    it('should reject malformed expressions and unknown time zones', () => {
+        expect(() => CronSchedule.parse('0 8 * *')).toThrow(InvalidCronExpressionError);
+        expect(() => CronSchedule.parse('60 8 * * *')).toThrow(/out of range/);
+        expect(() => CronSchedule.parse('0 17-9 * * *')).toThrow(/backwards/);
+        expect(() => CronSchedule.parse('*/0 * * * *')).toThrow(/bad step/);
+        expect(() => CronSchedule.parse('0 8 * * *', 'Mars/Olympus')).toThrow(InvalidTimeZoneError);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+    assertTimeZone,
+    findDateExpressions,
+    InvalidTimeZoneError,
+    parseDateExpression,
+    parseLocalDateTime
+} from '@/domain/shared/services/date-expression.parser';
+
+// Thursday 2026-10-15, 10:00 in New York
+const context = { now: new Date('2026-10-15T14:00:00Z'), timeZone: 'America/New_York' };
+
+function dates(text: string) {
+    const expression = parseDateExpression(text, context);
+    return expression && { kind: expression.kind, startDate: expression.startDate, endDate: expression.endDate };
+}
+
+describe('Date expression parser', () => {
+    it('should resolve a month-day range to a span, rolling into next year once passed', () => {
+        expect(dates('Fly to Lisbon May 15–20')).toEqual({ kind: 'span', startDate: '2027-05-15', endDate: '2027-05-20' });
+        expect(dates('Oct 30 to Nov 2')).toEqual({ kind: 'span', startDate: '2026-10-30', endDate: '2026-11-02' });
+        expect(dates('20-24 December')).toEqual({ kind: 'span', startDate: '2026-12-20', endDate: '2026-12-24' });
+    });
+
+    it('should resolve relative days', () => {
+        expect(dates('on the 3rd')).toEqual({ kind: 'day', startDate: '2026-11-03', endDate: '2026-11-03' });
+        expect(dates('in two weeks')).toMatchObject({ kind: 'day', startDate: '2026-10-29' });
+        expect(dates('by end of month')).toMatchObject({ kind: 'day', startDate: '2026-10-31' });
+        expect(dates('next Thursday')).toMatchObject({ startDate: '2026-10-22' });
+        expect(dates('tomorrow')).toMatchObject({ startDate: '2026-10-16' });
+    });
+
+    it('should resolve weekends and weeks', () => {
+        expect(dates('this weekend')).toEqual({ kind: 'span', startDate: '2026-10-17', endDate: '2026-10-18' });
+        expect(dates('next week')).toEqual({ kind: 'period', startDate: '2026-10-19', endDate: '2026-10-25' });
+    });
+
+    it('should narrow a day to its time of day in the user timezone', () => {
+        const expression = parseDateExpression('Thursday evening', context);
+
+        expect(expression?.timeOfDay).toBe('evening');
+        expect(expression?.range.start.toISOString()).toBe('2026-10-15T21:00:00.000Z');
+        expect(expression?.range.end.toISOString()).toBe('2026-10-16T01:00:00.000Z');
+    });
+
+    it('should end a range at local midnight after its last day, across DST changes', () => {
+        const expression = parseDateExpression('Oct 30 to Nov 2', context);
+
+        expect(expression?.range.start.toISOString()).toBe('2026-10-30T04:00:00.000Z');
+        expect(expression?.range.end.toISOString()).toBe('2026-11-03T05:00:00.000Z');
+    });
+
+    it('should take today from the user timezone', () => {
+        const lateEvening = new Date('2026-10-16T02:00:00Z'); // Still Thursday in New York
+
+        expect(parseDateExpression('tomorrow', { now: lateEvening, timeZone: 'America/New_York' })?.startDate).toBe('2026-10-16');
+        expect(parseDateExpression('tomorrow', { now: lateEvening })?.startDate).toBe('2026-10-17');
+        expect(parseDateExpression('tomorrow', { now: lateEvening, timeZone: 'Not/AZone' })?.startDate).toBe('2026-10-17');
+    });
+
+    it('should find every expression in reading order, preferring the longest match', () => {
+        const expressions = findDateExpressions('Leave 2026-11-20, back Nov 24', context);
+
+        expect(expressions.map((e) => e.startDate)).toEqual(['2026-11-20', '2026-11-24']);
+        expect(expressions.map((e) => e.text)).toEqual(['2026-11-20', 'Nov 24']);
+    });
+
+    it('should return null when there is no date', () => {
+        expect(parseDateExpression('Send the deck to Maria', context)).toBeNull();
+        expect(parseDateExpression('Mayday', context)).toBeNull();
+    });
+
+    it('should reject unknown time zones', () => {
+        expect(assertTimeZone('Europe/Lisbon')).toBe('Europe/Lisbon');
+        expect(() => assertTimeZone('Mars/Olympus')).toThrow(InvalidTimeZoneError);
+    });
+
+    it('should read a date-time without an offset as wall-clock time in the time zone', () => {
+        expect(parseLocalDateTime('2026-11-19T14:00:00', 'America/New_York')?.toISOString()).toBe('2026-11-19T19:00:00.000Z');
+        expect(parseLocalDateTime('2026-07-01T14:00', 'America/New_York')?.toISOString()).toBe('2026-07-01T18:00:00.000Z');
+        expect(parseLocalDateTime('2026-11-19T14:00:00', undefined)?.toISOString()).toBe('2026-11-19T14:00:00.000Z');
+        expect(parseLocalDateTime('2026-11-19T14:00:00Z', 'America/New_York')?.toISOString()).toBe('2026-11-19T14:00:00.000Z');
+        expect(parseLocalDateTime('2026-11-19T14:00:00+01:00', 'America/New_York')?.toISOString()).toBe('2026-11-19T13:00:00.000Z');
+        expect(parseLocalDateTime('next week', 'America/New_York')).toBeNull();
+    });
+});
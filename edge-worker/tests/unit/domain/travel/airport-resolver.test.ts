@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { AirportResolver, describeAirport } from '@/domain/travel/services/airport-resolver.service';
+
+const resolver = new AirportResolver();
+
+function codes(query: string): string[] {
+    return resolver.resolve(query).candidates.map((c) => c.code.toString());
+}
+
+describe('AirportResolver', () => {
+    it('should resolve airport codes in any case', () => {
+        expect(resolver.resolve('sfo')).toMatchObject({ status: 'resolved', matchedBy: 'code' });
+        expect(codes('LHR')).toEqual(['LHR']);
+    });
+
+    it('should pass through codes outside the dataset only when written as codes', () => {
+        expect(resolver.resolve('BZN')).toMatchObject({ status: 'resolved', matchedBy: 'code' });
+        expect(resolver.resolve('bzn').status).toBe('unknown');
+    });
+
+    it('should expand metro codes and names to their airports, busiest first', () => {
+        expect(resolver.resolve('NYC')).toMatchObject({ status: 'ambiguous', matchedBy: 'metro', metroCode: 'NYC' });
+        expect(codes('NYC')).toEqual(['JFK', 'LGA', 'EWR']);
+        expect(codes('New York City')).toEqual(['JFK', 'LGA', 'EWR']);
+        expect(codes('Bay Area')).toEqual(['SFO', 'OAK', 'SJC']);
+    });
+
+    it('should resolve city names, airport names and aliases', () => {
+        expect(codes('Denver')).toEqual(['DEN']);
+        expect(codes('Heathrow')).toEqual(['LHR']);
+        expect(codes("O'Hare")).toEqual(['ORD']);
+        expect(codes('Vegas')).toEqual(['LAS']);
+        expect(codes('Bengaluru')).toEqual(['BLR']);
+        expect(codes('Zürich')).toEqual(['ZRH']);
+    });
+
+    it('should tolerate misspellings', () => {
+        expect(resolver.resolve('Denvr')).toMatchObject({ status: 'resolved', matchedBy: 'fuzzy' });
+        expect(codes('San Fransisco')).toEqual(['SFO']);
+        expect(codes('Chicgao')).toEqual(['ORD', 'MDW']);
+    });
+
+    it('should return every candidate for names shared by several places', () => {
+        const portland = resolver.resolve('Portland');
+
+        expect(portland.status).toBe('ambiguous');
+        expect(portland.metroCode).toBeUndefined();
+        expect(portland.candidates.map(describeAirport)).toEqual([
+            'PDX (Portland International, Portland, OR)',
+            'PWM (Portland International Jetport, Portland, ME)',
+        ]);
+        expect(codes('London')).toEqual(['LHR', 'LGW', 'STN', 'LCY', 'LTN', 'YXU']);
+    });
+
+    it('should narrow by region or country after a comma', () => {
+        expect(resolver.resolve('Portland, ME')).toMatchObject({ status: 'resolved' });
+        expect(codes('Portland, ME')).toEqual(['PWM']);
+        expect(codes('London, CA')).toEqual(['YXU']);
+    });
+
+    it('should report unknown places', () => {
+        expect(resolver.resolve('Gotham')).toMatchObject({ status: 'unknown', candidates: [] });
+    });
+
+    it('should pick a searchable code for callers that cannot ask', () => {
+        expect(resolver.searchCode('Paris')).toBe('PAR');
+        expect(resolver.searchCode('Portland')).toBe('PDX');
+        expect(resolver.searchCode('Tokyo')).toBe('TYO');
+        expect(resolver.searchCode('Gotham')).toBeNull();
+    });
+});
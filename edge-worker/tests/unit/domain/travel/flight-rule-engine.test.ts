@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { FlightFacts, FlightRuleEngine } from '@/domain/travel/services/flight-rule-engine.service';
+import { AutomationRule } from '@/domain/memory/ProceduralMemory';
+
+const engine = new FlightRuleEngine();
+
+function flight(id: string, overrides: Partial<FlightFacts> = {}): FlightFacts {
+    return {
+        id,
+        label: id,
+        price: 300,
+        currency: 'USD',
+        airlines: ['UA', 'United Airlines'],
+        stops: 0,
+        departureHour: 9,
+        durationMinutes: 180,
+        ...overrides,
+    };
+}
+
+function rule(id: string, ruleType: AutomationRule['ruleType'], condition: AutomationRule['condition'], extra: Partial<AutomationRule> = {}): AutomationRule {
+    return {
+        id,
+        userId: 'user-1',
+        ruleName: id,
+        ruleType,
+        context: 'flight_search',
+        condition,
+        action: { type: ruleType, params: {} },
+        priority: 0,
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...extra,
+    };
+}
+
+function ids(options: FlightFacts[]): string[] {
+    return options.map((o) => o.id);
+}
+
+describe('FlightRuleEngine', () => {
+    it('should remove options matching filter rules and options failing constraints, rules in priority then id order', () => {
+        const options = [
+            flight('cheap'),
+            flight('pricey', { price: 612 }),
+            flight('two-stop', { stops: 2 }),
+            flight('red-eye', { departureHour: 23.5 }),
+        ];
+        const rules = [
+            rule('no-expensive', 'filter', { field: 'price', operator: 'gt', value: 500 }),
+            rule('max-one-stop', 'constraint', { field: 'stops', operator: 'lt', value: 2 }),
+            rule('before-9pm', 'constraint', { field: 'departure_time', operator: 'lt', value: '21:00' }),
+        ];
+
+        const outcome = engine.apply(options, rules, (o) => o);
+
+        expect(ids(outcome.options)).toEqual(['cheap']);
+        expect(outcome.removed).toEqual([
+            expect.objectContaining({ optionId: 'red-eye', ruleId: 'before-9pm', reason: 'departure hour 23:30 fails "is under 21:00"' }),
+            expect.objectContaining({ optionId: 'two-stop', ruleId: 'max-one-stop', reason: 'stops 2 fails "is under 2"' }),
+            expect.objectContaining({ optionId: 'pricey', ruleId: 'no-expensive', reason: 'price 612 USD is over 500' }),
+        ]);
+    });
+
+    it('should credit a removal to the highest priority rule and explain it per rule', () => {
+        const options = [flight('a', { price: 700, stops: 3 }), flight('b', { price: 800 })];
+        const rules = [
+            rule('max-one-stop', 'constraint', { field: 'stops', operator: 'lt', value: 2 }, { priority: 1 }),
+            rule('no-expensive', 'filter', { field: 'price', operator: 'gt', value: 500 }, { ruleName: 'Filter out flights over $500', priority: 5 }),
+        ];
+
+        const outcome = engine.apply(options, rules, (o) => o);
+
+        expect(outcome.options).toEqual([]);
+        expect(outcome.removed.map((r) => r.ruleId)).toEqual(['no-expensive', 'no-expensive']);
+        expect(engine.explain(outcome.removed)).toEqual([
+            'Your rule "Filter out flights over $500" removed 2 options: a (price 700 USD is over 500); b (price 800 USD is over 500)',
+        ]);
+    });
+
+    it('should move boosted airlines ahead while keeping order among equal boosts', () => {
+        const options = [flight('ua-1'), flight('dl-1', { airlines: ['DL', 'Delta Air Lines'] }), flight('ua-2')];
+        const rules = [
+            rule('prefer-delta', 'prioritize', { field: 'airline', operator: 'eq', value: 'Delta' }, { action: { type: 'boost', params: { score: 10 } } }),
+        ];
+
+        const outcome = engine.apply(options, rules, (o) => o);
+
+        expect(ids(outcome.options)).toEqual(['dl-1', 'ua-1', 'ua-2']);
+        expect(outcome.boosts).toEqual({ 'dl-1': 10, 'ua-1': 0, 'ua-2': 0 });
+        expect(outcome.removed).toEqual([]);
+    });
+
+    it('should skip disabled, non-flight, preference and unknown-field rules', () => {
+        const options = [flight('a')];
+        const rules = [
+            rule('disabled', 'filter', { field: 'price', operator: 'gt', value: 1 }, { enabled: false }),
+            rule('tasks', 'filter', { field: 'price', operator: 'gt', value: 1 }, { context: 'task_management' }),
+            rule('advisory', 'preference', { field: 'price', operator: 'gt', value: 1 }),
+            rule('cabin', 'filter', { field: 'cabin', operator: 'eq', value: 'economy' }),
+        ];
+
+        const outcome = engine.apply(options, rules, (o) => o);
+
+        expect(ids(outcome.options)).toEqual(['a']);
+        expect(outcome.appliedRules).toEqual([]);
+        expect(outcome.skippedRules.map((r) => r.ruleId)).toEqual(['advisory', 'cabin']);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { AgentLoopGuard, estimateTokens } from '../../../../src/durable-objects/chat-session/agent-loop';
+
+describe('AgentLoopGuard', () => {
+    const limits = { maxIterations: 3, maxTokens: 1000, maxDurationMs: 5000 };
+
+    it('allows tool calls until the last iteration is reserved for the answer', () => {
+        const guard = new AgentLoopGuard(limits);
+
+        guard.startIteration();
+        expect(guard.stopReason()).toBeNull();
+
+        guard.startIteration();
+        expect(guard.stopReason()).toBe('max_iterations');
+    });
+
+    it('stops when the token budget is spent', () => {
+        const guard = new AgentLoopGuard(limits);
+        guard.startIteration();
+        guard.recordUsage(1200);
+
+        expect(guard.stopReason()).toBe('token_budget');
+    });
+
+    it('stops when the time budget is spent', () => {
+        let now = 0;
+        const guard = new AgentLoopGuard(limits, () => now);
+        now = 6000;
+
+        expect(guard.stopReason()).toBe('time_budget');
+    });
+
+    it('detects repeated calls regardless of argument order', () => {
+        const guard = new AgentLoopGuard(limits);
+
+        expect(guard.isRepeatedCall({ name: 'search_flights', arguments: { origin: 'JFK', destination: 'LAX' } })).toBe(false);
+        expect(guard.isRepeatedCall({ name: 'search_flights', arguments: { destination: 'LAX', origin: 'JFK' } })).toBe(true);
+        expect(guard.isRepeatedCall({ name: 'search_flights', arguments: { origin: 'JFK', destination: 'SFO' } })).toBe(false);
+    });
+
+    it('reports loop_detected once marked', () => {
+        const guard = new AgentLoopGuard(limits);
+        guard.markLoopDetected();
+
+        expect(guard.stopReason()).toBe('loop_detected');
+    });
+});
+
+describe('estimateTokens', () => {
+    it('estimates one token per four characters', () => {
+        expect(estimateTokens('12345678')).toBe(2);
+        expect(estimateTokens('123456789')).toBe(3);
+    });
+});
@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { ConversationHarness, createTestD1, loadConversationFixtures } from '../../../harness/conversation-harness';
+import { WorkerEnv } from '../../../../src/env';
+import { TOOL_CATALOG } from '../../../../src/tools/catalog';
+
+let db: WorkerEnv['DB'];
+let disposeDb: () => Promise<void>;
+
+beforeAll(async () => {
+    ({ db, dispose: disposeDb } = await createTestD1());
+});
+
+afterAll(async () => {
+    await disposeDb();
+});
+
+describe('ChatSessionDO scripted conversations', () => {
+    for (const fixture of loadConversationFixtures()) {
+        it(fixture.name, async () => {
+            const harness = new ConversationHarness(db, fixture);
+
+            try {
+                for (const turn of fixture.turns) {
+                    const result = await harness.sendTurn(turn.user, turn.llm, { stream: turn.stream });
+                    const expected = turn.expect ?? {};
+
+                    expect(result.status).toBe(200);
+                    expect(result.events.filter((e) => e.type === 'error')).toEqual([]);
+                    if (expected.events) expect(result.eventTypes).toEqual(expected.events);
+                    if (expected.assistant !== undefined) expect(result.assistant).toBe(expected.assistant);
+                    if (expected.assistantContains) expect(result.assistant).toContain(expected.assistantContains);
+                    if (expected.workflows) expect(result.workflows).toEqual(expected.workflows);
+                    if (expected.workflowParams) expect(result.workflowParams).toMatchObject(expected.workflowParams);
+                    if (expected.promptContains) expect(result.prompt).toContain(expected.promptContains);
+                    if (expected.toolCalls) {
+                        expect(result.toolInvocations.map((call) => call.name)).toEqual(expected.toolCalls.map((call) => call.name));
+                        expected.toolCalls.forEach((call, i) => call.args && expect(result.toolInvocations[i].args).toMatchObject(call.args));
+                    }
+                }
+
+                if (fixture.chatEvents) {
+                    const rows = await harness.chatEvents();
+                    expect(rows).toHaveLength(fixture.chatEvents.length);
+                    fixture.chatEvents.forEach((event, i) => {
+                        expect(rows[i].role).toBe(event.role);
+                        if (event.content !== undefined) expect(rows[i].content).toBe(event.content);
+                        if (event.contains) expect(rows[i].content).toContain(event.contains);
+                        if (event.status) expect(rows[i].status).toBe(event.status);
+                        if (event.promptVersion) expect(rows[i].promptVersion).toBe(event.promptVersion);
+                        if (event.dialogueAct) expect(rows[i].dialogueAct).toBe(event.dialogueAct);
+                    });
+                }
+            } finally {
+                harness.dispose();
+            }
+        });
+    }
+
+    it('exposes the dialogue state of a conversation to its owner only', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await harness.sendTurn('I need a flight to Denver on 2026-11-20', [{ text: 'Where are you flying from?' }]);
+
+            const response = await harness.dialogueState();
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { cached: boolean; state: Record<string, any> };
+            expect(body.cached).toBe(true);
+            expect(body.state).toMatchObject({
+                conversationId: harness.conversationId,
+                principalId: 'harness-user',
+                turnCount: 1,
+                slots: { destination: 'DEN', departureDate: '2026-11-20' },
+                pendingSlots: { slots: ['origin', 'tripType', 'passengers'] }
+            });
+
+            expect((await harness.dialogueState('someone-else')).status).toBe(404);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('regenerates the last chat answer for the owner only', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await harness.sendTurn('What should I focus on today?', [{ text: 'Start with the deck.' }]);
+            await harness.workflowResult('Daily plan ready.');
+
+            expect((await harness.regenerate([], { principalId: 'someone-else' })).status).toBe(404);
+
+            const result = await harness.regenerate([{ text: 'Finish the budget first.' }]);
+            expect(result.status).toBe(200);
+            expect(result.assistant).toBe('Finish the budget first.');
+
+            // The chat answer is replaced in place; the workflow result and the user message stay as they were
+            expect((await harness.chatEvents()).map((event) => [event.role, event.content])).toEqual([
+                ['user', 'What should I focus on today?'],
+                ['assistant', 'Finish the budget first.'],
+                ['assistant', 'Daily plan ready.'],
+            ]);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('does not regenerate a conversation without a chat answer', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await harness.workflowResult('Daily plan ready.');
+
+            expect((await harness.regenerate([])).status).toBe(404);
+            expect(await harness.chatEvents()).toHaveLength(1);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('aborts the running tool and stores nothing when a non-streaming turn is cancelled', async () => {
+        const harness = new ConversationHarness(db);
+        let toolSignal: AbortSignal | undefined;
+        vi.mocked(TOOL_CATALOG.find((tool) => tool.name === 'list_events')!.handler).mockImplementationOnce(
+            (_args, _env, signal) =>
+                new Promise((_, reject) => {
+                    toolSignal = signal;
+                    signal?.addEventListener('abort', () => reject(new Error('aborted')));
+                    void harness.cancel('msg-cancel');
+                }),
+        );
+
+        try {
+            const result = await harness.sendTurn(
+                'What is on my calendar on 2026-11-21?',
+                [{ toolCalls: [{ name: 'list_events', arguments: { start_date: '2026-11-21T00:00:00Z', end_date: '2026-11-22T00:00:00Z' } }] }],
+                { stream: false, messageId: 'msg-cancel' },
+            );
+
+            expect(result.status).toBe(200);
+            expect(result.assistant).toBe('');
+            expect(toolSignal?.aborted).toBe(true);
+            expect(await harness.chatEvents()).toEqual([]);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('runs every structured tool call when the model streams them on separate events', async () => {
+        const harness = new ConversationHarness(db);
+        const listEvents = vi.mocked(TOOL_CATALOG.find((tool) => tool.name === 'list_events')!.handler);
+        const callsBefore = listEvents.mock.calls.length;
+
+        try {
+            const result = await harness.sendTurn(
+                'What is on my calendar on 2026-11-21 and 2026-11-22?',
+                [
+                    {
+                        toolCallPerEvent: true,
+                        toolCalls: [
+                            { name: 'list_events', arguments: { start_date: '2026-11-21T00:00:00Z', end_date: '2026-11-22T00:00:00Z' } },
+                            { name: 'list_events', arguments: { start_date: '2026-11-22T00:00:00Z', end_date: '2026-11-23T00:00:00Z' } },
+                        ],
+                    },
+                    { text: 'Both days are free.' },
+                ],
+                { stream: true },
+            );
+
+            expect(result.assistant).toBe('Both days are free.');
+            expect(listEvents.mock.calls.slice(callsBefore).map(([args]) => args.timeMin)).toEqual([
+                '2026-11-21T00:00:00Z',
+                '2026-11-22T00:00:00Z',
+            ]);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('keeps the text streamed before a tool call when a streaming turn is cancelled during the tool', async () => {
+        const harness = new ConversationHarness(db);
+        vi.mocked(TOOL_CATALOG.find((tool) => tool.name === 'list_events')!.handler).mockImplementationOnce(
+            (_args, _env, signal) =>
+                new Promise((_, reject) => {
+                    signal?.addEventListener('abort', () => reject(new Error('aborted')));
+                    void harness.cancel('msg-stream-cancel');
+                }),
+        );
+
+        try {
+            await harness.sendTurn(
+                'What is on my calendar on 2026-11-21?',
+                [
+                    {
+                        chunks: ['Let me check ', 'your calendar.'],
+                        toolCalls: [{ name: 'list_events', arguments: { start_date: '2026-11-21T00:00:00Z', end_date: '2026-11-22T00:00:00Z' } }],
+                    },
+                ],
+                { stream: true, messageId: 'msg-stream-cancel' },
+            );
+
+            expect(await harness.chatEvents()).toMatchObject([
+                { role: 'user', content: 'What is on my calendar on 2026-11-21?' },
+                { role: 'assistant', content: 'Let me check your calendar.', status: 'cancelled' },
+            ]);
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('summarises a conversation into episodic memory once it goes idle', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await harness.sendTurn('I need a flight to Paris on 2026-11-20', [{ text: 'Where are you flying from?' }]);
+            await harness.sendTurn('From JFK, just me', [{ text: 'Searching JFK to Paris for 1 passenger.' }]);
+
+            // Still active: nothing to summarise yet
+            await harness.alarm();
+            expect(await harness.conversationSummaries()).toEqual([]);
+
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+
+            const summary = {
+                summary: 'Planned a one-way trip from JFK to Paris on 2026-11-20.',
+                keyEntities: { airports: ['jfk', 'CDG'], dates: ['2026-11-20'], people: [], tasks: [] },
+                sentiment: 'neutral',
+            };
+            await harness.alarm([{ text: JSON.stringify(summary) }]);
+
+            const rows = await harness.conversationSummaries();
+            expect(rows).toHaveLength(1);
+            expect(rows[0]).toMatchObject({ summary: summary.summary, sentiment: 'neutral' });
+            expect(JSON.parse(rows[0].keyEntities!)).toEqual({ ...summary.keyEntities, airports: ['JFK', 'CDG'] });
+
+            // Summarised once; the next alarm leaves it alone
+            await harness.alarm();
+            expect(await harness.conversationSummaries()).toHaveLength(1);
+        } finally {
+            vi.useRealTimers();
+            harness.dispose();
+        }
+    });
+
+    it('retries a summary that failed on a later alarm, up to a bounded number of attempts', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await harness.sendTurn('I need a flight to Paris on 2026-11-20', [{ text: 'Where are you flying from?' }]);
+            await harness.sendTurn('From JFK, just me', [{ text: 'Searching JFK to Paris for 1 passenger.' }]);
+
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+
+            // Invalid output, and invalid again after the repair round-trip
+            await harness.alarm([{ text: 'not json' }, { text: 'still not json' }]);
+            expect(await harness.conversationSummaries()).toEqual([]);
+
+            const summary = {
+                summary: 'Planned a one-way trip from JFK to Paris on 2026-11-20.',
+                keyEntities: { airports: ['JFK', 'CDG'], dates: ['2026-11-20'], people: [], tasks: [] },
+                sentiment: 'neutral',
+            };
+            await harness.alarm([{ text: JSON.stringify(summary) }]);
+            expect(await harness.conversationSummaries()).toMatchObject([{ summary: summary.summary }]);
+        } finally {
+            vi.useRealTimers();
+            harness.dispose();
+        }
+
+        const unsummarisable = new ConversationHarness(db);
+
+        try {
+            await unsummarisable.sendTurn('I need a flight to Paris on 2026-11-20', [{ text: 'Where are you flying from?' }]);
+            await unsummarisable.sendTurn('From JFK, just me', [{ text: 'Searching JFK to Paris for 1 passenger.' }]);
+
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+
+            for (let attempt = 0; attempt < 3; attempt++) {
+                await unsummarisable.alarm([{ text: 'not json' }, { text: 'still not json' }]);
+            }
+            const calls = unsummarisable.ai.calls.length;
+            await unsummarisable.alarm();
+            expect(unsummarisable.ai.calls).toHaveLength(calls);
+            expect(await unsummarisable.conversationSummaries()).toEqual([]);
+        } finally {
+            vi.useRealTimers();
+            unsummarisable.dispose();
+        }
+    });
+
+    it('reports which scripted LLM steps a turn left unused', async () => {
+        const harness = new ConversationHarness(db);
+
+        try {
+            await expect(harness.sendTurn('hello', [{ text: 'Hi!' }, { text: 'never requested' }])).rejects.toThrow(
+                'left 1 scripted LLM step(s) unused',
+            );
+        } finally {
+            harness.dispose();
+        }
+    });
+
+    it('dates the prompt in the user time zone', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-20T02:00:00Z'));
+        const harness = new ConversationHarness(db, { timezone: 'America/Los_Angeles' });
+
+        try {
+            const result = await harness.sendTurn('What should I focus on today?', [{ text: 'Start with the deck.' }]);
+            expect(result.prompt).toContain('[CURRENT_DATE: 2026-10-19]');
+        } finally {
+            harness.dispose();
+            vi.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ContextManager } from '../../../../src/durable-objects/chat-session/context-manager';
+import { FullDialogueState } from '../../../../src/durable-objects/chat-session/chat-session.do';
+import { SemanticMemory } from '../../../../src/domain/memory/SemanticMemory';
+import { EpisodicMemory, TaskHistoryEntry } from '../../../../src/domain/memory/EpisodicMemory';
+import { ProceduralMemory } from '../../../../src/domain/memory/ProceduralMemory';
+
+function dialogueState(): FullDialogueState {
+    return {
+        conversationId: 'conv-1',
+        principalId: 'user-1',
+        lastUpdateTime: Date.now(),
+        lastAccessTime: Date.now(),
+        turnCount: 1,
+        slots: {},
+        context: { previousWorkflows: [], userPreferences: {} },
+    };
+}
+
+function contextManager(tasks: TaskHistoryEntry[]): ContextManager {
+    const semantic = { getSemanticMemory: async (userId: string) => SemanticMemory.empty(userId) };
+    const episodic = { getEpisodicMemory: async () => new EpisodicMemory([], [], tasks) };
+    const procedural = { getProceduralMemory: async () => ProceduralMemory.empty() };
+    return new ContextManager(semantic as any, episodic as any, procedural as any);
+}
+
+function task(i: number): TaskHistoryEntry {
+    return {
+        id: `task-${i}`,
+        userId: 'user-1',
+        taskDescription: `Follow up with the procurement team about purchase order ${i} and the quarterly vendor compliance review`,
+        status: 'pending',
+        createdAt: new Date(),
+    };
+}
+
+describe('ContextManager', () => {
+    it('injects ranked memories without the token footer', async () => {
+        const manager = contextManager([task(1)]);
+        const context = await manager.buildContext(dialogueState(), 'task', 'user-1', 'what is on my list?');
+        const formatted = manager.formatContextForPrompt(context);
+
+        expect(formatted).toContain('Recent Events:\n- Pending task: Follow up with the procurement team about purchase order 1');
+        expect(formatted).not.toContain('[CONTEXT INFO]');
+        expect(formatted).not.toContain('Not shown');
+        expect(context.tokenEstimate).toBeGreaterThan(0);
+    });
+
+    it('trims memory to the budget and notes what was left out', async () => {
+        const manager = contextManager(Array.from({ length: 60 }, (_, i) => task(i)));
+        const context = await manager.buildContext(dialogueState(), 'task', 'user-1', 'what is on my list?');
+        const formatted = manager.formatContextForPrompt(context);
+
+        const included = formatted.split('\n').filter((line) => line.startsWith('- Pending task')).length;
+        expect(included).toBeGreaterThan(10);
+        expect(context.droppedMemories).toEqual({ task: 60 - included });
+        expect(formatted).toContain(`(Not shown to save space: ${60 - included} tasks)`);
+    });
+});
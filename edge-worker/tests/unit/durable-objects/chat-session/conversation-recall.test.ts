@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationRecall } from '../../../../src/durable-objects/chat-session/conversation-recall';
+import { ContextManager } from '../../../../src/durable-objects/chat-session/context-manager';
+import { FullDialogueState } from '../../../../src/durable-objects/chat-session/chat-session.do';
+import { LoggedTurn } from '../../../../src/durable-objects/chat-session/types';
+import { InMemoryVectorIndex } from '../../../../src/infrastructure/memory/InMemoryVectorIndex';
+import { SemanticMemory } from '../../../../src/domain/memory/SemanticMemory';
+import { EpisodicMemory } from '../../../../src/domain/memory/EpisodicMemory';
+import { ProceduralMemory } from '../../../../src/domain/memory/ProceduralMemory';
+
+const DIMENSIONS = 64;
+const STOPWORDS = new Set(['the', 'and', 'what', 'did', 'say', 'was', 'for', 'you', 'that', 'there', 'stayed']);
+
+/**
+ * Bag-of-words embedding: texts sharing content words point the same way
+ */
+const embeddings = {
+    async embed(texts: string[]) {
+        return texts.map((text) => {
+            const vector = new Array(DIMENSIONS).fill(0);
+            for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+                if (word.length < 3 || STOPWORDS.has(word)) continue;
+                const stem = word.replace(/(d|ed|s)$/, '');
+                let hash = 0;
+                for (const char of stem) hash = (hash * 31 + char.charCodeAt(0)) % DIMENSIONS;
+                vector[hash] += 1;
+            }
+            return vector;
+        });
+    },
+};
+
+function turn(conversationId: string, user: string, assistant: string, principalId = 'user-1'): LoggedTurn {
+    return {
+        principalId,
+        conversationId,
+        createdAt: '2026-09-02T10:00:00.000Z',
+        events: [
+            { id: `${conversationId}-u`, role: 'user', content: user, status: 'complete' },
+            { id: `${conversationId}-a`, role: 'assistant', content: assistant, status: 'complete' },
+        ],
+    };
+}
+
+async function seededRecall(existing?: string[]) {
+    const index = new InMemoryVectorIndex();
+    const recall = new ConversationRecall({
+        embeddings,
+        index,
+        minScore: 0.3,
+        existingConversations: existing ? async () => new Set(existing) : undefined,
+    });
+    await recall.indexTurn(turn('lisbon', 'Loved the Memmo Alfama hotel in Lisbon, the rooftop pool was great', 'Noted, glad you enjoyed the trip!'));
+    await recall.indexTurn(turn('budget', 'Please keep my flights under 500 dollars from now on', 'Understood, I will look for flights under $500.'));
+    await recall.indexTurn(turn('other-user', 'The Lisbon hotel near Rossio was awful', 'Sorry to hear that.', 'user-2'));
+    return { index, recall };
+}
+
+describe('ConversationRecall', () => {
+    it('recalls the closest message from another conversation of the same user', async () => {
+        const { index, recall } = await seededRecall();
+
+        const matches = await recall.recall('user-1', 'What hotel did I say I liked in Lisbon?', { excludeConversationId: 'current' });
+
+        expect(index.size).toBe(5); // "Sorry to hear that." is too short to index
+        expect(matches[0]).toMatchObject({ id: 'event:lisbon-u', conversationId: 'lisbon', kind: 'message', role: 'user' });
+        expect(matches.map((m) => m.userId)).not.toContain('user-2');
+        expect(matches.map((m) => m.conversationId)).not.toContain('budget');
+    });
+
+    it('leaves out the current conversation, deleted conversations, short and cancelled messages', async () => {
+        const { recall } = await seededRecall(['budget']);
+        await recall.indexTurn({
+            principalId: 'user-1',
+            conversationId: 'budget',
+            createdAt: '2026-09-03T10:00:00.000Z',
+            events: [
+                { id: 'short', role: 'user', content: 'Lisbon hotel?', status: 'complete' },
+                { id: 'cut', role: 'assistant', content: 'The Lisbon hotel you liked was the Memmo', status: 'cancelled' },
+            ],
+        });
+
+        expect(await recall.recall('user-1', 'Which Lisbon hotel did I like?')).toEqual([]);
+        expect(await recall.recall('user-1', 'flights under 500 dollars', { excludeConversationId: 'budget' })).toEqual([]);
+    });
+
+    it('replaces a conversation summary when it is summarised again', async () => {
+        const index = new InMemoryVectorIndex();
+        const recall = new ConversationRecall({ embeddings, index, minScore: 0.3 });
+
+        await recall.indexSummary({ userId: 'user-1', conversationId: 'c1', summary: 'Planned a trip to Tokyo in April' });
+        await recall.indexSummary({ userId: 'user-1', conversationId: 'c1', summary: 'Planned a trip to Tokyo in April and booked the Park Hyatt hotel' });
+
+        const matches = await recall.recall('user-1', 'Which hotel in Tokyo did we book?');
+        expect(index.size).toBe(1);
+        expect(matches).toEqual([expect.objectContaining({ id: 'summary:c1', kind: 'summary', text: expect.stringContaining('Park Hyatt') })]);
+    });
+
+    it('returns no snippets when embedding fails', async () => {
+        const recall = new ConversationRecall({
+            embeddings: { embed: async () => Promise.reject(new Error('AI unavailable')) },
+            index: new InMemoryVectorIndex(),
+        });
+
+        await expect(recall.indexTurn(turn('c1', 'Loved the Memmo Alfama hotel in Lisbon', 'Noted!'))).resolves.toBeUndefined();
+        expect(await recall.recall('user-1', 'Which Lisbon hotel did I like?')).toEqual([]);
+    });
+
+    it('injects recalled snippets into the prompt context', async () => {
+        const { recall } = await seededRecall();
+        const semantic = { getSemanticMemory: async (userId: string) => SemanticMemory.empty(userId) };
+        const episodic = { getEpisodicMemory: async () => new EpisodicMemory([], [], []) };
+        const procedural = { getProceduralMemory: async () => ProceduralMemory.empty() };
+        const manager = new ContextManager(semantic as any, episodic as any, procedural as any, recall);
+        const state: FullDialogueState = {
+            conversationId: 'current',
+            principalId: 'user-1',
+            lastUpdateTime: Date.now(),
+            turnCount: 1,
+            slots: {},
+            context: { previousWorkflows: [], userPreferences: {} },
+        };
+
+        const context = await manager.buildContext(state, 'general', 'user-1', 'What hotel did I say I liked in Lisbon?');
+
+        expect(manager.formatContextForPrompt(context)).toContain(
+            'Recent Events:\n- User said in an earlier conversation (2026-09-02): "Loved the Memmo Alfama hotel in Lisbon, the rooftop pool was great"',
+        );
+    });
+});
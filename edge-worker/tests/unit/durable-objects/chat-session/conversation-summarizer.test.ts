@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ConversationSummarizer } from '../../../../src/durable-objects/chat-session/conversation-summarizer';
+import { FakeLLMAdapter } from '../../../../src/adapters/llm/fake-llm.adapter';
+import { PromptRegistry } from '../../../../src/prompts/prompt-registry';
+
+const transcript = [
+    { role: 'user', content: 'Find flights from JFK to Paris around May 15' },
+    { role: 'assistant', content: 'Here are three nonstop options from JFK to CDG.' },
+    { role: 'user', content: 'Remind me to renew my passport' },
+];
+
+describe('ConversationSummarizer', () => {
+    it('summarises a transcript with key entities and sentiment', async () => {
+        const llm = new FakeLLMAdapter({
+            steps: [
+                {
+                    text: JSON.stringify({
+                        summary: ' Planned a JFK to Paris trip and a passport renewal. ',
+                        keyEntities: { airports: ['jfk', 'CDG', 'JFK'], dates: ['2027-05-15'], tasks: ['Renew passport'] },
+                        sentiment: 'positive',
+                    }),
+                },
+            ],
+        });
+        const summarizer = new ConversationSummarizer({ llm, prompts: new PromptRegistry() });
+
+        const draft = await summarizer.summarize({ conversationId: 'conv-1', principalId: 'user-1', transcript }, 'c1');
+
+        expect(draft).toEqual({
+            userId: 'user-1',
+            conversationId: 'conv-1',
+            summary: 'Planned a JFK to Paris trip and a passport renewal.',
+            keyEntities: { airports: ['JFK', 'CDG'], dates: ['2027-05-15'], people: [], tasks: ['Renew passport'] },
+            sentiment: 'positive',
+            promptVersion: 'conversation_summary@v1',
+        });
+        expect(llm.requests[0].useCase).toBe('conversation_summary');
+        expect(llm.requests[0].messages[1].content).toContain('User: Remind me to renew my passport');
+    });
+
+    it('returns null when the output never validates', async () => {
+        const llm = new FakeLLMAdapter({ steps: [{ text: 'A nice chat about Paris' }, { text: '{"summary": "Paris"}' }] });
+        const summarizer = new ConversationSummarizer({ llm, prompts: new PromptRegistry() });
+
+        expect(await summarizer.summarize({ conversationId: 'conv-1', principalId: 'user-1', transcript }, 'c2')).toBeNull();
+        expect(llm.requests).toHaveLength(2);
+    });
+
+    it('does not call the model without user messages', async () => {
+        const llm = new FakeLLMAdapter({ steps: [] });
+        const summarizer = new ConversationSummarizer({ llm, prompts: new PromptRegistry() });
+
+        const draft = await summarizer.summarize(
+            { conversationId: 'conv-1', principalId: 'user-1', transcript: [{ role: 'assistant', content: 'Workflow finished' }] },
+            'c3',
+        );
+
+        expect(draft).toBeNull();
+        expect(llm.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { DialogueActClassifier } from '../../../../src/durable-objects/chat-session/dialogue-act-classifier';
+
+describe('DialogueActClassifier', () => {
+    const classifier = new DialogueActClassifier();
+    const type = (message: string, mentionedSlots: string[] = [], changedSlots: string[] = []) =>
+        classifier.classify(message, { mentionedSlots, changedSlots }).type;
+
+    it('recognises confirmations as whole words only', () => {
+        expect(type('yes do that')).toBe('confirm');
+        expect(type('Sounds good!')).toBe('confirm');
+        expect(type('Book a meeting room')).toBe('inform');
+    });
+
+    it('does not read negated agreement as a confirmation', () => {
+        expect(type('no, sure not')).toBe('deny');
+        expect(type('nope')).toBe('deny');
+        expect(type("I don't think so")).toBe('deny');
+        expect(type('ok but not Delta')).toBe('modify');
+    });
+
+    it('treats corrections and changed slots as modify', () => {
+        expect(classifier.classify('make it Friday instead', { mentionedSlots: ['departureDate'], changedSlots: [] })).toEqual({
+            type: 'modify',
+            slots: ['departureDate']
+        });
+        expect(type('from Newark', ['origin'], ['origin'])).toBe('modify');
+        expect(type('no, 2 passengers', ['passengers'])).toBe('modify');
+        expect(type('From Boston', ['origin'])).toBe('inform');
+    });
+
+    it('recognises cancellations of the whole request', () => {
+        expect(type('never mind')).toBe('cancel');
+        expect(type('ok, cancel that')).toBe('cancel');
+        expect(type('cancel my 3pm meeting')).not.toBe('cancel');
+    });
+});
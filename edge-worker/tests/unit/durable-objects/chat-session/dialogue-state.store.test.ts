@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { DialogueStateStore } from '../../../../src/durable-objects/chat-session/dialogue-state.store';
+import { FullDialogueState } from '../../../../src/durable-objects/chat-session/chat-session.do';
+import { createDurableObjectState } from '../../../harness/conversation-harness';
+
+function dialogueState(conversationId: string, lastAccessTime: number): FullDialogueState {
+    return {
+        conversationId,
+        principalId: 'user-1',
+        lastUpdateTime: lastAccessTime,
+        lastAccessTime,
+        turnCount: 1,
+        slots: {},
+        context: { previousWorkflows: [], userPreferences: {} },
+    };
+}
+
+describe('DialogueStateStore', () => {
+    it('keeps only the most recently used states in memory and reloads the rest from storage', async () => {
+        const store = new DialogueStateStore(createDurableObjectState().storage, { cacheSize: 2 });
+        store.put(dialogueState('a', 1));
+        store.put(dialogueState('b', 2));
+        await store.get('a'); // a is now more recent than b
+        store.put(dialogueState('c', 3));
+
+        expect(store.peek('b')).toBeNull();
+        expect(store.peek('a')).not.toBeNull();
+        expect(await store.get('b')).toMatchObject({ conversationId: 'b', turnCount: 1 });
+    });
+
+    it('evicts the least recently accessed conversation beyond the active cap', async () => {
+        const store = new DialogueStateStore(createDurableObjectState().storage, { maxActiveConversations: 2 });
+        store.put(dialogueState('old', 1));
+        store.put(dialogueState('recent', 3));
+        store.put(dialogueState('new', 2));
+
+        expect(store.list().map((s) => s.conversationId)).toEqual(['recent', 'new']);
+        expect(await store.get('old')).toBeNull();
+    });
+
+    it('prunes idle conversations', () => {
+        const store = new DialogueStateStore(createDurableObjectState().storage);
+        store.put(dialogueState('idle', 1_000));
+        store.put(dialogueState('active', 5_000));
+
+        expect(store.pruneAccessedBefore(2_000)).toBe(1);
+        expect(store.list().map((s) => s.conversationId)).toEqual(['active']);
+    });
+
+    it('moves state saved under the legacy storage key into the table', async () => {
+        const storage = createDurableObjectState().storage;
+        await storage.put('dst:legacy', dialogueState('legacy', 1));
+        const store = new DialogueStateStore(storage);
+
+        expect(await store.get('legacy')).toMatchObject({ conversationId: 'legacy' });
+        expect(await storage.get('dst:legacy')).toBeUndefined();
+        expect(store.list().map((s) => s.conversationId)).toEqual(['legacy']);
+    });
+});
@@ -0,0 +1,235 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { IntentDetector, IntentDetectionResult } from '../../../../src/durable-objects/chat-session/intent-detector';
+import { FakeLLMAdapter } from '../../../../src/adapters/llm/fake-llm.adapter';
+import { PromptRegistry } from '../../../../src/prompts/prompt-registry';
+
+type Label = 'travel' | 'task' | 'planning' | 'none';
+
+interface LabelledMessage {
+	message: string;
+	expected: Label;
+	escalates?: boolean; // The keyword stage should hand the message to the LLM stage
+	entities?: Record<string, unknown>; // Extracted by the keyword stage
+}
+
+const corpus: LabelledMessage[] = JSON.parse(
+	fs.readFileSync(path.resolve(__dirname, '../../../fixtures/intents/labelled-messages.json'), 'utf8'),
+);
+
+function label(result: IntentDetectionResult): Label {
+	return result.workflow ?? 'none';
+}
+
+/**
+ * Precision and recall per WorkflowType over (expected, predicted) pairs
+ */
+function score(pairs: Array<{ expected: Label; predicted: Label }>): Record<Exclude<Label, 'none'>, { precision: number; recall: number }> {
+	const types = ['travel', 'task', 'planning'] as const;
+	return Object.fromEntries(
+		types.map((type) => {
+			const truePositives = pairs.filter((p) => p.predicted === type && p.expected === type).length;
+			const predicted = pairs.filter((p) => p.predicted === type).length;
+			const actual = pairs.filter((p) => p.expected === type).length;
+			return [type, { precision: predicted ? truePositives / predicted : 1, recall: actual ? truePositives / actual : 1 }];
+		}),
+	) as Record<Exclude<Label, 'none'>, { precision: number; recall: number }>;
+}
+
+// The corpus is scored on what the detector itself decides; the LLM's verdict is not scripted per message
+const keywordResults = corpus.map((entry) => ({ entry, result: new IntentDetector().detect(entry.message) }));
+
+describe('IntentDetector', () => {
+	describe('labelled corpus', () => {
+		it('hands exactly the low-confidence or multi-intent messages to the LLM stage', async () => {
+			for (const { entry } of keywordResults) {
+				// One fixed classifier for every message, so only the detector's routing is under test
+				const llm = new FakeLLMAdapter({ steps: [{ text: '{"intent": "none", "confidence": 0.5, "entities": {}}' }] });
+				const detector = new IntentDetector({ llm, prompts: new PromptRegistry() });
+				const result = await detector.classify(entry.message, [], undefined, { principalId: 'corpus', correlationId: 'corpus' });
+
+				expect(llm.requests.length, entry.message).toBe(entry.escalates ? 1 : 0);
+				expect(result.source, entry.message).toBe(entry.escalates ? 'llm' : 'keyword');
+				if (entry.escalates) expect(llm.requests[0].useCase).toBe('intent_classification');
+			}
+		});
+
+		it('answers every message it keeps at the keyword stage correctly', () => {
+			const kept = score(
+				keywordResults
+					.filter(({ entry }) => !entry.escalates)
+					.map(({ entry, result }) => ({ expected: entry.expected, predicted: label(result) })),
+			);
+
+			for (const [type, { precision, recall }] of Object.entries(kept)) {
+				expect(precision, `${type} precision`).toBe(1);
+				expect(recall, `${type} recall`).toBe(1);
+			}
+		});
+
+		it('offers the LLM stage the right intent for every message it escalates', () => {
+			for (const { entry, result } of keywordResults.filter(({ entry }) => entry.escalates)) {
+				expect(entry.expected === 'none' || result.candidates?.includes(entry.expected), entry.message).toBe(true);
+			}
+		});
+
+		it('measures keyword-stage precision and recall per WorkflowType', () => {
+			const keywordOnly = score(keywordResults.map(({ entry, result }) => ({ expected: entry.expected, predicted: label(result) })));
+
+			// Current figures; a change to the keyword rules should move these deliberately
+			expect(keywordOnly).toEqual({
+				travel: { precision: 8 / 13, recall: 1 },
+				task: { precision: 6 / 7, recall: 6 / 7 },
+				planning: { precision: 5 / 6, recall: 1 },
+			});
+		});
+
+		it('returns typed entities', () => {
+			for (const { entry, result } of keywordResults) {
+				if (entry.entities) expect(result.entities, entry.message).toMatchObject(entry.entities);
+			}
+		});
+	});
+
+	it('does not treat "ok" inside another word as a confirmation', () => {
+		const detector = new IntentDetector();
+		const dialogueState = { lastSuggestion: { type: 'travel' as const, destination: 'LAX' } };
+
+		expect(detector.detect('Book a meeting room', [], dialogueState).reasoning).not.toContain('confirmed');
+		expect(detector.detect('ok do that', [], dialogueState).workflow).toBe('travel');
+	});
+
+	it('fills departure and return dates from date expressions in the user timezone', () => {
+		const detector = new IntentDetector();
+		const dateContext = { now: new Date('2026-10-15T14:00:00Z'), timeZone: 'America/New_York' };
+
+		expect(detector.detect('Find flights from SFO to JFK May 15–20', [], undefined, dateContext).entities).toMatchObject({
+			departureDate: '2027-05-15',
+			returnDate: '2027-05-20',
+		});
+		expect(detector.detect('Fly to Denver this weekend', [], undefined, dateContext).entities).toMatchObject({
+			departureDate: '2026-10-17',
+			returnDate: '2026-10-18',
+		});
+		expect(detector.detect('Fly to Denver on Thursday evening', [], undefined, dateContext).entities).toMatchObject({
+			departureDate: '2026-10-15',
+			returnDate: null,
+		});
+	});
+
+	it('extracts trip type and passengers and reads answers to a pending travel question', () => {
+		const detector = new IntentDetector();
+		const dateContext = { now: new Date('2026-10-15T14:00:00Z'), timeZone: 'America/New_York' };
+
+		expect(detector.detect('Round trip to Denver for 3 people', [], undefined, dateContext).entities).toMatchObject({
+			tripType: 'round_trip',
+			passengers: 3,
+		});
+		expect(detector.detect('Fly to Denver', [], undefined, dateContext).entities.departureDate).toBeUndefined();
+
+		const askedOrigin = { pendingSlots: { workflow: 'travel' as const, slots: ['origin', 'passengers'] } };
+		expect(detector.detect('Boston, just me', [], askedOrigin, dateContext)).toMatchObject({
+			workflow: 'travel',
+			entities: { origin: 'BOS', passengers: 1 },
+		});
+		expect(detector.detect('yes', [], askedOrigin, dateContext)).toMatchObject({
+			workflow: 'travel',
+			dialogueAct: { type: 'confirm' },
+			entities: {},
+		});
+
+		const askedReturn = { pendingSlots: { workflow: 'travel' as const, slots: ['returnDate'] } };
+		expect(detector.detect('Coming back on the 24th', [], askedReturn, dateContext).entities).toMatchObject({ returnDate: '2026-10-24' });
+
+		// A new request is not read as an answer
+		expect(detector.detect('Remind me to renew my passport', [], askedOrigin, dateContext).workflow).toBe('task');
+	});
+
+	it('classifies dialogue acts against the last suggestion', () => {
+		const detector = new IntentDetector();
+		const dateContext = { now: new Date('2026-10-15T14:00:00Z'), timeZone: 'America/New_York' };
+		const dialogueState = {
+			lastSuggestion: { type: 'travel' as const, origin: 'BOS', destination: 'DEN', date: '2026-11-20' },
+		};
+
+		expect(detector.detect('ok but not Delta', [], dialogueState, dateContext)).toMatchObject({
+			workflow: null,
+			dialogueAct: { type: 'modify' },
+		});
+		expect(detector.detect('no, sure not', [], dialogueState, dateContext)).toMatchObject({
+			workflow: null,
+			dialogueAct: { type: 'deny' },
+		});
+		expect(detector.detect('never mind', [], dialogueState, dateContext)).toMatchObject({
+			workflow: null,
+			dialogueAct: { type: 'cancel' },
+		});
+
+		const friday = detector.detect('make it Friday instead', [], dialogueState, dateContext);
+		expect(friday).toMatchObject({ workflow: 'travel', dialogueAct: { type: 'modify', slots: ['departureDate'] } });
+		expect(friday.entities).toEqual({ departureDate: '2026-10-16' });
+
+		expect(detector.detect('from Newark', [], dialogueState, dateContext)).toMatchObject({
+			workflow: 'travel',
+			entities: { origin: 'EWR' },
+			dialogueAct: { type: 'modify', slots: ['origin'] },
+		});
+
+		// A new request is not a change to the old one
+		expect(detector.detect('Find flights from SFO to JFK', [], dialogueState, dateContext).dialogueAct?.type).toBe('inform');
+	});
+
+	it('reads a yes or no as the answer to pending tool calls rather than the last suggestion', () => {
+		const detector = new IntentDetector();
+		const dialogueState = {
+			lastSuggestion: { type: 'travel' as const, origin: 'BOS', destination: 'DEN', date: '2026-11-20' },
+			pendingToolCalls: [{ toolName: 'create_event' }],
+		};
+
+		expect(detector.detect('Yes, go ahead', [], dialogueState)).toMatchObject({
+			workflow: null,
+			dialogueAct: { type: 'confirm' },
+			entities: {},
+		});
+		expect(detector.detect('No, keep it', [], dialogueState)).toMatchObject({ workflow: null, dialogueAct: { type: 'deny' } });
+		expect(detector.detect('Yes, go ahead', [], { lastSuggestion: dialogueState.lastSuggestion }).workflow).toBe('travel');
+	});
+
+	it('resolves airports and asks about names matching several', () => {
+		const detector = new IntentDetector();
+
+		const resolved = detector.detect('Fly from Bostn to Denver');
+		expect(resolved.entities).toMatchObject({ origin: 'BOS', destination: 'DEN' });
+		expect(resolved.airportClarifications).toBeUndefined();
+
+		const ambiguous = detector.detect('Find flights from NYC to Portland');
+		expect(ambiguous.entities).toMatchObject({ origin: 'NYC', destination: 'Portland' });
+		expect(ambiguous.airportClarifications?.map((c) => [c.slot, c.options.map((o) => o.code)])).toEqual([
+			['origin', ['JFK', 'LGA', 'EWR']],
+			['destination', ['PDX', 'PWM']],
+		]);
+	});
+
+	it('falls back to the keyword result when the LLM output never validates', async () => {
+		const llm = new FakeLLMAdapter({ steps: [{ text: 'travel I think' }, { text: '{"intent": "flights"}' }] });
+		const detector = new IntentDetector({ llm, prompts: new PromptRegistry() });
+
+		const result = await detector.classify('Remind me to book the hotel', [], undefined, { correlationId: 'c1' });
+
+		expect(result.source).toBe('keyword');
+		expect(result.workflow).toBe('task');
+		expect(result.candidates).toEqual(['travel', 'task']);
+	});
+
+	it('records the classification prompt version', async () => {
+		const llm = new FakeLLMAdapter({ steps: [{ text: '{"intent": "none", "confidence": 0.9, "entities": {}}' }] });
+		const detector = new IntentDetector({ llm, prompts: new PromptRegistry() });
+
+		const result = await detector.classify('Leave it as is', [], undefined, { correlationId: 'c2' });
+
+		expect(result.workflow).toBeNull();
+		expect(result.entities).toEqual({});
+		expect(result.promptVersion).toBe('intent_classification@v1');
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ConversationHarness, createTestD1 } from '../../../harness/conversation-harness';
+import { WorkerEnv } from '../../../../src/env';
+
+let db: WorkerEnv['DB'];
+let disposeDb: () => Promise<void>;
+
+// Local stand-in for an OpenAI-compatible server that checks tool messages the way OpenAI does
+let server: http.Server;
+let baseUrl: string;
+const requests: Array<{ messages: any[] }> = [];
+
+/**
+ * Every tool message must answer a tool_calls id of the assistant message before it, and every call must be answered
+ */
+function toolPairingError(messages: any[]): string | null {
+    const unanswered = new Set<string>();
+    for (const message of messages) {
+        if (message.role === 'tool') {
+            if (!unanswered.delete(message.tool_call_id)) return `tool message ${message.tool_call_id} has no matching tool_calls`;
+            continue;
+        }
+        if (unanswered.size > 0) return `tool_calls ${[...unanswered].join(', ')} have no tool messages`;
+        for (const call of message.role === 'assistant' ? (message.tool_calls ?? []) : []) unanswered.add(call.id);
+    }
+    return null;
+}
+
+const toolCall = { id: 'call_1', type: 'function', function: { name: 'list_events', arguments: '{"timeMin":"2026-11-21T12:00:00Z","timeMax":"2026-11-21T18:00:00Z"}' } };
+const answer = 'Your afternoon on November 21 is free.';
+
+beforeAll(async () => {
+    ({ db, dispose: disposeDb } = await createTestD1());
+
+    server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', (chunk) => (raw += chunk));
+        req.on('end', () => {
+            const body = JSON.parse(raw);
+            requests.push({ messages: body.messages });
+
+            const error = toolPairingError(body.messages);
+            if (error) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: { message: error } }));
+                return;
+            }
+
+            // First call asks for the calendar; the call after the tool result answers
+            const answered = body.messages.some((message: any) => message.role === 'tool');
+
+            if (!body.stream) {
+                const message = answered ? { role: 'assistant', content: answer } : { role: 'assistant', content: null, tool_calls: [toolCall] };
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ model: body.model, choices: [{ message, finish_reason: answered ? 'stop' : 'tool_calls' }] }));
+                return;
+            }
+
+            const delta = answered ? { content: answer } : { tool_calls: [{ index: 0, ...toolCall }] };
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.end(`data: ${JSON.stringify({ choices: [{ delta }] })}\n\ndata: [DONE]\n\n`);
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await disposeDb();
+});
+
+describe('LLMHandler with the OpenAI-compatible provider', () => {
+    for (const stream of [false, true]) {
+        it(`runs a tool round trip (${stream ? 'streaming' : 'non-streaming'})`, async () => {
+            const harness = new ConversationHarness(
+                db,
+                { tools: { list_events: { events: [] } } },
+                { OPENAI_COMPATIBLE_BASE_URL: baseUrl, LLM_MODEL_ROUTES: JSON.stringify({ chat: 'openai:stand-in' }) },
+            );
+            const before = requests.length;
+
+            try {
+                const result = await harness.sendTurn('Am I free tomorrow afternoon? Check my calendar for 2026-11-21.', [], { stream });
+
+                expect(result.status).toBe(200);
+                expect(result.events.filter((e) => e.type === 'error')).toEqual([]);
+                expect(result.assistant).toBe(answer);
+                expect(result.toolInvocations.map((call) => call.name)).toEqual(['list_events']);
+
+                const followUp = requests[before + 1].messages;
+                expect(followUp.find((message) => message.role === 'assistant' && message.tool_calls)?.tool_calls).toEqual([
+                    { id: 'call_1', type: 'function', function: { name: 'list_events', arguments: toolCall.function.arguments } },
+                ]);
+                expect(followUp.find((message) => message.role === 'tool')).toMatchObject({ tool_call_id: 'call_1' });
+            } finally {
+                harness.dispose();
+            }
+        });
+    }
+});
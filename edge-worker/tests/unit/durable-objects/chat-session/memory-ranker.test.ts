@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryRanker, describeMemoryCounts, countMemoryKinds } from '../../../../src/durable-objects/chat-session/memory-ranker';
+import { SemanticMemory, UserPreference } from '../../../../src/domain/memory/SemanticMemory';
+import { EpisodicMemory } from '../../../../src/domain/memory/EpisodicMemory';
+import { ProceduralMemory } from '../../../../src/domain/memory/ProceduralMemory';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function preference(category: UserPreference['category'], key: string, value: string, confidence = 1): UserPreference {
+    return {
+        id: `${category}:${key}`,
+        userId: 'user-1',
+        category,
+        preferenceKey: key,
+        preferenceValue: value,
+        confidence,
+        source: confidence === 1 ? 'explicit' : 'inferred',
+        createdAt: NOW,
+        updatedAt: NOW,
+    };
+}
+
+function memories() {
+    const semantic = new SemanticMemory(
+        { userId: 'user-1', homeAirport: 'PHL', preferredSeat: 'window', createdAt: NOW, updatedAt: NOW },
+        new Map([
+            ['airline:preferred', preference('airline', 'preferred', 'United', 0.8)],
+            ['task:reminder_time', preference('task', 'reminder_time', '9am')],
+        ]),
+    );
+    const trip = (to: string, date: string, status: 'booked' | 'completed') => ({
+        id: to,
+        userId: 'user-1',
+        fromAirport: 'PHL',
+        toAirport: to,
+        departureDate: new Date(date),
+        bookingStatus: status,
+        createdAt: NOW,
+    });
+    const episodic = new EpisodicMemory(
+        [
+            {
+                id: 's1',
+                userId: 'user-1',
+                conversationId: 'c1',
+                summary: 'Planned a Paris trip via CDG for May and set a passport reminder.',
+                createdAt: new Date('2026-10-12'),
+            },
+        ],
+        [trip('CDG', '2027-05-15', 'booked'), trip('SFO', '2024-01-10', 'completed')],
+        [{ id: 't1', userId: 'user-1', taskDescription: 'Renew passport', status: 'pending', createdAt: NOW }],
+    );
+    return new MemoryRanker().collect(semantic, episodic, ProceduralMemory.empty(), NOW);
+}
+
+describe('MemoryRanker', () => {
+    const ranker = new MemoryRanker();
+
+    it('ranks memories that share terms with the message and slots above the rest', () => {
+        const ranked = ranker.rank(memories(), { intent: 'travel', message: 'Find me flights to Paris in May', slots: { destination: 'CDG' } });
+        const texts = ranked.map((item) => item.text);
+
+        expect(texts.slice(0, 2)).toEqual(
+            expect.arrayContaining([
+                'Trip PHL → CDG, 2027-05-15 (booked)',
+                'Earlier conversation (2026-10-12): Planned a Paris trip via CDG for May and set a passport reminder.',
+            ]),
+        );
+        expect(texts).toContain('airline preferred: United (inferred, confidence 0.8)');
+
+        // A completed trip from years ago and an unrelated task preference are not worth their tokens
+        expect(texts.some((t) => t.includes('SFO'))).toBe(false);
+        expect(texts.some((t) => t.includes('reminder time'))).toBe(false);
+    });
+
+    it('follows the intent when the message has nothing to match', () => {
+        const ranked = ranker.rank(memories(), { intent: 'task', message: 'what should I do today', slots: {} });
+        expect(ranked[0].text).toBe('Pending task: Renew passport');
+        expect(ranked.some((item) => item.kind === 'profile')).toBe(false);
+    });
+
+    it('packs greedily into the budget and reports what was dropped', () => {
+        const ranked = ranker.rank(memories(), { intent: 'travel', message: 'Find me flights to Paris in May', slots: { destination: 'CDG' } });
+        const all = ranker.pack(ranked, 1000);
+        expect(all.dropped).toEqual([]);
+
+        const tight = ranker.pack(ranked, 45);
+        expect(tight.tokens).toBeLessThanOrEqual(45);
+        expect(tight.included[0]).toBe(ranked[0]);
+        expect(tight.included.length + tight.dropped.length).toBe(ranked.length);
+        expect(tight.dropped.length).toBeGreaterThan(0);
+
+        // A smaller, lower ranked item still fits after a bigger one did not
+        const skipped = ranked.findIndex((item) => tight.dropped.includes(item));
+        expect(tight.included.some((item) => ranked.indexOf(item) > skipped)).toBe(true);
+
+        expect(describeMemoryCounts(countMemoryKinds(tight.dropped))).toMatch(/^\d+ \w+/);
+        expect(describeMemoryCounts({ trip: 2, summary: 1 })).toBe('2 trips, 1 conversation summary');
+    });
+});
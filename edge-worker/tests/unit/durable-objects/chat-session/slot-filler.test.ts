@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { SlotFiller } from '../../../../src/durable-objects/chat-session/slot-filler';
+import { FullDialogueState } from '../../../../src/durable-objects/chat-session/chat-session.do';
+import { IntentDetectionResult, IntentEntities } from '../../../../src/durable-objects/chat-session/intent-detector';
+
+function newState(): FullDialogueState {
+    return {
+        conversationId: 'conv-1',
+        principalId: 'user-1',
+        lastUpdateTime: 0,
+        turnCount: 1,
+        slots: {},
+        context: { previousWorkflows: [], userPreferences: {} },
+    };
+}
+
+function travel(entities: IntentEntities, extra: Partial<IntentDetectionResult> = {}): IntentDetectionResult {
+    return { workflow: 'travel', confidence: 0.9, entities, ...extra };
+}
+
+describe('SlotFiller', () => {
+    const filler = new SlotFiller();
+
+    it('starts once every required slot is stated', () => {
+        const state = newState();
+        const decision = filler.fillTravel(
+            state,
+            travel({ origin: 'SFO', destination: 'JFK', departureDate: '2026-11-20', tripType: 'one_way', passengers: 2 }),
+        );
+
+        expect(decision).toEqual({
+            action: 'start',
+            params: { origin: 'SFO', destination: 'JFK', departureDate: '2026-11-20', passengers: 2 },
+        });
+        expect(state.slotSources?.origin).toMatchObject({ source: 'explicit', confirmed: true });
+        expect(state.pendingSlots).toBeUndefined();
+    });
+
+    it('asks for missing slots and states the defaults it will use', () => {
+        const state = newState();
+        const decision = filler.fillTravel(state, travel({ destination: 'DEN', departureDate: '2026-11-20' }));
+
+        expect(decision).toMatchObject({ action: 'ask', missing: ['origin', 'tripType', 'passengers'] });
+        expect(decision.action === 'ask' && decision.question).toBe(
+            "Could you tell me where you're flying from? I'll search one-way for 1 passenger unless you tell me otherwise.",
+        );
+        expect(state.slotSources?.passengers).toMatchObject({ source: 'default', confirmed: false });
+
+        // Answering without overriding the defaults accepts them
+        state.turnCount = 2;
+        const next = filler.fillTravel(state, travel({ origin: 'BOS' }));
+        expect(next).toEqual({
+            action: 'start',
+            params: { origin: 'BOS', destination: 'DEN', departureDate: '2026-11-20', passengers: 1 },
+        });
+        expect(state.slotSources?.tripType).toMatchObject({ source: 'default', confirmed: true });
+    });
+
+    it('confirms defaults before searching when nothing else is missing', () => {
+        const state = newState();
+        const decision = filler.fillTravel(state, travel({ origin: 'BOS', destination: 'DEN', departureDate: '2026-11-20' }));
+
+        expect(decision.action === 'ask' && decision.question).toBe('Shall I search one-way flights from BOS to DEN on 2026-11-20 for 1 passenger?');
+        expect(filler.fillTravel(state, travel({}, { dialogueAct: { type: 'confirm' } })).action).toBe('start');
+    });
+
+    it('requires a return date for round trips', () => {
+        const state = newState();
+        const decision = filler.fillTravel(
+            state,
+            travel({ origin: 'BOS', destination: 'DEN', departureDate: '2026-11-20', tripType: 'round_trip', passengers: 1 }),
+        );
+        expect(decision).toMatchObject({ action: 'ask', missing: ['returnDate'] });
+
+        const next = filler.fillTravel(state, travel({ returnDate: '2026-11-24' }));
+        expect(next).toMatchObject({ action: 'start', params: { returnDate: '2026-11-24' } });
+    });
+
+    it('infers a round trip from a return date', () => {
+        const state = newState();
+        filler.fillTravel(state, travel({ origin: 'BOS', destination: 'DEN', departureDate: '2026-11-20', returnDate: '2026-11-24', passengers: 1 }));
+
+        expect(state.slots.tripType).toBe('round_trip');
+        expect(state.slotSources?.tripType).toMatchObject({ source: 'inferred', confirmed: true });
+    });
+
+    it('asks to confirm guessed values and lists airport choices', () => {
+        const state = newState();
+        const decision = filler.fillTravel(
+            state,
+            travel(
+                { origin: 'BOS', destination: 'Portland', departureDate: '2026-11-20', tripType: 'one_way', passengers: 1 },
+                {
+                    inferredEntities: ['origin'],
+                    airportClarifications: [
+                        {
+                            slot: 'destination',
+                            query: 'Portland',
+                            options: [
+                                { code: 'PDX', label: 'PDX (Portland International, Portland, OR)' },
+                                { code: 'PWM', label: 'PWM (Portland International Jetport, Portland, ME)' },
+                            ],
+                        },
+                    ],
+                },
+            ),
+        );
+
+        expect(decision.action === 'ask' && decision.question).toBe(
+            'Which airport do you mean by "Portland": PDX (Portland International, Portland, OR) and PWM (Portland International Jetport, Portland, ME)? Should I use BOS as your departure airport?',
+        );
+        expect(state.slots.destination).toBeUndefined();
+        expect(state.slotSources?.origin?.source).toBe('inferred');
+    });
+});
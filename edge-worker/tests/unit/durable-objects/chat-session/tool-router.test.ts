@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ToolRouter } from '../../../../src/durable-objects/chat-session/tool-router';
+
+describe('ToolRouter', () => {
+    const router = new ToolRouter();
+
+    it('keeps keyword routing for explicit requests', () => {
+        expect(router.route('Find flights from JFK to LAX').toolNames).toEqual(['search_flights']);
+        expect(router.route('Any conflicts on my calendar?').toolNames).toEqual(['list_events']);
+    });
+
+    it('exposes the calendar for indirect availability questions', () => {
+        const result = router.route('What does Thursday look like?');
+
+        expect(result.toolNames).toEqual(['list_events']);
+        expect(result.decisions.find((d) => d.toolName === 'list_events')?.reasons).toContain('day reference with availability phrase');
+    });
+
+    it('offers calendar writes for change requests, with list_events to find the event', () => {
+        const move = router.route('Move my 1:1 to Friday');
+
+        expect(router.route('Block 2-4pm Thursday for deck prep').toolNames).toEqual(['create_event']);
+        expect(move.toolNames).toEqual(['list_events', 'update_event']);
+        expect(move.decisions.find((d) => d.toolName === 'list_events')?.reasons).toEqual(['needed by update_event']);
+        expect(router.route('Cancel the design review meeting').toolNames).toEqual(['list_events', 'delete_event']);
+        expect(router.route('cancel that').toolNames).toEqual([]);
+    });
+
+    it('routes follow-ups to recently used tools', () => {
+        const result = router.route('the cheaper one please', {
+            recentTools: [{ toolName: 'search_flights', turn: 2 }],
+            currentTurn: 3,
+        });
+
+        expect(result.toolNames).toEqual(['search_flights']);
+    });
+
+    it('ignores tool use outside the recent window', () => {
+        const result = router.route('the cheaper one please', {
+            recentTools: [{ toolName: 'search_flights', turn: 1 }],
+            currentTurn: 9,
+        });
+
+        expect(result.toolNames).toEqual([]);
+    });
+
+    it('uses intent and the active workflow', () => {
+        const result = router.route('Paris next month', {
+            intent: { workflow: 'travel', confidence: 0.8, entities: {} },
+            activeWorkflow: { type: 'travel', status: 'pending' },
+        });
+
+        expect(result.toolNames).toEqual(['search_flights']);
+        expect(result.decisions[0].reasons).toEqual(['intent travel (0.8)', 'active travel workflow (pending)']);
+    });
+
+    it('records why tools were excluded', () => {
+        const result = router.route('Thanks!', { intent: { workflow: 'travel', confidence: 0.3, entities: {} } });
+
+        expect(result.toolNames).toEqual([]);
+        expect(result.decisions[0].reasons).toEqual([
+            'no keyword match',
+            'intent travel below confidence threshold (0.3)',
+            'active workflow none',
+            'not used recently',
+        ]);
+    });
+});
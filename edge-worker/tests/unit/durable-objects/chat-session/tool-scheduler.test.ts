@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ToolScheduler, ToolTimeoutError } from '../../../../src/durable-objects/chat-session/tool-scheduler';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ToolScheduler', () => {
+    it('returns outcomes in call order even when calls finish out of order', async () => {
+        const scheduler = new ToolScheduler({ maxConcurrency: 3, defaultTimeoutMs: 1000, toolTimeoutsMs: {} });
+        const calls = [
+            { id: 'a', name: 'slow', wait: 30 },
+            { id: 'b', name: 'fast', wait: 1 },
+            { id: 'c', name: 'medium', wait: 10 },
+        ];
+        const settled: string[] = [];
+
+        const outcomes = await scheduler.runAll(
+            calls,
+            async (call) => {
+                await delay(call.wait);
+                return call.id;
+            },
+            (call) => settled.push(call.id),
+        );
+
+        expect(settled).toEqual(['b', 'c', 'a']);
+        expect(outcomes.map((o) => (o.status === 'fulfilled' ? o.value : null))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('never runs more than maxConcurrency calls at once', async () => {
+        const scheduler = new ToolScheduler({ maxConcurrency: 2, defaultTimeoutMs: 1000, toolTimeoutsMs: {} });
+        let inFlight = 0;
+        let peak = 0;
+
+        await scheduler.runAll(
+            Array.from({ length: 5 }, (_, i) => ({ id: String(i), name: 'tool' })),
+            async () => {
+                inFlight += 1;
+                peak = Math.max(peak, inFlight);
+                await delay(5);
+                inFlight -= 1;
+            },
+        );
+
+        expect(peak).toBe(2);
+    });
+
+    it('reports a timeout for calls past their per-tool deadline', async () => {
+        const scheduler = new ToolScheduler({ maxConcurrency: 2, defaultTimeoutMs: 1000, toolTimeoutsMs: { search_flights: 10 } });
+
+        const [outcome] = await scheduler.runAll([{ id: '1', name: 'search_flights' }], async () => {
+            await delay(50);
+            return 'late';
+        });
+
+        expect(outcome.status).toBe('timeout');
+        expect(outcome.status !== 'fulfilled' && outcome.error.message).toContain('search_flights timed out after 10ms');
+    });
+
+    it('aborts the signal of a call that times out', async () => {
+        const scheduler = new ToolScheduler({ maxConcurrency: 2, defaultTimeoutMs: 1000, toolTimeoutsMs: { search_flights: 10 } });
+        let callSignal: AbortSignal | undefined;
+
+        const [outcome] = await scheduler.runAll([{ id: '1', name: 'search_flights' }], async (_call, signal) => {
+            callSignal = signal;
+            await delay(50);
+            return 'late';
+        });
+
+        expect(outcome.status).toBe('timeout');
+        expect(callSignal?.aborted).toBe(true);
+        expect(callSignal?.reason).toBeInstanceOf(ToolTimeoutError);
+    });
+
+    it('reports failures without rejecting the batch', async () => {
+        const scheduler = new ToolScheduler();
+
+        const outcomes = await scheduler.runAll([{ id: '1', name: 'list_events' }, { id: '2', name: 'list_events' }], async (call) => {
+            if (call.id === '1') throw new Error('boom');
+            return 'ok';
+        });
+
+        expect(outcomes.map((o) => o.status)).toEqual(['failed', 'fulfilled']);
+    });
+
+    it('cancels in-flight calls and skips queued ones when the signal aborts', async () => {
+        const scheduler = new ToolScheduler({ maxConcurrency: 1, defaultTimeoutMs: 1000, toolTimeoutsMs: {} });
+        const controller = new AbortController();
+        const started: string[] = [];
+        const callSignals: AbortSignal[] = [];
+
+        const pending = scheduler.runAll(
+            [{ id: '1', name: 'search_flights' }, { id: '2', name: 'list_events' }],
+            async (call, signal) => {
+                started.push(call.id);
+                callSignals.push(signal);
+                await delay(50);
+                return 'late';
+            },
+            undefined,
+            controller.signal,
+        );
+        controller.abort();
+        const outcomes = await pending;
+
+        expect(outcomes.map((o) => o.status)).toEqual(['cancelled', 'cancelled']);
+        expect(started).toEqual(['1']);
+        expect(callSignals.map((signal) => signal.aborted)).toEqual([true]);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { D1ProceduralMemoryRepository } from '@/infrastructure/memory/D1ProceduralMemoryRepository';
+import { createTestD1 } from '../../../harness/conversation-harness';
+import type { WorkerEnv } from '@/env';
+
+describe('D1ProceduralMemoryRepository workflow runs', () => {
+    let db: WorkerEnv['DB'];
+    let dispose: () => Promise<void>;
+    let repository: D1ProceduralMemoryRepository;
+
+    const start = (id: string, startedAt: string) =>
+        repository.startWorkflowRun({
+            id,
+            workflowId: 'wf-1',
+            userId: 'user-1',
+            workflowName: 'Monday briefing',
+            triggerType: 'scheduled',
+            triggerDetail: '0 8 * * 1',
+            startedAt: new Date(startedAt),
+        });
+
+    beforeAll(async () => {
+        ({ db, dispose } = await createTestD1());
+        repository = new D1ProceduralMemoryRepository(db);
+    });
+
+    afterAll(async () => {
+        await dispose();
+    });
+
+    it('should only let a repeated trigger take over a failed run or one whose lease ran out', async () => {
+        expect(await start('wf-1@tick-1', '2026-10-19T08:00:00Z')).toBe(true);
+        expect(await start('wf-1@tick-1', '2026-10-19T08:05:00Z')).toBe(false);
+        expect(await start('wf-1@tick-1', '2026-10-19T08:20:00Z')).toBe(true);
+
+        await repository.finishWorkflowRun('wf-1@tick-1', { status: 'failed', steps: [], error: 'boom' });
+        expect(await start('wf-1@tick-1', '2026-10-19T08:21:00Z')).toBe(true);
+        const [retried] = await repository.listWorkflowRuns('user-1');
+        expect(retried).toMatchObject({ status: 'running', error: undefined, startedAt: new Date('2026-10-19T08:21:00Z') });
+
+        await repository.finishWorkflowRun('wf-1@tick-1', { status: 'succeeded', summary: 'done', steps: [] });
+        expect(await start('wf-1@tick-1', '2026-10-20T08:00:00Z')).toBe(false);
+        expect(await repository.listWorkflowRuns('user-1')).toMatchObject([{ status: 'succeeded', summary: 'done' }]);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { ToolExecutor, ToolRegistry } from '../../src/tools';
+import { getToolByName } from '../../src/tools/catalog';
+import type { WorkerEnv } from '../../src/env';
+
+function createKV() {
+    const values = new Map<string, string>();
+    return {
+        get: async (key: string) => values.get(key) ?? null,
+        put: async (key: string, value: string) => {
+            values.set(key, value);
+        },
+    };
+}
+
+describe('ToolExecutor cache', () => {
+    it('serves list_events from cache until a calendar write makes it stale', async () => {
+        let listCalls = 0;
+        const registry = new ToolRegistry([
+            { ...getToolByName('list_events')!, handler: async () => ({ status: 'success', data: [{ id: `evt-${++listCalls}` }] }) },
+            { ...getToolByName('create_event')!, handler: async () => ({ status: 'success', data: { id: 'evt-new' } }) },
+        ]);
+        const executor = new ToolExecutor(registry, { IDEMPOTENCY_KV: createKV() } as unknown as WorkerEnv, 'corr-1');
+        const range = { timeMin: '2026-11-19', timeMax: '2026-11-20' };
+        const list = () => executor.execute('google-calendar-mcp::list-events', range, () => {});
+
+        expect(await list()).toMatchObject({ data: [{ id: 'evt-1' }] });
+        expect(await list()).toMatchObject({ data: [{ id: 'evt-1' }] });
+
+        await executor.execute(
+            'google-calendar-mcp::create-event',
+            { summary: 'Deck prep', start: '2026-11-19T14:00:00Z', end: '2026-11-19T16:00:00Z' },
+            () => {},
+        );
+
+        expect(await list()).toMatchObject({ data: [{ id: 'evt-2' }] });
+        expect(listCalls).toBe(2);
+    });
+});
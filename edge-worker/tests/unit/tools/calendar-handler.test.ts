@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { createEvent, deleteEvent, describeCreateEvent, describeUpdateEvent, listEvents, updateEvent } from '@/tools/calendar-handler';
+import { FixtureCalendarAdapter } from '@/adapters/mcp/fixture-calendar.adapter';
+import { CalendarNotConfiguredError, createCalendarPort, selectCalendarProvider } from '@/adapters/mcp/calendar-provider';
+import { CalendarEvent } from '@/domain/calendar/entities/calendar-event.entity';
+import { CalendarEventInput, CalendarEventQuery, ICalendarPort } from '@/domain/calendar/ports/calendar.port';
+import { Logger } from '@/observability/logger';
+import { WorkerEnv } from '@/env';
+
+const env = {} as any;
+const range = { timeMin: '2026-10-19T13:00:00Z', timeMax: '2026-10-22T00:00:00Z' };
+
+function event(id: string, start: string, hours: number, updated: string, extra: Partial<CalendarEvent['metadata']> = {}): CalendarEvent {
+    const startTime = new Date(start);
+    return CalendarEvent.reconstitute(id, id, startTime, new Date(startTime.getTime() + hours * 3_600_000), {
+        externalId: id,
+        calendarProvider: 'google',
+        updated,
+        ...extra,
+    });
+}
+
+/**
+ * Provider that ignores ordering and limits, to check the tool applies them; writes are recorded
+ */
+function calendar(events: CalendarEvent[]) {
+    const queries: CalendarEventQuery[] = [];
+    const writes: Array<{ op: string; eventId?: string; input?: CalendarEventInput }> = [];
+    const port: ICalendarPort = {
+        syncEvents: async () => events,
+        createEvent: async (_userId, input) => {
+            writes.push({ op: 'create', input });
+            return events[0];
+        },
+        updateEvent: async (_userId, eventId, input) => {
+            writes.push({ op: 'update', eventId, input });
+            return events[0];
+        },
+        deleteEvent: async (_userId, eventId) => {
+            writes.push({ op: 'delete', eventId });
+        },
+        listEvents: async (query) => {
+            queries.push(query);
+            return events;
+        },
+    };
+    return { port, queries, writes };
+}
+
+describe('list_events handler', () => {
+    it('passes the query to the calendar port and honours orderBy and maxResults', async () => {
+        const { port, queries } = calendar([
+            event('late', '2026-10-21T09:00:00Z', 1, '2026-10-01T00:00:00Z'),
+            event('early', '2026-10-19T15:00:00Z', 1, '2026-10-03T00:00:00Z'),
+            event('middle', '2026-10-20T09:00:00Z', 1, '2026-10-02T00:00:00Z'),
+        ]);
+
+        const byStart = (await listEvents({ ...range, singleEvents: true, orderBy: 'startTime', maxResults: 2 }, env, port)) as any;
+        const byUpdate = (await listEvents({ ...range }, env, port)) as any;
+
+        expect(queries[0]).toEqual({
+            calendarId: 'primary',
+            timeMin: new Date(range.timeMin),
+            timeMax: new Date(range.timeMax),
+            maxResults: 2,
+            singleEvents: true,
+            orderBy: 'startTime',
+        });
+        expect(byStart.data.map((e: any) => e.id)).toEqual(['early', 'middle']);
+        expect(byStart.meta).toMatchObject({ count: 2, truncated: true, singleEvents: true, orderBy: 'startTime' });
+        expect(byUpdate.data.map((e: any) => e.id)).toEqual(['late', 'middle', 'early']);
+    });
+
+    it('returns all-day and recurring events in the Google Calendar shape', async () => {
+        const { port } = calendar([
+            event('offsite', '2026-10-20T00:00:00Z', 48, '2026-10-01T00:00:00Z', { allDay: true }),
+            event('standup', '2026-10-19T13:00:00Z', 0.25, '2026-10-01T00:00:00Z', { recurrence: ['RRULE:FREQ=DAILY'], timeZone: 'America/New_York' }),
+        ]);
+
+        const result = (await listEvents(range, env, port)) as any;
+
+        expect(result.data[0]).toMatchObject({ id: 'offsite', allDay: true, start: { date: '2026-10-20' }, end: { date: '2026-10-22' } });
+        expect(result.data[1]).toMatchObject({
+            id: 'standup',
+            recurrence: ['RRULE:FREQ=DAILY'],
+            start: { dateTime: '2026-10-19T13:00:00.000Z', timeZone: 'America/New_York' },
+        });
+    });
+
+    it('rejects orderBy startTime without singleEvents, like the Google API', async () => {
+        const { port, queries } = calendar([]);
+
+        await expect(listEvents({ ...range, orderBy: 'startTime' }, env, port)).rejects.toThrow('orderBy "startTime" requires singleEvents: true');
+        expect(queries).toEqual([]);
+    });
+
+    it('lists the fixture standup once as a series or once per day as instances', async () => {
+        const fixture = new FixtureCalendarAdapter(() => new Date('2026-10-19T00:00:00Z'));
+
+        const series = (await listEvents(range, env, fixture)) as any;
+        const instances = (await listEvents({ ...range, singleEvents: true, orderBy: 'startTime' }, env, fixture)) as any;
+
+        expect(series.data.map((e: any) => e.summary)).toEqual(['Team Standup', 'Q1 Planning Meeting']);
+        expect(series.data[0].recurrence).toEqual(['RRULE:FREQ=DAILY']);
+        expect(instances.data.map((e: any) => e.start.dateTime)).toEqual([
+            '2026-10-19T13:00:00.000Z',
+            '2026-10-19T17:00:00.000Z',
+            '2026-10-20T13:00:00.000Z',
+            '2026-10-21T13:00:00.000Z',
+        ]);
+        expect(instances.data[0].recurringEventId).toBe('evt_stub_001');
+    });
+
+    it('selects the calendar provider from config', () => {
+        expect(selectCalendarProvider({})).toBeNull();
+        expect(selectCalendarProvider({ GOOGLE_CALENDAR_MCP_URL: 'https://mcp.example.com' })).toBe('google');
+        expect(selectCalendarProvider({ GOOGLE_CALENDAR_MCP_URL: 'https://mcp.example.com', CALENDAR_PROVIDER: 'fixture' })).toBe('fixture');
+        expect(() => selectCalendarProvider({ CALENDAR_PROVIDER: 'google' })).toThrow('requires GOOGLE_CALENDAR_MCP_URL');
+        expect(() => selectCalendarProvider({ CALENDAR_PROVIDER: 'outlook' })).toThrow('Unknown CALENDAR_PROVIDER');
+    });
+
+    it('reports a missing calendar instead of falling back to demo events', async () => {
+        const unconfigured = createCalendarPort({} as WorkerEnv, new Logger('test'));
+
+        await expect(listEvents(range, env, unconfigured)).rejects.toThrow(CalendarNotConfiguredError);
+        const write = { title: 'Deck prep', start: '2026-10-22T14:00:00Z', end: '2026-10-22T16:00:00Z' };
+        await expect(createEvent(write, env, unconfigured)).rejects.toThrow('Calendar not configured');
+    });
+});
+
+describe('calendar write handlers', () => {
+    const created = event('evt_new', '2026-10-22T14:00:00Z', 2, '2026-10-19T00:00:00Z');
+
+    it('creates an event from the tool arguments and describes it for confirmation', async () => {
+        const { port, writes } = calendar([created]);
+        const args = {
+            summary: 'Deck prep',
+            start: '2026-10-22T14:00:00Z',
+            end: '2026-10-22T16:00:00Z',
+            location: 'Room 4',
+            attendees: 'ana@example.com, li@example.com',
+        };
+
+        const result = (await createEvent(args, env, port)) as any;
+
+        expect(writes[0].input).toEqual({
+            title: 'Deck prep',
+            description: undefined,
+            startTime: new Date('2026-10-22T14:00:00Z'),
+            endTime: new Date('2026-10-22T16:00:00Z'),
+            metadata: { location: 'Room 4', participants: ['ana@example.com', 'li@example.com'] },
+        });
+        expect(result).toMatchObject({ status: 'success', data: { id: 'evt_new', start: { dateTime: '2026-10-22T14:00:00.000Z' } } });
+        expect(describeCreateEvent(args)).toBe('Create "Deck prep" on 2026-10-22 14:00–16:00 UTC at Room 4');
+    });
+
+    it('moves an event only with both ends and refuses updates that change nothing', async () => {
+        const { port, writes } = calendar([created]);
+        const move = { eventId: 'evt_1on1', start: '2026-10-23T10:00:00Z', end: '2026-10-23T10:30:00Z' };
+
+        await expect(updateEvent({ eventId: 'evt_1on1', start: '2026-10-23T10:00:00Z' }, env, port)).rejects.toThrow(
+            'start and end must be given together',
+        );
+        await expect(updateEvent({ eventId: 'evt_1on1' }, env, port)).rejects.toThrow('Nothing to change');
+        await updateEvent(move, env, port);
+        const deleted = (await deleteEvent({ eventId: 'evt_old' }, env, port)) as any;
+
+        expect(writes.map((w) => [w.op, w.eventId])).toEqual([
+            ['update', 'evt_1on1'],
+            ['delete', 'evt_old'],
+        ]);
+        expect(describeUpdateEvent(move)).toBe('Update event evt_1on1: move it to 2026-10-23 10:00–10:30 UTC');
+        expect(deleted).toEqual({ status: 'success', data: { id: 'evt_old', deleted: true } });
+    });
+
+    it('reads local times in the user time zone and shows the change in it', async () => {
+        const { port, writes } = calendar([created]);
+        const args = { summary: 'Deck prep', start: '2026-11-19T14:00:00', end: '2026-11-19T16:00:00', timeZone: 'America/New_York' };
+
+        await createEvent(args, env, port);
+        await expect(updateEvent({ eventId: 'evt_1on1', timeZone: 'America/New_York' }, env, port)).rejects.toThrow('Nothing to change');
+
+        expect(writes[0].input).toMatchObject({
+            startTime: new Date('2026-11-19T19:00:00Z'),
+            endTime: new Date('2026-11-19T21:00:00Z'),
+            metadata: { timeZone: 'America/New_York' },
+        });
+        expect(describeCreateEvent(args)).toBe('Create "Deck prep" on 2026-11-19 14:00–16:00 America/New_York');
+        expect(describeUpdateEvent({ eventId: 'evt_red_eye', start: '2026-11-19T23:00:00Z', end: '2026-11-20T07:00:00Z', timeZone: 'Europe/Lisbon' })).toBe(
+            'Update event evt_red_eye: move it to 2026-11-19 23:00 Europe/Lisbon – 2026-11-20 07:00 Europe/Lisbon',
+        );
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildToolCacheKey, getToolByName, toLLMToolSchema, validateToolArguments } from '../../../src/tools/catalog';
+
+const searchFlights = getToolByName('search_flights')!;
+const listEvents = getToolByName('list_events')!;
+
+describe('Tool catalog', () => {
+    it('builds the LLM schema from canonical parameter names', () => {
+        const schema = toLLMToolSchema(searchFlights);
+
+        expect(schema.name).toBe('search_flights');
+        expect(schema.parameters.required).toEqual(['origin', 'destination', 'departure_date']);
+        expect(schema.parameters.properties.cabin_class.enum).toContain('business');
+    });
+
+    it('maps camelCase and aliased arguments to canonical names and applies defaults', () => {
+        const result = validateToolArguments(searchFlights, {
+            origin: 'jfk',
+            destination: 'LAX',
+            departureDate: '2025-05-15',
+            passengers: '2',
+        });
+
+        expect(result).toEqual({
+            valid: true,
+            args: {
+                origin: 'JFK',
+                destination: 'LAX',
+                departure_date: '2025-05-15',
+                adults: 2,
+                cabin_class: 'economy',
+                max_connections: 2,
+            },
+        });
+    });
+
+    it('reports schema errors the model can act on', () => {
+        const result = validateToolArguments(searchFlights, { origin: 'New York', departure_date: '15/05/2025', cabin_class: 'luxury' });
+
+        expect(result.valid).toBe(false);
+        if (result.valid) return;
+        expect(result.errors).toEqual([
+            'origin: "New York" matches several airports (JFK (John F. Kennedy International, New York, NY), LGA (LaGuardia, New York, NY), EWR (Newark Liberty International, Newark, NJ)); ask the user which one they mean',
+            'departure_date: expected a date in YYYY-MM-DD format, got "15/05/2025"',
+            'cabin_class: must be one of economy, premium_economy, business, first, got "luxury"',
+            'destination: required (Destination IATA airport or metro code (e.g., CDG, LON))',
+        ]);
+    });
+
+    it('accepts only IANA time zones for calendar writes', () => {
+        const createEvent = getToolByName('create_event')!;
+        const args = { summary: 'Deck prep', start: '2026-11-19T14:00:00', end: '2026-11-19T16:00:00' };
+
+        expect(validateToolArguments(createEvent, { ...args, timezone: 'America/New_York' })).toMatchObject({ valid: true, args: { timeZone: 'America/New_York' } });
+        expect(validateToolArguments(createEvent, { ...args, timeZone: 'Eastern' })).toEqual({
+            valid: false,
+            errors: ['timeZone: expected an IANA time zone such as Europe/Lisbon, got "Eastern"'],
+        });
+    });
+
+    it('resolves city names and metro codes to searchable codes', () => {
+        const result = validateToolArguments(searchFlights, { origin: 'San Fransisco', destination: 'NYC', departure_date: '2025-05-15' });
+
+        expect(result.valid).toBe(true);
+        if (!result.valid) return;
+        expect(result.args.origin).toBe('SFO');
+        expect(result.args.destination).toBe('NYC');
+    });
+
+    it('accepts the date-range names models use for list_events', () => {
+        const result = validateToolArguments(listEvents, { startDate: '2025-05-15', endDate: '2025-05-16' });
+
+        expect(result.valid).toBe(true);
+        if (!result.valid) return;
+        expect(result.args.timeMin).toBe('2025-05-15');
+        expect(result.args.timeMax).toBe('2025-05-16');
+        expect(result.args.calendarId).toBe('primary');
+    });
+
+    it('builds cache keys from validated arguments', () => {
+        const result = validateToolArguments(searchFlights, { origin: 'SFO', destination: 'CDG', departure_date: '2025-05-10' });
+        if (!result.valid) throw new Error('expected valid arguments');
+
+        expect(buildToolCacheKey(searchFlights, result.args)).toBe('flights:SFO:CDG:2025-05-10::1:economy');
+    });
+});
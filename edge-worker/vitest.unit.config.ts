@@ -6,6 +6,8 @@ export default defineConfig({
         include: ['tests/unit/**/*.test.ts', 'tests/prompts/**/*.test.ts'],
         alias: {
             '@': path.resolve(__dirname, './src'),
+            // Workers runtime module; the conversation harness runs ChatSessionDO under Node
+            'cloudflare:workers': path.resolve(__dirname, './tests/harness/cloudflare-workers.ts'),
         },
     },
 });
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type {
+  MemoryPreference,
+  MemoryProfile,
+  MemoryProfileUpdate,
+} from "@/domain/ports/IMemoryRepository";
+import { MemoryApiAdapter } from "@/infrastructure/api/MemoryApiAdapter";
+
+/**
+ * Profile and inferred preferences for the settings page
+ */
+export function useMemorySettings(baseUrl: string) {
+  const repository = useMemo(() => new MemoryApiAdapter(baseUrl), [baseUrl]);
+  const [profile, setProfile] = useState<MemoryProfile | null>(null);
+  const [inferred, setInferred] = useState<MemoryPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [loadedProfile, preferences] = await Promise.all([
+        repository.getProfile(),
+        repository.listPreferences("inferred"),
+      ]);
+      setProfile(loadedProfile);
+      setInferred(preferences);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const saveProfile = useCallback(
+    async (update: MemoryProfileUpdate) => {
+      setError(null);
+      try {
+        setProfile(await repository.updateProfile(update));
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+    },
+    [repository],
+  );
+
+  // Confirmed preferences become explicit and leave the inferred list
+  const confirmPreference = useCallback(
+    async (preference: MemoryPreference) => {
+      setError(null);
+      try {
+        await repository.confirmPreference(preference);
+        setInferred((prev) => prev.filter((p) => p !== preference));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [repository],
+  );
+
+  const forgetPreference = useCallback(
+    async (preference: MemoryPreference) => {
+      setError(null);
+      try {
+        await repository.deletePreference(preference.category, preference.key);
+        setInferred((prev) => prev.filter((p) => p !== preference));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [repository],
+  );
+
+  return {
+    profile,
+    inferred,
+    loading,
+    error,
+    saveProfile,
+    confirmPreference,
+    forgetPreference,
+    reload: load,
+  };
+}
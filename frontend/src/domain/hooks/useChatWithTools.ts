@@ -4,6 +4,7 @@ import type { MessageEntity } from "../entities/Message";
 interface ToolState {
   type: "thinking" | "tool_start" | "tool_result" | "tool_error";
   toolName?: string;
+  toolLabel?: string;
   message?: string;
   error?: string;
   data?: unknown;
@@ -107,6 +108,7 @@ export function useChatWithTools(conversationId: string, apiBase: string = "/api
               { role: "user", content: content.trim() },
             ],
             stream: true,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           }),
         });
 
@@ -160,7 +162,7 @@ export function useChatWithTools(conversationId: string, apiBase: string = "/api
                 // Tool execution started
                 setToolStates((prev) => [
                   ...prev,
-                  { type: "tool_start", toolName: event.toolName },
+                  { type: "tool_start", toolName: event.toolName, toolLabel: event.toolLabel },
                 ]);
               } else if (event.type === "tool_result") {
                 // Tool execution successful
@@ -169,6 +171,7 @@ export function useChatWithTools(conversationId: string, apiBase: string = "/api
                   {
                     type: "tool_result",
                     toolName: event.result?.toolName,
+                    toolLabel: event.result?.toolLabel,
                     data: event.result?.data,
                   },
                 ]);
@@ -179,6 +182,7 @@ export function useChatWithTools(conversationId: string, apiBase: string = "/api
                   {
                     type: "tool_error",
                     toolName: event.toolName,
+                    toolLabel: event.toolLabel,
                     error: event.error,
                   },
                 ]);
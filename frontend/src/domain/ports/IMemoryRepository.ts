@@ -0,0 +1,36 @@
+export type SeatPreference = "window" | "aisle" | "middle";
+
+export interface MemoryProfile {
+  homeAirport?: string;
+  preferredSeat?: SeatPreference;
+  budgetDomesticUsd?: number;
+  budgetInternationalUsd?: number;
+  updatedAt: string;
+}
+
+// null clears a stored field
+export type MemoryProfileUpdate = {
+  [K in keyof Omit<MemoryProfile, "updatedAt">]?: MemoryProfile[K] | null;
+};
+
+export interface MemoryPreference {
+  category: "airline" | "hotel" | "travel" | "task";
+  key: string;
+  value: string;
+  confidence: number;
+  source: "explicit" | "inferred";
+  updatedAt: string;
+}
+
+/**
+ * What the assistant remembers about the user (edge-worker /api/memory)
+ */
+export interface IMemoryRepository {
+  getProfile(): Promise<MemoryProfile>;
+  updateProfile(update: MemoryProfileUpdate): Promise<MemoryProfile>;
+  listPreferences(
+    source?: MemoryPreference["source"],
+  ): Promise<MemoryPreference[]>;
+  confirmPreference(preference: MemoryPreference): Promise<void>;
+  deletePreference(category: string, key: string): Promise<void>;
+}
@@ -19,6 +19,7 @@ export class CloudflareChatAdapter implements IChatService {
         messages: [{ role: "user", content: message }],
         stream: true,
         conversation_id: conversationId,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       }),
     });
 
@@ -0,0 +1,119 @@
+import type {
+  IMemoryRepository,
+  MemoryPreference,
+  MemoryProfile,
+  MemoryProfileUpdate,
+} from "@/domain/ports/IMemoryRepository";
+
+/**
+ * Reads and corrects the assistant's memory through the backend API
+ */
+export class MemoryApiAdapter implements IMemoryRepository {
+  constructor(private readonly baseUrl: string) {}
+
+  async getProfile(): Promise<MemoryProfile> {
+    const response = await fetch(`${this.baseUrl}/api/memory/profile`, {
+      headers: {
+        "X-Test-Bypass-Auth": "true", // TODO: Replace with real auth
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch profile: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { profile: MemoryProfile };
+    return data.profile;
+  }
+
+  async updateProfile(update: MemoryProfileUpdate): Promise<MemoryProfile> {
+    const response = await fetch(`${this.baseUrl}/api/memory/profile`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Test-Bypass-Auth": "true",
+      },
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        await this.errorMessage(response, "Failed to save profile"),
+      );
+    }
+
+    const data = (await response.json()) as { profile: MemoryProfile };
+    return data.profile;
+  }
+
+  async listPreferences(
+    source?: MemoryPreference["source"],
+  ): Promise<MemoryPreference[]> {
+    const query = source ? `?source=${source}` : "";
+    const response = await fetch(
+      `${this.baseUrl}/api/memory/preferences${query}`,
+      {
+        headers: {
+          "X-Test-Bypass-Auth": "true",
+        },
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch preferences: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      preferences: MemoryPreference[];
+    };
+    return data.preferences || [];
+  }
+
+  async confirmPreference(preference: MemoryPreference): Promise<void> {
+    const response = await fetch(
+      this.preferenceUrl(preference.category, preference.key),
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Test-Bypass-Auth": "true",
+        },
+        body: JSON.stringify({ value: preference.value }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        await this.errorMessage(response, "Failed to confirm preference"),
+      );
+    }
+  }
+
+  async deletePreference(category: string, key: string): Promise<void> {
+    const response = await fetch(this.preferenceUrl(category, key), {
+      method: "DELETE",
+      headers: {
+        "X-Test-Bypass-Auth": "true",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete preference: ${response.statusText}`);
+    }
+  }
+
+  private preferenceUrl(category: string, key: string): string {
+    return `${this.baseUrl}/api/memory/preferences/${encodeURIComponent(category)}/${encodeURIComponent(key)}`;
+  }
+
+  // Validation errors carry a readable message in the error body
+  private async errorMessage(
+    response: Response,
+    fallback: string,
+  ): Promise<string> {
+    const body = (await response.json().catch(() => null)) as {
+      error?: { message?: string };
+    } | null;
+    return body?.error?.message || `${fallback}: ${response.statusText}`;
+  }
+}
@@ -59,6 +59,7 @@ interface StreamEvent {
 	error?: string;
 	message?: string;
 	toolName?: string;
+	toolLabel?: string;
 }
 
 async function streamAssistantResponse(
@@ -84,6 +85,7 @@ async function streamAssistantResponse(
 			],
 			stream: true,
 			conversation_id: conversationId,
+			timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
 		}),
 	});
 
@@ -130,13 +132,13 @@ async function streamAssistantResponse(
 					appendAssistantChunk(`\n🧠 ${event.message}\n`);
 				} else if (event.type === "tool_start" && event.toolName) {
 					// Show tool execution start
-					appendAssistantChunk(`\n⚡ ${event.toolName} - Executing…\n`);
+					appendAssistantChunk(`\n⚡ ${event.toolLabel ?? event.toolName} - Executing…\n`);
 				} else if (event.type === "tool_result" && event.toolName) {
 					// Show tool completed
 					appendAssistantChunk(`✓ ${event.toolName} - Complete\n`);
 				} else if (event.type === "tool_error" && event.toolName && event.error) {
 					// Show tool error
-					appendAssistantChunk(`✗ ${event.toolName} - Failed: ${event.error}\n`);
+					appendAssistantChunk(`✗ ${event.toolLabel ?? event.toolName} - Failed: ${event.error}\n`);
 				} else if (event.type === "error" && typeof event.error === "string") {
 					appendAssistantChunk(`\n[error] ${event.error}`);
 				}
@@ -3,7 +3,8 @@ import { useConversationHistory } from "@/domain/hooks/useConversationHistory";
 import { useChatWithTools } from "@/domain/hooks/useChatWithTools";
 import { ConversationEntity } from "@/domain/entities/Conversation";
 import { MessageListWithTools } from "./MessageListWithTools";
-import { Menu, X, Plus, Send, AlertCircle } from "lucide-react";
+import { Link } from "@tanstack/react-router";
+import { Menu, X, Plus, Send, AlertCircle, Settings } from "lucide-react";
 
 export function ChatWithSidebar({ apiBase = "/api" }: { apiBase?: string }) {
 	const [sidebarOpen, setSidebarOpen] = React.useState(true);
@@ -223,9 +224,18 @@ export function ChatWithSidebar({ apiBase = "/api" }: { apiBase?: string }) {
 								<p className="text-xs text-slate-400 mt-1">With Real-Time Tool Execution</p>
 							</div>
 						</div>
-						{activeConversationId && (
-							<div className="text-xs text-slate-500">ID: {activeConversationId.slice(0, 8)}</div>
-						)}
+						<div className="flex items-center gap-4">
+							{activeConversationId && (
+								<div className="text-xs text-slate-500">ID: {activeConversationId.slice(0, 8)}</div>
+							)}
+							<Link
+								to="/settings"
+								className="p-2 rounded hover:bg-slate-800 text-slate-400 hover:text-slate-200 transition-colors"
+								title="Settings"
+							>
+								<Settings className="w-5 h-5" />
+							</Link>
+						</div>
 					</div>
 				</header>
 
@@ -6,6 +6,7 @@ export interface ToolState {
 	id: string;
 	type: "thinking" | "tool_start" | "tool_result" | "tool_error";
 	name?: string;
+	label?: string; // Display label from the backend tool catalog
 	content?: unknown;
 }
 
@@ -32,22 +33,17 @@ function ThinkingIndicator({ message }: { message?: string }) {
 
 function ToolExecutionCard({
 	toolName,
+	label,
 	status,
 	error,
 	data,
 }: {
 	toolName: string;
+	label?: string;
 	status: "executing" | "success" | "error";
 	error?: string;
 	data?: unknown;
 }) {
-	const toolLabels: Record<string, string> = {
-		search_flights: "Flight Search",
-		list_events: "Calendar Query",
-	};
-
-	const label = toolLabels[toolName] || toolName;
-
 	return (
 		<div className="flex items-start gap-3 mb-3">
 			<div className="flex-shrink-0 w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center">
@@ -59,7 +55,7 @@ function ToolExecutionCard({
 				<div className="bg-slate-800 rounded-lg p-3">
 					<div className="flex items-center gap-2 mb-2">
 						<Zap className="w-4 h-4 text-blue-400" />
-						<p className="text-xs font-medium text-blue-300">{label}</p>
+						<p className="text-xs font-medium text-blue-300">{label || toolName}</p>
 						{status === "executing" && <span className="text-xs text-slate-400">Executing…</span>}
 						{status === "success" && <span className="text-xs text-green-400">Complete</span>}
 						{status === "error" && <span className="text-xs text-red-400">Failed</span>}
@@ -136,6 +132,7 @@ export function MessageListWithTools({
 									<ToolExecutionCard
 										key={`tool-${idx}`}
 										toolName={state.name || "unknown"}
+										label={state.label}
 										status="executing"
 									/>
 								);
@@ -146,6 +143,7 @@ export function MessageListWithTools({
 									<ToolExecutionCard
 										key={`tool-${idx}`}
 										toolName={state.name || "unknown"}
+										label={state.label}
 										status="success"
 										data={state.content}
 									/>
@@ -157,6 +155,7 @@ export function MessageListWithTools({
 									<ToolExecutionCard
 										key={`tool-${idx}`}
 										toolName={state.name || "unknown"}
+										label={state.label}
 										status="error"
 										error={state.content as string}
 									/>
@@ -0,0 +1,195 @@
+import * as React from "react";
+import { Link } from "@tanstack/react-router";
+import { AlertCircle, ArrowLeft, Check, Trash2 } from "lucide-react";
+import { useMemorySettings } from "@/application/hooks/useMemorySettings";
+import type { MemoryPreference, MemoryProfileUpdate, SeatPreference } from "@/domain/ports/IMemoryRepository";
+
+const SEATS: SeatPreference[] = ["window", "aisle", "middle"];
+
+interface ProfileForm {
+	homeAirport: string;
+	preferredSeat: SeatPreference | "";
+	budgetDomesticUsd: string;
+	budgetInternationalUsd: string;
+}
+
+const EMPTY_FORM: ProfileForm = { homeAirport: "", preferredSeat: "", budgetDomesticUsd: "", budgetInternationalUsd: "" };
+
+function describePreference(preference: MemoryPreference): string {
+	return `${preference.category} ${preference.key.replace(/_/g, " ")}`;
+}
+
+export function MemorySettings({ apiBase = "" }: { apiBase?: string }) {
+	const { profile, inferred, loading, error, saveProfile, confirmPreference, forgetPreference } = useMemorySettings(apiBase);
+	const [form, setForm] = React.useState<ProfileForm>(EMPTY_FORM);
+	const [saved, setSaved] = React.useState(false);
+
+	React.useEffect(() => {
+		if (!profile) return;
+		setForm({
+			homeAirport: profile.homeAirport ?? "",
+			preferredSeat: profile.preferredSeat ?? "",
+			budgetDomesticUsd: profile.budgetDomesticUsd?.toString() ?? "",
+			budgetInternationalUsd: profile.budgetInternationalUsd?.toString() ?? "",
+		});
+	}, [profile]);
+
+	const update = (field: keyof ProfileForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+		setSaved(false);
+		setForm((prev) => ({ ...prev, [field]: e.target.value }));
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		// An emptied field is sent as null, which clears it
+		const changes: MemoryProfileUpdate = {
+			homeAirport: form.homeAirport.trim() ? form.homeAirport.trim().toUpperCase() : null,
+			preferredSeat: form.preferredSeat || null,
+			budgetDomesticUsd: form.budgetDomesticUsd ? Number(form.budgetDomesticUsd) : null,
+			budgetInternationalUsd: form.budgetInternationalUsd ? Number(form.budgetInternationalUsd) : null,
+		};
+
+		setSaved(await saveProfile(changes));
+	};
+
+	const inputClass =
+		"w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-100 focus:outline-none focus:border-cyan-600";
+
+	return (
+		<div className="min-h-screen bg-slate-900 text-slate-50">
+			<div className="max-w-2xl mx-auto px-6 py-8 space-y-8">
+				<div className="flex items-center gap-3">
+					<Link to="/chat" className="p-1 rounded hover:bg-slate-800 text-slate-400 hover:text-slate-200" title="Back to chat">
+						<ArrowLeft className="w-5 h-5" />
+					</Link>
+					<h1 className="text-xl font-semibold">Settings</h1>
+				</div>
+
+				{error && (
+					<div className="flex items-center gap-2 rounded-lg border border-red-900 bg-red-900/20 px-4 py-3 text-sm text-red-300">
+						<AlertCircle className="w-4 h-4 flex-shrink-0" />
+						{error}
+					</div>
+				)}
+
+				{loading ? (
+					<div className="text-sm text-slate-500">Loading…</div>
+				) : (
+					<>
+						<section className="space-y-4">
+							<h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">Travel profile</h2>
+							<form onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+								<label className="space-y-1 text-sm text-slate-300">
+									<span>Home airport</span>
+									<input
+										type="text"
+										maxLength={3}
+										placeholder="e.g. PHL"
+										value={form.homeAirport}
+										onChange={update("homeAirport")}
+										className={`${inputClass} uppercase`}
+									/>
+								</label>
+								<label className="space-y-1 text-sm text-slate-300">
+									<span>Seat preference</span>
+									<select value={form.preferredSeat} onChange={update("preferredSeat")} className={inputClass}>
+										<option value="">No preference</option>
+										{SEATS.map((seat) => (
+											<option key={seat} value={seat}>
+												{seat[0].toUpperCase() + seat.slice(1)}
+											</option>
+										))}
+									</select>
+								</label>
+								<label className="space-y-1 text-sm text-slate-300">
+									<span>Domestic budget (USD)</span>
+									<input
+										type="number"
+										min={1}
+										value={form.budgetDomesticUsd}
+										onChange={update("budgetDomesticUsd")}
+										className={inputClass}
+									/>
+								</label>
+								<label className="space-y-1 text-sm text-slate-300">
+									<span>International budget (USD)</span>
+									<input
+										type="number"
+										min={1}
+										value={form.budgetInternationalUsd}
+										onChange={update("budgetInternationalUsd")}
+										className={inputClass}
+									/>
+								</label>
+								<div className="col-span-2 flex items-center gap-3">
+									<button
+										type="submit"
+										className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-sm font-medium transition-colors"
+									>
+										Save
+									</button>
+									{saved && <span className="text-sm text-cyan-400">Saved</span>}
+								</div>
+							</form>
+						</section>
+
+						<section className="space-y-4">
+							<div>
+								<h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wide">Learned preferences</h2>
+								<p className="mt-1 text-sm text-slate-500">
+									Picked up from your conversations. Confirm the ones that are right so they stop changing, or forget the
+									ones that are wrong.
+								</p>
+							</div>
+
+							{inferred.length === 0 ? (
+								<div className="text-sm text-slate-500">Nothing learned yet</div>
+							) : (
+								<ul className="space-y-2">
+									{inferred.map((preference) => (
+										<li
+											key={`${preference.category}:${preference.key}`}
+											className="flex items-center justify-between gap-4 rounded-lg border border-slate-800 bg-slate-800/40 px-4 py-3"
+										>
+											<div className="min-w-0">
+												<p className="text-sm font-medium text-slate-200">{preference.value}</p>
+												<p className="text-xs text-slate-500 capitalize">{describePreference(preference)}</p>
+											</div>
+											<div className="flex items-center gap-3">
+												<div className="w-24" title={`Confidence ${Math.round(preference.confidence * 100)}%`}>
+													<div className="h-1.5 rounded-full bg-slate-700">
+														<div
+															className="h-1.5 rounded-full bg-cyan-500"
+															style={{ width: `${Math.round(preference.confidence * 100)}%` }}
+														/>
+													</div>
+												</div>
+												<button
+													type="button"
+													onClick={() => confirmPreference(preference)}
+													className="p-1 rounded hover:bg-slate-700 text-slate-400 hover:text-cyan-400"
+													title="Confirm"
+												>
+													<Check className="w-4 h-4" />
+												</button>
+												<button
+													type="button"
+													onClick={() => forgetPreference(preference)}
+													className="p-1 rounded hover:bg-red-900/50 text-slate-400 hover:text-red-400"
+													title="Forget"
+												>
+													<Trash2 className="w-4 h-4" />
+												</button>
+											</div>
+										</li>
+									))}
+								</ul>
+							)}
+						</section>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,11 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { MemorySettings } from "@/presentation/components/settings/MemorySettings";
+
+function SettingsPageComponent() {
+	// Point directly to edge-worker (Nitro doesn't respect Vite proxy)
+	return <MemorySettings apiBase="http://127.0.0.1:8787" />;
+}
+
+export const Route = createFileRoute("/settings")({
+	component: SettingsPageComponent,
+});